@@ -0,0 +1,139 @@
+/**
+ * Vercel Serverless Function: Editorial Approval
+ *
+ * GET  /api/approvals?status=pending                         - review queue (default: pending)
+ * GET  /api/approvals?id=...                                 - single approval with history
+ * POST /api/approvals?id=...&action=approve    { actor, postDate?, note? }
+ * POST /api/approvals?id=...&action=reject     { actor, reason }
+ * POST /api/approvals?id=...&action=regenerate { actor, notes }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAIConfig } from '../lib/ai-writers';
+import {
+  approveDraft,
+  createApprovalStore,
+  isApprovalStatus,
+  regenerateDraft,
+  rejectDraft,
+} from '../lib/approvals';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import { notifyRunOutcome } from '../lib/notifier';
+import { createRunStore } from '../lib/run-history';
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  return typeof body[field] === 'string' && body[field] ? body[field] as string : undefined;
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET, POST')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const approvals = createApprovalStore();
+    const id = queryParam(req, 'id');
+
+    if (req.method === 'GET') {
+      if (id) {
+        const approval = await approvals.get(id);
+        if (!approval) {
+          throw new HttpError(404, `Approval not found: ${id}`);
+        }
+        return res.status(200).json({ success: true, approval });
+      }
+
+      const status = queryParam(req, 'status') || 'pending';
+      if (status !== 'all' && !isApprovalStatus(status)) {
+        throw new HttpError(400, `Unknown status: ${status}`);
+      }
+      const list = await approvals.list(status === 'all' ? undefined : status);
+      return res.status(200).json({ success: true, approvals: list, total: list.length });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!id) {
+      throw new HttpError(400, 'id query parameter is required');
+    }
+
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const actor = requireString(body, 'actor');
+    const action = queryParam(req, 'action');
+
+    switch (action) {
+      case 'approve': {
+        const approval = await approveDraft(id, {
+          actor,
+          postDate: optionalString(body, 'postDate'),
+          note: optionalString(body, 'note'),
+        }, { approvals });
+        return res.status(200).json({ success: true, approval });
+      }
+
+      case 'reject': {
+        const approval = await rejectDraft(id, { actor, reason: requireString(body, 'reason') }, { approvals });
+        return res.status(200).json({ success: true, approval });
+      }
+
+      case 'regenerate': {
+        const notes = requireString(body, 'notes');
+        const approval = await approvals.get(id);
+        if (!approval) {
+          throw new HttpError(404, `Approval not found: ${id}`);
+        }
+        const run = await createRunStore().get(approval.runId);
+        if (!run) {
+          throw new HttpError(404, `Run not found: ${approval.runId}`);
+        }
+
+        const { previous, approval: next, result } = await regenerateDraft(
+          id,
+          { actor, notes },
+          getAIConfig(),
+          { approvals, run }
+        );
+        await notifyRunOutcome(result);
+        return res.status(200).json({
+          success: true,
+          previous,
+          approval: next,
+          runId: result.runId,
+          article: {
+            title: result.article.title,
+            writer: result.article.writer,
+            wordCount: result.article.wordCount,
+            score: result.article.scores?.total ?? null,
+          },
+        });
+      }
+
+      default:
+        throw new HttpError(400, `Unknown action: ${action ?? '(none)'}`);
+    }
+  } catch (error) {
+    return sendError(res, error, 'Approvals');
+  }
+}
+
+// Regeneration runs the full writer pipeline
+export const config = {
+  maxDuration: 120,
+};
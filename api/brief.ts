@@ -0,0 +1,80 @@
+/**
+ * Vercel Serverless Function: Article Brief
+ *
+ * POST /api/brief  { topic, category, language?, keywords?, provider?, topicId? }
+ *   - full outline (keywords, sections, targetLength, brief) from a bare topic;
+ *     review and edit it, then send it to POST /api/generate as the body.
+ *     With topicId the brief is stored on that backlog topic, so the cron
+ *     generates from it.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAIConfig, hasEnabledProviders } from '../lib/ai-writers';
+import { buildBrief } from '../lib/brief-builder';
+import { getCategories, requireCategory } from '../lib/categories';
+import { handleCors, isAuthorized, sendError, HttpError } from '../lib/http';
+import { isLanguage } from '../lib/languages';
+import { createTopicStore } from '../lib/topic-store';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'POST')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    if (typeof body.topic !== 'string' || !body.topic.trim()) {
+      throw new HttpError(400, 'topic is required and must be a string');
+    }
+    const category = body.category === undefined ? getCategories()[0] : requireCategory(body.category);
+    if (body.language !== undefined && !isLanguage(body.language)) {
+      throw new HttpError(400, `Unknown language: ${String(body.language)} (supported: pl, en, de, cs)`);
+    }
+    if (body.keywords !== undefined && (!Array.isArray(body.keywords) || body.keywords.some(keyword => typeof keyword !== 'string'))) {
+      throw new HttpError(400, 'keywords must be an array of strings');
+    }
+
+    const config = getAIConfig();
+    if (!hasEnabledProviders(config)) {
+      throw new HttpError(500, 'No AI API keys configured');
+    }
+
+    // Fail before spending tokens when the topic does not exist
+    const topicId = typeof body.topicId === 'string' ? body.topicId : null;
+    const topics = createTopicStore();
+    if (topicId && !(await topics.get(topicId))) {
+      throw new HttpError(404, `Topic not found: ${topicId}`);
+    }
+
+    const brief = await buildBrief({
+      topic: body.topic.trim(),
+      category: category.id,
+      ...(body.language ? { language: body.language } : {}),
+      ...(body.keywords ? { keywords: body.keywords as string[] } : {}),
+    }, config, { provider: typeof body.provider === 'string' ? body.provider : undefined });
+
+    const topic = topicId
+      ? await topics.update(topicId, {
+        keywords: brief.outline.keywords,
+        sections: brief.outline.sections,
+        targetLength: brief.outline.targetLength,
+        brief: brief.outline.brief,
+      })
+      : null;
+
+    return res.status(200).json({ success: true, brief, topic });
+  } catch (error) {
+    return sendError(res, error, 'Brief');
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Vercel Serverless Function: Publication Calendar
+ *
+ * GET /api/calendar?count=10&category=&from=YYYY-MM-DD
+ *   - the next `count` planned cron publications (default 10, max 100) from
+ *     `from` (default: today in Europe/Warsaw), each with the topic it will
+ *     use if the backlog order does not change; plus publications dropped by
+ *     holidays or blackouts and, with catch-up, the ones still owed from
+ *     earlier days
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getCategories, getCategory, requireCategory } from '../lib/categories';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import {
+  addDays,
+  createCalendarStore,
+  getCalendarConfig,
+  getDuePublications,
+  holidayName,
+  isCalendarDate,
+  localDate,
+  planPublications,
+  weekdayName,
+  TIMEZONE,
+} from '../lib/publication-calendar';
+import { createTopicStore, type Topic } from '../lib/topic-store';
+
+const DEFAULT_COUNT = 10;
+const MAX_COUNT = 100;
+const HORIZON_DAYS = 366; // a category may publish rarely; stop looking after a year
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const countParam = queryParam(req, 'count');
+    const count = countParam ? parseInt(countParam, 10) : DEFAULT_COUNT;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_COUNT) {
+      throw new HttpError(400, `count must be between 1 and ${MAX_COUNT}`);
+    }
+
+    const today = localDate();
+    const from = queryParam(req, 'from') || today;
+    if (!isCalendarDate(from)) {
+      throw new HttpError(400, `from must be a date (YYYY-MM-DD), got: ${from}`);
+    }
+
+    const category = queryParam(req, 'category');
+    const categories = category ? [requireCategory(category)] : getCategories();
+    const config = getCalendarConfig();
+
+    const plan = planPublications(from, addDays(from, HORIZON_DAYS), categories, config);
+    const planned = plan.planned.slice(0, count);
+    const until = planned.length > 0 ? planned[planned.length - 1].date : from;
+
+    // Owed publications go first, so they take the first queued topics
+    const due = from === today
+      ? (await getDuePublications(today, createCalendarStore(), categories, config, { track: false }))
+        .filter(publication => publication.catchUp)
+      : [];
+
+    const topics = createTopicStore();
+    const queues = new Map<string, Topic[]>();
+    for (const entry of categories) {
+      queues.set(entry.id, await topics.list({ category: entry.id, status: 'queued' }));
+    }
+    const nextTopic = (categoryId: string) => {
+      const topic = queues.get(categoryId)?.shift();
+      return topic ? { id: topic.id, topic: topic.topic } : null;
+    };
+
+    const describe = <T extends { date: string; category: string }>(publication: T) => ({
+      ...publication,
+      weekday: weekdayName(publication.date),
+      categoryName: getCategory(publication.category)?.name ?? publication.category,
+    });
+
+    const missed = due.map(publication => ({ ...describe(publication), topic: nextTopic(publication.category) }));
+    const publications = planned.map(publication => ({
+      ...describe(publication),
+      ...(publication.shiftedFrom ? { holiday: holidayName(publication.shiftedFrom) } : {}),
+      topic: nextTopic(publication.category),
+    }));
+
+    return res.status(200).json({
+      success: true,
+      timezone: TIMEZONE,
+      today,
+      onHoliday: config.onHoliday,
+      catchUpDays: config.catchUpDays,
+      missed,
+      publications,
+      skipped: plan.skipped.filter(entry => entry.date <= until).map(describe),
+    });
+  } catch (error) {
+    return sendError(res, error, 'Calendar');
+  }
+}
@@ -3,48 +3,119 @@
  * POST /api/generate
  * 
  * Generates SEO-optimized articles using multiple AI models in parallel
+ *
+ * Async mode: POST /api/generate?async=1 (or { "async": true, "callbackUrl": "..." })
+ * answers 202 with a job ID at once; poll GET /api/jobs/:id or wait for the callback
+ *
+ * Streaming mode: POST /api/generate?stream=1 (or Accept: text/event-stream)
+ * answers with server-sent events:
+ *   start   { topic, writers: [{ writer, model }] } - the writers left after budget enforcement
+ *   token   { writer, text }                  - as each writer's tokens arrive
+ *   writer  { writer, model, status, durationMs, error }
+ *   result  { success, runId, article, alternatives, metadata }
+ *   error   { success: false, error, duplicates? }
+ *
+ * Duplicate guard (lib/duplicate-guard.ts): conflicts with earlier articles are
+ * listed in metadata.duplicates; with DUPLICATE_GUARD=block the answer is 409
+ * unless the body sets "allowDuplicates": true
+ *
+ * Selection (lib/ensemble.ts): "strategy": "merge" composes the article from the
+ * best section of each writer (metadata.sections names the source writer of
+ * each); "editor": "<provider id>" adds a smoothing pass. Default: SELECTION_STRATEGY
+ *
+ * Media (lib/media-brief.ts): article.media holds the cover image prompt, the figures
+ * placed in the body and their alt texts; "media": false skips the stage
+ *
+ * Prompt (lib/prompt-templates.ts): "promptVersion": "v2" writes with that template
+ * version instead of the active one / the running A/B test (metadata.promptVersion)
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { 
-  generateArticlesParallel, 
-  selectBestArticle,
+  getAIConfig,
+  hasEnabledProviders,
   type ArticleOutline,
   type AIConfig 
 } from '../lib/ai-writers';
-
-// Environment validation
+import { DuplicateContentError } from '../lib/duplicate-guard';
+import { isSelectionStrategy } from '../lib/ensemble';
+import { HttpError, openEventStream, queryParam, sendError } from '../lib/http';
+import { createJobStore, dispatchJob, validateCallbackUrl } from '../lib/jobs';
+import { runGenerationPipeline, toGenerationResponse, validateOutline, type GenerationOptions } from '../lib/pipeline';
+import { getEnabledProviders } from '../lib/providers';
+
+// Environment validation (provider registry: env + WRITERS_CONFIG)
 function getConfig(): AIConfig {
-  return {
-    geminiApiKey: process.env.GEMINI_API_KEY,
-    openaiApiKey: process.env.OPENAI_API_KEY,
-    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-  };
+  return getAIConfig();
 }
 
-// Validate request body
-function validateOutline(body: unknown): ArticleOutline {
-  if (!body || typeof body !== 'object') {
-    throw new Error('Request body is required');
-  }
+function wantsStream(req: VercelRequest): boolean {
+  const stream = queryParam(req, 'stream');
+  return stream === '1' || stream === 'true' || (req.headers.accept ?? '').includes('text/event-stream');
+}
 
-  const outline = body as Record<string, unknown>;
+// Stream writer tokens as SSE, then the same result body as the JSON response
+async function streamGeneration(
+  res: VercelResponse,
+  outline: ArticleOutline,
+  config: AIConfig,
+  options: GenerationOptions
+): Promise<void> {
+  const events = openEventStream(res);
+  const startTime = Date.now();
 
-  if (!outline.topic || typeof outline.topic !== 'string') {
-    throw new Error('topic is required and must be a string');
-  }
+  try {
+    const result = await runGenerationPipeline({
+      source: 'api',
+      outline,
+      config,
+      ...options,
+      hooks: {
+        // Sent once the budget has dropped the writers that sit this run out
+        onWritersStarted: writers => events.send('start', { topic: outline.topic, writers }),
+        onWriterToken: (writer, text) => events.send('token', { writer, text }),
+        onWriterSettled: (timing, failure) => events.send('writer', { ...timing, error: failure?.error ?? null }),
+      },
+    });
 
-  if (!Array.isArray(outline.keywords) || outline.keywords.length === 0) {
-    throw new Error('keywords is required and must be a non-empty array');
+    const responseTime = Date.now() - startTime;
+    console.log(`[API] Streamed in ${responseTime}ms`);
+    events.send('result', { success: true, ...toGenerationResponse(result, responseTime) });
+  } catch (error) {
+    console.error('[API] Stream error:', error);
+    events.send('error', {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof DuplicateContentError ? { runId: error.runId, duplicates: error.report.conflicts } : {}),
+    });
+  } finally {
+    events.close();
   }
+}
 
-  return {
-    topic: outline.topic,
-    keywords: outline.keywords as string[],
-    targetLength: typeof outline.targetLength === 'number' ? outline.targetLength : 1500,
-    sections: Array.isArray(outline.sections) ? outline.sections as string[] : [],
-    category: outline.category === 'kompensatory_svg' ? 'kompensatory_svg' : 'kompensacja_mocy_biernej',
-  };
+// Selection strategy, merge editor and media brief from the body (defaults: SELECTION_STRATEGY, MERGE_EDITOR, MEDIA_BRIEF)
+function parseSelection(body: Record<string, unknown>, config: AIConfig): GenerationOptions {
+  const options: GenerationOptions = {};
+  if (body.strategy !== undefined) {
+    if (!isSelectionStrategy(body.strategy)) {
+      throw new HttpError(400, `Unknown strategy: ${String(body.strategy)} (expected best or merge)`);
+    }
+    options.strategy = body.strategy;
+  }
+  if (body.editor !== undefined && body.editor !== null) {
+    const editor = body.editor;
+    if (typeof editor !== 'string' || !getEnabledProviders(config.providers).some(provider => provider.id === editor)) {
+      throw new HttpError(400, 'editor must be the id of an enabled provider');
+    }
+    options.editor = editor;
+  }
+  if (body.media !== undefined) {
+    if (typeof body.media !== 'boolean') {
+      throw new HttpError(400, 'media must be a boolean');
+    }
+    options.media = body.media;
+  }
+  return options;
 }
 
 export default async function handler(
@@ -77,51 +148,79 @@ export default async function handler(
     const outline = validateOutline(req.body);
     const config = getConfig();
 
-    // Check if any API keys are configured
-    if (!config.geminiApiKey && !config.openaiApiKey && !config.anthropicApiKey) {
+    // Check if any providers are configured
+    if (!hasEnabledProviders(config)) {
       return res.status(500).json({ 
         error: 'No AI API keys configured',
-        details: 'Set GEMINI_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY environment variables'
+        details: 'Set GEMINI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY, OPENAI_COMPATIBLE_BASE_URL or WRITERS_CONFIG environment variables'
       });
     }
 
+    const body = req.body as Record<string, unknown>;
+    // DUPLICATE_GUARD=block: an editor can still generate a deliberate follow-up
+    const options: GenerationOptions = {
+      allowDuplicates: body.allowDuplicates === true,
+      ...parseSelection(body, config),
+    };
+    const asyncParam = queryParam(req, 'async');
+    if (body.async === true || asyncParam === '1' || asyncParam === 'true') {
+      // Queue the job and return immediately; the worker does the generation
+      const callbackUrl = validateCallbackUrl(body.callbackUrl);
+      const jobs = createJobStore();
+      const job = await jobs.create(outline, callbackUrl, options);
+      const runner = await dispatchJob(job, config, jobs);
+      console.log(`[API] Queued job ${job.id} (${runner}) for: ${outline.topic}`);
+
+      res.setHeader('Location', `/api/jobs/${job.id}`);
+      return res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+        callbackUrl,
+      });
+    }
+
+    if (wantsStream(req)) {
+      console.log(`[API] Streaming article for: ${outline.topic}`);
+      return streamGeneration(res, outline, config, options);
+    }
+
     console.log(`[API] Generating article for: ${outline.topic}`);
     const startTime = Date.now();
 
-    // Generate articles in parallel
-    const articles = await generateArticlesParallel(outline, config);
-
-    // Select best article
-    const bestArticle = selectBestArticle(articles);
+    // Generate articles in parallel, select the best and archive the run
+    const result = await runGenerationPipeline({
+      source: 'api',
+      outline,
+      config,
+      ...options,
+    });
 
     const responseTime = Date.now() - startTime;
     console.log(`[API] Completed in ${responseTime}ms`);
 
     return res.status(200).json({
       success: true,
-      article: bestArticle,
-      alternatives: articles.filter(a => a.writer !== bestArticle.writer),
-      metadata: {
-        totalArticles: articles.length,
-        selectedWriter: bestArticle.writer,
-        responseTime,
-      }
+      ...toGenerationResponse(result, responseTime),
     });
 
   } catch (error) {
-    console.error('[API] Error:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const statusCode = errorMessage.includes('required') ? 400 : 500;
-
-    return res.status(statusCode).json({
-      success: false,
-      error: errorMessage,
-    });
+    if (error instanceof DuplicateContentError) {
+      // 409 naming the conflicting posts (the blocked article is archived under runId when it was generated)
+      console.warn(`[API] ${error.message}`);
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        runId: error.runId,
+        duplicates: error.report.conflicts,
+      });
+    }
+    return sendError(res, error, 'API');
   }
 }
 
 // Vercel config for longer timeout (needed for AI generation)
 export const config = {
-  maxDuration: 60, // 60 seconds max (Pro plan allows up to 300s)
+  maxDuration: 120, // same as vercel.json; use ?async=1 for anything longer
 };
@@ -0,0 +1,45 @@
+/**
+ * Vercel Serverless Function: Generation Job Status
+ * GET /api/jobs/:id
+ *
+ * Status of an async generation job (POST /api/generate?async=1):
+ * queued / running / succeeded / failed, per-writer progress, and the
+ * same result body as synchronous /api/generate once finished
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../../lib/http';
+import { createJobStore } from '../../lib/jobs';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET')) {
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const id = queryParam(req, 'id');
+    if (!id) {
+      throw new HttpError(400, 'id is required');
+    }
+
+    const job = await createJobStore().get(id);
+    if (!job) {
+      throw new HttpError(404, `Job not found: ${id}`);
+    }
+
+    return res.status(200).json({ success: true, job });
+  } catch (error) {
+    return sendError(res, error, 'Jobs');
+  }
+}
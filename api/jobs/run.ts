@@ -0,0 +1,45 @@
+/**
+ * Vercel Serverless Function: Generation Job Worker
+ * POST /api/jobs/run  { id }
+ *
+ * Runs a queued job to completion in its own invocation (JOB_RUNNER=http).
+ * Called by /api/generate?async=1; answers only when the job has finished.
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAIConfig } from '../../lib/ai-writers';
+import { handleCors, isAuthorized, sendError, HttpError } from '../../lib/http';
+import { executeJob } from '../../lib/jobs';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'POST')) {
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    if (typeof body.id !== 'string' || !body.id) {
+      throw new HttpError(400, 'id is required');
+    }
+
+    const job = await executeJob(body.id, getAIConfig());
+    return res.status(200).json({ success: job.status === 'succeeded', jobId: job.id, status: job.status });
+  } catch (error) {
+    return sendError(res, error, 'Jobs');
+  }
+}
+
+export const config = {
+  maxDuration: 300, // generation runs here, not in /api/generate
+};
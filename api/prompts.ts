@@ -0,0 +1,153 @@
+/**
+ * Vercel Serverless Function: Prompt Templates
+ *
+ * GET    /api/prompts                                   - all versions and the settings (active version, A/B test)
+ * GET    /api/prompts?version=...                       - one template
+ * GET    /api/prompts?action=report&from=&to=&limit=    - average scores per version (default: the A/B test since its start)
+ * POST   /api/prompts { actor, version, base?, description?, system?, instructions?, task?, revision? }
+ *                                                       - new version; parts not given are copied from base (default: active)
+ * POST   /api/prompts?action=activate { actor, version }
+ * POST   /api/prompts?action=ab       { actor, versions: [a, b] } - split runs between two versions
+ * DELETE /api/prompts?action=ab       { actor }                   - stop the A/B test
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import {
+  createPromptStore,
+  promptReport,
+  PROMPT_VARIABLES,
+  type PromptTemplateInput,
+} from '../lib/prompt-templates';
+import { createRunStore } from '../lib/run-history';
+
+const DEFAULT_REPORT_LIMIT = 200;
+const MAX_REPORT_LIMIT = 1000;
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new HttpError(400, `${field} must be a string`);
+  }
+  return value;
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET, POST, DELETE')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const store = createPromptStore();
+    const action = queryParam(req, 'action');
+
+    if (req.method === 'GET') {
+      if (action === 'report') {
+        const limitParam = queryParam(req, 'limit');
+        const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_REPORT_LIMIT;
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_LIMIT) {
+          throw new HttpError(400, `limit must be between 1 and ${MAX_REPORT_LIMIT}`);
+        }
+
+        const settings = await store.getSettings();
+        const runs = await createRunStore().list({
+          // A running test is reported from its start
+          from: queryParam(req, 'from') ?? settings.abTest?.startedAt,
+          to: queryParam(req, 'to'),
+          limit,
+        });
+        const versions = settings.abTest?.versions;
+        return res.status(200).json({
+          success: true,
+          abTest: settings.abTest,
+          runs: runs.length,
+          versions: promptReport(runs, versions),
+        });
+      }
+
+      const version = queryParam(req, 'version');
+      if (version) {
+        const template = await store.get(version);
+        if (!template) {
+          throw new HttpError(404, `Prompt version not found: ${version}`);
+        }
+        return res.status(200).json({ success: true, template });
+      }
+
+      return res.status(200).json({
+        success: true,
+        settings: await store.getSettings(),
+        templates: await store.list(),
+        variables: PROMPT_VARIABLES,
+      });
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const actor = requireString(body, 'actor');
+    const settings = await store.getSettings();
+
+    if (req.method === 'DELETE') {
+      if (action !== 'ab') {
+        throw new HttpError(400, `Unknown action: ${action ?? '(none)'}`);
+      }
+      const saved = await store.saveSettings({ active: settings.active, abTest: null }, actor);
+      return res.status(200).json({ success: true, settings: saved });
+    }
+
+    switch (action) {
+      case undefined: {
+        const input: PromptTemplateInput = {
+          version: requireString(body, 'version'),
+          description: optionalString(body, 'description'),
+          system: optionalString(body, 'system'),
+          instructions: optionalString(body, 'instructions'),
+          task: optionalString(body, 'task'),
+          revision: optionalString(body, 'revision'),
+        };
+        const template = await store.create(input, actor, optionalString(body, 'base'));
+        return res.status(201).json({ success: true, template });
+      }
+
+      case 'activate': {
+        const saved = await store.saveSettings({ active: requireString(body, 'version'), abTest: settings.abTest }, actor);
+        return res.status(200).json({ success: true, settings: saved });
+      }
+
+      case 'ab': {
+        const versions = body.versions;
+        if (!Array.isArray(versions) || versions.length !== 2 || !versions.every(v => typeof v === 'string') || versions[0] === versions[1]) {
+          throw new HttpError(400, 'versions must be two different prompt versions');
+        }
+        const saved = await store.saveSettings({
+          active: settings.active,
+          abTest: { versions: [versions[0], versions[1]], startedAt: new Date().toISOString(), startedBy: actor },
+        }, actor);
+        return res.status(200).json({ success: true, settings: saved });
+      }
+
+      default:
+        throw new HttpError(400, `Unknown action: ${action}`);
+    }
+  } catch (error) {
+    return sendError(res, error, 'Prompts');
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Vercel Serverless Function: Article Refresh
+ *
+ * GET  /api/refresh?status=pending                      - pending updates (default: pending, or all)
+ * GET  /api/refresh?id=...                              - single update with its section diff
+ * POST /api/refresh { postId, actor, keywords?, notes?, category? }
+ *                                                       - revise a live Odoo post (all writers) into a pending update
+ * POST /api/refresh?id=...&action=apply   { actor, note?, force? }
+ * POST /api/refresh?id=...&action=discard { actor, reason? }
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAIConfig, hasEnabledProviders } from '../lib/ai-writers';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import {
+  applyRefresh,
+  createRefreshStore,
+  discardRefresh,
+  isRefreshStatus,
+  refreshPost,
+} from '../lib/refresh';
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  return typeof body[field] === 'string' && body[field] ? body[field] as string : undefined;
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET, POST')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const store = createRefreshStore();
+    const id = queryParam(req, 'id');
+
+    if (req.method === 'GET') {
+      if (id) {
+        const update = await store.get(id);
+        if (!update) {
+          throw new HttpError(404, `Refresh not found: ${id}`);
+        }
+        return res.status(200).json({ success: true, update });
+      }
+
+      const status = queryParam(req, 'status') || 'pending';
+      if (status !== 'all' && !isRefreshStatus(status)) {
+        throw new HttpError(400, `Unknown status: ${status}`);
+      }
+      const list = await store.list(status === 'all' ? undefined : status);
+      return res.status(200).json({ success: true, updates: list, total: list.length });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const actor = requireString(body, 'actor');
+
+    if (!id) {
+      const postId = body.postId;
+      if (typeof postId !== 'number' || !Number.isInteger(postId) || postId <= 0) {
+        throw new HttpError(400, 'postId must be a positive integer');
+      }
+      if (body.keywords !== undefined && (!Array.isArray(body.keywords) || !body.keywords.every(k => typeof k === 'string'))) {
+        throw new HttpError(400, 'keywords must be an array of strings');
+      }
+
+      const config = getAIConfig();
+      if (!hasEnabledProviders(config)) {
+        throw new HttpError(500, 'No AI providers configured');
+      }
+
+      const update = await refreshPost({
+        postId,
+        actor,
+        keywords: body.keywords as string[] | undefined,
+        notes: optionalString(body, 'notes'),
+        category: optionalString(body, 'category'),
+      }, config, { store });
+      return res.status(201).json({ success: true, update });
+    }
+
+    const action = queryParam(req, 'action');
+    switch (action) {
+      case 'apply': {
+        const update = await applyRefresh(id, {
+          actor,
+          note: optionalString(body, 'note'),
+          force: body.force === true,
+        }, { store });
+        return res.status(200).json({ success: true, update });
+      }
+
+      case 'discard': {
+        const update = await discardRefresh(id, { actor, reason: optionalString(body, 'reason') }, { store });
+        return res.status(200).json({ success: true, update });
+      }
+
+      default:
+        throw new HttpError(400, `Unknown action: ${action ?? '(none)'}`);
+    }
+  } catch (error) {
+    return sendError(res, error, 'Refresh');
+  }
+}
+
+// A refresh runs every writer on the whole post
+export const config = {
+  maxDuration: 120,
+};
@@ -0,0 +1,173 @@
+/**
+ * Vercel Serverless Function: Generation History
+ *
+ * GET  /api/runs?category=&writer=&source=&from=&to=&limit=  - list runs (newest first)
+ * GET  /api/runs?id=...                                      - full run with all candidates
+ * POST /api/runs?id=...&action=select     { writer }         - swap in an alternative
+ * POST /api/runs?id=...&action=republish  { writer? }        - publish the selected (or given) article to Odoo
+ *                                                            and submit it for review (updates the run's existing
+ *                                                            draft; 409 when that post is live or was superseded)
+ * POST /api/runs?id=...&action=translate  { languages, writer?, translator?, publish? }
+ *                                                          - localised versions (en/de/cs), archived as linked runs
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAIConfig } from '../lib/ai-writers';
+import { republishRun, submitForReview } from '../lib/approvals';
+import { isArticleCategory } from '../lib/categories';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import { flaggedClaims } from '../lib/fact-check';
+import { isLanguage, type Language } from '../lib/languages';
+import {
+  createRunStore,
+  summarizeRun,
+  RUN_SOURCES,
+  type RunFilter,
+} from '../lib/run-history';
+import { translateRun } from '../lib/translation';
+
+function parseFilter(req: VercelRequest): RunFilter {
+  const filter: RunFilter = {};
+
+  const category = queryParam(req, 'category');
+  if (category) {
+    if (!isArticleCategory(category)) {
+      throw new HttpError(400, `Unknown category: ${category}`);
+    }
+    filter.category = category;
+  }
+
+  const source = queryParam(req, 'source');
+  if (source) {
+    if (!(RUN_SOURCES as string[]).includes(source)) {
+      throw new HttpError(400, `Unknown source: ${source}`);
+    }
+    filter.source = source as RunFilter['source'];
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = queryParam(req, name);
+    if (value) {
+      if (Number.isNaN(Date.parse(value))) {
+        throw new HttpError(400, `${name} must be an ISO date`);
+      }
+      filter[name] = value;
+    }
+  }
+
+  filter.writer = queryParam(req, 'writer') || undefined;
+
+  const limit = queryParam(req, 'limit');
+  if (limit) {
+    filter.limit = Math.max(1, Math.min(200, parseInt(limit, 10) || 50));
+  }
+
+  return filter;
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET, POST')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const store = createRunStore();
+    const id = queryParam(req, 'id');
+
+    if (req.method === 'GET') {
+      if (id) {
+        const run = await store.get(id);
+        if (!run) {
+          throw new HttpError(404, `Run not found: ${id}`);
+        }
+        return res.status(200).json({ success: true, run });
+      }
+
+      const runs = await store.list(parseFilter(req));
+      return res.status(200).json({ success: true, runs: runs.map(summarizeRun), total: runs.length });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!id) {
+      throw new HttpError(400, 'id query parameter is required');
+    }
+
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+    const writer = typeof body.writer === 'string' ? body.writer : undefined;
+    const action = queryParam(req, 'action');
+
+    if (action === 'select') {
+      if (!writer) {
+        throw new HttpError(400, 'writer is required');
+      }
+      const run = await store.selectWriter(id, writer);
+      console.log(`[History] Run ${id}: selected ${writer}`);
+      return res.status(200).json({ success: true, run: summarizeRun(run) });
+    }
+
+    if (action === 'republish') {
+      // Reuses the stored article - no new generation cost
+      const { run, approval, factCheck } = await republishRun(id, { actor: 'api', writer }, { runs: store });
+      const published = run.odoo?.status === 'draft';
+
+      return res.status(published ? 200 : 502).json({
+        success: published,
+        run: summarizeRun(run),
+        odoo: run.odoo,
+        approvalId: approval?.id ?? null,
+        flaggedClaims: flaggedClaims(factCheck),
+      });
+    }
+
+    if (action === 'translate') {
+      const languages = body.languages;
+      if (!Array.isArray(languages) || languages.length === 0) {
+        throw new HttpError(400, 'languages is required (e.g. ["en", "de"])');
+      }
+      const unknown = languages.filter(language => !isLanguage(language));
+      if (unknown.length > 0) {
+        throw new HttpError(400, `Unknown languages: ${unknown.join(', ')} (supported: pl, en, de, cs)`);
+      }
+
+      const publish = body.publish === true;
+      const report = await translateRun(id, {
+        languages: languages as Language[],
+        writer,
+        translator: typeof body.translator === 'string' ? body.translator : undefined,
+        publish,
+        runStore: store,
+      }, getAIConfig());
+
+      // Published translations enter editorial review like any other draft
+      const translations = await Promise.all(report.translations.map(async translation => ({
+        language: translation.language,
+        runId: translation.runId,
+        article: translation.article,
+        warnings: translation.warnings,
+        odoo: translation.odoo,
+        approvalId: publish ? (await submitForReview(translation.run, 'translation'))?.id ?? null : null,
+      })));
+
+      return res.status(report.translations.length > 0 ? 200 : 502).json({
+        success: report.failures.length === 0,
+        run: summarizeRun(report.source),
+        translations,
+        failures: report.failures,
+      });
+    }
+
+    throw new HttpError(400, `Unknown action: ${action ?? '(none)'}`);
+  } catch (error) {
+    return sendError(res, error, 'Runs');
+  }
+}
@@ -2,134 +2,84 @@
  * Vercel Cron Job: Scheduled Publication
  * GET /api/schedule
  * 
- * Triggered by Vercel Cron:
- * - Monday 9:00 CET: kompensacja_mocy_biernej
- * - Thursday 9:00 CET: kompensatory_svg
+ * Triggered daily by Vercel Cron (08:00 UTC); the publication calendar
+ * (lib/publication-calendar.ts) decides which category is due on the day in
+ * Europe/Warsaw, from the category cadences, Polish holidays, blackout dates
+ * and - with catch-up - publications missed on earlier days. By default:
+ * - Monday: kompensacja_mocy_biernej
+ * - Thursday: kompensatory_svg
+ *
+ * GET /api/schedule?category=...  - generate for one category regardless of the calendar
+ *
+ * BRIEF_PRESTAGE (lib/brief-builder.ts): "missing" builds a brief for topics
+ * that have none, "always" rebuilds it on every run; the brief is stored on
+ * the topic. A failed brief falls back to the topic's own outline.
+ *
+ * Once the monthly usage budget (USAGE_BUDGET_USD, lib/usage.ts) is reached
+ * the run is skipped and the topic stays queued for the next scheduled day.
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { 
-  generateArticlesParallel, 
-  selectBestArticle,
-  type ArticleOutline,
-  type AIConfig 
+  getAIConfig,
+  type AIConfig,
+  type ArticleOutline
 } from '../lib/ai-writers';
+import { submitForReview } from '../lib/approvals';
+import { buildBrief, getBriefPrestage, type ArticleBrief } from '../lib/brief-builder';
+import { getCategories } from '../lib/categories';
+import { DuplicateContentError } from '../lib/duplicate-guard';
+import { FactCheckError, flaggedClaims } from '../lib/fact-check';
+import { HttpError, queryParam } from '../lib/http';
+import { notify, notifyRunOutcome } from '../lib/notifier';
+import { AllWritersFailedError, runGenerationPipeline } from '../lib/pipeline';
+import {
+  addDays,
+  createCalendarStore,
+  getTopicForToday,
+  localDate,
+  planPublications,
+  TIMEZONE,
+} from '../lib/publication-calendar';
+import { createTopicStore, topicToOutline, type Topic, type TopicStore } from '../lib/topic-store';
+import { BudgetExceededError, createUsageLedger, getBudgetStatus, type BudgetStatus } from '../lib/usage';
 
-// Predefined topics for rotation
-const TOPICS = {
-  kompensacja_mocy_biernej: [
-    {
-      topic: 'Kompensacja mocy biernej - podstawy i korzysci dla przedsiebiorstw',
-      keywords: ['kompensacja mocy biernej', 'oszczednosci energii', 'koszty energii', 'wspolczynnik mocy'],
-      sections: ['Czym jest moc bierna', 'Dlaczego warto kompensowac', 'Korzysci finansowe', 'FAQ'],
-    },
-    {
-      topic: 'Jak obliczyc zapotrzebowanie na kompensacje mocy biernej?',
-      keywords: ['obliczanie mocy biernej', 'kalkulacja kompensacji', 'analiza energetyczna'],
-      sections: ['Wzory obliczeniowe', 'Przyklady praktyczne', 'Narzedzia do obliczen', 'FAQ'],
-    },
-    {
-      topic: 'Kary za niska wartosc wspolczynnika mocy cos phi - jak ich uniknac?',
-      keywords: ['kary za moc bierna', 'wspolczynnik mocy', 'cos phi', 'oplaty za energie'],
-      sections: ['Regulacje prawne', 'Wysokosc kar', 'Metody unikania kar', 'FAQ'],
-    },
-    {
-      topic: 'Kompensacja mocy biernej w instalacjach przemyslowych - case study',
-      keywords: ['kompensacja przemyslowa', 'instalacje fabryczne', 'optymalizacja energii'],
-      sections: ['Opis problemu', 'Rozwiazanie', 'Wyniki', 'Wnioski', 'FAQ'],
-    },
-  ],
-  kompensatory_svg: [
-    {
-      topic: 'Kompensatory SVG vs tradycyjne baterie kondensatorow - porownanie',
-      keywords: ['kompensator SVG', 'bateria kondensatorow', 'porownanie systemow'],
-      sections: ['Zasada dzialania SVG', 'Zalety i wady', 'Kiedy wybrac SVG', 'FAQ'],
-    },
-    {
-      topic: 'Instalacja i uruchomienie kompensatora SVG - przewodnik techniczny',
-      keywords: ['instalacja SVG', 'uruchomienie kompensatora', 'parametryzacja'],
-      sections: ['Wymagania instalacyjne', 'Procedura montazu', 'Konfiguracja', 'FAQ'],
-    },
-    {
-      topic: 'Kompensatory SVG w sieciach z duza zawartoscia harmonicznych',
-      keywords: ['harmoniczne', 'SVG', 'jakosc energii', 'filtracja harmonicznych'],
-      sections: ['Problem harmonicznych', 'Jak SVG eliminuje harmoniczne', 'Przyklady', 'FAQ'],
-    },
-    {
-      topic: 'ROI z inwestycji w kompensator SVG - analiza zwrotu',
-      keywords: ['ROI kompensator', 'zwrot z inwestycji', 'oszczednosci SVG'],
-      sections: ['Koszty inwestycji', 'Oszczednosci', 'Okres zwrotu', 'Kalkulacja ROI', 'FAQ'],
-    },
-  ],
-};
-
-// Odoo client (simplified - use your full odoo-client.ts)
-async function publishToOdoo(article: { title: string; content: string }): Promise<{ id: number }> {
-  const odooUrl = process.env.ODOO_URL || 'https://powergo.pl';
-  const odooApiKey = process.env.ODOO_API_KEY;
-  const odooDb = process.env.ODOO_DB || 'odoo';
-  const blogId = parseInt(process.env.ODOO_BLOG_ID || '2');
-
-  if (!odooApiKey) {
-    throw new Error('ODOO_API_KEY not configured');
-  }
-
-  // Create blog post via Odoo XML-RPC or REST API
-  // This is a simplified version - use your full odoo-client.ts
-  const response = await fetch(`${odooUrl}/api/blog.post/create`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${odooApiKey}`,
-    },
-    body: JSON.stringify({
-      name: article.title,
-      blog_id: blogId,
-      content: article.content,
-      is_published: false, // Draft - needs approval
-    }),
+function budgetSkipped(res: VercelResponse, budget: BudgetStatus, message: string, topicId: string | null) {
+  console.warn(`[Cron] ${message} - run skipped`);
+  return res.status(200).json({
+    success: false,
+    skipped: true,
+    message,
+    topicId,
+    budget,
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Odoo API error: ${response.statusText}`);
+// Optional pre-stage: research a brief for the topic and store it for the editors
+async function prepareBrief(topic: Topic, store: TopicStore, config: AIConfig): Promise<{ topic: Topic; brief: ArticleBrief | null }> {
+  const mode = getBriefPrestage();
+  if (mode === 'off' || (mode === 'missing' && topic.brief)) {
+    return { topic, brief: null };
   }
 
-  const data = await response.json();
-  return data as { id: number };
-}
-
-// Get topic based on day of week
-function getTopicForToday(): { outline: ArticleOutline; category: string } | null {
-  const now = new Date();
-  const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, 4 = Thursday
-
-  let category: keyof typeof TOPICS;
-  
-  if (dayOfWeek === 1) {
-    // Monday - kompensacja mocy biernej
-    category = 'kompensacja_mocy_biernej';
-  } else if (dayOfWeek === 4) {
-    // Thursday - kompensatory SVG
-    category = 'kompensatory_svg';
-  } else {
-    // Not a scheduled day
-    return null;
+  try {
+    const brief = await buildBrief({ topic: topic.topic, category: topic.category, keywords: topic.keywords }, config);
+    const updated = await store.update(topic.id, {
+      keywords: brief.outline.keywords,
+      sections: brief.outline.sections,
+      targetLength: brief.outline.targetLength,
+      brief: brief.outline.brief,
+    });
+    return { topic: updated, brief };
+  } catch (error) {
+    console.error(`[Cron] Brief failed for ${topic.id}, using the topic outline:`, error);
+    return { topic, brief: null };
   }
+}
 
-  const topics = TOPICS[category];
-  // Rotate through topics based on week number
-  const weekNumber = Math.floor((now.getTime() - new Date(now.getFullYear(), 0, 1).getTime()) / (7 * 24 * 60 * 60 * 1000));
-  const topicIndex = weekNumber % topics.length;
-  const topic = topics[topicIndex];
-
-  return {
-    outline: {
-      ...topic,
-      targetLength: 1500,
-      category,
-    },
-    category,
-  };
+// Next planned publication after today, for the "nothing to do" answer
+function nextPublication(today: string) {
+  return planPublications(addDays(today, 1), addDays(today, 60), getCategories()).planned[0] ?? null;
 }
 
 export default async function handler(
@@ -146,68 +96,160 @@ export default async function handler(
     }
   }
 
+  let outline: ArticleOutline | null = null;
+  let topicStore: TopicStore | null = null;
+  let topicId: string | null = null;
+
   try {
     console.log('[Cron] Schedule triggered at', new Date().toISOString());
 
-    // Get topic for today
-    const topicData = getTopicForToday();
+    // Get topic for today (calendar day in Poland, not the server's)
+    topicStore = createTopicStore();
+    const calendar = createCalendarStore();
+    const today = localDate();
+    const topicData = await getTopicForToday(topicStore, calendar, today, queryParam(req, 'category'));
     
     if (!topicData) {
-      console.log('[Cron] Not a scheduled publication day');
+      console.log(`[Cron] No publication planned for ${today} (${TIMEZONE})`);
       return res.status(200).json({
         success: true,
-        message: 'Not a scheduled publication day',
-        nextRun: 'Monday or Thursday 9:00 CET',
+        message: `No publication planned for ${today} (${TIMEZONE})`,
+        next: nextPublication(today),
       });
     }
 
-    console.log(`[Cron] Generating article: ${topicData.outline.topic}`);
+    if (!topicData.topic) {
+      console.warn(`[Cron] No queued topics left for ${topicData.category}`);
+      return res.status(200).json({
+        success: false,
+        message: `Topic backlog empty for ${topicData.category} - add topics via /api/topics`,
+        category: topicData.category,
+        publication: topicData.publication,
+      });
+    }
 
-    // Get API config
-    const config: AIConfig = {
-      geminiApiKey: process.env.GEMINI_API_KEY,
-      openaiApiKey: process.env.OPENAI_API_KEY,
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    };
+    topicId = topicData.topic.id;
 
-    // Generate articles
-    const articles = await generateArticlesParallel(topicData.outline, config);
-    const bestArticle = selectBestArticle(articles);
+    // Checked before the brief pre-stage so a spent month costs nothing
+    const budget = await getBudgetStatus(createUsageLedger());
+    if (budget.exhausted) {
+      return budgetSkipped(res, budget, `Monthly usage budget reached ($${budget.spentUsd} of $${budget.monthlyUsd})`, topicId);
+    }
 
-    console.log(`[Cron] Best article from ${bestArticle.writer}: ${bestArticle.wordCount} words`);
+    // Get API config from the provider registry
+    const config = getAIConfig();
 
-    // Publish to Odoo (as draft)
-    let odooResult = null;
-    try {
-      odooResult = await publishToOdoo({
-        title: bestArticle.title,
-        content: bestArticle.content,
-      });
-      console.log(`[Cron] Published to Odoo as draft, ID: ${odooResult.id}`);
-    } catch (odooError) {
-      console.error('[Cron] Failed to publish to Odoo:', odooError);
-      // Continue - article was generated successfully
+    const { topic, brief } = await prepareBrief(topicData.topic, topicStore, config);
+    outline = topicToOutline(topic);
+
+    console.log(`[Cron] Generating article: ${outline.topic}`);
+
+    // Generate, select and publish as Odoo draft; the run is archived with all candidates
+    const result = await runGenerationPipeline({
+      source: 'cron',
+      outline,
+      config,
+      topicId: topic.id,
+      publish: true,
+    });
+    const bestArticle = result.article;
+    const odooPostId = result.odoo?.status === 'draft' ? result.odoo.postId : null;
+
+    // A draft that never reached Odoo is a failed cron run, even though the
+    // article is archived and can be republished via /api/runs
+    const published = odooPostId !== null;
+
+    if (published) {
+      // Record rotation state so the topic is not picked again
+      await topicStore.markUsed(topic.id, 'generated', odooPostId);
+
+      // The planned publication is done (catch-up stops owing it)
+      if (topicData.publication) {
+        await calendar.recordPublication(topicData.category, topicData.publication.date);
+      }
     }
+    // Otherwise the topic stays queued and catch-up retries the slot on the next run
+
+    // Queue the draft for editorial approval (/api/approvals)
+    const approval = await submitForReview(result.run, 'cron');
 
-    // Send notification email (optional)
-    // await sendNotificationEmail({ article: bestArticle, odooId: odooResult?.id });
+    // Draft ready / Odoo failure / rejected providers (email + webhooks)
+    const notifications = await notifyRunOutcome(result);
 
-    return res.status(200).json({
-      success: true,
+    return res.status(published ? 200 : 502).json({
+      success: published,
+      ...(published ? {} : { error: `Odoo publishing failed: ${result.odoo?.error ?? 'Unknown error'}` }),
+      runId: result.runId,
       article: {
         title: bestArticle.title,
+        slug: bestArticle.slug,
+        metaDescription: bestArticle.metaDescription,
         writer: bestArticle.writer,
         wordCount: bestArticle.wordCount,
         category: topicData.category,
+        topicId: topic.id,
+        media: bestArticle.media ?? null,
       },
-      odoo: odooResult ? { id: odooResult.id, status: 'draft' } : null,
+      publication: topicData.publication,
+      odoo: odooPostId ? { id: odooPostId, status: 'draft' } : null,
+      approvalId: approval?.id ?? null,
+      failedWriters: result.report.failures,
+      duplicates: result.duplicates.conflicts,
+      flaggedClaims: flaggedClaims(result.factCheck),
+      brief: brief ? { builder: brief.builder, model: brief.model, warnings: brief.warnings } : null,
+      notifications,
       generatedAt: new Date().toISOString(),
     });
 
   } catch (error) {
     console.error('[Cron] Error:', error);
+
+    if (error instanceof DuplicateContentError) {
+      // Skip the topic so the rotation moves on instead of hitting the same conflict every day
+      if (topicStore && topicId) {
+        await topicStore.markUsed(topicId, 'skipped')
+          .catch(markError => console.error('[Cron] Failed to skip topic:', markError));
+      }
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        runId: error.runId,
+        topicId,
+        duplicates: error.report.conflicts,
+      });
+    }
+
+    if (error instanceof FactCheckError) {
+      // FACT_CHECK=block: no draft; the archived run can be republished after review
+      if (topicStore && topicId) {
+        await topicStore.markUsed(topicId, 'skipped')
+          .catch(markError => console.error('[Cron] Failed to skip topic:', markError));
+      }
+      return res.status(422).json({
+        success: false,
+        error: error.message,
+        runId: error.runId,
+        topicId,
+        flaggedClaims: flaggedClaims(error.report),
+      });
+    }
+
+    if (error instanceof BudgetExceededError) {
+      // The topic is not marked - it is generated once the budget allows it
+      return budgetSkipped(res, error.budget, error.message, topicId);
+    }
+
+    if (error instanceof AllWritersFailedError && outline) {
+      await notify({
+        type: 'all_writers_failed',
+        topic: outline.topic,
+        category: outline.category,
+        failures: error.report.failures,
+        runId: error.runId,
+      });
+    }
     
-    return res.status(500).json({
+    return res.status(error instanceof HttpError ? error.status : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
     });
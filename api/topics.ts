@@ -0,0 +1,181 @@
+/**
+ * Vercel Serverless Function: Topic Backlog
+ *
+ * GET    /api/topics?category=&status=   - list topics (ordered)
+ * GET    /api/topics?id=...              - single topic
+ * POST   /api/topics                     - add a topic
+ * POST   /api/topics?action=reorder      - reorder a category ({ category, ids })
+ * PATCH  /api/topics?id=...              - edit a topic (text, keywords, brief, status, position)
+ * DELETE /api/topics?id=...              - retire a topic (status "skipped"), &hard=true deletes it
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateBrief } from '../lib/brief-builder';
+import { isArticleCategory } from '../lib/categories';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import {
+  createTopicStore,
+  isTopicStatus,
+  type TopicFilter,
+  type TopicInput,
+  type TopicPatch,
+} from '../lib/topic-store';
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Validate editable fields shared by create and update
+function validateFields(body: Record<string, unknown>): TopicPatch {
+  const patch: TopicPatch = {};
+
+  if (body.topic !== undefined) {
+    if (typeof body.topic !== 'string' || !body.topic.trim()) {
+      throw new HttpError(400, 'topic must be a non-empty string');
+    }
+    patch.topic = body.topic.trim();
+  }
+  if (body.keywords !== undefined) {
+    if (!isStringArray(body.keywords) || body.keywords.length === 0) {
+      throw new HttpError(400, 'keywords must be a non-empty array of strings');
+    }
+    patch.keywords = body.keywords;
+  }
+  if (body.sections !== undefined) {
+    if (!isStringArray(body.sections)) {
+      throw new HttpError(400, 'sections must be an array of strings');
+    }
+    patch.sections = body.sections;
+  }
+  if (body.targetLength !== undefined) {
+    if (typeof body.targetLength !== 'number' || body.targetLength <= 0) {
+      throw new HttpError(400, 'targetLength must be a positive number');
+    }
+    patch.targetLength = body.targetLength;
+  }
+  if (body.brief !== undefined) {
+    patch.brief = validateBrief(body.brief);
+  }
+  if (body.position !== undefined) {
+    if (typeof body.position !== 'number') {
+      throw new HttpError(400, 'position must be a number');
+    }
+    patch.position = body.position;
+  }
+  if (body.status !== undefined) {
+    if (!isTopicStatus(body.status)) {
+      throw new HttpError(400, `Unknown status: ${String(body.status)}`);
+    }
+    patch.status = body.status;
+  }
+
+  return patch;
+}
+
+function validateInput(body: Record<string, unknown>): TopicInput {
+  if (!isArticleCategory(body.category)) {
+    throw new HttpError(400, 'category is required and must be a known category');
+  }
+  if (body.topic === undefined || body.keywords === undefined) {
+    throw new HttpError(400, 'topic and keywords are required');
+  }
+
+  const fields = validateFields(body);
+  return {
+    ...fields,
+    category: body.category,
+    topic: fields.topic as string,
+    keywords: fields.keywords as string[],
+  };
+}
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET, POST, PATCH, DELETE')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const store = createTopicStore();
+    const id = queryParam(req, 'id');
+    const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Record<string, unknown>;
+
+    switch (req.method) {
+      case 'GET': {
+        if (id) {
+          const topic = await store.get(id);
+          if (!topic) {
+            throw new HttpError(404, `Topic not found: ${id}`);
+          }
+          return res.status(200).json({ success: true, topic });
+        }
+
+        const filter: TopicFilter = {};
+        const category = queryParam(req, 'category');
+        const status = queryParam(req, 'status');
+        if (category) {
+          if (!isArticleCategory(category)) {
+            throw new HttpError(400, `Unknown category: ${category}`);
+          }
+          filter.category = category;
+        }
+        if (status) {
+          if (!isTopicStatus(status)) {
+            throw new HttpError(400, `Unknown status: ${status}`);
+          }
+          filter.status = status;
+        }
+
+        const topics = await store.list(filter);
+        return res.status(200).json({ success: true, topics, total: topics.length });
+      }
+
+      case 'POST': {
+        if (queryParam(req, 'action') === 'reorder') {
+          if (!isArticleCategory(body.category) || !isStringArray(body.ids)) {
+            throw new HttpError(400, 'category and ids are required for reorder');
+          }
+          const topics = await store.reorder(body.category, body.ids);
+          return res.status(200).json({ success: true, topics });
+        }
+
+        const topic = await store.create(validateInput(body));
+        console.log(`[Topics] Added topic ${topic.id}: ${topic.topic}`);
+        return res.status(201).json({ success: true, topic });
+      }
+
+      case 'PATCH': {
+        if (!id) {
+          throw new HttpError(400, 'id query parameter is required');
+        }
+        const topic = await store.update(id, validateFields(body));
+        return res.status(200).json({ success: true, topic });
+      }
+
+      case 'DELETE': {
+        if (!id) {
+          throw new HttpError(400, 'id query parameter is required');
+        }
+        if (queryParam(req, 'hard') === 'true') {
+          await store.remove(id);
+          console.log(`[Topics] Deleted topic ${id}`);
+          return res.status(200).json({ success: true, deleted: id });
+        }
+        const topic = await store.update(id, { status: 'skipped' });
+        console.log(`[Topics] Retired topic ${id}`);
+        return res.status(200).json({ success: true, topic });
+      }
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    return sendError(res, error, 'Topics');
+  }
+}
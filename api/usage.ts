@@ -0,0 +1,50 @@
+/**
+ * Vercel Serverless Function: Usage and Cost
+ *
+ * GET /api/usage?month=YYYY-MM  - tokens and cost of a month (default: current,
+ *                                 UTC) per provider, category and run, with the
+ *                                 budget status (USAGE_BUDGET_* in lib/usage.ts)
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleCors, isAuthorized, queryParam, sendError, HttpError } from '../lib/http';
+import {
+  createUsageLedger,
+  currentMonth,
+  getBudgetConfig,
+  getBudgetStatus,
+  isMonth,
+  summarizeUsage,
+} from '../lib/usage';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (handleCors(req, res, 'GET')) {
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const month = queryParam(req, 'month') || currentMonth();
+    if (!isMonth(month)) {
+      throw new HttpError(400, `month must be YYYY-MM, got: ${month}`);
+    }
+
+    const ledger = createUsageLedger();
+    const usage = summarizeUsage(month, await ledger.list(month));
+    const budget = await getBudgetStatus(ledger, getBudgetConfig(), month);
+
+    return res.status(200).json({ success: true, usage, budget });
+  } catch (error) {
+    return sendError(res, error, 'Usage');
+  }
+}
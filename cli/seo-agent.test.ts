@@ -0,0 +1,54 @@
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { OUTLINE } from '../test/fixtures';
+import type { CliResult } from './seo-agent';
+
+const ROOT = path.resolve(__dirname, '..');
+const TS_NODE = path.join(ROOT, 'node_modules', 'ts-node', 'dist', 'bin.js');
+const workDir = mkdtempSync(path.join(tmpdir(), 'seo-agent-cli-'));
+
+// The CLI as `npm run cli` runs it: its own process, offline and with a throwaway store
+function cli(...args: string[]) {
+  const result = spawnSync(process.execPath, [TS_NODE, 'cli/seo-agent.ts', ...args], {
+    cwd: ROOT,
+    encoding: 'utf8',
+    timeout: 60_000,
+    env: { ...process.env, STORAGE_BACKEND: 'memory', DUPLICATE_GUARD: 'off' },
+  });
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+afterAll(() => {
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('seo-agent CLI', () => {
+  it('generates offline with --fake and exports the result as WXR', () => {
+    const outline = path.join(workDir, 'outline.json');
+    const result = path.join(workDir, 'result.json');
+    const exportDir = path.join(workDir, 'export');
+    writeFileSync(outline, JSON.stringify(OUTLINE));
+
+    const generate = cli('generate', outline, '--fake', '--out', result);
+    expect(generate.status, generate.output).toBe(0);
+    const generated = JSON.parse(readFileSync(result, 'utf8')) as CliResult;
+    expect(generated.outline.topic).toBe(OUTLINE.topic);
+    expect(generated.article.content).toContain('<h2>');
+
+    const exported = cli('export', result, '--format', 'wxr', '--out', exportDir);
+    expect(exported.status, exported.output).toBe(0);
+    const xml = readFileSync(path.join(exportDir, 'seo-agent-export.xml'), 'utf8');
+    expect(xml).toContain(`<wp:post_name><![CDATA[${generated.article.slug}]]></wp:post_name>`);
+    expect(xml).toContain('<wp:status><![CDATA[draft]]></wp:status>');
+    expect(xml).toMatch(/<wp:post_date><!\[CDATA\[\d{4}-\d\d-\d\d \d\d:\d\d:\d\d\]\]><\/wp:post_date>/);
+  }, 120_000);
+
+  it('exits with 2 and the usage on an unknown command', () => {
+    const result = cli('publish');
+    expect(result.status).toBe(2);
+    expect(result.output).toContain('Unknown command: publish');
+  }, 60_000);
+});
@@ -0,0 +1,575 @@
+/**
+ * SEO Agent CLI
+ * Drives the agent from a terminal: no `vercel dev`, no cron, no publishing
+ *
+ *   npm run cli -- generate outline.json [--out result.json] [--record dir]
+ *   npm run cli -- batch topics.csv|topics.json [--concurrency 2] [--out dir]
+ *   npm run cli -- schedule [--date YYYY-MM-DD] [--category id] [--dry-run]
+ *   npm run cli -- export result.json|dir... --format html|md|wxr [--out dir]
+ *   npm run cli -- export --runs [--from] [--to] [--category] [--limit] --format ...
+ *
+ * Generation goes through the same pipeline as /api/generate (selection,
+ * merge, media brief, duplicate guard, fact check) and archives the run
+ * (source "cli") and its usage; nothing is sent to Odoo.
+ * STORAGE_BACKEND=memory keeps a session out of the shared store.
+ *
+ * Writers: the provider registry (env + WRITERS_CONFIG), or offline
+ * - --fake: every configured writer answers with the fake provider
+ * - --replay <dir>: writers answer with the answers recorded by
+ *   `generate --record <dir>` (<dir>/<writer>.html); writers without a
+ *   recording sit out
+ * Offline writers cannot plan images, so the media brief is off unless --media.
+ *
+ * schedule simulates the cron for a day (Europe/Warsaw) without touching the
+ * calendar or the backlog: --dry-run reports the due publication and topic,
+ * without it the article is also generated (not published, topic stays queued).
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { getAIConfig, hasEnabledProviders, type AIConfig, type ArticleOutline } from '../lib/ai-writers';
+import { slugify } from '../lib/article-parser';
+import { getBriefPrestage } from '../lib/brief-builder';
+import { getCategories, requireCategory } from '../lib/categories';
+import { isSelectionStrategy } from '../lib/ensemble';
+import { exportArticles, isExportFormat, EXPORT_FORMATS, type ExportEntry } from '../lib/export';
+import {
+  runGenerationPipeline,
+  toGenerationResponse,
+  validateOutline,
+  type GenerationOptions,
+  type GenerationResponse,
+} from '../lib/pipeline';
+import {
+  addDays,
+  createCalendarStore,
+  getDuePublications,
+  getTopicForToday,
+  holidayName,
+  isCalendarDate,
+  localDate,
+  planPublications,
+  weekdayName,
+  TIMEZONE,
+} from '../lib/publication-calendar';
+import { getEnabledProviders } from '../lib/providers';
+import { createRunStore, getSelectedArticle } from '../lib/run-history';
+import { createTopicStore, topicToOutline } from '../lib/topic-store';
+import { createUsageLedger, getBudgetStatus } from '../lib/usage';
+
+// Types
+interface Args {
+  command: string | undefined;
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+// What generate and batch write: the /api/generate body plus the outline, so exports need nothing else
+export interface CliResult extends GenerationResponse {
+  outline: ArticleOutline;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  generate <outline.json>          Generate one article from an outline (the /api/generate body)
+    --out <file>                   Write the result (JSON) to a file
+    --record <dir>                 Save every writer's raw answer as <dir>/<writer>.html
+  batch <topics.csv|topics.json>   Generate an article per topic
+    --concurrency <n>              Topics generated at the same time (default 2)
+    --out <dir>                    Directory for the results (default seo-agent-output)
+  schedule                         Simulate the cron for a day (nothing is published or marked used)
+    --date <YYYY-MM-DD>            Day in ${TIMEZONE} (default today)
+    --category <id>                Generate for this category regardless of the calendar
+    --dry-run                      Only report the due publication and topic
+  export <result.json|dir...>      Export results of generate / batch
+    --runs                         Export the selected articles of archived runs instead
+    --from, --to, --category, --limit   Run filter (with --runs)
+    --format <${EXPORT_FORMATS.join('|')}>           Output format (default html)
+    --out <dir>                    Output directory (default export)
+    --site-title, --site-url       WXR channel (default: the category's site)
+
+Generation options (generate, batch, schedule):
+  --fake                           Fake writers (no API keys)
+  --replay <dir>                   Writers answer with recorded answers from <dir>
+  --strategy <best|merge>          Selection strategy (default SELECTION_STRATEGY)
+  --editor <provider>              Merge editing pass
+  --media | --no-media             Media brief (default MEDIA_BRIEF, off with --fake / --replay)
+  --allow-duplicates               Report duplicate conflicts instead of stopping
+  --prompt-version <version>       Prompt template version
+
+CSV columns: topic, keywords, category, targetLength, sections, language, promptVersion
+(keywords and sections separated by ";"; a header row is required)`;
+
+const BOOLEAN_FLAGS = new Set(['fake', 'dry-run', 'media', 'no-media', 'allow-duplicates', 'runs', 'help']);
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_BATCH_DIR = 'seo-agent-output';
+const DEFAULT_EXPORT_DIR = 'export';
+
+function parseArgs(argv: string[]): Args {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags.set(name, true);
+    } else if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (index + 1 < argv.length && !argv[index + 1].startsWith('--')) {
+      flags.set(name, argv[++index]);
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+  }
+
+  return { command: positional.shift(), positional, flags };
+}
+
+function flag(args: Args, name: string): string | undefined {
+  const value = args.flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+function positiveInteger(args: Args, name: string, fallback: number): number {
+  const raw = flag(args, name);
+  const value = raw === undefined ? fallback : Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function writeFile(file: string, content: string): void {
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  writeFileSync(file, content);
+}
+
+/**
+ * Writers for this invocation: the registry, or offline fakes under the same ids and weights
+ */
+function writerConfig(args: Args): AIConfig {
+  const config = getAIConfig();
+  const replay = flag(args, 'replay');
+
+  if (replay !== undefined) {
+    if (!existsSync(replay)) {
+      throw new UsageError(`Recording directory not found: ${replay}`);
+    }
+    const recorded = new Set(readdirSync(replay).filter(file => file.endsWith('.html')).map(file => file.slice(0, -'.html'.length)));
+    const known = new Set(config.providers.map(provider => provider.id));
+    const providers = [
+      ...config.providers,
+      // Recordings of writers configured elsewhere (another WRITERS_CONFIG) replay too
+      ...Array.from(recorded).filter(id => !known.has(id)).map(id => ({ ...config.providers[0], id, label: id, weight: 1 })),
+    ].map(provider => ({
+      ...provider,
+      kind: 'fake' as const,
+      model: 'recorded',
+      fallbackModel: undefined,
+      enabled: recorded.has(provider.id),
+      fake: { textFile: path.join(replay, `${provider.id}.html`) },
+    }));
+    if (!providers.some(provider => provider.enabled)) {
+      throw new UsageError(`No recordings (<writer>.html) in ${replay}`);
+    }
+    return { providers };
+  }
+
+  if (args.flags.has('fake')) {
+    return {
+      providers: config.providers.map(provider => ({
+        ...provider,
+        kind: 'fake' as const,
+        model: 'fake',
+        fallbackModel: undefined,
+        enabled: true,
+        fake: provider.kind === 'fake' ? provider.fake : {},
+      })),
+    };
+  }
+
+  if (!hasEnabledProviders(config)) {
+    throw new UsageError('No AI providers configured - set an API key, WRITERS_CONFIG, or use --fake / --replay');
+  }
+  return config;
+}
+
+function generationOptions(args: Args, config: AIConfig): GenerationOptions {
+  const options: GenerationOptions = { allowDuplicates: args.flags.has('allow-duplicates') };
+
+  const strategy = flag(args, 'strategy');
+  if (strategy !== undefined) {
+    if (!isSelectionStrategy(strategy)) {
+      throw new UsageError(`Unknown strategy: ${strategy} (expected best or merge)`);
+    }
+    options.strategy = strategy;
+  }
+
+  const editor = flag(args, 'editor');
+  if (editor !== undefined) {
+    if (!getEnabledProviders(config.providers).some(provider => provider.id === editor)) {
+      throw new UsageError('--editor must be the id of an enabled provider');
+    }
+    options.editor = editor;
+  }
+
+  const offline = args.flags.has('fake') || args.flags.has('replay');
+  if (args.flags.has('media') || args.flags.has('no-media') || offline) {
+    options.media = args.flags.has('media');
+  }
+  return options;
+}
+
+function withPromptVersion(outline: ArticleOutline, args: Args): ArticleOutline {
+  const version = flag(args, 'prompt-version');
+  return version ? { ...outline, promptVersion: version } : outline;
+}
+
+async function generate(
+  outline: ArticleOutline,
+  config: AIConfig,
+  options: GenerationOptions,
+  extra: { topicId?: string; recordDir?: string } = {}
+): Promise<CliResult> {
+  const startTime = Date.now();
+  const recorded = new Map<string, string>();
+
+  const result = await runGenerationPipeline({
+    source: 'cli',
+    outline,
+    config,
+    topicId: extra.topicId ?? null,
+    publish: false,
+    ...options,
+    ...(extra.recordDir ? { hooks: { onWriterToken: (writer, text) => recorded.set(writer, (recorded.get(writer) ?? '') + text) } } : {}),
+  });
+
+  if (extra.recordDir) {
+    for (const timing of result.report.timings.filter(timing => timing.status === 'fulfilled')) {
+      writeFile(path.join(extra.recordDir, `${timing.writer}.html`), recorded.get(timing.writer) ?? '');
+    }
+    console.log(`[CLI] Recorded ${result.report.timings.filter(timing => timing.status === 'fulfilled').length} answers in ${extra.recordDir}`);
+  }
+
+  return { outline, ...toGenerationResponse(result, Date.now() - startTime) };
+}
+
+function summaryLine(result: CliResult): string {
+  const { article, metadata } = result;
+  const score = metadata.ranking.find(entry => entry.writer === article.writer)?.total;
+  return `"${article.title}" by ${article.writer} (${article.wordCount} words, score ${score ?? '-'}, ` +
+    `$${metadata.usage.costUsd.toFixed(4)}, run ${result.runId ?? 'not archived'})`;
+}
+
+async function generateCommand(args: Args): Promise<void> {
+  const [file] = args.positional;
+  if (!file) {
+    throw new UsageError('generate needs an outline file');
+  }
+
+  const outline = withPromptVersion(validateOutline(readJson(file)), args);
+  const config = writerConfig(args);
+  const result = await generate(outline, config, generationOptions(args, config), { recordDir: flag(args, 'record') });
+
+  const out = flag(args, 'out');
+  if (out) {
+    writeFile(out, JSON.stringify(result, null, 2));
+  }
+  console.log(`[CLI] ${summaryLine(result)}${out ? ` -> ${out}` : ''}`);
+}
+
+// RFC 4180 style: quoted fields may hold commas, quotes ("") and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(';').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Batch topics as outline bodies (validated like /api/generate bodies)
+function readBatch(file: string): unknown[] {
+  if (file.toLowerCase().endsWith('.json')) {
+    const data = readJson(file);
+    if (!Array.isArray(data)) {
+      throw new Error(`${file} must hold a JSON array of outlines`);
+    }
+    return data;
+  }
+
+  const [header, ...rows] = parseCsv(readFileSync(file, 'utf8').replace(/^\uFEFF/, ''));
+  if (!header || !header.map(column => column.trim()).includes('topic')) {
+    throw new Error(`${file} needs a header row with at least a "topic" column`);
+  }
+  const columns = header.map(column => column.trim());
+
+  return rows.map(cells => {
+    const value = (column: string) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? cells[index]?.trim() || undefined : undefined;
+    };
+    const sections = splitList(value('sections'));
+    return {
+      topic: value('topic'),
+      keywords: splitList(value('keywords')),
+      category: value('category'),
+      ...(value('targetLength') ? { targetLength: Number(value('targetLength')) } : {}),
+      ...(sections.length > 0 ? { sections } : {}),
+      ...(value('language') ? { language: value('language') } : {}),
+      ...(value('promptVersion') ? { promptVersion: value('promptVersion') } : {}),
+    };
+  });
+}
+
+async function batchCommand(args: Args): Promise<void> {
+  const [file] = args.positional;
+  if (!file) {
+    throw new UsageError('batch needs a topics file (CSV or JSON)');
+  }
+
+  const concurrency = positiveInteger(args, 'concurrency', DEFAULT_CONCURRENCY);
+  const outDir = flag(args, 'out') ?? DEFAULT_BATCH_DIR;
+  // Every row is checked before the first tokens are spent
+  const outlines = readBatch(file).map((body, index) => {
+    try {
+      return withPromptVersion(validateOutline(body), args);
+    } catch (error) {
+      throw new Error(`${file} topic ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  const config = writerConfig(args);
+  const options = generationOptions(args, config);
+
+  console.log(`[CLI] Batch of ${outlines.length} topics, ${concurrency} at a time -> ${outDir}`);
+  const failures: string[] = [];
+  let next = 0;
+  let done = 0;
+
+  // A fixed number of workers take the next topic as soon as theirs is done
+  const worker = async () => {
+    while (next < outlines.length) {
+      const index = next++;
+      const outline = outlines[index];
+      try {
+        const result = await generate(outline, config, options);
+        const name = `${String(index + 1).padStart(3, '0')}-${result.article.slug || slugify(outline.topic)}.json`;
+        writeFile(path.join(outDir, name), JSON.stringify(result, null, 2));
+        console.log(`[CLI] ${++done}/${outlines.length} ${summaryLine(result)} -> ${name}`);
+      } catch (error) {
+        const message = `${outline.topic}: ${error instanceof Error ? error.message : error}`;
+        failures.push(message);
+        console.error(`[CLI] ${++done}/${outlines.length} failed - ${message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, outlines.length) }, worker));
+
+  console.log(`[CLI] Batch done: ${outlines.length - failures.length} generated, ${failures.length} failed`);
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function scheduleCommand(args: Args): Promise<void> {
+  const date = flag(args, 'date') ?? localDate();
+  if (!isCalendarDate(date)) {
+    throw new UsageError(`--date must be a date (YYYY-MM-DD), got: ${date}`);
+  }
+  const requested = flag(args, 'category');
+  if (requested !== undefined) {
+    requireCategory(requested);
+  }
+
+  // Read-only: the cron would start tracking categories and mark the topic used
+  const calendar = createCalendarStore();
+  const topicStore = createTopicStore();
+  const due = requested ? [] : await getDuePublications(date, calendar, getCategories(), undefined, { track: false });
+  const topicData = await getTopicForToday(topicStore, calendar, date, requested, { track: false });
+  const budget = await getBudgetStatus(createUsageLedger());
+  const prestage = getBriefPrestage();
+
+  const report = {
+    date,
+    timezone: TIMEZONE,
+    weekday: weekdayName(date),
+    holiday: holidayName(date),
+    due,
+    category: topicData?.category ?? null,
+    publication: topicData?.publication ?? null,
+    topicId: topicData?.topic?.id ?? null,
+    outline: topicData?.topic ? topicToOutline(topicData.topic) : null,
+    brief: topicData?.topic
+      ? prestage === 'always' || (prestage === 'missing' && !topicData.topic.brief) ? 'built by the cron (BRIEF_PRESTAGE)' : topicData.topic.brief ? 'stored' : 'none'
+      : null,
+    budget,
+    next: topicData ? null : planPublications(addDays(date, 1), addDays(date, 60), getCategories()).planned[0] ?? null,
+  };
+  console.log(JSON.stringify(report, null, 2));
+
+  if (!topicData) {
+    console.log(`[CLI] No publication planned for ${date} (${TIMEZONE})`);
+    return;
+  }
+  if (!topicData.topic) {
+    console.log(`[CLI] Topic backlog empty for ${topicData.category} - the cron would skip`);
+    return;
+  }
+  if (budget.exhausted) {
+    console.log('[CLI] Monthly usage budget reached - the cron would skip');
+  }
+  if (args.flags.has('dry-run')) {
+    console.log(`[CLI] Dry run: the cron would write "${topicData.topic.topic}" (${topicData.category})`);
+    return;
+  }
+
+  const config = writerConfig(args);
+  const outline = withPromptVersion(topicToOutline(topicData.topic), args);
+  const result = await generate(outline, config, generationOptions(args, config), { topicId: topicData.topic.id });
+  const out = flag(args, 'out');
+  if (out) {
+    writeFile(out, JSON.stringify(result, null, 2));
+  }
+  console.log(`[CLI] ${summaryLine(result)}${out ? ` -> ${out}` : ''} - not published, topic stays queued`);
+}
+
+// Result files of generate / batch, directories expanded to their JSON files
+function readResults(inputs: string[]): ExportEntry[] {
+  const files = inputs.flatMap(input => statSync(input).isDirectory()
+    ? readdirSync(input).filter(file => file.endsWith('.json')).sort().map(file => path.join(input, file))
+    : [input]);
+
+  return files.map(file => {
+    const data = readJson(file) as Partial<CliResult>;
+    if (!data.article || !data.outline) {
+      throw new Error(`${file} is not a generate / batch result (article and outline missing)`);
+    }
+    return { article: data.article, outline: data.outline };
+  });
+}
+
+async function readRuns(args: Args): Promise<ExportEntry[]> {
+  const runs = await createRunStore().list({
+    from: flag(args, 'from'),
+    to: flag(args, 'to'),
+    category: flag(args, 'category'),
+    limit: positiveInteger(args, 'limit', 50),
+  });
+
+  return runs.flatMap(run => {
+    const article = getSelectedArticle(run);
+    return article ? [{ article, outline: run.outline }] : [];
+  });
+}
+
+async function exportCommand(args: Args): Promise<void> {
+  const format = flag(args, 'format') ?? 'html';
+  if (!isExportFormat(format)) {
+    throw new UsageError(`Unknown format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  if (!args.flags.has('runs') && args.positional.length === 0) {
+    throw new UsageError('export needs result files / directories or --runs');
+  }
+
+  const entries = args.flags.has('runs') ? await readRuns(args) : readResults(args.positional);
+  if (entries.length === 0) {
+    throw new Error('Nothing to export');
+  }
+
+  const outDir = flag(args, 'out') ?? DEFAULT_EXPORT_DIR;
+  const files = exportArticles(entries, format, { title: flag(args, 'site-title'), url: flag(args, 'site-url') });
+  for (const file of files) {
+    writeFile(path.join(outDir, file.name), file.content);
+  }
+  console.log(`[CLI] Exported ${entries.length} articles as ${format}: ${files.map(file => path.join(outDir, file.name)).join(', ')}`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const args = parseArgs(argv);
+
+  if (!args.command || args.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  switch (args.command) {
+    case 'generate':
+      return generateCommand(args);
+    case 'batch':
+      return batchCommand(args);
+    case 'schedule':
+      return scheduleCommand(args);
+    case 'export':
+      return exportCommand(args);
+    default:
+      throw new UsageError(`Unknown command: ${args.command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  console.error('[CLI] Error:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,312 +1,304 @@
 /**
  * AI Writers Module - Vercel Version
- * Parallel content generation using Gemini, ChatGPT, and Claude
+ * Parallel content generation using the configured writer providers
+ * (Gemini, ChatGPT, Claude or any OpenAI-compatible endpoint)
  * 
  * CHANGES FROM MANUS VERSION:
  * - Removed OpenRouter dependency for ChatGPT (direct OpenAI API)
  * - Optimized for Vercel Serverless Functions
  * - Added better error handling and logging
+ * - Providers, models and weights come from lib/providers.ts
+ * - Prompts are versioned templates (lib/prompt-templates.ts)
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
+import {
+  getEnabledProviders,
+  loadProviderConfigs,
+  type ProviderConfig,
+  type WriterProvider,
+} from './providers';
+import { scoreArticle, type ArticleScores } from './scoring';
+import { parseArticleOutput } from './article-parser';
+import { getLanguage, type Language } from './languages';
+import type { OutlineBrief } from './brief-builder';
+import type { MergeReport } from './ensemble';
+import type { MediaBrief } from './media-brief';
+import { renderPrompt, resolvePromptTemplate, type PromptTemplate } from './prompt-templates';
+import { getResilienceConfig } from './resilience';
+import { buildStructuredData, type StructuredData } from './structured-data';
+import { priceUsage, type ArticleUsage } from './usage';
 
 // Types
+export type ArticleCategory = string; // id from the category registry (lib/categories.ts)
+
 export interface ArticleOutline {
   topic: string;
   keywords: string[];
   targetLength: number; // words
   sections: string[];
-  category: 'kompensacja_mocy_biernej' | 'kompensatory_svg';
+  category: ArticleCategory;
+  editorNotes?: string; // reviewer feedback when a draft is regenerated
+  language?: Language; // output language (default 'pl')
+  brief?: OutlineBrief; // heading plan, intent and FAQ questions (lib/brief-builder.ts)
+  revision?: ArticleRevision; // refresh of a live post instead of a new article (lib/refresh.ts)
+  promptVersion?: string; // prompt template version (default: active version or A/B split, lib/prompt-templates.ts)
+}
+
+export interface ArticleRevision {
+  postId: number;
+  url: string | null;
+  title: string;
+  content: string; // live body HTML (without JSON-LD and fact-check marks)
+}
+
+export interface TranslationSource {
+  runId: string;
+  writer: string;
+  language: Language;
 }
 
 export interface GeneratedArticle {
   title: string;
-  content: string;
-  writer: 'gemini' | 'chatgpt' | 'claude';
+  metaTitle: string;
+  metaDescription: string; // max 160 characters
+  slug: string;
+  excerpt: string;
+  content: string; // sanitised body HTML (no fences, wrappers or <h1>)
+  writer: string; // provider id, e.g. 'gemini' | 'chatgpt' | 'claude'
+  model: string;
   wordCount: number;
   generatedAt: Date;
-  scores?: {
-    seo: number;
-    readability: number;
-    engagement: number;
-    total: number;
-  };
+  scores?: ArticleScores;
+  structuredData?: StructuredData; // JSON-LD injected into the Odoo post
+  language?: Language; // unset on articles written before multilingual support (Polish)
+  translatedFrom?: TranslationSource;
+  merge?: MergeReport; // set on ensemble composites: source writer of every section
+  usage?: ArticleUsage; // tokens and cost of the call that produced it (lib/usage.ts)
+  promptVersion?: string; // prompt template it was written with (unset on older articles)
+  media?: MediaBrief; // cover prompt, figure placements and alt texts (selected article, lib/media-brief.ts)
 }
 
 export interface AIConfig {
-  geminiApiKey?: string;
-  openaiApiKey?: string;
-  anthropicApiKey?: string;
+  providers: ProviderConfig[];
 }
 
-// Writing instructions for SEO-optimized Polish content
-const WRITING_INSTRUCTIONS = `
-Jesteś ekspertem SEO content writer specjalizującym się w branży energetycznej i kompensacji mocy biernej.
-
-## WYMAGANIA STYLISTYCZNE:
-- Pisz w języku polskim
-- Używaj profesjonalnego, ale przystępnego tonu
-- Stosuj formatowanie HTML (h2, h3, p, ul, li, strong, em)
-- Długość: zgodna z targetLength (±10%)
-
-## STRUKTURA ARTYKUŁU:
-1. **Wstęp** (hook + zapowiedź treści)
-2. **Sekcje główne** (h2 z podsekcjami h3)
-3. **FAQ** (5-7 pytań i odpowiedzi)
-4. **Podsumowanie** z Call-to-Action
-
-## SEO REQUIREMENTS:
-- Słowo kluczowe główne w pierwszym akapicie
-- Słowa kluczowe w nagłówkach h2/h3
-- Gęstość słów kluczowych: 1-2%
-- Meta description w pierwszych 160 znakach
-- Linkowanie wewnętrzne (placeholder: [INTERNAL_LINK])
-
-## ENGAGEMENT ELEMENTS:
-- Cytowalne fragmenty (featured snippets)
-- Tabele porównawcze gdzie pasuje
-- Listy punktowane i numerowane
-- Definicje kluczowych terminów
-- Statystyki i dane liczbowe
-
-## FORMAT OUTPUT:
-Return ONLY clean HTML article, no markdown, no code blocks.
-`;
+export interface WriterFailure {
+  writer: string;
+  model: string;
+  error: string;
+}
+
+export interface WriterTiming {
+  writer: string;
+  model: string;
+  durationMs: number;
+  status: 'fulfilled' | 'rejected';
+}
+
+export interface GenerationReport {
+  articles: GeneratedArticle[];
+  failures: WriterFailure[];
+  timings: WriterTiming[];
+  durationMs: number;
+}
+
+// Progress callbacks (async jobs report per-writer status, SSE streams tokens)
+export interface GenerationHooks {
+  onWritersStarted?: (writers: { writer: string; model: string }[]) => void | Promise<void>; // after budget enforcement
+  onWriterToken?: (writer: string, text: string) => void; // switches providers to streaming
+  onWriterSettled?: (timing: WriterTiming, failure: WriterFailure | null) => void | Promise<void>;
+}
 
 /**
- * Create prompt for AI writers
+ * Build AI config from the provider registry (env + WRITERS_CONFIG)
  */
-function createPrompt(outline: ArticleOutline): string {
-  return `${WRITING_INSTRUCTIONS}
-
----
-
-# YOUR TASK
-
-Write a comprehensive blog post based on:
-
-**Topic**: ${outline.topic}
-**Keywords**: ${outline.keywords.join(', ')}
-**Target Length**: ${outline.targetLength} words
-**Required Sections**: ${outline.sections.join(', ')}
-**Category**: ${outline.category === 'kompensacja_mocy_biernej' ? 'Kompensacja mocy biernej' : 'Kompensatory SVG'}
-
-**CRITICAL REQUIREMENTS**:
-1. Follow ALL instructions from the writing guide above
-2. Write in Polish language
-3. Format in HTML with semantic tags (<h2>, <h3>, <p>, <ul>, <li>)
-4. Include ALL required elements:
-   - Cytowalne fragmenty (snippets)
-   - Tabele porównawcze
-   - Listy punktowane/numerowane
-   - Definicje kluczowych terminów
-   - Sekcja FAQ (5-7 pytań)
-   - Call-to-Action na końcu
-5. Optimize for both SEO and GEO
-6. Include placeholder [INTERNAL_LINK] for internal linking
-
-BEGIN WRITING THE ARTICLE NOW:`;
+export function getAIConfig(env: Record<string, string | undefined> = process.env): AIConfig {
+  return { providers: loadProviderConfigs(env) };
 }
 
 /**
- * Generate article using Gemini
+ * True when at least one writer provider is enabled
  */
-export async function writeWithGemini(
-  outline: ArticleOutline,
-  apiKey: string
-): Promise<GeneratedArticle> {
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash-exp' });
-
-    const prompt = createPrompt(outline);
-    
-    console.log('[Gemini] Starting generation for:', outline.topic);
-    const startTime = Date.now();
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const content = response.text();
-    const wordCount = content.split(/\s+/).length;
-
-    console.log(`[Gemini] Completed in ${Date.now() - startTime}ms, ${wordCount} words`);
-
-    return {
-      title: outline.topic,
-      content,
-      writer: 'gemini',
-      wordCount,
-      generatedAt: new Date(),
-    };
-  } catch (error) {
-    console.error('[Gemini] Failed to generate article:', error);
-    throw new Error(`Gemini generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+export function hasEnabledProviders(config: AIConfig): boolean {
+  return config.providers.some(provider => provider.enabled);
 }
 
 /**
- * Generate article using ChatGPT (DIRECT API - no OpenRouter!)
+ * Turn raw model output into a structured article
  */
-export async function writeWithChatGPT(
+function buildArticle(
+  raw: string,
   outline: ArticleOutline,
-  apiKey: string
-): Promise<GeneratedArticle> {
-  try {
-    // CHANGED: Direct OpenAI API instead of OpenRouter
-    const client = new OpenAI({
-      apiKey,
-      // No baseURL = direct api.openai.com
-    });
-
-    const prompt = createPrompt(outline);
-    
-    console.log('[ChatGPT] Starting generation for:', outline.topic);
-    const startTime = Date.now();
-
-    const response = await client.chat.completions.create({
-      // CHANGED: Model name without 'openai/' prefix
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert SEO content writer specializing in renewable energy and power factor compensation systems. Always write in Polish.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 4000,
-    });
-
-    const content = response.choices[0]?.message?.content || '';
-    const wordCount = content.split(/\s+/).length;
-
-    console.log(`[ChatGPT] Completed in ${Date.now() - startTime}ms, ${wordCount} words`);
+  writer: string,
+  model: string,
+  promptVersion: string
+): GeneratedArticle {
+  const parsed = parseArticleOutput(raw, outline.topic);
+  const article: GeneratedArticle = {
+    ...parsed,
+    writer,
+    model,
+    generatedAt: new Date(),
+    language: getLanguage(outline.language).code,
+    promptVersion,
+  };
 
-    return {
-      title: outline.topic,
-      content,
-      writer: 'chatgpt',
-      wordCount,
-      generatedAt: new Date(),
-    };
-  } catch (error) {
-    console.error('[ChatGPT] Failed to generate article:', error);
-    throw new Error(`ChatGPT generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  return { ...article, structuredData: buildStructuredData(article, outline) };
 }
 
 /**
- * Generate article using Claude (Anthropic)
+ * Generate article using a single writer provider
  */
-export async function writeWithClaude(
+export async function writeWithProvider(
   outline: ArticleOutline,
-  apiKey: string
+  provider: WriterProvider,
+  onToken?: (text: string) => void,
+  deadline?: number,
+  template?: PromptTemplate
 ): Promise<GeneratedArticle> {
-  try {
-    const client = new Anthropic({ apiKey });
+  const label = provider.config.label;
 
-    const prompt = createPrompt(outline);
+  try {
+    const { version, system, prompt } = renderPrompt(template ?? await resolvePromptTemplate(outline.promptVersion), outline);
     
-    console.log('[Claude] Starting generation for:', outline.topic);
+    console.log(`[${label}] Starting generation for:`, outline.topic, `(${provider.config.model}, prompt ${version})`);
     const startTime = Date.now();
 
-    const response = await client.messages.create({
-      model: 'claude-3-5-sonnet-20241022', // Updated to latest version
-      max_tokens: 4000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+    const result = await provider.complete({ system, prompt, onToken, deadline });
+    const article = buildArticle(result.text, outline, provider.id, result.model, version);
+    article.usage = priceUsage(provider.id, result);
 
-    const content = response.content[0]?.type === 'text'
-      ? response.content[0].text
-      : '';
-    const wordCount = content.split(/\s+/).length;
+    console.log(`[${label}] Completed in ${Date.now() - startTime}ms, ${article.wordCount} words${article.usage ? `, ${article.usage.inputTokens}+${article.usage.outputTokens} tokens` : ''}`);
 
-    console.log(`[Claude] Completed in ${Date.now() - startTime}ms, ${wordCount} words`);
+    return article;
+  } catch (error) {
+    console.error(`[${label}] Failed to generate article:`, error);
+    throw new Error(`${label} generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    return {
-      title: outline.topic,
-      content,
-      writer: 'claude',
-      wordCount,
-      generatedAt: new Date(),
-    };
+// A failing progress hook must not fail the generation
+async function reportStarted(hooks: GenerationHooks, providers: WriterProvider[]): Promise<void> {
+  try {
+    await hooks.onWritersStarted?.(providers.map(provider => ({ writer: provider.config.id, model: provider.config.model })));
   } catch (error) {
-    console.error('[Claude] Failed to generate article:', error);
-    throw new Error(`Claude generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('[AI Writers] Progress hook failed:', error);
+  }
+}
+
+// A failing progress hook must not fail the writer
+async function reportSettled(
+  hooks: GenerationHooks,
+  timing: WriterTiming,
+  failure: WriterFailure | null
+): Promise<void> {
+  try {
+    await hooks.onWriterSettled?.(timing, failure);
+  } catch (error) {
+    console.error('[AI Writers] Progress hook failed:', error);
   }
 }
 
 /**
- * Generate articles in parallel using all three AI models
+ * Generate articles in parallel using all enabled providers,
+ * reporting failures and per-writer timings instead of throwing
+ *
+ * All writers share one deadline (writerTimeoutMs, default WRITER_TIMEOUT_MS),
+ * so a slow provider cannot hold up the ones that finished, and one prompt
+ * template version, so an A/B test compares runs rather than writers.
  */
-export async function generateArticlesParallel(
+export async function generateArticlesWithReport(
   outline: ArticleOutline,
-  config: AIConfig
-): Promise<GeneratedArticle[]> {
+  config: AIConfig,
+  hooks: GenerationHooks = {},
+  writerTimeoutMs: number = getResilienceConfig().writerTimeoutMs
+): Promise<GenerationReport> {
   console.log('[AI Writers] Starting parallel generation for:', outline.topic);
   const startTime = Date.now();
+  const deadline = startTime + writerTimeoutMs;
 
-  const promises: Promise<GeneratedArticle>[] = [];
-  const writerNames: string[] = [];
+  const providers = getEnabledProviders(config.providers);
 
-  // Add available writers
-  if (config.geminiApiKey) {
-    promises.push(writeWithGemini(outline, config.geminiApiKey));
-    writerNames.push('Gemini');
-  }
-  if (config.openaiApiKey) {
-    promises.push(writeWithChatGPT(outline, config.openaiApiKey));
-    writerNames.push('ChatGPT');
-  }
-  if (config.anthropicApiKey) {
-    promises.push(writeWithClaude(outline, config.anthropicApiKey));
-    writerNames.push('Claude');
+  if (providers.length === 0) {
+    throw new Error('No AI providers configured. At least one AI provider is required.');
   }
 
-  if (promises.length === 0) {
-    throw new Error('No API keys configured. At least one AI provider is required.');
-  }
+  const template = await resolvePromptTemplate(outline.promptVersion);
+  const writerNames = providers.map(provider => provider.config.label);
+  console.log(`[AI Writers] Using models: ${providers.map(p => `${p.config.label} (${p.config.model})`).join(', ')}, prompt ${template.version}`);
 
-  console.log(`[AI Writers] Using models: ${writerNames.join(', ')}`);
+  await reportStarted(hooks, providers);
+  const durations: number[] = [];
 
   // Run all in parallel with allSettled
-  const results = await Promise.allSettled(promises);
+  const results = await Promise.allSettled(providers.map(async (provider, index) => {
+    const writerStart = Date.now();
+    const { id, model } = provider.config;
+    try {
+      const onToken = hooks.onWriterToken && ((text: string) => hooks.onWriterToken?.(id, text));
+      const article = await writeWithProvider(outline, provider, onToken, deadline, template);
+      durations[index] = Date.now() - writerStart;
+      await reportSettled(hooks, { writer: id, model: article.model, durationMs: durations[index], status: 'fulfilled' }, null);
+      return article;
+    } catch (error) {
+      durations[index] = Date.now() - writerStart;
+      const message = error instanceof Error ? error.message : String(error);
+      await reportSettled(hooks, { writer: id, model, durationMs: durations[index], status: 'rejected' }, { writer: id, model, error: message });
+      throw error;
+    }
+  }));
 
   const articles: GeneratedArticle[] = [];
+  const failures: WriterFailure[] = [];
+  const timings: WriterTiming[] = [];
 
   results.forEach((result, index) => {
     const writerName = writerNames[index];
+    const { id, model } = providers[index].config;
+
     if (result.status === 'fulfilled') {
-      articles.push(result.value);
-      console.log(`[AI Writers] ${writerName} completed: ${result.value.wordCount} words`);
+      // The fallback model when the primary one failed
+      timings.push({ writer: id, model: result.value.model, durationMs: durations[index], status: result.status });
+      const article = { ...result.value, scores: scoreArticle(result.value, outline) };
+      articles.push(article);
+      console.log(`[AI Writers] ${writerName} completed: ${article.wordCount} words, score ${article.scores.total}`);
     } else {
+      timings.push({ writer: id, model, durationMs: durations[index], status: result.status });
       console.error(`[AI Writers] ${writerName} failed:`, result.reason);
+      failures.push({
+        writer: id,
+        model,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
     }
   });
 
+  const durationMs = Date.now() - startTime;
+  console.log(`[AI Writers] Completed ${articles.length}/${providers.length} articles in ${durationMs}ms`);
+
+  return { articles, failures, timings, durationMs };
+}
+
+/**
+ * Generate articles in parallel using all enabled providers
+ */
+export async function generateArticlesParallel(
+  outline: ArticleOutline,
+  config: AIConfig
+): Promise<GeneratedArticle[]> {
+  const { articles } = await generateArticlesWithReport(outline, config);
+
   if (articles.length === 0) {
     throw new Error('All AI writers failed to generate content');
   }
 
-  console.log(`[AI Writers] Completed ${articles.length}/${promises.length} articles in ${Date.now() - startTime}ms`);
-
   return articles;
 }
 
 /**
  * Select best article based on scoring
  */
-export function selectBestArticle(articles: GeneratedArticle[]): GeneratedArticle {
+export function selectBestArticle(articles: GeneratedArticle[], config?: AIConfig): GeneratedArticle {
   if (articles.length === 0) {
     throw new Error('No articles to select from');
   }
@@ -315,16 +307,19 @@ export function selectBestArticle(articles: GeneratedArticle[]): GeneratedArticl
     return articles[0];
   }
 
-  // Simple scoring based on word count proximity to target
-  // In production, use full SEO/readability/engagement scoring
-  const scored = articles.map(article => ({
-    article,
-    score: article.scores?.total || article.wordCount, // Fallback to word count
-  }));
+  // Articles are scored in generateArticlesParallel (see lib/scoring.ts) and
+  // weighted per provider; unscored articles rank last and ties keep writer order
+  const scored = articles.map(article => {
+    const weight = config?.providers.find(provider => provider.id === article.writer)?.weight ?? 1;
+    return {
+      article,
+      score: article.scores ? article.scores.total * weight : -1,
+    };
+  });
 
   scored.sort((a, b) => b.score - a.score);
   
-  console.log(`[AI Writers] Selected best article from ${articles[0].writer} with score ${scored[0].score}`);
+  console.log(`[AI Writers] Selected best article from ${scored[0].article.writer} with score ${scored[0].score}`);
   
   return scored[0].article;
 }
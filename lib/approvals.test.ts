@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { makeRun } from '../test/fixtures';
+import { approveDraft, createApprovalStore, rejectDraft, republishRun, submitForReview } from './approvals';
+import { createOdooClient, type OdooClient } from './odoo-client';
+import { startMockOdooServer, type MockOdooServer } from './odoo-mock-server';
+import { createRunStore } from './run-history';
+import { createMemoryStore } from './storage';
+
+const LOGIN = 'bot@powergo.pl';
+const API_KEY = 'test-key';
+
+let odoo: MockOdooServer;
+let client: OdooClient;
+
+beforeAll(async () => {
+  odoo = await startMockOdooServer({ login: LOGIN, apiKey: API_KEY });
+  client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+  // publishDraft uses the process-wide client
+  vi.stubEnv('ODOO_URL', odoo.url);
+  vi.stubEnv('ODOO_DB', odoo.db);
+  vi.stubEnv('ODOO_LOGIN', LOGIN);
+  vi.stubEnv('ODOO_API_KEY', API_KEY);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await odoo.close();
+});
+
+function setup() {
+  const kv = createMemoryStore();
+  const runs = createRunStore(kv);
+  const approvals = createApprovalStore(kv, runs);
+  return { runs, approvals, deps: { runs, approvals, odoo: client } };
+}
+
+function post(id: number | null | undefined) {
+  return odoo.models['blog.post'].find(record => record.id === id);
+}
+
+describe('republishRun', () => {
+  it('publishes a run without a draft and submits it for review', async () => {
+    const { runs, deps } = setup();
+    const run = await runs.save(makeRun());
+
+    const result = await republishRun(run.id, { actor: 'redakcja' }, deps);
+
+    expect(result.run.odoo).toMatchObject({ status: 'draft', writer: 'claude' });
+    expect(post(result.run.odoo?.postId)).toMatchObject({ is_published: false });
+    expect(result.approval).toMatchObject({ id: run.id, status: 'pending', odooPostId: result.run.odoo?.postId });
+    expect((await runs.get(run.id))?.approval).toBe('pending');
+  });
+
+  it('updates the pending draft in place with another writer', async () => {
+    const { runs, deps } = setup();
+    const run = await runs.save(makeRun());
+    const first = await republishRun(run.id, { actor: 'redakcja' }, deps);
+    const count = odoo.models['blog.post'].length;
+
+    const second = await republishRun(run.id, { actor: 'redakcja', writer: 'gemini' }, deps);
+
+    expect(second.run.odoo?.postId).toBe(first.run.odoo?.postId);
+    expect(odoo.models['blog.post']).toHaveLength(count);
+    expect(second.approval).toMatchObject({ status: 'pending', writer: 'gemini' });
+    expect(second.approval?.history.map(step => `${step.from}→${step.to}`)).toEqual(['null→pending', 'pending→pending']);
+  });
+
+  it('refuses rejected drafts', async () => {
+    const { runs, deps } = setup();
+    const run = await runs.save(makeRun());
+    const { run: published } = await republishRun(run.id, { actor: 'redakcja' }, deps);
+    await rejectDraft(run.id, { actor: 'redakcja', reason: 'Za ogólny' }, deps);
+
+    await expect(republishRun(run.id, { actor: 'redakcja', writer: 'gemini' }, deps)).rejects.toMatchObject({ status: 409 });
+    expect((await runs.get(run.id))?.approval).toBe('rejected');
+    expect(post(published.odoo?.postId)).toMatchObject({ is_published: false });
+  });
+
+  it('refuses to overwrite an approved (live) post', async () => {
+    const { runs, deps } = setup();
+    const run = await runs.save(makeRun());
+    const { run: published } = await republishRun(run.id, { actor: 'redakcja' }, deps);
+    await approveDraft(run.id, { actor: 'redakcja' }, deps);
+    const live = { ...post(published.odoo?.postId) };
+
+    await expect(republishRun(run.id, { actor: 'redakcja', writer: 'gemini' }, deps)).rejects.toMatchObject({ status: 409 });
+    expect(post(published.odoo?.postId)).toMatchObject({ is_published: true, name: live.name });
+    expect((await runs.get(run.id))?.selectedWriter).toBe('claude');
+  });
+
+  it('refuses superseded drafts', async () => {
+    const { runs, approvals, deps } = setup();
+    const run = await runs.save(makeRun({ odoo: { postId: 1, writer: 'claude', status: 'draft', at: '2025-03-10T09:05:00Z' } }));
+    await submitForReview(run, 'cron', approvals);
+    await approvals.transition(run.id, 'regenerating', 'redakcja');
+    await approvals.transition(run.id, 'superseded', 'system', { supersededBy: 'newer-run' });
+
+    await expect(republishRun(run.id, { actor: 'redakcja' }, deps)).rejects.toThrow('replaced by newer-run');
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Editorial Approval Workflow
+ * Review, approve, reject or regenerate Odoo drafts created by the agent
+ *
+ *   pending ──approve──▶ approved   (is_published = true, optional post_date for go-live)
+ *      │──reject───▶ rejected      (topic goes back to the queue)
+ *      └─regenerate─▶ regenerating ─▶ superseded (new pending draft replaces it)
+ *
+ * Republishing an archived run (/api/runs action=republish) goes through the
+ * pipeline's publishDraft and back into review; live (approved) posts and
+ * drafts replaced by a newer run are never overwritten.
+ *
+ * Every transition is recorded with the actor, time and note.
+ * One approval exists per generation run; its id is the run id. The current
+ * status is mirrored onto the run, so the duplicate guard can ignore rejected
+ * and superseded drafts.
+ */
+
+import type { AIConfig } from './ai-writers';
+import { checkFacts, flaggedClaims, stripFactHighlights, type FactCheckReport, type FactClaim } from './fact-check';
+import { HttpError } from './http';
+import { getOdooClient, type OdooClient } from './odoo-client';
+import { publishDraft, runGenerationPipeline, type PipelineResult } from './pipeline';
+import { createRunStore, getSelectedArticle, type GenerationRun, type RunStore } from './run-history';
+import { getStore, type KeyValueStore } from './storage';
+import { createTopicStore, type TopicStore } from './topic-store';
+
+// Types
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'regenerating' | 'superseded';
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'regenerating', 'superseded'];
+
+export interface ApprovalTransition {
+  from: ApprovalStatus | null;
+  to: ApprovalStatus;
+  actor: string;
+  at: string;
+  note?: string;
+}
+
+export interface Approval {
+  id: string; // run id
+  runId: string;
+  topicId: string | null;
+  odooPostId: number;
+  category: GenerationRun['category'];
+  title: string;
+  writer: string;
+  score: number | null;
+  flaggedClaims: FactClaim[]; // fact-check: conflicting / unverified claims marked in the draft
+  status: ApprovalStatus;
+  postDate: string | null; // scheduled go-live (UTC ISO)
+  rejectionReason: string | null;
+  editorNotes: string | null;
+  supersededBy: string | null;
+  history: ApprovalTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprovalStore {
+  create(run: GenerationRun, actor: string): Promise<Approval>;
+  get(id: string): Promise<Approval | null>;
+  list(status?: ApprovalStatus): Promise<Approval[]>;
+  transition(id: string, to: ApprovalStatus, actor: string, changes?: Partial<Approval>, note?: string): Promise<Approval>;
+}
+
+export interface WorkflowDeps {
+  approvals?: ApprovalStore;
+  topics?: TopicStore;
+  odoo?: OdooClient;
+  runs?: RunStore;
+}
+
+const APPROVAL_PREFIX = 'approval:';
+
+// A republished draft must not overwrite these (live post / newer draft in the same post /
+// rejected draft whose topic went back to the backlog and out of the duplicate corpus)
+const REPUBLISH_BLOCKED: ApprovalStatus[] = ['approved', 'rejected', 'regenerating', 'superseded'];
+
+// Allowed transitions (anything else is a 409)
+const TRANSITIONS: Record<ApprovalStatus, ApprovalStatus[]> = {
+  pending: ['approved', 'rejected', 'regenerating'],
+  approved: [],
+  rejected: [],
+  regenerating: ['superseded', 'pending'],
+  superseded: [],
+};
+
+export function isApprovalStatus(value: unknown): value is ApprovalStatus {
+  return typeof value === 'string' && (APPROVAL_STATUSES as string[]).includes(value);
+}
+
+export function createApprovalStore(kv: KeyValueStore = getStore(), runs: RunStore = createRunStore(kv)): ApprovalStore {
+  // Like saveRunSafely: a missing archive entry must not block the review
+  async function mirrorStatus(approval: Approval): Promise<void> {
+    try {
+      await runs.recordApproval(approval.runId, approval.status);
+    } catch (error) {
+      console.error(`[Approvals] Failed to record ${approval.status} on run ${approval.runId}:`, error);
+    }
+  }
+
+  async function getOrThrow(id: string): Promise<Approval> {
+    const approval = await kv.get<Approval>(`${APPROVAL_PREFIX}${id}`);
+    if (!approval) {
+      throw new HttpError(404, `Approval not found: ${id}`);
+    }
+    return approval;
+  }
+
+  return {
+    async create(run, actor) {
+      const article = run.candidates.find(candidate => candidate.writer === run.selectedWriter);
+      if (!article || !run.odoo?.postId) {
+        throw new Error(`Run ${run.id} has no Odoo draft to review`);
+      }
+
+      // A republished run re-enters review; earlier decisions stay in its history
+      const previous = await kv.get<Approval>(`${APPROVAL_PREFIX}${run.id}`);
+      const now = new Date().toISOString();
+      const approval: Approval = {
+        id: run.id,
+        runId: run.id,
+        topicId: run.topicId,
+        odooPostId: run.odoo.postId,
+        category: run.category,
+        title: article.title,
+        writer: article.writer,
+        score: article.scores?.total ?? null,
+        flaggedClaims: flaggedClaims(run.factCheck),
+        status: 'pending',
+        postDate: null,
+        rejectionReason: null,
+        editorNotes: run.outline.editorNotes ?? null,
+        supersededBy: null,
+        history: [...(previous?.history ?? []), { from: previous?.status ?? null, to: 'pending', actor, at: now }],
+        createdAt: previous?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await kv.set(`${APPROVAL_PREFIX}${approval.id}`, approval);
+      await mirrorStatus(approval);
+      return approval;
+    },
+
+    get(id) {
+      return kv.get<Approval>(`${APPROVAL_PREFIX}${id}`);
+    },
+
+    async list(status) {
+      const keys = (await kv.keys(APPROVAL_PREFIX)).reverse();
+      const approvals = await Promise.all(keys.map(key => kv.get<Approval>(key)));
+      return approvals.filter((approval): approval is Approval =>
+        approval !== null && (!status || approval.status === status)
+      );
+    },
+
+    async transition(id, to, actor, changes = {}, note) {
+      const approval = await getOrThrow(id);
+      if (!TRANSITIONS[approval.status].includes(to)) {
+        throw new HttpError(409, `Cannot move approval ${id} from ${approval.status} to ${to}`);
+      }
+
+      const now = new Date().toISOString();
+      const updated: Approval = {
+        ...approval,
+        ...changes,
+        status: to,
+        updatedAt: now,
+        history: [...approval.history, { from: approval.status, to, actor, at: now, ...(note ? { note } : {}) }],
+      };
+      await kv.set(`${APPROVAL_PREFIX}${id}`, updated);
+      await mirrorStatus(updated);
+      console.log(`[Approvals] ${id}: ${approval.status} → ${to} by ${actor}`);
+      return updated;
+    },
+  };
+}
+
+/**
+ * Put a freshly published draft into the review queue
+ */
+export async function submitForReview(
+  run: GenerationRun,
+  actor: string,
+  approvals: ApprovalStore = createApprovalStore()
+): Promise<Approval | null> {
+  if (!run.odoo?.postId || run.odoo.status !== 'draft') {
+    return null;
+  }
+  return approvals.create(run, actor);
+}
+
+/**
+ * Publish the draft in Odoo, optionally scheduled for a later go-live
+ */
+export async function approveDraft(
+  id: string,
+  params: { actor: string; postDate?: string; note?: string },
+  deps: WorkflowDeps = {}
+): Promise<Approval> {
+  const approvals = deps.approvals ?? createApprovalStore();
+  const approval = await approvals.get(id);
+  if (!approval) {
+    throw new HttpError(404, `Approval not found: ${id}`);
+  }
+  if (approval.status !== 'pending') {
+    throw new HttpError(409, `Approval ${id} is ${approval.status}, not pending`);
+  }
+
+  // Odoo expects "YYYY-MM-DD HH:MM:SS" in UTC; posts with a future date go live then
+  const postDate = params.postDate ? new Date(params.postDate) : null;
+  if (postDate && Number.isNaN(postDate.getTime())) {
+    throw new HttpError(400, 'postDate must be an ISO date');
+  }
+
+  // Fact-check highlights are for the review only (the editor may have edited the post since)
+  const odoo = deps.odoo ?? getOdooClient();
+  const post = await odoo.readBlogPost(approval.odooPostId, ['content']);
+  const content = post?.content ? stripFactHighlights(post.content) : null;
+  await odoo.updateBlogPost(approval.odooPostId, {
+    ...(content !== null && content !== post?.content ? { content } : {}),
+    is_published: true,
+    ...(postDate ? { post_date: postDate.toISOString().slice(0, 19).replace('T', ' ') } : {}),
+  });
+
+  if (approval.topicId) {
+    const topics = deps.topics ?? createTopicStore();
+    await topics.markUsed(approval.topicId, 'published', approval.odooPostId);
+  }
+
+  return approvals.transition(
+    id,
+    'approved',
+    params.actor,
+    { postDate: postDate ? postDate.toISOString() : null },
+    params.note
+  );
+}
+
+/**
+ * Reject the draft and queue its topic again
+ */
+export async function rejectDraft(
+  id: string,
+  params: { actor: string; reason: string },
+  deps: WorkflowDeps = {}
+): Promise<Approval> {
+  const approvals = deps.approvals ?? createApprovalStore();
+  const approval = await approvals.transition(
+    id,
+    'rejected',
+    params.actor,
+    { rejectionReason: params.reason },
+    params.reason
+  );
+
+  if (approval.topicId) {
+    const topics = deps.topics ?? createTopicStore();
+    await topics.update(approval.topicId, { status: 'queued' });
+  }
+
+  return approval;
+}
+
+/**
+ * Generate a new version with editor notes in the prompt; the new draft
+ * replaces the Odoo post in place and enters review as a new approval
+ */
+export async function regenerateDraft(
+  id: string,
+  params: { actor: string; notes: string },
+  config: AIConfig,
+  deps: WorkflowDeps & { run: GenerationRun }
+): Promise<{ previous: Approval; approval: Approval | null; result: PipelineResult }> {
+  const approvals = deps.approvals ?? createApprovalStore();
+  const approval = await approvals.transition(id, 'regenerating', params.actor, { editorNotes: params.notes }, params.notes);
+
+  let result: PipelineResult;
+  try {
+    result = await runGenerationPipeline({
+      source: deps.run.source,
+      outline: { ...deps.run.outline, editorNotes: params.notes },
+      config,
+      topicId: approval.topicId,
+      publish: true,
+      odooPostId: approval.odooPostId,
+    });
+  } catch (error) {
+    // Back to review so the editor can retry
+    await approvals.transition(id, 'pending', 'system', {}, 'Regeneration failed');
+    throw error;
+  }
+
+  const next = await submitForReview(result.run, params.actor, approvals);
+  const previous = await approvals.transition(
+    id,
+    next ? 'superseded' : 'pending',
+    'system',
+    { supersededBy: next?.id ?? null },
+    next ? `Replaced by ${next.id}` : 'Regenerated draft could not be published to Odoo'
+  );
+
+  return { previous, approval: next, result };
+}
+
+/**
+ * Publish an archived run's selected (or given) article to Odoo again - no new
+ * generation cost - and put the draft back into review. The run's existing
+ * draft is updated in place; a live post is never overwritten.
+ */
+export async function republishRun(
+  id: string,
+  params: { actor: string; writer?: string },
+  deps: WorkflowDeps = {}
+): Promise<{ run: GenerationRun; approval: Approval | null; factCheck: FactCheckReport }> {
+  const runs = deps.runs ?? createRunStore();
+  const approvals = deps.approvals ?? createApprovalStore();
+
+  const current = await approvals.get(id);
+  if (current && REPUBLISH_BLOCKED.includes(current.status)) {
+    const reason = current.status === 'approved'
+      ? `is live in Odoo (post ${current.odooPostId}); edit it there or refresh it via /api/refresh`
+      : current.status === 'superseded'
+        ? `was replaced by ${current.supersededBy ?? 'a newer draft'}`
+        : current.status === 'rejected'
+          ? 'was rejected and its topic requeued; generate it again or regenerate a pending draft'
+          : 'is being regenerated';
+    throw new HttpError(409, `Run ${id} ${reason}`);
+  }
+
+  let run = params.writer ? await runs.selectWriter(id, params.writer) : await runs.get(id);
+  if (!run) {
+    throw new HttpError(404, `Run not found: ${id}`);
+  }
+  const article = getSelectedArticle(run);
+  if (!article) {
+    throw new HttpError(400, `Run ${id} has no selected article to publish`);
+  }
+
+  // The same sequence as a pipeline run: links, fact check, highlighted claims
+  const factCheck = checkFacts(article, run.outline);
+  const publication = await publishDraft(article, run.outline, run.odoo?.postId ?? null, factCheck);
+  run = await runs.save({ ...await runs.recordOdoo(id, publication), factCheck });
+  console.log(`[Approvals] Run ${id}: republished ${article.writer} (${publication.status}, Odoo post ${publication.postId ?? '-'})`);
+
+  const approval = await submitForReview(run, params.actor, approvals);
+  return { run: approval ? { ...run, approval: approval.status } : run, approval, factCheck };
+}
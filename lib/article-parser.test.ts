@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseArticleOutput, sanitizeHtml, slugify, truncateAtWord } from './article-parser';
+
+const FALLBACK = 'Kompensacja mocy biernej';
+
+describe('parseArticleOutput', () => {
+  it('separates title, meta description and body', () => {
+    const article = parseArticleOutput(`<title>Moc bierna - poradnik</title>
+<meta name="description" content="Ile kosztuje moc bierna &amp; jak ją ograniczyć.">
+<h1>Moc bierna w zakładzie</h1>
+<p>Pierwszy akapit o mocy biernej.</p>
+<h2>Kary za tg φ</h2>
+<p>Drugi akapit.</p>`, FALLBACK);
+
+    expect(article.title).toBe('Moc bierna w zakładzie');
+    expect(article.metaTitle).toBe('Moc bierna - poradnik');
+    expect(article.metaDescription).toBe('Ile kosztuje moc bierna & jak ją ograniczyć.');
+    expect(article.slug).toBe('moc-bierna-w-zakladzie');
+    expect(article.excerpt).toBe('Pierwszy akapit o mocy biernej.');
+    expect(article.content).not.toMatch(/<h1|<title|<meta/);
+    expect(article.content.startsWith('<p>Pierwszy akapit')).toBe(true);
+    expect(article.wordCount).toBe(11);
+  });
+
+  it('falls back without <title>, meta description or <h1>', () => {
+    const article = parseArticleOutput('<h2>Wstęp</h2>\n<p>Baterie kondensatorów obniżają rachunki.</p>', FALLBACK);
+
+    expect(article.title).toBe(FALLBACK);
+    expect(article.metaTitle).toBe(FALLBACK);
+    expect(article.metaDescription).toBe('Baterie kondensatorów obniżają rachunki.');
+    expect(article.slug).toBe('kompensacja-mocy-biernej');
+  });
+
+  it('unwraps code-fenced HTML documents', () => {
+    const raw = 'Oto artykuł:\n```html\n<!DOCTYPE html><html><head><title>Filtry harmonicznych</title></head>' +
+      '<body><h1>Filtry harmonicznych</h1><p>Treść.</p></body></html>\n```\nPowodzenia!';
+
+    const article = parseArticleOutput(raw, FALLBACK);
+
+    expect(article.title).toBe('Filtry harmonicznych');
+    expect(article.content).toBe('<p>Treść.</p>');
+  });
+
+  it('wraps a plain-text answer in paragraphs and drops a markdown title', () => {
+    const article = parseArticleOutput('# Tytuł z markdown\n\nPierwszy akapit.\n\nDrugi akapit.', FALLBACK);
+
+    expect(article.content).toBe('<p>Pierwszy akapit.</p>\n<p>Drugi akapit.</p>');
+    expect(article.title).toBe(FALLBACK);
+  });
+});
+
+describe('slugify', () => {
+  it('transliterates Polish characters', () => {
+    expect(slugify('Współczynnik mocy – łatwe ŻÓŁW!')).toBe('wspolczynnik-mocy-latwe-zolw');
+  });
+
+  it('cuts long slugs at a hyphen', () => {
+    const slug = slugify('kompensacja '.repeat(10));
+
+    expect(slug.length).toBeLessThanOrEqual(80);
+    expect(slug.endsWith('-')).toBe(false);
+    expect(slug.endsWith('kompensacja')).toBe(true);
+  });
+});
+
+describe('truncateAtWord', () => {
+  it('cuts at a word boundary with an ellipsis', () => {
+    expect(truncateAtWord('Bateria kondensatorów, dławiki i sterownik', 25)).toBe('Bateria kondensatorów…');
+    expect(truncateAtWord('Krótki tekst', 25)).toBe('Krótki tekst');
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('removes scripts, event handlers and javascript: links', () => {
+    const html = sanitizeHtml('<p onclick="x()">A</p><script>alert(1)</script><a href="javascript:evil()">B</a>');
+
+    expect(html).toBe('<p>A</p><a href="#">B</a>');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Article Parser Module
+ * Normalises raw LLM output into structured article fields
+ *
+ * Writers are asked for a <title>, a <meta name="description"> and an
+ * HTML body starting with <h1>, but models regularly wrap the answer in
+ * markdown code fences or a full <html> document, or skip the meta tags
+ * altogether. Every field has a fallback so a malformed response still
+ * yields a publishable article.
+ */
+
+import { htmlToText, countWords } from './scoring';
+
+// Types
+export interface ParsedArticle {
+  title: string;
+  metaTitle: string;
+  metaDescription: string;
+  slug: string;
+  excerpt: string;
+  content: string;
+  wordCount: number;
+}
+
+const META_TITLE_MAX = 60;
+const META_DESCRIPTION_MAX = 160;
+const EXCERPT_MAX = 300;
+const SLUG_MAX = 80;
+
+// Polish (and a few neighbouring) characters NFD does not decompose
+const TRANSLITERATION: Record<string, string> = {
+  ł: 'l', Ł: 'l', ß: 'ss', đ: 'd', Đ: 'd', ø: 'o', Ø: 'o',
+};
+
+/**
+ * Truncate at a word boundary, adding an ellipsis when text was cut
+ */
+export function truncateAtWord(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) {
+    return clean;
+  }
+
+  const cut = clean.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  const base = lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${base.replace(/[\s,.;:–-]+$/, '')}…`;
+}
+
+/**
+ * URL slug safe for Polish diacritics ("Współczynnik mocy" -> "wspolczynnik-mocy")
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .replace(/[łŁßđĐøØ]/g, char => TRANSLITERATION[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= SLUG_MAX) {
+    return slug;
+  }
+  const cut = slug.slice(0, SLUG_MAX);
+  return cut.slice(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : SLUG_MAX);
+}
+
+/**
+ * Remove markdown code fences the model may wrap the HTML in
+ */
+function stripCodeFences(raw: string): string {
+  const fenced = raw.match(/```[a-zA-Z]*\s*\n([\s\S]*?)```/);
+  if (fenced && fenced[1].includes('<')) {
+    return fenced[1];
+  }
+  return raw.replace(/^\s*```[a-zA-Z]*\s*$/gm, '');
+}
+
+function decodeAttribute(value: string): string {
+  return htmlToText(value);
+}
+
+/**
+ * Remove scripts, styles, inline event handlers and javascript: URLs
+ */
+export function sanitizeHtml(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|iframe|object|embed)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(script|style|iframe|object|embed|link|meta|base)[^>]*\/?>/gi, '')
+    .replace(/\s+on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(/(href|src)\s*=\s*(["'])\s*javascript:[^"']*\2/gi, '$1="#"');
+}
+
+/**
+ * Parse raw model output into title, meta fields, slug, excerpt and body HTML
+ */
+export function parseArticleOutput(raw: string, fallbackTitle: string): ParsedArticle {
+  let html = stripCodeFences(raw).trim();
+
+  // Meta fields from a <head> (or loose <title>/<meta> tags at the top)
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const metaTag = html.match(/<meta\s+[^>]*name=["']description["'][^>]*>/i);
+  const metaContent = metaTag?.[0].match(/content=(["'])([\s\S]*?)\1/i);
+
+  // Unwrap full HTML documents
+  const body = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  if (body) {
+    html = body[1];
+  }
+  html = html
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<head[^>]*>[\s\S]*?<\/head>/gi, '')
+    .replace(/<title[^>]*>[\s\S]*?<\/title>/gi, '')
+    .replace(/<\/?(html|body)[^>]*>/gi, '');
+
+  // The post name is rendered as the page <h1>, so the body must not repeat it
+  const h1 = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (h1) {
+    html = html.replace(h1[0], '');
+  } else {
+    // Markdown heading the model emitted despite instructions
+    const markdownTitle = html.match(/^\s*#\s+(.+)$/m);
+    if (markdownTitle && html.indexOf(markdownTitle[0]) < 5) {
+      html = html.replace(markdownTitle[0], '');
+    }
+  }
+
+  let content = sanitizeHtml(html).trim();
+
+  // Plain-text answer: wrap paragraphs so Odoo renders them as blocks
+  if (!/<(p|h[2-6]|ul|ol|table|div)[\s>]/i.test(content)) {
+    content = content
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean)
+      .map(paragraph => `<p>${paragraph}</p>`)
+      .join('\n');
+  }
+  const text = htmlToText(content);
+
+  const title = htmlToText(h1?.[1] || '') || htmlToText(titleTag?.[1] || '') || fallbackTitle;
+  const metaTitle = truncateAtWord(htmlToText(titleTag?.[1] || '') || title, META_TITLE_MAX);
+
+  // Meta description: explicit tag, else the first paragraph
+  const firstParagraph = content.match(/<p[^>]*>([\s\S]*?)<\/p>/i);
+  const descriptionSource = (metaContent && decodeAttribute(metaContent[2]))
+    || htmlToText(firstParagraph?.[1] || '')
+    || text;
+
+  return {
+    title,
+    metaTitle,
+    metaDescription: truncateAtWord(descriptionSource, META_DESCRIPTION_MAX),
+    slug: slugify(title) || slugify(fallbackTitle),
+    excerpt: truncateAtWord(htmlToText(firstParagraph?.[1] || '') || text, EXCERPT_MAX),
+    content,
+    wordCount: countWords(text),
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Brief Builder
+ * Full article outline from a bare topic and category
+ *
+ * One provider (BRIEF_PROVIDER, else the first enabled one) researches the
+ * topic and answers with JSON: keyword clusters, search intent, an h2/h3
+ * heading plan, FAQ questions to answer and a recommended length. The answer
+ * is normalised into an ArticleOutline (keywords from the clusters, sections
+ * from the h2 plan) with the plan kept in outline.brief, which the writer
+ * prompt follows. Anything missing or out of range falls back to the
+ * category defaults and is reported in warnings.
+ *
+ * Used by POST /api/brief (editors review and edit the brief before
+ * generating) and, with BRIEF_PRESTAGE, by the cron before generation.
+ */
+
+import type { AIConfig, ArticleOutline } from './ai-writers';
+import { requireCategory } from './categories';
+import { HttpError } from './http';
+import { getLanguage, type Language } from './languages';
+import { getEnabledProviders, type WriterProvider } from './providers';
+import { createRunId } from './run-history';
+import { createUsageLedger, enforceBudget, priceUsage, recordUsageSafely, type ArticleUsage } from './usage';
+
+// Types
+export type SearchIntent = 'informational' | 'commercial' | 'transactional' | 'navigational';
+
+export const SEARCH_INTENTS: SearchIntent[] = ['informational', 'commercial', 'transactional', 'navigational'];
+
+export interface KeywordCluster {
+  name: string;
+  keywords: string[];
+}
+
+export interface HeadingPlan {
+  h2: string;
+  h3: string[];
+}
+
+export interface OutlineBrief {
+  intent: SearchIntent;
+  keywordClusters: KeywordCluster[];
+  headings: HeadingPlan[];
+  faq: string[]; // questions the FAQ section must answer
+}
+
+export interface BriefRequest {
+  topic: string;
+  category: string;
+  language?: Language;
+  keywords?: string[]; // seed keywords the brief must keep
+}
+
+export interface ArticleBrief {
+  outline: ArticleOutline; // outline.brief holds the plan
+  builder: string; // provider id
+  model: string;
+  warnings: string[];
+  usage?: ArticleUsage;
+  generatedAt: string;
+}
+
+export type BriefPrestage = 'off' | 'missing' | 'always';
+
+export const BRIEF_PRESTAGES: BriefPrestage[] = ['off', 'missing', 'always'];
+
+const MAX_KEYWORDS = 10;
+const MAX_FAQ = 7;
+const MIN_TARGET_LENGTH = 600;
+const MAX_TARGET_LENGTH = 4000;
+
+export function isSearchIntent(value: unknown): value is SearchIntent {
+  return typeof value === 'string' && (SEARCH_INTENTS as string[]).includes(value);
+}
+
+export function getBriefPrestage(env: Record<string, string | undefined> = process.env): BriefPrestage {
+  const mode = env.BRIEF_PRESTAGE || 'off';
+  if (!(BRIEF_PRESTAGES as string[]).includes(mode)) {
+    throw new Error(`Unknown BRIEF_PRESTAGE: ${mode} (expected off, missing or always)`);
+  }
+  return mode as BriefPrestage;
+}
+
+function pickBuilder(config: AIConfig, preferred: (string | undefined)[]): WriterProvider {
+  const providers = getEnabledProviders(config.providers);
+  if (providers.length === 0) {
+    throw new Error('No AI providers configured. At least one AI provider is required.');
+  }
+
+  for (const id of preferred) {
+    const provider = id ? providers.find(candidate => candidate.id === id) : undefined;
+    if (provider) {
+      return provider;
+    }
+  }
+  return providers[0];
+}
+
+function briefPrompt(request: BriefRequest): string {
+  const category = requireCategory(request.category);
+  const language = getLanguage(request.language);
+
+  return `Prepare an SEO content brief for a blog article. You are ${category.persona}.
+
+**Topic**: ${request.topic}
+**Category**: ${category.name}
+**Market language**: ${language.name}
+${request.keywords?.length ? `**Seed keywords (keep them)**: ${request.keywords.join(', ')}\n` : ''}
+Research what people in this market search for on the topic and plan the article.
+
+RULES:
+1. All keywords, headings and questions in ${language.name}, as people actually search for them.
+2. The first keyword of the first cluster is the primary keyword.
+3. 2-4 keyword clusters (primary topic, related questions, commercial terms...), 3-6 keywords each.
+4. 4-8 h2 headings in reading order, each with 0-4 h3 subheadings; the last two are the FAQ and a summary with a call to action.
+5. 5-7 FAQ questions, each ending with "?".
+6. intent: informational, commercial, transactional or navigational.
+7. targetLength: recommended length in words (${MIN_TARGET_LENGTH}-${MAX_TARGET_LENGTH}), based on how deep the competing articles go; the category default is ${category.targetLength}.
+
+Return ONLY JSON, no markdown, in this shape:
+{
+  "intent": "informational",
+  "keywordClusters": [{ "name": "...", "keywords": ["...", "..."] }],
+  "headings": [{ "h2": "...", "h3": ["...", "..."] }],
+  "faq": ["...?"],
+  "targetLength": 1500
+}`;
+}
+
+/**
+ * First JSON object in a model answer (code fences and prose around it are ignored)
+ */
+export function parseJsonObject(text: string): Record<string, unknown> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error('no JSON object in the answer');
+  }
+  const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('the answer is not a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function cleanStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)
+    : [];
+}
+
+// Case-insensitive de-duplication, first spelling wins
+function unique(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function readClusters(value: unknown): KeywordCluster[] {
+  return (Array.isArray(value) ? value : [])
+    .map((cluster: Record<string, unknown>) => ({
+      name: typeof cluster?.name === 'string' ? cluster.name.trim() : '',
+      keywords: unique(cleanStrings(cluster?.keywords)),
+    }))
+    .filter(cluster => cluster.keywords.length > 0);
+}
+
+function readHeadings(value: unknown): HeadingPlan[] {
+  return (Array.isArray(value) ? value : []).map((heading: Record<string, unknown>) => ({
+    h2: typeof heading?.h2 === 'string' ? heading.h2.trim() : '',
+    h3: unique(cleanStrings(heading?.h3)),
+  }));
+}
+
+/**
+ * Check an (edited) brief from a request body or a stored topic
+ */
+export function validateBrief(value: unknown): OutlineBrief {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, 'brief must be an object');
+  }
+  const brief = value as Record<string, unknown>;
+
+  if (!isSearchIntent(brief.intent)) {
+    throw new HttpError(400, `brief.intent must be one of: ${SEARCH_INTENTS.join(', ')}`);
+  }
+  if (!Array.isArray(brief.keywordClusters) || !Array.isArray(brief.headings)) {
+    throw new HttpError(400, 'brief.keywordClusters and brief.headings must be arrays');
+  }
+
+  const headings = readHeadings(brief.headings);
+  if (headings.some(heading => !heading.h2)) {
+    throw new HttpError(400, 'every brief.headings entry needs an h2');
+  }
+
+  return {
+    intent: brief.intent,
+    keywordClusters: readClusters(brief.keywordClusters),
+    headings,
+    faq: cleanStrings(brief.faq),
+  };
+}
+
+/**
+ * Turn the builder's JSON into an outline; gaps fall back to category defaults
+ */
+export function briefToOutline(
+  data: Record<string, unknown>,
+  request: BriefRequest
+): { outline: ArticleOutline; warnings: string[] } {
+  const category = requireCategory(request.category);
+  const warnings: string[] = [];
+
+  let intent: SearchIntent = 'informational';
+  if (isSearchIntent(data.intent)) {
+    intent = data.intent;
+  } else {
+    warnings.push(`Unknown intent ${JSON.stringify(data.intent)} - informational assumed`);
+  }
+
+  const keywordClusters = readClusters(data.keywordClusters);
+
+  // Seed keywords stay first (the primary keyword is the first one)
+  const keywords = unique([
+    ...(request.keywords ?? []),
+    ...keywordClusters.flatMap(cluster => cluster.keywords),
+  ]).slice(0, MAX_KEYWORDS);
+  if (keywords.length === 0) {
+    keywords.push(request.topic);
+    warnings.push('No keywords in the brief - the topic is used as the keyword');
+  }
+
+  const headings = readHeadings(data.headings).filter(heading => heading.h2);
+  if (headings.length === 0) {
+    warnings.push('No heading plan in the brief - category sections used');
+  }
+
+  const faq = unique(cleanStrings(data.faq)).filter(question => question.endsWith('?')).slice(0, MAX_FAQ);
+  if (faq.length === 0) {
+    warnings.push('No FAQ questions in the brief');
+  }
+
+  let targetLength = category.targetLength;
+  if (typeof data.targetLength === 'number' && data.targetLength >= MIN_TARGET_LENGTH && data.targetLength <= MAX_TARGET_LENGTH) {
+    targetLength = Math.round(data.targetLength / 50) * 50;
+  } else {
+    warnings.push(`Recommended length ${JSON.stringify(data.targetLength)} out of range - category default ${category.targetLength} used`);
+  }
+
+  return {
+    outline: {
+      topic: request.topic,
+      keywords,
+      targetLength,
+      sections: headings.length > 0 ? headings.map(heading => heading.h2) : category.sections,
+      category: category.id,
+      ...(request.language ? { language: request.language } : {}),
+      brief: { intent, keywordClusters, headings, faq },
+    },
+    warnings,
+  };
+}
+
+/**
+ * Build a brief with one provider (default: BRIEF_PROVIDER, then the first enabled)
+ */
+export async function buildBrief(
+  request: BriefRequest,
+  config: AIConfig,
+  options: { provider?: string } = {}
+): Promise<ArticleBrief> {
+  const builder = pickBuilder(await enforceBudget(config), [options.provider, process.env.BRIEF_PROVIDER]);
+  const language = getLanguage(request.language);
+  console.log(`[Brief] Building brief for "${request.topic}" with ${builder.config.label} (${builder.config.model})`);
+
+  const result = await builder.complete({
+    system: `You are an SEO strategist and content planner. Always write in ${language.name}.`,
+    prompt: briefPrompt(request),
+    temperature: 0.4,
+  });
+
+  // Briefs have no run; they are billed to the ledger on their own
+  const usage = priceUsage(builder.id, result);
+  if (usage) {
+    await recordUsageSafely(createUsageLedger(), {
+      id: createRunId(),
+      runId: null,
+      source: 'brief',
+      category: request.category,
+      topic: request.topic,
+      at: new Date().toISOString(),
+      items: [usage],
+    });
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = parseJsonObject(result.text);
+  } catch (error) {
+    throw new HttpError(502, `Brief from ${builder.id} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { outline, warnings } = briefToOutline(data, request);
+  console.log(`[Brief] ${outline.keywords.length} keywords, ${outline.sections.length} sections, ${outline.targetLength} words${warnings.length ? ` (${warnings.length} warnings)` : ''}`);
+
+  return {
+    outline,
+    builder: builder.id,
+    model: result.model,
+    warnings,
+    usage,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { loadCategoryRegistry, requireCategory } from './categories';
+
+function configured(config: unknown) {
+  return loadCategoryRegistry({ CATEGORIES_CONFIG: JSON.stringify(config) });
+}
+
+describe('loadCategoryRegistry', () => {
+  it('starts from the built-in PowerGO categories', () => {
+    const { sites, categories } = loadCategoryRegistry({});
+
+    expect(sites.map(site => site.id)).toEqual(['powergo']);
+    expect(categories.map(category => [category.id, category.cronDays])).toEqual([
+      ['kompensacja_mocy_biernej', [1]],
+      ['kompensatory_svg', [4]],
+    ]);
+  });
+
+  it('overrides built-in categories and fills defaults for new ones', () => {
+    const { categories } = configured({
+      sites: [{ id: 'powerstore', name: 'PowerStore', url: 'https://powerstore.pl' }],
+      categories: [
+        { id: 'kompensatory_svg', odooBlogId: 4 },
+        { id: 'magazyny_energii', name: 'Magazyny energii', site: 'powerstore', cronDays: [5] },
+      ],
+    });
+
+    expect(categories.find(category => category.id === 'kompensatory_svg')).toMatchObject({
+      name: 'Kompensatory SVG',
+      odooBlogId: 4,
+      cronDays: [4],
+    });
+    expect(categories.find(category => category.id === 'magazyny_energii')).toMatchObject({
+      site: 'powerstore',
+      persona: 'ekspert w dziedzinie: Magazyny energii',
+      tone: 'profesjonalny, ale przystępny',
+      sections: [],
+      targetLength: 1500,
+      odooBlogId: null,
+    });
+  });
+
+  it('fails loudly on invalid config', () => {
+    expect(() => configured({ categories: [{ id: 'Filtry-Harmoniczne', name: 'Filtry' }] })).toThrow('Category id must match');
+    expect(() => configured({ categories: [{ id: 'filtry', name: 'Filtry', site: 'nieznana' }] })).toThrow('unknown site: nieznana');
+    expect(() => configured({ categories: [{ id: 'filtry', name: 'Filtry', cronDays: [7] }] })).toThrow('cronDays must be weekdays');
+    expect(() => configured({ categories: [{ id: 'filtry', name: 'Filtry', targetLength: 50 }] })).toThrow('targetLength');
+    expect(() => configured({ sites: [{ id: 'powergo', name: 'PowerGO', url: 'powergo.pl' }] })).toThrow('http(s) url');
+    expect(() => configured([])).toThrow('must be a JSON object');
+  });
+});
+
+describe('requireCategory', () => {
+  it('returns configured categories and answers 400 for unknown ids', () => {
+    expect(requireCategory('kompensatory_svg').name).toBe('Kompensatory SVG');
+    expect(() => requireCategory('filtry')).toThrow(expect.objectContaining({
+      status: 400,
+      message: expect.stringContaining('configured: kompensacja_mocy_biernej, kompensatory_svg'),
+    }));
+  });
+});
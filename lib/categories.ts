@@ -0,0 +1,327 @@
+/**
+ * Category & Site Registry
+ * Data-driven article categories instead of the hard-coded PowerGO pair
+ *
+ * Each category defines how articles are written (expert persona, tone,
+ * default sections and length), where they go (site, Odoo blog) and when
+ * the cron writes them (cadence, see lib/publication-calendar.ts). The built-in PowerGO categories
+ * can be overridden or extended with JSON (CATEGORIES_CONFIG inline or
+ * CATEGORIES_CONFIG_FILE path). The config is validated when it is loaded,
+ * so a typo fails loudly instead of producing off-topic articles.
+ *
+ * Example CATEGORIES_CONFIG:
+ * {
+ *   "sites": [{ "id": "powerstore", "name": "PowerStore", "url": "https://powerstore.pl" }],
+ *   "categories": [
+ *     { "id": "filtry_harmoniczne", "name": "Filtry harmoniczne", "persona": "inżynier jakości energii",
+ *       "odooBlogId": 3, "cronDays": [2] },
+ *     { "id": "magazyny_energii", "name": "Magazyny energii", "site": "powerstore", "odooBlogId": 5, "cronDays": [5],
+ *       "odooBlogIds": { "en": 6, "de": 7 } },
+ *     { "id": "poradniki", "name": "Poradniki", "cadence": { "type": "interval", "every": 10, "start": "2025-01-06" } }
+ *   ]
+ * }
+ */
+
+import { readFileSync } from 'fs';
+import { HttpError } from './http';
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from './languages';
+
+// Types
+export interface SiteDefinition {
+  id: string;
+  name: string; // brand used in CTAs, e.g. 'PowerGO'
+  url: string;
+}
+
+export interface CategoryDefinition {
+  id: string; // stored on topics, runs and outlines
+  name: string; // display name used in prompts
+  site: string; // SiteDefinition id
+  persona: string; // expert the writers impersonate
+  tone: string;
+  sections: string[]; // default sections when an outline has none
+  targetLength: number; // default length in words
+  odooBlogId: number | null; // null: ODOO_BLOG_NAME / ODOO_BLOG_ID
+  odooBlogIds: Partial<Record<Language, number>>; // blogs of the other language websites
+  cronDays: number[]; // 0 = Sunday ... 6 = Saturday; shorthand for a weekly cadence
+  cadence: Cadence; // when the cron writes (Europe/Warsaw dates)
+}
+
+export type Cadence =
+  | { type: 'weekly'; days: number[] } // 0 = Sunday ... 6 = Saturday
+  | { type: 'interval'; every: number; start: string }; // every N days counted from start (YYYY-MM-DD)
+
+export interface CategoryRegistry {
+  sites: SiteDefinition[];
+  categories: CategoryDefinition[];
+}
+
+type Env = Record<string, string | undefined>;
+
+const CATEGORY_ID_PATTERN = /^[a-z0-9_]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_SITES: SiteDefinition[] = [
+  { id: 'powergo', name: 'PowerGO', url: 'https://powergo.pl' },
+];
+
+// Built-in categories use the cronDays shorthand (weekly cadence)
+const DEFAULT_CATEGORIES: Omit<CategoryDefinition, 'cadence'>[] = [
+  {
+    id: 'kompensacja_mocy_biernej',
+    name: 'Kompensacja mocy biernej',
+    site: 'powergo',
+    persona: 'ekspert branży energetycznej i kompensacji mocy biernej',
+    tone: 'profesjonalny, ale przystępny',
+    sections: ['Wstęp', 'Zasada działania', 'Korzyści', 'FAQ'],
+    targetLength: 1500,
+    odooBlogId: null,
+    odooBlogIds: {},
+    cronDays: [1],
+  },
+  {
+    id: 'kompensatory_svg',
+    name: 'Kompensatory SVG',
+    site: 'powergo',
+    persona: 'inżynier energoelektroniki specjalizujący się w kompensatorach SVG',
+    tone: 'profesjonalny, ale przystępny',
+    sections: ['Wstęp', 'Zasada działania', 'Zastosowania', 'FAQ'],
+    targetLength: 1500,
+    odooBlogId: null,
+    odooBlogIds: {},
+    cronDays: [4],
+  },
+];
+
+function readConfig(env: Env): Partial<CategoryRegistry> | null {
+  let raw: string | undefined = env.CATEGORIES_CONFIG;
+  if (!raw && env.CATEGORIES_CONFIG_FILE) {
+    raw = readFileSync(env.CATEGORIES_CONFIG_FILE, 'utf8');
+  }
+  if (!raw) {
+    return null;
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('CATEGORIES_CONFIG must be a JSON object with "sites" and/or "categories"');
+  }
+  return parsed as Partial<CategoryRegistry>;
+}
+
+// Built-in entries are overridden field by field; new ids are appended
+function mergeById<T extends { id: string }>(defaults: T[], overrides: unknown, label: string): Partial<T>[] {
+  if (overrides === undefined) {
+    return defaults;
+  }
+  if (!Array.isArray(overrides)) {
+    throw new Error(`CATEGORIES_CONFIG "${label}" must be an array`);
+  }
+
+  const merged: Partial<T>[] = defaults.map(entry => ({ ...entry }));
+  for (const override of overrides as Partial<T>[]) {
+    const existing = merged.find(entry => entry.id === override.id);
+    if (existing) {
+      Object.assign(existing, override);
+    } else {
+      merged.push({ ...override });
+    }
+  }
+  return merged;
+}
+
+function isWeekdays(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+}
+
+function validateCadence(id: string, cadence: unknown): Cadence {
+  const entry = (cadence && typeof cadence === 'object' ? cadence : {}) as Record<string, unknown>;
+  if (entry.type === 'weekly') {
+    if (!isWeekdays(entry.days)) {
+      throw new Error(`Category "${id}" cadence.days must be weekdays 0-6 (0 = Sunday)`);
+    }
+    return { type: 'weekly', days: entry.days };
+  }
+  if (entry.type === 'interval') {
+    if (!Number.isInteger(entry.every) || (entry.every as number) < 1) {
+      throw new Error(`Category "${id}" cadence.every must be a positive number of days`);
+    }
+    if (typeof entry.start !== 'string' || !DATE_PATTERN.test(entry.start) || Number.isNaN(Date.parse(entry.start))) {
+      throw new Error(`Category "${id}" cadence.start must be a date (YYYY-MM-DD)`);
+    }
+    return { type: 'interval', every: entry.every as number, start: entry.start };
+  }
+  throw new Error(`Category "${id}" cadence.type must be weekly or interval`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateSite(site: Partial<SiteDefinition>): SiteDefinition {
+  if (!site.id || typeof site.id !== 'string') {
+    throw new Error('Site config requires an id');
+  }
+  if (!site.name || typeof site.name !== 'string') {
+    throw new Error(`Site "${site.id}" requires a name`);
+  }
+  if (typeof site.url !== 'string' || !/^https?:\/\//.test(site.url)) {
+    throw new Error(`Site "${site.id}" requires an http(s) url`);
+  }
+  return { id: site.id, name: site.name, url: site.url };
+}
+
+/**
+ * Validate a merged category; new categories inherit site, tone and length defaults
+ */
+function validateCategory(category: Partial<CategoryDefinition>, sites: SiteDefinition[]): CategoryDefinition {
+  const id = category.id;
+  if (!id || typeof id !== 'string' || !CATEGORY_ID_PATTERN.test(id)) {
+    throw new Error(`Category id must match ${CATEGORY_ID_PATTERN}: ${String(id)}`);
+  }
+  if (!category.name || typeof category.name !== 'string') {
+    throw new Error(`Category "${id}" requires a name`);
+  }
+
+  const site = category.site ?? sites[0]?.id;
+  if (!sites.some(entry => entry.id === site)) {
+    throw new Error(`Category "${id}" references unknown site: ${String(site)}`);
+  }
+
+  const sections = category.sections ?? [];
+  if (!isStringArray(sections)) {
+    throw new Error(`Category "${id}" sections must be an array of strings`);
+  }
+
+  const targetLength = category.targetLength ?? 1500;
+  if (!Number.isInteger(targetLength) || targetLength < 100 || targetLength > 10000) {
+    throw new Error(`Category "${id}" targetLength must be an integer between 100 and 10000`);
+  }
+
+  const odooBlogId = category.odooBlogId ?? null;
+  if (odooBlogId !== null && (!Number.isInteger(odooBlogId) || odooBlogId <= 0)) {
+    throw new Error(`Category "${id}" odooBlogId must be a positive integer`);
+  }
+
+  const odooBlogIds = category.odooBlogIds ?? {};
+  if (typeof odooBlogIds !== 'object' || Array.isArray(odooBlogIds) ||
+    !Object.entries(odooBlogIds).every(([language, blogId]) =>
+      isLanguage(language) && Number.isInteger(blogId) && (blogId as number) > 0)) {
+    throw new Error(`Category "${id}" odooBlogIds must map languages (pl, en, de, cs) to positive blog ids`);
+  }
+
+  const cronDays = category.cronDays ?? [];
+  if (!isWeekdays(cronDays)) {
+    throw new Error(`Category "${id}" cronDays must be weekdays 0-6 (0 = Sunday)`);
+  }
+
+  // An explicit cadence wins; cronDays alone means weekly on those days
+  const cadence = category.cadence !== undefined
+    ? validateCadence(id, category.cadence)
+    : { type: 'weekly' as const, days: cronDays };
+
+  return {
+    id,
+    name: category.name,
+    site: site as string,
+    persona: typeof category.persona === 'string' && category.persona ? category.persona : `ekspert w dziedzinie: ${category.name}`,
+    tone: typeof category.tone === 'string' && category.tone ? category.tone : 'profesjonalny, ale przystępny',
+    sections,
+    targetLength,
+    odooBlogId,
+    odooBlogIds,
+    cronDays,
+    cadence,
+  };
+}
+
+function assertUniqueIds(entries: { id: string }[], label: string): void {
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.id)) {
+      throw new Error(`Duplicate ${label} id: ${entry.id}`);
+    }
+    seen.add(entry.id);
+  }
+}
+
+/**
+ * Load sites and categories: built-in PowerGO definitions merged with CATEGORIES_CONFIG
+ */
+export function loadCategoryRegistry(env: Env = process.env): CategoryRegistry {
+  const config = readConfig(env);
+
+  const sites = mergeById(DEFAULT_SITES, config?.sites, 'sites').map(validateSite);
+  assertUniqueIds(sites, 'site');
+
+  const categories = mergeById(DEFAULT_CATEGORIES, config?.categories, 'categories')
+    .map(category => validateCategory(category, sites));
+  assertUniqueIds(categories, 'category');
+
+  if (categories.length === 0) {
+    throw new Error('At least one category must be configured');
+  }
+
+  return { sites, categories };
+}
+
+let registry: CategoryRegistry | null = null;
+
+/**
+ * Registry from the process environment, validated once per instance
+ */
+export function getCategoryRegistry(): CategoryRegistry {
+  if (!registry) {
+    registry = loadCategoryRegistry();
+  }
+  return registry;
+}
+
+export function getCategories(): CategoryDefinition[] {
+  return getCategoryRegistry().categories;
+}
+
+export function getCategory(id: string): CategoryDefinition | null {
+  return getCategories().find(category => category.id === id) ?? null;
+}
+
+export function getSite(id: string): SiteDefinition | null {
+  return getCategoryRegistry().sites.find(site => site.id === id) ?? null;
+}
+
+export function isArticleCategory(value: unknown): value is string {
+  return typeof value === 'string' && getCategory(value) !== null;
+}
+
+/**
+ * Category definition, or a 400 for ids that are not configured
+ */
+export function requireCategory(id: unknown): CategoryDefinition {
+  const category = typeof id === 'string' ? getCategory(id) : null;
+  if (!category) {
+    const known = getCategories().map(entry => entry.id).join(', ');
+    throw new HttpError(400, `Unknown category: ${String(id)} (configured: ${known})`);
+  }
+  return category;
+}
+
+/**
+ * Odoo blog for a category in a language. Polish posts may fall back to
+ * ODOO_BLOG_NAME / ODOO_BLOG_ID (null); other languages need their own blog
+ * so a translation never lands on the Polish website.
+ */
+export function getOdooBlogId(categoryId: string, language: Language = DEFAULT_LANGUAGE): number | null {
+  const category = getCategory(categoryId);
+  if (!category) {
+    return null;
+  }
+  if (language === DEFAULT_LANGUAGE) {
+    return category.odooBlogIds[language] ?? category.odooBlogId;
+  }
+
+  const blogId = category.odooBlogIds[language];
+  if (!blogId) {
+    throw new Error(`No Odoo blog configured for category "${categoryId}" in language "${language}" (odooBlogIds.${language})`);
+  }
+  return blogId;
+}
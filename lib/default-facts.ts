@@ -0,0 +1,50 @@
+/**
+ * Verified Facts
+ * Knowledge base for the fact-check lint (lib/fact-check.ts)
+ *
+ * Only add entries checked against the source they cite. Operators extend
+ * or correct them with FACTS_CONFIG / FACTS_CONFIG_FILE (merged by id).
+ */
+
+import type { VerifiedFact } from './fact-check';
+
+export const DEFAULT_FACTS: VerifiedFact[] = [
+  {
+    id: 'tg-phi-threshold',
+    statement: 'Bez innego zapisu w umowie współczynnik tg φ0, powyżej którego operator nalicza opłatę za ponadumowny pobór energii biernej, wynosi 0,4',
+    terms: ['tg φ', 'tgφ', 'tg fi', 'tg phi', 'tangens φ', 'tangens fi', 'tan φ', 'tan phi'],
+    values: [0.4],
+    source: 'Rozporządzenie Ministra Energii z dnia 6 marca 2019 r. w sprawie szczegółowych zasad kształtowania i kalkulacji taryf oraz rozliczeń w obrocie energią elektryczną (Dz.U. 2019 poz. 503)',
+  },
+  {
+    id: 'cos-phi-threshold',
+    statement: 'Próg tg φ0 = 0,4 odpowiada współczynnikowi mocy cos φ ≈ 0,93',
+    terms: ['cos φ', 'cosφ', 'cos fi', 'cos phi', 'cosinus φ'],
+    values: [0.93],
+    tolerance: 0.01,
+    source: 'cos(arctg 0,4) = 0,928 - próg z Dz.U. 2019 poz. 503',
+  },
+  {
+    id: 'tariff-regulation',
+    statement: 'Zasady rozliczeń za energię bierną określa rozporządzenie taryfowe z 6 marca 2019 r.',
+    terms: ['rozporządzeni', 'taryf'],
+    citations: ['Dz.U. 2019 poz. 503', '6 marca 2019'],
+    source: 'Dz.U. 2019 poz. 503',
+  },
+  {
+    id: 'energy-law',
+    statement: 'Ustawa z dnia 10 kwietnia 1997 r. - Prawo energetyczne',
+    terms: ['prawo energetyczne'],
+    citations: ['Dz.U. 1997 nr 54 poz. 348', '10 kwietnia 1997'],
+    source: 'Dz.U. 1997 nr 54 poz. 348 (tekst pierwotny)',
+  },
+  {
+    id: 'voltage-thd-limit',
+    statement: 'Współczynnik odkształcenia harmonicznymi napięcia zasilającego (THD) nie powinien przekraczać 8%',
+    terms: ['THD napięcia', 'THDu', 'THD U', 'odkształcenia napięcia'],
+    values: [8],
+    unit: '%',
+    citations: ['PN-EN 50160'],
+    source: 'PN-EN 50160 - Parametry napięcia zasilającego w publicznych sieciach elektroenergetycznych',
+  },
+];
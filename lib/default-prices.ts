@@ -0,0 +1,26 @@
+/**
+ * Model Prices
+ * Default price table for usage accounting (lib/usage.ts)
+ *
+ * USD per million tokens, keyed by model id or model prefix (the longest
+ * matching prefix wins, so dated snapshots and -exp variants are priced like
+ * their base model). Operators correct or extend it with PRICES_CONFIG /
+ * PRICES_CONFIG_FILE (merged by model); models without a price, e.g. local
+ * openai-compatible ones, are reported as unpriced.
+ */
+
+import type { PriceTable } from './usage';
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+};
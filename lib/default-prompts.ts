@@ -0,0 +1,112 @@
+/**
+ * Default Prompt Template
+ * Built-in writer prompt (lib/prompt-templates.ts), version "v1"
+ *
+ * New versions are created through /api/prompts (stored records, no
+ * redeploy); built-in versions cannot be replaced. The system message takes
+ * the category persona, so every writer gets the same expert role as the
+ * writing guide.
+ */
+
+import type { PromptTemplate } from './prompt-templates';
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+const INSTRUCTIONS = `
+Jesteś ekspertem SEO content writer - {{persona}}, piszesz dla {{site}} ({{siteUrl}}).
+
+## WYMAGANIA STYLISTYCZNE:
+- Pisz w języku {{languagePl}}
+- Ton: {{tone}}
+- Stosuj formatowanie HTML (h2, h3, p, ul, li, strong, em)
+- Długość: zgodna z targetLength (±10%)
+
+## STRUKTURA ARTYKUŁU:
+1. **Wstęp** (hook + zapowiedź treści)
+2. **Sekcje główne** (h2 z podsekcjami h3)
+3. **FAQ** (5-7 pytań i odpowiedzi)
+4. **Podsumowanie** z Call-to-Action
+
+## SEO REQUIREMENTS:
+- Słowo kluczowe główne w pierwszym akapicie
+- Słowa kluczowe w nagłówkach h2/h3
+- Gęstość słów kluczowych: 1-2%
+- Meta description w pierwszych 160 znakach
+- Linkowanie wewnętrzne (placeholder: [INTERNAL_LINK: temat strony docelowej])
+
+## ENGAGEMENT ELEMENTS:
+- Cytowalne fragmenty (featured snippets)
+- Tabele porównawcze gdzie pasuje
+- Listy punktowane i numerowane
+- Definicje kluczowych terminów
+- Statystyki i dane liczbowe
+
+## FORMAT OUTPUT:
+Return ONLY clean HTML article, no markdown, no code blocks.
+Start with exactly these lines:
+<title>Tytuł SEO (max 60 znaków)</title>
+<meta name="description" content="Meta description (max 160 znaków)">
+<h1>Tytuł artykułu</h1>
+followed by the article body.
+`;
+
+const TASK = `# YOUR TASK
+
+Write a comprehensive blog post based on:
+
+**Topic**: {{topic}}
+**Keywords**: {{keywords}}
+**Target Length**: {{length}} words
+**Required Sections**: {{sections}}
+**Category**: {{category}}
+
+**CRITICAL REQUIREMENTS**:
+1. Follow ALL instructions from the writing guide above
+2. Write in {{language}} language
+3. Format in HTML with semantic tags (<h2>, <h3>, <p>, <ul>, <li>)
+4. Include ALL required elements:
+   - Cytowalne fragmenty (snippets)
+   - Tabele porównawcze
+   - Listy punktowane/numerowane
+   - Definicje kluczowych terminów
+   - Sekcja FAQ (5-7 pytań)
+   - Call-to-Action na końcu
+5. Optimize for both SEO and GEO
+6. Include 2-4 placeholders [INTERNAL_LINK: topic of the linked page] for internal linking, each on a different related topic
+{{brief}}{{editorNotes}}
+BEGIN WRITING THE ARTICLE NOW:`;
+
+const REVISION = `# YOUR TASK
+
+Update an existing, published blog post. It is live at {{url}} and keeps its URL,
+so this is a revision, not a new article.
+
+**Current title**: {{currentTitle}}
+**Keywords**: {{keywords}}
+**Category**: {{category}}
+
+**REVISION RULES**:
+1. Keep the <h2> headings and their order (reword a heading only when it is factually wrong)
+2. Keep the title close to the current one
+3. Update outdated figures, tariffs, prices, regulations and product information; keep what is still correct
+4. Keep existing links; [INTERNAL_LINK: topic] placeholders may be added for new references
+5. Keep the length within ±10% of the current post (about {{length}} words)
+6. Write in {{language}} language, in the same output format as a new article
+{{editorNotes}}
+**CURRENT VERSION**:
+{{currentContent}}
+
+BEGIN WRITING THE UPDATED ARTICLE NOW:`;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: DEFAULT_PROMPT_VERSION,
+    description: 'Built-in writer prompt',
+    system: 'You are an expert SEO content writer - {{persona}}. Always write in {{language}}.',
+    instructions: INSTRUCTIONS,
+    task: TASK,
+    revision: REVISION,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    createdBy: 'built-in',
+  },
+];
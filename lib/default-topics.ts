@@ -0,0 +1,61 @@
+/**
+ * Default Topic Backlog
+ * Seeds the topic store on first use; afterwards topics are managed
+ * through /api/topics (see lib/topic-store.ts)
+ */
+
+import type { ArticleCategory } from './ai-writers';
+
+export interface TopicSeed {
+  topic: string;
+  keywords: string[];
+  sections: string[];
+}
+
+// Keyed by category id (lib/categories.ts)
+export const DEFAULT_TOPICS: Record<ArticleCategory, TopicSeed[]> = {
+  kompensacja_mocy_biernej: [
+    {
+      topic: 'Kompensacja mocy biernej - podstawy i korzysci dla przedsiebiorstw',
+      keywords: ['kompensacja mocy biernej', 'oszczednosci energii', 'koszty energii', 'wspolczynnik mocy'],
+      sections: ['Czym jest moc bierna', 'Dlaczego warto kompensowac', 'Korzysci finansowe', 'FAQ'],
+    },
+    {
+      topic: 'Jak obliczyc zapotrzebowanie na kompensacje mocy biernej?',
+      keywords: ['obliczanie mocy biernej', 'kalkulacja kompensacji', 'analiza energetyczna'],
+      sections: ['Wzory obliczeniowe', 'Przyklady praktyczne', 'Narzedzia do obliczen', 'FAQ'],
+    },
+    {
+      topic: 'Kary za niska wartosc wspolczynnika mocy cos phi - jak ich uniknac?',
+      keywords: ['kary za moc bierna', 'wspolczynnik mocy', 'cos phi', 'oplaty za energie'],
+      sections: ['Regulacje prawne', 'Wysokosc kar', 'Metody unikania kar', 'FAQ'],
+    },
+    {
+      topic: 'Kompensacja mocy biernej w instalacjach przemyslowych - case study',
+      keywords: ['kompensacja przemyslowa', 'instalacje fabryczne', 'optymalizacja energii'],
+      sections: ['Opis problemu', 'Rozwiazanie', 'Wyniki', 'Wnioski', 'FAQ'],
+    },
+  ],
+  kompensatory_svg: [
+    {
+      topic: 'Kompensatory SVG vs tradycyjne baterie kondensatorow - porownanie',
+      keywords: ['kompensator SVG', 'bateria kondensatorow', 'porownanie systemow'],
+      sections: ['Zasada dzialania SVG', 'Zalety i wady', 'Kiedy wybrac SVG', 'FAQ'],
+    },
+    {
+      topic: 'Instalacja i uruchomienie kompensatora SVG - przewodnik techniczny',
+      keywords: ['instalacja SVG', 'uruchomienie kompensatora', 'parametryzacja'],
+      sections: ['Wymagania instalacyjne', 'Procedura montazu', 'Konfiguracja', 'FAQ'],
+    },
+    {
+      topic: 'Kompensatory SVG w sieciach z duza zawartoscia harmonicznych',
+      keywords: ['harmoniczne', 'SVG', 'jakosc energii', 'filtracja harmonicznych'],
+      sections: ['Problem harmonicznych', 'Jak SVG eliminuje harmoniczne', 'Przyklady', 'FAQ'],
+    },
+    {
+      topic: 'ROI z inwestycji w kompensator SVG - analiza zwrotu',
+      keywords: ['ROI kompensator', 'zwrot z inwestycji', 'oszczednosci SVG'],
+      sections: ['Koszty inwestycji', 'Oszczednosci', 'Okres zwrotu', 'Kalkulacja ROI', 'FAQ'],
+    },
+  ],
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE, makeArticle, makeRun } from '../test/fixtures';
+import { createApprovalStore, rejectDraft, submitForReview } from './approvals';
+import { createDuplicateGuard, type DuplicateGuardConfig } from './duplicate-guard';
+import { createRunStore } from './run-history';
+import { createMemoryStore } from './storage';
+
+const CONFIG: DuplicateGuardConfig = { mode: 'block', keywordThreshold: 0.5, contentThreshold: 0.6, lookback: 50 };
+
+async function setup() {
+  const kv = createMemoryStore();
+  const runs = createRunStore(kv);
+  const approvals = createApprovalStore(kv, runs);
+  const run = await runs.save(makeRun({
+    odoo: { postId: 11, writer: 'claude', status: 'draft', at: '2025-03-10T09:05:00Z' },
+  }));
+  return { runs, approvals, run };
+}
+
+describe('createDuplicateGuard', () => {
+  it('blocks an outline with the same primary keyword', async () => {
+    const { runs, run } = await setup();
+    const report = await createDuplicateGuard(runs, { config: CONFIG }).checkOutline(OUTLINE);
+
+    expect(report.blocked).toBe(true);
+    expect(report.conflicts).toEqual([expect.objectContaining({ runId: run.id, samePrimaryKeyword: true, odooPostId: 11 })]);
+  });
+
+  it('blocks an article that repeats an earlier one', async () => {
+    const { runs } = await setup();
+    const report = await createDuplicateGuard(runs, { config: CONFIG }).checkArticle(makeArticle(), OUTLINE);
+
+    expect(report.stage).toBe('content');
+    expect(report.conflicts[0].similarity).toBeGreaterThan(CONFIG.contentThreshold);
+  });
+
+  it('ignores a rejected draft so its requeued topic can be written again', async () => {
+    const { runs, approvals, run } = await setup();
+    await submitForReview(run, 'cron', approvals);
+    await rejectDraft(run.id, { actor: 'redakcja', reason: 'Za ogólny' }, { approvals });
+
+    expect((await runs.get(run.id))?.approval).toBe('rejected');
+    const report = await createDuplicateGuard(runs, { config: CONFIG }).checkOutline(OUTLINE);
+    expect(report).toMatchObject({ blocked: false, checkedRuns: 0, conflicts: [] });
+  });
+
+  it('ignores superseded drafts but not pending ones', async () => {
+    const { runs, approvals, run } = await setup();
+    await submitForReview(run, 'cron', approvals);
+
+    expect((await createDuplicateGuard(runs, { config: CONFIG }).checkOutline(OUTLINE)).blocked).toBe(true);
+
+    await approvals.transition(run.id, 'regenerating', 'redakcja');
+    await approvals.transition(run.id, 'superseded', 'system');
+    expect((await createDuplicateGuard(runs, { config: CONFIG }).checkOutline(OUTLINE)).blocked).toBe(false);
+  });
+
+  it('ignores earlier versions of the post being updated', async () => {
+    const { runs } = await setup();
+    const report = await createDuplicateGuard(runs, { config: CONFIG, excludePostId: 11 }).checkOutline(OUTLINE);
+    expect(report.blocked).toBe(false);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Duplicate & Cannibalisation Guard
+ * Stops near-identical articles competing for the same keyword
+ *
+ * Two checks against earlier runs in the same language (run history, newest
+ * DUPLICATE_GUARD_LOOKBACK runs with a selected article; rejected and
+ * superseded drafts do not count):
+ * - outline (before generation): keyword sets compared as stemmed phrases;
+ *   the same primary keyword or a Jaccard overlap above
+ *   DUPLICATE_KEYWORD_THRESHOLD is a conflict - blocking here saves the
+ *   generation cost
+ * - content (after selection): TF-IDF cosine similarity of the selected
+ *   article against the earlier articles, above DUPLICATE_CONTENT_THRESHOLD
+ *
+ * DUPLICATE_GUARD decides what a conflict does: warn (default, reported in
+ * the response and the run), block (409, nothing is published) or off.
+ * Everything is computed locally - no embeddings API.
+ */
+
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import type { ApprovalStatus } from './approvals';
+import { HttpError } from './http';
+import { DEFAULT_LANGUAGE } from './languages';
+import { getSelectedArticle, type GenerationRun, type RunStore } from './run-history';
+import { htmlToText, wordStems } from './scoring';
+
+// Types
+export type DuplicateGuardMode = 'off' | 'warn' | 'block';
+
+export const DUPLICATE_GUARD_MODES: DuplicateGuardMode[] = ['off', 'warn', 'block'];
+
+export interface DuplicateGuardConfig {
+  mode: DuplicateGuardMode;
+  keywordThreshold: number; // Jaccard overlap of keyword sets, 0-1
+  contentThreshold: number; // TF-IDF cosine similarity, 0-1
+  lookback: number; // earlier runs compared
+}
+
+export interface DuplicateConflict {
+  runId: string;
+  topic: string;
+  title: string;
+  category: string;
+  writer: string;
+  odooPostId: number | null;
+  generatedAt: string;
+  samePrimaryKeyword: boolean;
+  keywordOverlap: number;
+  sharedKeywords: string[];
+  similarity: number | null; // null in the outline check
+}
+
+export interface DuplicateReport {
+  mode: DuplicateGuardMode;
+  stage: 'outline' | 'content';
+  blocked: boolean;
+  checkedRuns: number;
+  conflicts: DuplicateConflict[];
+}
+
+export interface DuplicateGuard {
+  checkOutline(outline: ArticleOutline): Promise<DuplicateReport>;
+  checkArticle(article: GeneratedArticle, outline: ArticleOutline): Promise<DuplicateReport>;
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_KEYWORD_THRESHOLD = 0.5;
+const DEFAULT_CONTENT_THRESHOLD = 0.6;
+const DEFAULT_LOOKBACK = 200;
+const MAX_REPORTED_CONFLICTS = 5;
+
+// Longer stems than for link matching: bodies are long enough to tell "kompensacja" from "kompensator"
+const CONTENT_STEM_LENGTH = 6;
+
+/**
+ * Thrown when the guard blocks a run; the message names the conflicting posts
+ */
+export class DuplicateContentError extends HttpError {
+  constructor(public readonly report: DuplicateReport, public readonly runId: string | null) {
+    const names = report.conflicts
+      .map(conflict => `"${conflict.title}" (run ${conflict.runId}${conflict.odooPostId ? `, Odoo post ${conflict.odooPostId}` : ''})`)
+      .join(', ');
+    super(409, `${report.stage === 'outline' ? 'Keywords overlap' : 'Content is too similar to'} existing articles: ${names}`);
+    this.name = 'DuplicateContentError';
+  }
+}
+
+function readThreshold(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error(`${name} must be a number between 0 and 1`);
+  }
+  return threshold;
+}
+
+export function isDuplicateGuardMode(value: unknown): value is DuplicateGuardMode {
+  return typeof value === 'string' && (DUPLICATE_GUARD_MODES as string[]).includes(value);
+}
+
+export function getDuplicateGuardConfig(env: Env = process.env): DuplicateGuardConfig {
+  const mode = env.DUPLICATE_GUARD || 'warn';
+  if (!isDuplicateGuardMode(mode)) {
+    throw new Error(`Unknown DUPLICATE_GUARD: ${mode} (expected off, warn or block)`);
+  }
+
+  return {
+    mode,
+    keywordThreshold: readThreshold(env.DUPLICATE_KEYWORD_THRESHOLD, DEFAULT_KEYWORD_THRESHOLD, 'DUPLICATE_KEYWORD_THRESHOLD'),
+    contentThreshold: readThreshold(env.DUPLICATE_CONTENT_THRESHOLD, DEFAULT_CONTENT_THRESHOLD, 'DUPLICATE_CONTENT_THRESHOLD'),
+    lookback: Math.max(1, parseInt(env.DUPLICATE_GUARD_LOOKBACK || '', 10) || DEFAULT_LOOKBACK),
+  };
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+// "Kompensacji mocy biernej" and "kompensacja mocy biernej" are the same keyword
+function keywordKey(keyword: string): string {
+  return wordStems(keyword).join(' ');
+}
+
+/**
+ * Jaccard overlap of two keyword lists (inflection-insensitive) and the shared phrases
+ */
+export function keywordOverlap(a: string[], b: string[]): { overlap: number; shared: string[] } {
+  const keysB = new Set(b.map(keywordKey).filter(Boolean));
+  const keysA = new Map(a.map(keyword => [keywordKey(keyword), keyword] as const).filter(([key]) => key));
+
+  const shared = Array.from(keysA).filter(([key]) => keysB.has(key)).map(([, keyword]) => keyword);
+  const union = new Set([...keysA.keys(), ...keysB]).size;
+  return { overlap: union === 0 ? 0 : shared.length / union, shared };
+}
+
+function termFrequencies(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const stem of wordStems(text, CONTENT_STEM_LENGTH)) {
+    counts.set(stem, (counts.get(stem) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * TF-IDF cosine similarity of one document against each of the others
+ * (IDF over all documents, smoothed so a two-document corpus still works)
+ */
+export function contentSimilarities(document: string, others: string[]): number[] {
+  const corpus = [document, ...others].map(termFrequencies);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of corpus) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vectors = corpus.map(terms => {
+    const total = Array.from(terms.values()).reduce((sum, count) => sum + count, 0) || 1;
+    const vector = new Map<string, number>();
+    for (const [term, count] of terms) {
+      const idf = Math.log((corpus.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+      vector.set(term, (count / total) * idf);
+    }
+    return vector;
+  });
+
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+
+  const [target, ...rest] = vectors;
+  const targetNorm = norm(target);
+  return rest.map(vector => {
+    let dot = 0;
+    for (const [term, weight] of vector) {
+      dot += weight * (target.get(term) ?? 0);
+    }
+    const denominator = targetNorm * norm(vector);
+    return denominator === 0 ? 0 : Math.round((dot / denominator) * 1000) / 1000;
+  });
+}
+
+function articleText(article: Pick<GeneratedArticle, 'title' | 'content'>): string {
+  return `${article.title}\n${htmlToText(article.content)}`;
+}
+
+// ============================================================================
+// Guard
+// ============================================================================
+
+const RETIRED_APPROVALS: ApprovalStatus[] = ['rejected', 'superseded'];
+
+interface CorpusEntry {
+  run: GenerationRun;
+  article: GeneratedArticle;
+}
+
+/**
+ * Guard for one pipeline run; earlier runs are loaded once and shared by both checks.
+ * excludePostId: the Odoo post being updated (its earlier versions are not duplicates).
+ */
+export function createDuplicateGuard(
+  runStore: RunStore,
+  options: { config?: DuplicateGuardConfig; excludePostId?: number | null } = {}
+): DuplicateGuard {
+  const config = options.config ?? getDuplicateGuardConfig();
+  let corpus: Promise<CorpusEntry[]> | null = null;
+
+  function loadCorpus(): Promise<CorpusEntry[]> {
+    if (!corpus) {
+      corpus = runStore.list({ limit: config.lookback }).then(runs => runs.flatMap(run => {
+        const article = getSelectedArticle(run);
+        // Blocked runs are duplicates themselves and were never published; rejected
+        // drafts requeue their topic and superseded ones were replaced
+        if (
+          !article ||
+          run.duplicates?.blocked ||
+          (run.approval && RETIRED_APPROVALS.includes(run.approval)) ||
+          (options.excludePostId && run.odoo?.postId === options.excludePostId)
+        ) {
+          return [];
+        }
+        return [{ run, article }];
+      })).catch(error => {
+        // Like saveRunSafely: storage problems must not stop generation
+        console.error('[Duplicates] Failed to load run history:', error);
+        return [];
+      });
+    }
+    return corpus;
+  }
+
+  async function check(outline: ArticleOutline, article: GeneratedArticle | null): Promise<DuplicateReport> {
+    const stage = article ? 'content' : 'outline';
+    if (config.mode === 'off') {
+      return { mode: config.mode, stage, blocked: false, checkedRuns: 0, conflicts: [] };
+    }
+
+    const language = article?.language ?? outline.language ?? DEFAULT_LANGUAGE;
+    const entries = (await loadCorpus()).filter(entry =>
+      (entry.article.language ?? entry.run.outline.language ?? DEFAULT_LANGUAGE) === language
+    );
+    const similarities = article
+      ? contentSimilarities(articleText(article), entries.map(entry => articleText(entry.article)))
+      : [];
+
+    const primary = keywordKey(outline.keywords[0] ?? '');
+    const conflicts = entries
+      .map((entry, index): DuplicateConflict => {
+        const { overlap, shared } = keywordOverlap(outline.keywords, entry.run.outline.keywords);
+        return {
+          runId: entry.run.id,
+          topic: entry.run.outline.topic,
+          title: entry.article.title,
+          category: entry.run.category,
+          writer: entry.article.writer,
+          odooPostId: entry.run.odoo?.postId ?? null,
+          generatedAt: entry.run.startedAt,
+          samePrimaryKeyword: primary !== '' && keywordKey(entry.run.outline.keywords[0] ?? '') === primary,
+          keywordOverlap: Math.round(overlap * 1000) / 1000,
+          sharedKeywords: shared,
+          similarity: article ? similarities[index] : null,
+        };
+      })
+      .filter(conflict =>
+        conflict.samePrimaryKeyword ||
+        conflict.keywordOverlap >= config.keywordThreshold ||
+        (conflict.similarity ?? 0) >= config.contentThreshold
+      )
+      .sort((a, b) => (b.similarity ?? b.keywordOverlap) - (a.similarity ?? a.keywordOverlap))
+      .slice(0, MAX_REPORTED_CONFLICTS);
+
+    const blocked = config.mode === 'block' && conflicts.length > 0;
+    if (conflicts.length > 0) {
+      console.warn(`[Duplicates] ${stage} check for "${outline.topic}": ${conflicts.length} conflicts${blocked ? ' - blocked' : ''}`);
+    }
+    return { mode: config.mode, stage, blocked, checkedRuns: entries.length, conflicts };
+  }
+
+  return {
+    checkOutline: outline => check(outline, null),
+    checkArticle: (article, outline) => check(outline, article),
+  };
+}
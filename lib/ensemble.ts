@@ -0,0 +1,299 @@
+/**
+ * Ensemble Merge
+ * Composite article from the strongest section of each writer
+ *
+ * Selection strategies (SELECTION_STRATEGY or per request):
+ * - best:  the highest-scoring candidate wins (selectBestArticle)
+ * - merge: every candidate is split at its <h2> headings; the introduction
+ *          and each required heading from outline.sections are taken from
+ *          the writer whose section scores best on its own (weighted like
+ *          whole articles), and the closing section (summary / CTA) likewise.
+ *          Optionally one provider (MERGE_EDITOR) smooths the transitions in
+ *          a final editing pass; an edit that drops headings or a large part
+ *          of the text is discarded. The pass shares the writers' deadline
+ *          and is skipped when too little of it is left.
+ *
+ * The composite is stored as an extra candidate (writer 'ensemble') with
+ * the source writer of every section in `merge.sections`, so it can be selected,
+ * republished and translated like any other candidate.
+ */
+
+import type { AIConfig, ArticleOutline, GeneratedArticle } from './ai-writers';
+import { parseArticleOutput } from './article-parser';
+import { getLanguage } from './languages';
+import { getEnabledProviders, type WriterProvider } from './providers';
+import { countWords, htmlToText, scoreArticle, wordStems } from './scoring';
+import { buildStructuredData } from './structured-data';
+import { priceUsage, type ArticleUsage } from './usage';
+
+// Types
+export type SelectionStrategy = 'best' | 'merge';
+
+export const SELECTION_STRATEGIES: SelectionStrategy[] = ['best', 'merge'];
+
+export interface SectionProvenance {
+  heading: string | null; // null for the introduction before the first h2
+  slot: string; // outline section it fills, 'intro' or 'closing'
+  writer: string;
+  model: string;
+  score: number;
+  alternatives: { writer: string; score: number }[]; // other writers' scores for the slot
+}
+
+export interface MergeReport {
+  sections: SectionProvenance[];
+  editor: string | null; // provider whose editing pass was applied
+  warnings: string[];
+}
+
+export interface MergeOptions {
+  editor?: string | null; // provider id for the editing pass (null/undefined: no pass)
+  deadline?: number; // epoch ms shared with the writers (default: now + WRITER_TIMEOUT_MS)
+}
+
+interface Section {
+  heading: string | null;
+  html: string;
+}
+
+interface SlotCandidate {
+  article: GeneratedArticle;
+  section: Section;
+  score: number;
+}
+
+export const ENSEMBLE_WRITER = 'ensemble';
+
+const INTRO_SLOT = 'intro';
+const CLOSING_SLOT = 'closing';
+const EDIT_MIN_LENGTH_RATIO = 0.7; // an edit may tighten, not rewrite
+const MIN_EDIT_TIME_MS = 20_000; // a full-article rewrite needs time
+
+export function isSelectionStrategy(value: unknown): value is SelectionStrategy {
+  return typeof value === 'string' && (SELECTION_STRATEGIES as string[]).includes(value);
+}
+
+export function getSelectionStrategy(env: Record<string, string | undefined> = process.env): SelectionStrategy {
+  const strategy = env.SELECTION_STRATEGY || 'best';
+  if (!isSelectionStrategy(strategy)) {
+    throw new Error(`Unknown SELECTION_STRATEGY: ${strategy} (expected best or merge)`);
+  }
+  return strategy;
+}
+
+/**
+ * Split body HTML at <h2> headings; content before the first h2 is the introduction
+ */
+export function splitSections(html: string): Section[] {
+  const starts = Array.from(html.matchAll(/<h2[\s>]/gi), match => match.index!);
+  const sections: Section[] = [];
+
+  const intro = html.slice(0, starts[0] ?? html.length).trim();
+  if (htmlToText(intro)) {
+    sections.push({ heading: null, html: intro });
+  }
+
+  starts.forEach((start, index) => {
+    const sectionHtml = html.slice(start, starts[index + 1] ?? html.length).trim();
+    const heading = sectionHtml.match(/<h2[^>]*>([\s\S]*?)<\/h2>/i);
+    sections.push({ heading: heading ? htmlToText(heading[1]) : '', html: sectionHtml });
+  });
+  return sections;
+}
+
+// Shared stems between an h2 and a required section name ("Zasada działania" ~ "Jak działa SVG? Zasada działania")
+function headingMatch(heading: string, required: string): number {
+  const wanted = new Set(wordStems(required));
+  return wordStems(heading).filter(stem => wanted.has(stem)).length / Math.max(1, wanted.size);
+}
+
+/**
+ * Section scored on its own: the article scoring with the outline narrowed to
+ * this section (its heading and its share of the target length). Criteria that
+ * only make sense for a whole article hit every writer alike, so the ranking
+ * between writers for one slot stays fair.
+ */
+function scoreSection(section: Section, slot: string, outline: ArticleOutline, sectionCount: number): number {
+  return scoreArticle({ content: section.html }, {
+    ...outline,
+    sections: slot === INTRO_SLOT || slot === CLOSING_SLOT ? [] : [slot],
+    targetLength: Math.max(100, Math.round(outline.targetLength / Math.max(1, sectionCount))),
+  }).total;
+}
+
+/**
+ * Assign each candidate's h2 sections to outline slots (each h2 fills at most one slot)
+ */
+function assignSlots(article: GeneratedArticle, outline: ArticleOutline): Map<string, Section> {
+  const sections = splitSections(article.content);
+  const assigned = new Map<string, Section>();
+  const used = new Set<Section>();
+
+  const intro = sections.find(section => section.heading === null);
+  if (intro) {
+    assigned.set(INTRO_SLOT, intro);
+    used.add(intro);
+  }
+
+  for (const slot of outline.sections) {
+    let best: { section: Section; match: number } | null = null;
+    for (const section of sections) {
+      if (used.has(section) || section.heading === null) {
+        continue;
+      }
+      const match = headingMatch(section.heading, slot);
+      if (match > 0 && (!best || match > best.match)) {
+        best = { section, match };
+      }
+    }
+    if (best) {
+      assigned.set(slot, best.section);
+      used.add(best.section);
+    }
+  }
+
+  // The last unmatched h2 is the summary / CTA the prompt asks for
+  const last = sections[sections.length - 1];
+  if (last && !used.has(last)) {
+    assigned.set(CLOSING_SLOT, last);
+  }
+  return assigned;
+}
+
+function editingPrompt(content: string, outline: ArticleOutline): string {
+  const language = getLanguage(outline.language);
+  return `The article below was assembled from sections written by different authors. Edit it into one coherent ${language.name} text.
+
+RULES:
+1. Smooth the transitions between sections and remove repetitions between them.
+2. Keep every <h2> and <h3> heading, the section order, tables, lists and [INTERNAL_LINK] placeholders.
+3. Keep all facts and numbers; do not add new sections or new claims.
+4. Return ONLY the edited HTML body, no markdown, no code blocks, no <h1>.
+
+ARTICLE:
+${content}`;
+}
+
+async function editComposite(
+  content: string,
+  outline: ArticleOutline,
+  provider: WriterProvider,
+  deadline?: number
+): Promise<{ content: string; warning: string | null; usage?: ArticleUsage }> {
+  try {
+    const result = await provider.complete({
+      system: `You are a senior editor. Always write in ${getLanguage(outline.language).name}.`,
+      prompt: editingPrompt(content, outline),
+      deadline,
+    });
+    const edited = parseArticleOutput(result.text, outline.topic).content;
+    // A discarded edit is paid for all the same
+    const usage = priceUsage(provider.id, result);
+
+    const headings = (html: string) => (html.match(/<h2[\s>]/gi) || []).length;
+    if (headings(edited) < headings(content)) {
+      return { content, warning: `Editing pass by ${provider.id} dropped headings - unedited composite kept`, usage };
+    }
+    if (countWords(htmlToText(edited)) < countWords(htmlToText(content)) * EDIT_MIN_LENGTH_RATIO) {
+      return { content, warning: `Editing pass by ${provider.id} cut too much text - unedited composite kept`, usage };
+    }
+    return { content: edited, warning: null, usage };
+  } catch (error) {
+    console.error(`[Ensemble] Editing pass by ${provider.id} failed:`, error);
+    return { content, warning: `Editing pass by ${provider.id} failed - unedited composite kept` };
+  }
+}
+
+/**
+ * Composite article from the best section per slot; the top-ranked article
+ * (base) supplies title, meta fields and slug
+ */
+export async function mergeArticles(
+  articles: GeneratedArticle[],
+  base: GeneratedArticle,
+  outline: ArticleOutline,
+  config: AIConfig,
+  options: MergeOptions = {}
+): Promise<GeneratedArticle> {
+  const weights = new Map(config.providers.map(provider => [provider.id, provider.weight ?? 1]));
+  const slots = [INTRO_SLOT, ...outline.sections, CLOSING_SLOT];
+  const assignments = articles.map(article => ({ article, slots: assignSlots(article, outline) }));
+
+  const sectionCount = outline.sections.length + 2;
+  const sections: SectionProvenance[] = [];
+  const parts: string[] = [];
+
+  for (const slot of slots) {
+    const candidates: SlotCandidate[] = assignments.flatMap(({ article, slots: assigned }) => {
+      const section = assigned.get(slot);
+      if (!section) {
+        return [];
+      }
+      const score = scoreSection(section, slot, outline, sectionCount) * (weights.get(article.writer) ?? 1);
+      return [{ article, section, score: Math.round(score * 10) / 10 }];
+    });
+    if (candidates.length === 0) {
+      continue;
+    }
+
+    // Ties keep writer order, like selectBestArticle
+    const winner = candidates.reduce((best, candidate) => (candidate.score > best.score ? candidate : best));
+    parts.push(winner.section.html);
+    sections.push({
+      heading: winner.section.heading,
+      slot,
+      writer: winner.article.writer,
+      model: winner.article.model,
+      score: winner.score,
+      alternatives: candidates
+        .filter(candidate => candidate !== winner)
+        .map(candidate => ({ writer: candidate.article.writer, score: candidate.score })),
+    });
+  }
+
+  let content = parts.join('\n');
+  let editor: string | null = null;
+  let usage: ArticleUsage | undefined;
+  const warnings: string[] = [];
+  const missing = outline.sections.filter(slot => !sections.some(section => section.slot === slot));
+  if (missing.length > 0) {
+    warnings.push(`No writer produced a section for: ${missing.join(', ')}`);
+  }
+
+  if (options.editor) {
+    const provider = getEnabledProviders(config.providers).find(candidate => candidate.id === options.editor);
+    const remaining = options.deadline === undefined ? Infinity : options.deadline - Date.now();
+    if (provider && remaining < MIN_EDIT_TIME_MS) {
+      warnings.push(`Only ${Math.max(0, Math.round(remaining / 1000))}s left before the deadline - editing pass skipped`);
+    } else if (provider) {
+      const edit = await editComposite(content, outline, provider, options.deadline);
+      content = edit.content;
+      usage = edit.usage;
+      if (edit.warning) {
+        warnings.push(edit.warning);
+      } else {
+        editor = provider.id;
+      }
+    } else {
+      warnings.push(`Editor ${options.editor} is not an enabled provider - editing pass skipped`);
+    }
+  }
+
+  const writers = Array.from(new Set(sections.map(section => section.writer)));
+  const merged: GeneratedArticle = {
+    ...base,
+    content,
+    writer: ENSEMBLE_WRITER,
+    model: Array.from(new Set(sections.map(section => section.model))).join(' + '),
+    wordCount: countWords(htmlToText(content)),
+    generatedAt: new Date(),
+    merge: { sections, editor, warnings },
+    // Only the editing pass is new spending; the sections are billed on their candidates
+    usage,
+  };
+  merged.scores = scoreArticle(merged, outline);
+  merged.structuredData = buildStructuredData(merged, outline);
+
+  console.log(`[Ensemble] Merged ${sections.length} sections from ${writers.join(', ')}, score ${merged.scores.total} (best single: ${base.scores?.total ?? 'n/a'})`);
+  return merged;
+}
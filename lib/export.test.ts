@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE, makeArticle } from '../test/fixtures';
+import { articleToMarkdown, articlesToWxr, exportArticles, htmlToMarkdown } from './export';
+
+function tag(xml: string, name: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${name}><!\\[CDATA\\[(.*?)\\]\\]></${name}>`, 'g')), match => match[1]);
+}
+
+describe('articlesToWxr', () => {
+  it('writes post_date in Europe/Warsaw and post_date_gmt in UTC', () => {
+    const xml = articlesToWxr([
+      { article: makeArticle({ generatedAt: new Date('2025-03-10T09:30:00Z') }), outline: OUTLINE }, // CET
+      { article: makeArticle({ generatedAt: new Date('2025-07-01T22:15:05Z') }), outline: OUTLINE }, // CEST, next day locally
+    ]);
+
+    expect(tag(xml, 'wp:post_date')).toEqual(['2025-03-10 10:30:00', '2025-07-02 00:15:05']);
+    expect(tag(xml, 'wp:post_date_gmt')).toEqual(['2025-03-10 09:30:00', '2025-07-01 22:15:05']);
+  });
+
+  it('exports drafts with the category, keyword tags and Yoast meta', () => {
+    const article = makeArticle();
+    const xml = articlesToWxr([{ article, outline: OUTLINE }]);
+
+    expect(tag(xml, 'wp:status')).toEqual(['draft']);
+    expect(xml).toContain('<category domain="post_tag" nicename="kompensacja-mocy-biernej"><![CDATA[kompensacja mocy biernej]]></category>');
+    expect(xml).toContain(`<wp:meta_value><![CDATA[${article.metaDescription}]]></wp:meta_value>`);
+    expect(xml).toContain('<link>https://powergo.pl</link>');
+  });
+});
+
+describe('exportArticles', () => {
+  it('numbers files of articles with the same slug', () => {
+    const entry = { article: makeArticle(), outline: OUTLINE };
+    const names = exportArticles([entry, entry], 'md').map(file => file.name);
+
+    expect(names).toEqual([`${entry.article.slug}.md`, `${entry.article.slug}-2.md`]);
+  });
+});
+
+describe('articleToMarkdown', () => {
+  it('adds front matter and converts headings, lists and links', () => {
+    const markdown = articleToMarkdown({ article: makeArticle(), outline: OUTLINE });
+
+    expect(markdown.startsWith('---\ntitle: ')).toBe(true);
+    expect(markdown).toContain('## Czym jest moc bierna');
+    expect(markdown).toContain('### Czy kompensacja się opłaca?');
+    expect(htmlToMarkdown('<ul><li>Jeden</li><li><a href="https://powergo.pl">Dwa</a></li></ul>'))
+      .toBe('- Jeden\n- [Dwa](https://powergo.pl)\n');
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Article Export
+ * Generated articles as standalone HTML, Markdown or a WordPress import file (WXR)
+ *
+ * Used by the CLI (cli/seo-agent.ts) on its own result files or archived
+ * runs. Every format carries the title, meta description, slug and keywords;
+ * [INTERNAL_LINK] placeholders are removed (they are only resolved against
+ * the live site when publishing to Odoo), media placeholders and JSON-LD are
+ * kept.
+ *
+ * - html: one document per article (<title>, meta description, <h1>, body, JSON-LD)
+ * - md:   one file per article with YAML front matter; tables, lists, links
+ *         and figures are converted, other markup is reduced to text
+ * - wxr:  one WordPress eXtended RSS 1.2 file for all articles, as drafts,
+ *         category from the article category, tags from the keywords
+ */
+
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import { slugify } from './article-parser';
+import { getCategory, getSite } from './categories';
+import { resolveInternalLinks } from './internal-links';
+import { getLanguage } from './languages';
+import { TIMEZONE } from './publication-calendar';
+import { renderJsonLd } from './structured-data';
+
+// Types
+export type ExportFormat = 'html' | 'md' | 'wxr';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['html', 'md', 'wxr'];
+
+export interface ExportEntry {
+  article: GeneratedArticle;
+  outline: ArticleOutline;
+}
+
+export interface ExportFile {
+  name: string; // file name, from the slug (html, md) or the site (wxr)
+  content: string;
+}
+
+export interface WxrOptions {
+  title?: string; // channel title (default: site of the first article)
+  url?: string; // channel link
+  author?: string; // dc:creator login (default "admin")
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// Placeholders are never exported as literal text
+function exportBody(article: GeneratedArticle): string {
+  return resolveInternalLinks(article.content, []).content;
+}
+
+function publishedAt(article: GeneratedArticle): Date {
+  const date = new Date(article.generatedAt);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Standalone HTML document of an article
+ */
+export function articleToHtml(entry: ExportEntry): string {
+  const { article, outline } = entry;
+  const language = article.language ?? outline.language ?? 'pl';
+  const jsonLd = renderJsonLd(article.structuredData);
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(article.metaTitle || article.title)}</title>
+<meta name="description" content="${escapeHtml(article.metaDescription)}">
+<meta name="keywords" content="${escapeHtml(outline.keywords.join(', '))}">
+${jsonLd ? `${jsonLd}\n` : ''}</head>
+<body>
+<article>
+<h1>${escapeHtml(article.title)}</h1>
+${exportBody(article).trim()}
+</article>
+</body>
+</html>
+`;
+}
+
+// Inline markup of a block: links, emphasis, code, images (entities are decoded last)
+function inlineMarkdown(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<img\s[^>]*>/gi, tag => {
+      const src = /\ssrc="([^"]*)"/i.exec(tag)?.[1] ?? '';
+      const alt = /\salt="([^"]*)"/i.exec(tag)?.[1] ?? '';
+      return `![${alt}](${src})`;
+    })
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => `[${text.trim()}](${href})`)
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, (_, _tag, text: string) => `**${text.trim()}**`)
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, (_, _tag, text: string) => `*${text.trim()}*`)
+    .replace(/<code>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+    .replace(/ ?\n ?/g, '  \n');
+}
+
+function tableMarkdown(table: string): string {
+  const rows = Array.from(table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi), row =>
+    Array.from(row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi), cell => inlineMarkdown(cell[1]).replace(/\|/g, '\\|').replace(/ *\n/g, ' ')));
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) {
+    return '';
+  }
+
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+// Innermost lists first, so nested items are indented under their parent
+function listMarkdown(html: string): string {
+  const innermost = /<(ul|ol)[^>]*>((?:(?!<(?:ul|ol)[\s>])[\s\S])*?)<\/\1>/i;
+  let result = html;
+  for (let match = innermost.exec(result); match; match = innermost.exec(result)) {
+    const ordered = match[1].toLowerCase() === 'ol';
+    const items = Array.from(match[2].matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi), (item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const [first, ...rest] = item[1].split('\n');
+      const text = [inlineMarkdown(first), ...rest.map(line => line && `${' '.repeat(marker.length + 1)}${line}`)].filter(Boolean).join('\n');
+      return `${marker} ${text}`;
+    });
+    result = `${result.slice(0, match.index)}\n\n${items.join('\n')}\n\n${result.slice(match.index + match[0].length)}`;
+  }
+  return result;
+}
+
+/**
+ * Markdown of article HTML (headings, paragraphs, lists, tables, links, figures)
+ */
+export function htmlToMarkdown(html: string): string {
+  let markdown = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\s+/g, ' ')
+    .replace(/<table[^>]*>[\s\S]*?<\/table>/gi, table => `\n\n${tableMarkdown(table)}\n\n`)
+    .replace(/<figcaption[^>]*>([\s\S]*?)<\/figcaption>/gi, (_, caption: string) => `\n\n*${inlineMarkdown(caption)}*\n\n`)
+    .replace(/<\/?figure[^>]*>/gi, '\n\n')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) => `\n\n${'#'.repeat(Number(level))} ${inlineMarkdown(text)}\n\n`)
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_, text: string) => `\n\n> ${inlineMarkdown(text.replace(/<\/p>\s*<p[^>]*>/gi, '<br>'))}\n\n`)
+    .replace(/<hr\s*\/?>/gi, '\n\n---\n\n');
+
+  markdown = listMarkdown(markdown)
+    .replace(/<p[^>]*>([\s\S]*?)<\/p>/gi, (_, text: string) => `\n\n${inlineMarkdown(text)}\n\n`);
+
+  // Whatever is left between blocks is plain text
+  return decodeEntities(markdown
+    .split(/\n{2,}/)
+    .map(block => block.replace(/<[^>]+>/g, '').replace(/^\s+|\s+$/g, ''))
+    .filter(Boolean)
+    .join('\n\n')) + '\n';
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Markdown file of an article with YAML front matter
+ */
+export function articleToMarkdown(entry: ExportEntry): string {
+  const { article, outline } = entry;
+  const frontMatter = [
+    `title: ${yamlString(article.title)}`,
+    `description: ${yamlString(article.metaDescription)}`,
+    `slug: ${yamlString(article.slug)}`,
+    `date: ${publishedAt(article).toISOString()}`,
+    `category: ${yamlString(outline.category)}`,
+    `language: ${article.language ?? outline.language ?? 'pl'}`,
+    `keywords: [${outline.keywords.map(yamlString).join(', ')}]`,
+    `writer: ${yamlString(article.writer)}`,
+  ];
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n# ${article.title}\n\n${htmlToMarkdown(exportBody(article))}`;
+}
+
+// "]]>" cannot appear inside a CDATA section - split it across two
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// WordPress "YYYY-MM-DD HH:MM:SS": post_date in the site's zone (Europe/Warsaw), post_date_gmt in UTC
+function wxrDate(date: Date, timeZone = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(entry => entry.type === type)?.value ?? '00';
+  return `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}:${part('second')}`;
+}
+
+function wxrItem(entry: ExportEntry, id: number, author: string, url: string): string {
+  const { article, outline } = entry;
+  const date = publishedAt(article);
+  const category = getCategory(outline.category);
+  const jsonLd = renderJsonLd(article.structuredData);
+  const terms = [
+    ...(category ? [`<category domain="category" nicename="${slugify(category.id)}">${cdata(category.name)}</category>`] : []),
+    ...outline.keywords.map(keyword => `<category domain="post_tag" nicename="${slugify(keyword)}">${cdata(keyword)}</category>`),
+  ];
+  const meta: [string, string][] = [
+    ['_yoast_wpseo_title', article.metaTitle],
+    ['_yoast_wpseo_metadesc', article.metaDescription],
+    ['_yoast_wpseo_focuskw', outline.keywords[0] ?? ''],
+    ['_seo_agent_writer', article.writer],
+  ];
+
+  return `  <item>
+    <title>${cdata(article.title)}</title>
+    <link>${escapeHtml(`${url}/${article.slug}`)}</link>
+    <pubDate>${date.toUTCString()}</pubDate>
+    <dc:creator>${cdata(author)}</dc:creator>
+    <guid isPermaLink="false">${escapeHtml(`${url}/?p=${id}`)}</guid>
+    <description></description>
+    <content:encoded>${cdata(jsonLd ? `${exportBody(article)}\n${jsonLd}` : exportBody(article))}</content:encoded>
+    <excerpt:encoded>${cdata(article.excerpt || article.metaDescription)}</excerpt:encoded>
+    <wp:post_id>${id}</wp:post_id>
+    <wp:post_date>${cdata(wxrDate(date, TIMEZONE))}</wp:post_date>
+    <wp:post_date_gmt>${cdata(wxrDate(date))}</wp:post_date_gmt>
+    <wp:comment_status>${cdata('closed')}</wp:comment_status>
+    <wp:ping_status>${cdata('closed')}</wp:ping_status>
+    <wp:post_name>${cdata(article.slug)}</wp:post_name>
+    <wp:status>${cdata('draft')}</wp:status>
+    <wp:post_parent>0</wp:post_parent>
+    <wp:menu_order>0</wp:menu_order>
+    <wp:post_type>${cdata('post')}</wp:post_type>
+    <wp:post_password>${cdata('')}</wp:post_password>
+    <wp:is_sticky>0</wp:is_sticky>
+    ${terms.join('\n    ')}
+${meta.map(([key, value]) => `    <wp:postmeta>
+      <wp:meta_key>${cdata(key)}</wp:meta_key>
+      <wp:meta_value>${cdata(value)}</wp:meta_value>
+    </wp:postmeta>`).join('\n')}
+  </item>`;
+}
+
+/**
+ * WordPress eXtended RSS (WXR 1.2) with every article as a draft post
+ */
+export function articlesToWxr(entries: ExportEntry[], options: WxrOptions = {}): string {
+  const firstCategory = entries[0] ? getCategory(entries[0].outline.category) : null;
+  const site = firstCategory ? getSite(firstCategory.site) : null;
+  const title = options.title ?? site?.name ?? 'SEO Agent';
+  const url = (options.url ?? site?.url ?? 'https://example.com').replace(/\/+$/, '');
+  const author = options.author ?? 'admin';
+  const language = getLanguage(entries[0]?.article.language ?? entries[0]?.outline.language).code;
+
+  // Each category once, in the channel, so WordPress creates it before the posts
+  const categories = new Map<string, string>();
+  for (const { outline } of entries) {
+    const category = getCategory(outline.category);
+    if (category) {
+      categories.set(slugify(category.id), category.name);
+    }
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:wfw="http://wellformedweb.org/CommentAPI/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <title>${escapeHtml(title)}</title>
+  <link>${escapeHtml(url)}</link>
+  <description>${escapeHtml(`${title} - SEO Agent export`)}</description>
+  <pubDate>${new Date().toUTCString()}</pubDate>
+  <language>${language}</language>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <wp:base_site_url>${escapeHtml(url)}</wp:base_site_url>
+  <wp:base_blog_url>${escapeHtml(url)}</wp:base_blog_url>
+  <wp:author>
+    <wp:author_login>${cdata(author)}</wp:author_login>
+    <wp:author_display_name>${cdata(author)}</wp:author_display_name>
+  </wp:author>
+${Array.from(categories, ([slug, name]) => `  <wp:category>
+    <wp:category_nicename>${cdata(slug)}</wp:category_nicename>
+    <wp:category_parent>${cdata('')}</wp:category_parent>
+    <wp:cat_name>${cdata(name)}</wp:cat_name>
+  </wp:category>`).join('\n')}
+${entries.map((entry, index) => wxrItem(entry, index + 1, author, url)).join('\n')}
+</channel>
+</rss>
+`;
+}
+
+/**
+ * Files for an export: one per article (html, md) or a single WXR file
+ */
+export function exportArticles(entries: ExportEntry[], format: ExportFormat, options: WxrOptions = {}): ExportFile[] {
+  if (format === 'wxr') {
+    return [{ name: 'seo-agent-export.xml', content: articlesToWxr(entries, options) }];
+  }
+
+  // Articles sharing a slug (e.g. alternatives of one topic) get numbered files
+  const used = new Map<string, number>();
+  return entries.map(entry => {
+    const slug = entry.article.slug || 'article';
+    const count = (used.get(slug) ?? 0) + 1;
+    used.set(slug, count);
+    const name = `${count > 1 ? `${slug}-${count}` : slug}.${format}`;
+    return { name, content: format === 'html' ? articleToHtml(entry) : articleToMarkdown(entry) };
+  });
+}
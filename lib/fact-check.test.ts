@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE } from '../test/fixtures';
+import {
+  checkFacts,
+  extractClaims,
+  getFactCheckConfig,
+  highlightClaims,
+  stripFactHighlights,
+  type FactCheckConfig,
+} from './fact-check';
+
+const WARN = getFactCheckConfig({});
+const BLOCK: FactCheckConfig = { ...WARN, policy: 'block' };
+
+function claimsIn(html: string) {
+  return extractClaims(html, WARN.facts).map(claim => [claim.kind, claim.status, claim.text]);
+}
+
+describe('extractClaims', () => {
+  it('checks numbers next to a fact term against the fact', () => {
+    expect(claimsIn('<p>Opłata grozi, gdy tg φ przekracza 0,4.</p><p>Gdy tg φ przekracza 0,5, operator nalicza kary.</p>')).toEqual([
+      ['numeric', 'verified', '0,4'],
+      ['numeric', 'conflict', '0,5'],
+    ]);
+  });
+
+  it('reads thousands separated by a space or a non-breaking space', () => {
+    expect(claimsIn('<p>Kary sięgały 1\u00a0200 zł miesięcznie, a bateria kosztuje 12 500 zł.</p>')).toEqual([
+      ['numeric', 'unverified', '1\u00a0200 zł'],
+      ['numeric', 'unverified', '12 500 zł'],
+    ]);
+  });
+
+  it('recognises known citations and product claims, ignoring bare integers', () => {
+    expect(claimsIn('<p>Zasady określa Dz. U. z 2019 r. poz. 503. Od 2025 roku gwarantujemy 5 pytań.</p>')).toEqual([
+      ['legal', 'verified', 'Dz. U. z 2019 r. poz. 503'],
+      ['product', 'unverified', 'gwarantujemy'],
+    ]);
+  });
+});
+
+describe('checkFacts', () => {
+  const conflicting = { content: '<p>Przy tg φ powyżej 0,5 płacisz kary.</p>' };
+
+  it('reports without blocking by default', () => {
+    const report = checkFacts(conflicting, OUTLINE, WARN);
+
+    expect(report).toMatchObject({ policy: 'warn', blocked: false, conflicts: 1, unverified: 0 });
+  });
+
+  it('blocks conflicts and too many unverified claims under FACT_CHECK=block', () => {
+    expect(checkFacts(conflicting, OUTLINE, BLOCK).blocked).toBe(true);
+
+    const unverified = { content: '<p>Bateria kosztuje 12 500 zł i zwraca się w 2 lata.</p>' };
+    expect(checkFacts(unverified, OUTLINE, BLOCK).blocked).toBe(false);
+    expect(checkFacts(unverified, OUTLINE, { ...BLOCK, maxUnverified: 1 }).blocked).toBe(true);
+  });
+
+  it('skips everything when turned off', () => {
+    expect(checkFacts(conflicting, OUTLINE, getFactCheckConfig({ FACT_CHECK: 'off' })).claims).toEqual([]);
+  });
+});
+
+describe('highlightClaims', () => {
+  it('marks flagged claims for the editor and strips the marks again', () => {
+    const html = '<p>Przy tg φ powyżej 0,5 płacisz kary.</p>';
+    const report = checkFacts({ content: html }, OUTLINE, WARN);
+
+    const marked = highlightClaims(html, report);
+
+    expect(marked).toMatch(/<mark data-fact-check="conflict" title="[^"]*0,4[^"]*">0,5<\/mark>/);
+    expect(stripFactHighlights(marked)).toBe(html);
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Fact-Check & Compliance Lint
+ * Flags invented numbers, thresholds and legal references before drafting
+ *
+ * Claims are pulled out of the article text, sentence by sentence:
+ * - numeric: values with a unit (zł, kvar, kWh, lat...) or a decimal (0,4)
+ * - percentage: "30%", "15 proc."
+ * - legal: Dz.U. references, articles / paragraphs, standards (PN-EN, IEC),
+ *   acts and regulations with their date
+ * - product: guarantees and superlatives ("gwarantujemy", "najlepszy")
+ *
+ * Each claim is checked against the verified facts (lib/default-facts.ts,
+ * extended by FACTS_CONFIG / FACTS_CONFIG_FILE): a number near one of a
+ * fact's terms must match the fact's value (else it is a conflict), a
+ * citation must be a known one; everything else is unverified. Product
+ * claims are always left to the editor.
+ *
+ * FACT_CHECK decides what flagged claims do: warn (default - they are
+ * reported and highlighted with <mark> in the Odoo draft, and stripped again
+ * on approval), block (auto-drafting stops on a conflict, or on more than
+ * FACT_CHECK_MAX_UNVERIFIED unverified claims) or off.
+ */
+
+import { readFileSync } from 'fs';
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import { DEFAULT_FACTS } from './default-facts';
+import { HttpError } from './http';
+import { htmlToText } from './scoring';
+
+// Types
+export type FactCheckPolicy = 'off' | 'warn' | 'block';
+
+export const FACT_CHECK_POLICIES: FactCheckPolicy[] = ['off', 'warn', 'block'];
+
+export type ClaimKind = 'numeric' | 'percentage' | 'legal' | 'product';
+
+export type ClaimStatus = 'verified' | 'unverified' | 'conflict';
+
+export interface VerifiedFact {
+  id: string;
+  statement: string; // shown to the editor next to a conflicting claim
+  terms: string[]; // a number close to one of these is a claim about this fact
+  values?: number[]; // accepted values
+  tolerance?: number; // absolute, default 0
+  unit?: string; // only claims in this unit are compared ('%')
+  citations?: string[]; // accepted spellings of the legal reference
+  source: string;
+}
+
+export interface FactClaim {
+  kind: ClaimKind;
+  status: ClaimStatus;
+  text: string; // the claim as written ("0,5", "Dz.U. 2011 nr 189 poz. 1126")
+  sentence: string;
+  factId: string | null;
+  note: string | null; // what the verified fact says, or why the claim is flagged
+}
+
+export interface FactCheckConfig {
+  policy: FactCheckPolicy;
+  maxUnverified: number | null; // block: more unverified claims than this (null: conflicts only)
+  facts: VerifiedFact[];
+}
+
+export interface FactCheckReport {
+  policy: FactCheckPolicy;
+  blocked: boolean; // FACT_CHECK=block stops auto-drafting this article
+  verified: number;
+  unverified: number;
+  conflicts: number;
+  claims: FactClaim[];
+}
+
+type Env = Record<string, string | undefined>;
+
+const TERM_WINDOW = 60; // characters between a fact term and the number it qualifies
+const MAX_SENTENCE_LENGTH = 300;
+const INTERVENING_VALUE = /\d[.,]\d|\d\s?%/; // another value between a term and a number: the term is not about it
+
+// A number followed by its unit; the unit decides numeric vs percentage
+const NUMBER_PATTERN = /(\d{1,3}(?:[ \u00a0]\d{3})+|\d+)(?:[.,](\d+))?\s?(%|proc\.|procent\p{L}*|zł|pln|eur|€|gr|kvar|kva|kwh|mwh|kw|mw|kv|v|hz|lat|lata|years?|jahren?|let|roky|miesięc\p{L}*|months?|monat\p{L}*|dni|days?|tage?n?)?(?![\p{L}\d])/giu;
+
+const LEGAL_PATTERNS = [
+  /Dz\.\s?U\.\s?(?:z\s)?\d{4}(?:\s?r\.)?(?:,?\s?(?:nr|Nr)\s?\d+)?,?\s?poz\.\s?\d+/g,
+  /\b(?:PN-EN|PN|EN|IEC|ISO|DIN)(?:\s|-)\d{3,6}(?:[-:]\d+)*/g,
+  /\b(?:art\.|§)\s?\d+[a-z]?(?:\s?(?:ust\.|pkt)\s?\d+)*/g,
+  /(?<!\p{L})(?:ustaw[aąyie]|rozporządzeni[aeu]m?|dyrektyw[aąyie])(?!\p{L})[^.;]{0,80}?\sz\s(?:dnia\s)?\d{1,2}\s\p{L}+\s\d{4}/giu,
+  /(?<!\p{L})(?:dyrektyw[aąyie]|rozporządzeni[aeu]m?|directive|regulation|richtlinie|verordnung|směrnic\p{L}*|nařízení)\s(?:\p{L}+\s){0,3}\(?(?:UE|EU|WE|EC|EG|EHS)\)?\s?(?:nr\s)?\d{2,4}\/\d+(?:\/(?:UE|EU|WE|EC|EG))?/giu,
+];
+
+const PRODUCT_PATTERN = /(?<!\p{L})(?:gwarant\p{L}*|najlepsz\p{L}*|najtańsz\p{L}*|najskuteczniejsz\p{L}*|jedyn\p{L}* na rynku|bez żadnego ryzyka|100% skuteczn\p{L}*|zawsze się opłaca|guarantee\p{L}*|best on the market|garantiert\p{L}*|zaručen\p{L}*|nejlepší)(?!\p{L})/giu;
+
+export function isFactCheckPolicy(value: unknown): value is FactCheckPolicy {
+  return typeof value === 'string' && (FACT_CHECK_POLICIES as string[]).includes(value);
+}
+
+function readFacts(env: Env): VerifiedFact[] {
+  let raw: string | undefined = env.FACTS_CONFIG;
+  if (!raw && env.FACTS_CONFIG_FILE) {
+    raw = readFileSync(env.FACTS_CONFIG_FILE, 'utf8');
+  }
+  if (!raw) {
+    return DEFAULT_FACTS;
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error('FACTS_CONFIG must be a JSON array of facts');
+  }
+
+  // Built-in facts are overridden by id; new ids are appended
+  const facts = DEFAULT_FACTS.map(fact => ({ ...fact }));
+  for (const entry of parsed as Partial<VerifiedFact>[]) {
+    if (!entry.id || typeof entry.id !== 'string') {
+      throw new Error('Fact config requires an id');
+    }
+    const existing = facts.find(fact => fact.id === entry.id);
+    if (existing) {
+      Object.assign(existing, entry);
+    } else {
+      facts.push({ terms: [], statement: entry.id, source: '', ...entry } as VerifiedFact);
+    }
+  }
+
+  for (const fact of facts) {
+    if (!Array.isArray(fact.terms) || (fact.values !== undefined && !fact.values.every(Number.isFinite))) {
+      throw new Error(`Fact "${fact.id}" needs a terms array and numeric values`);
+    }
+  }
+  return facts;
+}
+
+export function getFactCheckConfig(env: Env = process.env): FactCheckConfig {
+  const policy = env.FACT_CHECK || 'warn';
+  if (!isFactCheckPolicy(policy)) {
+    throw new Error(`Unknown FACT_CHECK: ${policy} (expected off, warn or block)`);
+  }
+
+  const maxUnverified = env.FACT_CHECK_MAX_UNVERIFIED ? parseInt(env.FACT_CHECK_MAX_UNVERIFIED, 10) : NaN;
+  return {
+    policy,
+    maxUnverified: Number.isFinite(maxUnverified) && maxUnverified >= 0 ? maxUnverified : null,
+    facts: policy === 'off' ? [] : readFacts(env),
+  };
+}
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+
+// "Dz. U. z 2019 r. poz. 503" and "Dz.U. 2019 poz. 503" are the same reference
+function citationKey(citation: string): string {
+  const journal = citation.match(/Dz\.\s?U\.\s?(?:z\s)?(\d{4})[\s\S]*?poz\.\s?(\d+)/i);
+  if (journal) {
+    return `dzu${journal[1]}poz${journal[2]}`;
+  }
+  return citation.toLowerCase().replace(/[^\p{L}\d]/gu, '');
+}
+
+function parseNumber(whole: string, fraction: string | undefined): number {
+  return Number(`${whole.replace(/[ \u00a0]/g, '')}${fraction ? `.${fraction}` : ''}`);
+}
+
+// Blocks, then sentences; "np.", "art.", "poz." and the like do not end one
+function sentencesOf(html: string): string[] {
+  return htmlToText(html)
+    .split(/\n+|(?<!\b(?:np|tj|tzw|ok|zob|ust|pkt|art|poz|nr|r|z)\.)(?<=[.!?])\s+(?=\p{Lu}\p{Ll})/u)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Facts with values whose terms appear close to the number at start-end (no other value in between)
+function nearbyFacts(sentence: string, start: number, end: number, facts: VerifiedFact[]): VerifiedFact[] {
+  const lower = sentence.toLowerCase();
+  return facts.filter(fact => fact.values && fact.terms.some(term => {
+    const needle = term.toLowerCase();
+    let position = lower.indexOf(needle);
+    while (position >= 0) {
+      const between = position < start ? lower.slice(position + needle.length, start) : lower.slice(end, position);
+      if (between.length <= TERM_WINDOW && !INTERVENING_VALUE.test(between)) {
+        return true;
+      }
+      position = lower.indexOf(needle, position + 1);
+    }
+    return false;
+  }));
+}
+
+function checkNumber(
+  sentence: string,
+  match: RegExpMatchArray,
+  facts: VerifiedFact[]
+): Omit<FactClaim, 'sentence'> {
+  const unit = (match[3] ?? '').toLowerCase();
+  const percentage = unit === '%' || unit.startsWith('proc');
+  const value = parseNumber(match[1], match[2]);
+  const kind: ClaimKind = percentage ? 'percentage' : 'numeric';
+  const text = match[0].trim();
+
+  const related = nearbyFacts(sentence, match.index!, match.index! + match[0].length, facts)
+    .filter(fact => !fact.unit || (fact.unit === '%') === percentage);
+  if (related.length === 0) {
+    return { kind, status: 'unverified', text, factId: null, note: 'No verified fact covers this value' };
+  }
+
+  const confirmed = related.find(fact => fact.values!.some(expected => Math.abs(expected - value) <= (fact.tolerance ?? 0)));
+  if (confirmed) {
+    return { kind, status: 'verified', text, factId: confirmed.id, note: null };
+  }
+  return {
+    kind,
+    status: 'conflict',
+    text,
+    factId: related[0].id,
+    note: `${related[0].statement} (${related[0].source})`,
+  };
+}
+
+function checkCitation(citation: string, facts: VerifiedFact[]): Omit<FactClaim, 'sentence'> {
+  const key = citationKey(citation);
+  const known = facts.find(fact => (fact.citations ?? []).some(accepted => {
+    const acceptedKey = citationKey(accepted);
+    return key.includes(acceptedKey) || acceptedKey.includes(key);
+  }));
+  return known
+    ? { kind: 'legal', status: 'verified', text: citation, factId: known.id, note: null }
+    : { kind: 'legal', status: 'unverified', text: citation, factId: null, note: 'Legal reference not in the verified facts' };
+}
+
+/**
+ * All claims in the article HTML, checked against the facts
+ */
+export function extractClaims(html: string, facts: VerifiedFact[]): FactClaim[] {
+  const claims: FactClaim[] = [];
+  const seen = new Set<string>();
+
+  const add = (claim: Omit<FactClaim, 'sentence'>, sentence: string) => {
+    const key = `${claim.kind}|${claim.text}|${sentence}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      claims.push({ ...claim, sentence: sentence.slice(0, MAX_SENTENCE_LENGTH) });
+    }
+  };
+
+  for (const sentence of sentencesOf(html)) {
+    // Numbers inside a legal reference ("poz. 503", "art. 45") are not values
+    const citations = LEGAL_PATTERNS.flatMap(pattern => Array.from(sentence.matchAll(pattern)));
+    const insideCitation = (index: number) =>
+      citations.some(citation => index >= citation.index! && index < citation.index! + citation[0].length);
+
+    for (const citation of citations) {
+      add(checkCitation(citation[0].trim(), facts), sentence);
+    }
+
+    for (const match of sentence.matchAll(NUMBER_PATTERN)) {
+      // Bare integers (years, list numbers, "5 pytań") carry no unit and no decimal - not a claim
+      if ((!match[3] && !match[2]) || insideCitation(match.index!)) {
+        continue;
+      }
+      add(checkNumber(sentence, match, facts), sentence);
+    }
+
+    for (const match of sentence.matchAll(PRODUCT_PATTERN)) {
+      add({ kind: 'product', status: 'unverified', text: match[0], factId: null, note: 'Product claim - confirm it can be substantiated' }, sentence);
+    }
+  }
+  return claims;
+}
+
+/**
+ * Lint the article; `blocked` tells the pipeline not to auto-draft it
+ */
+export function checkFacts(
+  article: Pick<GeneratedArticle, 'content'>,
+  outline: Pick<ArticleOutline, 'topic'>,
+  config: FactCheckConfig = getFactCheckConfig()
+): FactCheckReport {
+  if (config.policy === 'off') {
+    return { policy: config.policy, blocked: false, verified: 0, unverified: 0, conflicts: 0, claims: [] };
+  }
+
+  const claims = extractClaims(article.content, config.facts);
+  const count = (status: ClaimStatus) => claims.filter(claim => claim.status === status).length;
+  const verified = count('verified');
+  const unverified = count('unverified');
+  const conflicts = count('conflict');
+
+  const blocked = config.policy === 'block' &&
+    (conflicts > 0 || (config.maxUnverified !== null && unverified > config.maxUnverified));
+  if (conflicts > 0 || unverified > 0) {
+    console.warn(`[FactCheck] "${outline.topic}": ${conflicts} conflicting, ${unverified} unverified claims${blocked ? ' - blocked' : ''}`);
+  }
+  return { policy: config.policy, blocked, verified, unverified, conflicts, claims };
+}
+
+/**
+ * Claims the editor has to look at (conflicts first)
+ */
+export function flaggedClaims(report: FactCheckReport | undefined): FactClaim[] {
+  return (report?.claims ?? [])
+    .filter(claim => claim.status !== 'verified')
+    .sort((a, b) => Number(b.status === 'conflict') - Number(a.status === 'conflict'));
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+function escapeAttribute(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Wrap flagged claims in <mark data-fact-check="..."> for the editor (text
+ * between tags only; a claim split by markup stays unmarked)
+ */
+export function highlightClaims(html: string, report: FactCheckReport | undefined): string {
+  const flagged = flaggedClaims(report);
+  if (flagged.length === 0) {
+    return html;
+  }
+
+  const parts = html.split(/(<[^>]+>)/);
+  const marked = new Set<string>();
+  let inMark = false;
+
+  for (const claim of flagged) {
+    if (marked.has(claim.text)) {
+      continue;
+    }
+    for (let index = 0; index < parts.length; index++) {
+      const part = parts[index];
+      if (part.startsWith('<')) {
+        inMark = part.startsWith('<mark') ? true : part === '</mark>' ? false : inMark;
+        continue;
+      }
+      const position = inMark ? -1 : part.indexOf(claim.text);
+      if (position >= 0) {
+        const title = escapeAttribute(claim.note ?? claim.status);
+        parts.splice(
+          index,
+          1,
+          part.slice(0, position),
+          `<mark data-fact-check="${claim.status}" title="${title}">`,
+          claim.text,
+          '</mark>',
+          part.slice(position + claim.text.length)
+        );
+        marked.add(claim.text);
+        break;
+      }
+    }
+    inMark = false;
+  }
+  return parts.join('');
+}
+
+/**
+ * Remove the editor highlights (on approval, before the post goes live)
+ */
+export function stripFactHighlights(html: string): string {
+  return html.replace(/<mark data-fact-check="[^"]*"[^>]*>([\s\S]*?)<\/mark>/g, '$1');
+}
+
+/**
+ * Thrown when FACT_CHECK=block stops auto-drafting; the run is archived under runId
+ */
+export class FactCheckError extends HttpError {
+  constructor(public readonly report: FactCheckReport, public readonly runId: string | null) {
+    const examples = flaggedClaims(report).slice(0, 3).map(claim => `"${claim.text}" (${claim.status})`).join(', ');
+    super(422, `Fact check blocked the draft: ${report.conflicts} conflicting, ${report.unverified} unverified claims - ${examples}`);
+    this.name = 'FactCheckError';
+  }
+}
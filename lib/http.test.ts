@@ -0,0 +1,63 @@
+import type { VercelResponse } from '@vercel/node';
+import { describe, expect, it } from 'vitest';
+import { openEventStream } from './http';
+
+/**
+ * Response double recording what the handler writes
+ */
+function recordingResponse() {
+  const recorded = { status: 0, headers: {} as Record<string, string>, flushed: false, chunks: [] as string[] };
+  const res = {
+    writableEnded: false,
+    status(code: number) {
+      recorded.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name] = value;
+      return res;
+    },
+    flushHeaders() {
+      recorded.flushed = true;
+    },
+    write(chunk: string) {
+      recorded.chunks.push(chunk);
+      return true;
+    },
+    end() {
+      res.writableEnded = true;
+      return res;
+    },
+  };
+  return { res: res as unknown as VercelResponse, recorded };
+}
+
+describe('openEventStream', () => {
+  it('switches the response to server-sent events before the first event', () => {
+    const { res, recorded } = recordingResponse();
+
+    openEventStream(res);
+
+    expect(recorded.status).toBe(200);
+    expect(recorded.headers['Content-Type']).toBe('text/event-stream; charset=utf-8');
+    expect(recorded.headers['Cache-Control']).toBe('no-cache, no-transform');
+    expect(recorded.headers['X-Accel-Buffering']).toBe('no');
+    expect(recorded.flushed).toBe(true);
+  });
+
+  it('writes one JSON frame per event and nothing after close', () => {
+    const { res, recorded } = recordingResponse();
+    const events = openEventStream(res);
+
+    events.send('token', { writer: 'claude', text: 'Moc bierna\n' });
+    events.send('done', { success: true });
+    events.close();
+    events.send('token', { writer: 'gemini', text: 'za późno' });
+    events.close();
+
+    expect(recorded.chunks).toEqual([
+      'event: token\ndata: {"writer":"claude","text":"Moc bierna\\n"}\n\n',
+      'event: done\ndata: {"success":true}\n\n',
+    ]);
+  });
+});
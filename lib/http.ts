@@ -0,0 +1,92 @@
+/**
+ * HTTP helpers shared by the API endpoints
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * Error carrying the HTTP status the API should respond with
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Set CORS headers; returns true when the request was a preflight and is answered
+ */
+export function handleCors(req: VercelRequest, res: VercelResponse, methods: string): boolean {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Optional API_SECRET bearer check (open when API_SECRET is not set)
+ */
+export function isAuthorized(req: VercelRequest): boolean {
+  return !process.env.API_SECRET || req.headers.authorization === `Bearer ${process.env.API_SECRET}`;
+}
+
+/**
+ * Single string query parameter (first value when repeated)
+ */
+export function queryParam(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Send a JSON error response, mapping HttpError to its status
+ */
+export function sendError(res: VercelResponse, error: unknown, tag: string): VercelResponse {
+  console.error(`[${tag}] Error:`, error);
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const statusCode = error instanceof HttpError
+    ? error.status
+    : errorMessage.includes('required') ? 400 : 500;
+
+  return res.status(statusCode).json({
+    success: false,
+    error: errorMessage,
+  });
+}
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Switch the response to server-sent events (text/event-stream)
+ */
+export function openEventStream(res: VercelResponse): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // disable proxy buffering
+  res.flushHeaders();
+
+  return {
+    send(event, data) {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { languageFromUrl, resolveInternalLinks, type LinkTarget } from './internal-links';
+
+function target(url: string, title: string, overrides: Partial<LinkTarget> = {}): LinkTarget {
+  return { url, title, language: 'pl', source: 'sitemap', keywords: [], ...overrides };
+}
+
+const TARGETS = [
+  target('https://powergo.pl/kompensatory-svg', 'Kompensatory SVG', { keywords: ['kompensator SVG', 'moc bierna'] }),
+  target('https://powergo.pl/baterie-kondensatorow', 'Baterie kondensatorów'),
+  target('https://powergo.pl/en/svg-compensators', 'SVG compensators', { language: 'en' }),
+];
+
+describe('resolveInternalLinks', () => {
+  it('links placeholders to the best matching page, each page once', () => {
+    const html = '<p>Szybką regulację zapewnia kompensator SVG [INTERNAL_LINK: kompensatory SVG].</p>' +
+      '<p>Tańsze są baterie kondensatorów [INTERNAL_LINK].</p>' +
+      '<p>Więcej o kompensatorach SVG [INTERNAL_LINK: kompensatory SVG].</p>';
+
+    const { content, report } = resolveInternalLinks(html, TARGETS, { keywords: ['moc bierna'] });
+
+    expect(content).toBe(
+      '<p>Szybką regulację zapewnia kompensator SVG <a href="https://powergo.pl/kompensatory-svg">kompensatory SVG</a>.</p>' +
+      '<p>Tańsze są baterie kondensatorów <a href="https://powergo.pl/baterie-kondensatorow">Baterie kondensatorów</a>.</p>' +
+      '<p>Więcej o kompensatorach SVG.</p>'
+    );
+    expect(report.resolved.map(link => link.url)).toEqual([
+      'https://powergo.pl/kompensatory-svg',
+      'https://powergo.pl/baterie-kondensatorow',
+    ]);
+    expect(report.unresolved).toEqual([
+      { placeholder: '[INTERNAL_LINK: kompensatory SVG]', context: 'Więcej o kompensatorach SVG.' },
+    ]);
+  });
+
+  it('removes placeholders without a target in the article language', () => {
+    const html = '<p>Filtry harmonicznych [INTERNAL_LINK: filtry aktywne]</p><ul><li>[INTERNAL_LINK]</li></ul>';
+
+    const { content, report } = resolveInternalLinks(html, TARGETS, { language: 'pl' });
+
+    expect(content).toBe('<p>Filtry harmonicznych</p><ul></ul>');
+    expect(content).not.toContain('INTERNAL_LINK');
+    expect(report.resolved).toEqual([]);
+    expect(report.unresolved).toHaveLength(2);
+  });
+
+  it('skips pages the article already links to or excludes', () => {
+    const html = '<p>Zobacz <a href="https://powergo.pl/kompensatory-svg/">kompensatory</a> oraz kompensator SVG [INTERNAL_LINK: kompensator SVG]</p>';
+
+    const { content, report } = resolveInternalLinks(html, TARGETS);
+
+    expect(content).toBe('<p>Zobacz <a href="https://powergo.pl/kompensatory-svg/">kompensatory</a> oraz kompensator SVG</p>');
+    expect(report.unresolved).toHaveLength(1);
+  });
+});
+
+describe('languageFromUrl', () => {
+  it('reads the website language from the path prefix', () => {
+    expect(languageFromUrl('https://powergo.pl/blog/kompensacja-12')).toBe('pl');
+    expect(languageFromUrl('https://powergo.pl/en/blog/compensation-12')).toBe('en');
+    expect(languageFromUrl('https://powergo.pl/de_DE/blog/kompensation-12')).toBe('de');
+  });
+});
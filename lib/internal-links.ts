@@ -0,0 +1,409 @@
+/**
+ * Internal Link Resolver
+ * Replaces [INTERNAL_LINK] placeholders with links to existing PowerGO pages
+ *
+ * Writers mark link spots with [INTERNAL_LINK] (optionally with a hint:
+ * [INTERNAL_LINK: kompensator SVG]). Before a draft goes to Odoo each
+ * placeholder is matched against an index of the site's pages and published
+ * blog posts, scored by the words around it, the hint and the article
+ * keywords. Every target is linked at most once per article; placeholders
+ * without a good enough target are removed and reported, never published
+ * as literal text.
+ *
+ * Index sources (cached in storage for INTERNAL_LINKS_TTL_MINUTES, default 720):
+ * - INTERNAL_LINKS_SITEMAP: sitemap.xml URLs or file paths (comma-separated, sitemap indexes followed)
+ * - Odoo: published blog.post records, when ODOO_API_KEY is configured
+ *   (INTERNAL_LINKS_ODOO=false to skip); relative URLs are made absolute
+ *   with INTERNAL_LINKS_BASE_URL, else ODOO_URL
+ */
+
+import { promises as fs } from 'fs';
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import { getCategories } from './categories';
+import { DEFAULT_LANGUAGE, LANGUAGES, type Language } from './languages';
+import { getOdooClient, type OdooClient } from './odoo-client';
+import { htmlToText, wordStems } from './scoring';
+import { getStore, type KeyValueStore } from './storage';
+
+// Types
+export type LinkSource = 'sitemap' | 'odoo';
+
+export interface LinkTarget {
+  url: string;
+  title: string;
+  language: Language;
+  source: LinkSource;
+  keywords: string[];
+}
+
+export interface LinkIndex {
+  targets: LinkTarget[];
+  sources: string[]; // sitemap locations / 'odoo' that were indexed
+  builtAt: string;
+}
+
+export interface ResolvedLink {
+  url: string;
+  anchor: string;
+  title: string;
+  score: number;
+}
+
+export interface UnresolvedLink {
+  placeholder: string;
+  context: string;
+}
+
+export interface LinkReport {
+  resolved: ResolvedLink[];
+  unresolved: UnresolvedLink[];
+}
+
+export interface ResolveOptions {
+  keywords?: string[];
+  language?: Language;
+  exclude?: (url: string) => boolean; // e.g. the article's own post
+}
+
+type Env = Record<string, string | undefined>;
+
+const INDEX_KEY = 'links:index';
+const DEFAULT_TTL_MINUTES = 720;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_CHILD_SITEMAPS = 20;
+
+const PLACEHOLDER_PATTERN = /( ?)\[INTERNAL_LINK(?::\s*([^\]]*))?\]/g;
+const CONTEXT_CHARS = 300;
+const BLOCK_BOUNDARY = /<\/?(?:p|li|h[1-6]|td|th|div|blockquote|section)(?:\s[^>]*)?>/gi;
+const MIN_SCORE = 2; // weighted shared stems
+const MIN_LOCAL_MATCHES = 1; // at least one from the placeholder's context or hint
+
+const WEIGHT_CONTEXT = 1;
+const WEIGHT_KEYWORD = 1;
+const WEIGHT_HINT = 3;
+
+// Stem sets: five-letter prefixes so inflected forms meet
+// ("kompensacji" and "kompensatory" share "kompe", "biernej" and "bierna" share "biern")
+function stems(text: string): Set<string> {
+  return new Set(wordStems(text));
+}
+
+function countShared(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const stem of a) {
+    if (b.has(stem)) {
+      shared++;
+    }
+  }
+  return shared;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/[?#].*$/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Website language from the URL prefix (/en/..., /de_DE/...); unprefixed URLs are Polish
+ */
+export function languageFromUrl(url: string): Language {
+  const path = url.replace(/^https?:\/\/[^/]+/, '');
+  for (const code of Object.keys(LANGUAGES) as Language[]) {
+    if (new RegExp(`^/${code}(?:_[A-Z]{2})?(?:/|$)`).test(path)) {
+      return code;
+    }
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+/**
+ * Readable title from the last URL segment ("/blog/blog-1/kompensacja-mocy-biernej-12")
+ */
+function titleFromUrl(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  const segment = path.split('/').pop() ?? '';
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Malformed escapes - match on the raw segment
+  }
+  return decoded
+    .replace(/\.html?$/i, '')
+    .replace(/-\d+$/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+async function readSitemapSource(location: string): Promise<string> {
+  if (/^https?:\/\//.test(location)) {
+    const response = await fetch(location, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Sitemap ${location}: HTTP ${response.status}`);
+    }
+    return response.text();
+  }
+  return fs.readFile(location, 'utf8');
+}
+
+/**
+ * Page targets from a sitemap.xml (file or URL); sitemap indexes are followed
+ */
+export async function loadSitemapTargets(location: string): Promise<LinkTarget[]> {
+  const xml = await readSitemapSource(location);
+  const locs = (block: string) =>
+    Array.from(block.matchAll(/<loc>([\s\S]*?)<\/loc>/gi), match => decodeXml(match[1]));
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    const children = locs(xml).slice(0, MAX_CHILD_SITEMAPS);
+    const nested = await Promise.all(children.map(child => loadSitemapTargets(child)));
+    return nested.flat();
+  }
+
+  const targets: LinkTarget[] = [];
+  for (const [block] of xml.matchAll(/<url>[\s\S]*?<\/url>/gi)) {
+    const url = locs(block)[0];
+    // Pages only - skip images, documents and the home page
+    if (!url || /\.(jpe?g|png|gif|webp|svg|pdf|zip|xml)$/i.test(url)) {
+      continue;
+    }
+    const title = titleFromUrl(url);
+    if (stems(title).size === 0) {
+      continue;
+    }
+    targets.push({ url, title, language: languageFromUrl(url), source: 'sitemap', keywords: [] });
+  }
+  return targets;
+}
+
+interface OdooBlogPostListing {
+  id: number;
+  name: string;
+  website_url: string | false;
+  website_meta_keywords: string | false;
+  blog_id: [number, string] | false;
+}
+
+/**
+ * Published blog posts; their language comes from the category blogs (odooBlogIds)
+ */
+export async function loadOdooTargets(client: OdooClient, baseUrl: string): Promise<LinkTarget[]> {
+  const posts = await client.executeKw<OdooBlogPostListing[]>(
+    'blog.post',
+    'search_read',
+    [[['is_published', '=', true]]],
+    { fields: ['name', 'website_url', 'website_meta_keywords', 'blog_id'] }
+  );
+
+  const blogLanguages = new Map<number, Language>();
+  for (const category of getCategories()) {
+    for (const [language, blogId] of Object.entries(category.odooBlogIds)) {
+      blogLanguages.set(blogId as number, language as Language);
+    }
+  }
+
+  return posts
+    .filter(post => post.website_url && post.name)
+    .map(post => {
+      const path = post.website_url as string;
+      return {
+        url: /^https?:\/\//.test(path) ? path : `${baseUrl.replace(/\/+$/, '')}${path}`,
+        title: post.name,
+        language: (post.blog_id && blogLanguages.get(post.blog_id[0])) || languageFromUrl(path),
+        source: 'odoo' as const,
+        keywords: post.website_meta_keywords
+          ? post.website_meta_keywords.split(',').map(keyword => keyword.trim()).filter(Boolean)
+          : [],
+      };
+    });
+}
+
+/**
+ * Build the index from all configured sources; a failing source is logged and skipped
+ */
+export async function buildLinkIndex(env: Env = process.env, client?: OdooClient): Promise<LinkIndex> {
+  const loaders: { name: string; load: () => Promise<LinkTarget[]> }[] = [];
+
+  for (const location of (env.INTERNAL_LINKS_SITEMAP || '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+    loaders.push({ name: location, load: () => loadSitemapTargets(location) });
+  }
+  if ((client || env.ODOO_API_KEY) && env.INTERNAL_LINKS_ODOO !== 'false') {
+    loaders.push({
+      name: 'odoo',
+      load: () => {
+        const odoo = client ?? getOdooClient();
+        return loadOdooTargets(odoo, env.INTERNAL_LINKS_BASE_URL || odoo.config.url);
+      },
+    });
+  }
+
+  const settled = await Promise.allSettled(loaders.map(loader => loader.load()));
+  const byUrl = new Map<string, LinkTarget>();
+  const sources: string[] = [];
+
+  settled.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`[Links] Index source ${loaders[index].name} failed:`, result.reason);
+      return;
+    }
+    sources.push(loaders[index].name);
+    for (const target of result.value) {
+      // The same page from sitemap and Odoo: keep the Odoo entry (real title and keywords)
+      const key = normalizeUrl(target.url);
+      if (!byUrl.has(key) || target.source === 'odoo') {
+        byUrl.set(key, target);
+      }
+    }
+  });
+
+  console.log(`[Links] Indexed ${byUrl.size} link targets from ${sources.join(', ') || 'no sources'}`);
+  return { targets: Array.from(byUrl.values()), sources, builtAt: new Date().toISOString() };
+}
+
+/**
+ * Cached index; rebuilt when older than INTERNAL_LINKS_TTL_MINUTES or on refresh.
+ * Never throws - without an index every placeholder is simply removed.
+ */
+export async function getLinkIndex(
+  options: { refresh?: boolean; kv?: KeyValueStore; env?: Env } = {}
+): Promise<LinkIndex> {
+  const env = options.env ?? process.env;
+  const kv = options.kv ?? getStore();
+  const ttlMinutes = Number(env.INTERNAL_LINKS_TTL_MINUTES) || DEFAULT_TTL_MINUTES;
+
+  try {
+    if (!options.refresh) {
+      const cached = await kv.get<LinkIndex>(INDEX_KEY);
+      if (cached && Date.now() - Date.parse(cached.builtAt) < ttlMinutes * 60 * 1000) {
+        return cached;
+      }
+    }
+
+    const index = await buildLinkIndex(env);
+    // An index where every source failed is not cached, so the next publish retries
+    if (index.sources.length > 0) {
+      await kv.set(INDEX_KEY, index);
+    }
+    return index;
+  } catch (error) {
+    console.error('[Links] Failed to load link index:', error);
+    return { targets: [], sources: [], builtAt: new Date().toISOString() };
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+// Text of the enclosing paragraph / list item / cell, at most CONTEXT_CHARS on each side
+function placeholderContext(html: string, offset: number, length: number): string {
+  const before = html.slice(Math.max(0, offset - CONTEXT_CHARS), offset).replace(/^[^<]*>/, '');
+  const after = html.slice(offset + length, offset + length + CONTEXT_CHARS).replace(/<[^>]*$/, '');
+  const blockStart = Array.from(before.matchAll(BLOCK_BOUNDARY)).pop();
+  const blockEnd = after.search(BLOCK_BOUNDARY);
+
+  const text = `${blockStart ? before.slice(blockStart.index! + blockStart[0].length) : before} ${
+    blockEnd >= 0 ? after.slice(0, blockEnd) : after}`;
+  return htmlToText(text.replace(PLACEHOLDER_PATTERN, ' ')).replace(/\s+([.,;:!?])/g, '$1');
+}
+
+/**
+ * Replace placeholders with <a> tags to the best matching targets (each target
+ * used once, pages already linked in the article are skipped); unresolved
+ * placeholders are removed and reported
+ */
+export function resolveInternalLinks(
+  html: string,
+  targets: LinkTarget[],
+  options: ResolveOptions = {}
+): { content: string; report: LinkReport } {
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const keywordStems = stems((options.keywords ?? []).join(' '));
+
+  const candidates = targets
+    .filter(target => target.language === language && !options.exclude?.(target.url))
+    .map(target => ({ target, stems: stems(`${target.title} ${target.keywords.join(' ')} ${titleFromUrl(target.url)}`) }));
+
+  const used = new Set(
+    Array.from(html.matchAll(/<a\s[^>]*href="([^"]+)"/gi), match => normalizeUrl(match[1]))
+  );
+  const report: LinkReport = { resolved: [], unresolved: [] };
+
+  const content = html.replace(PLACEHOLDER_PATTERN, (placeholder, space: string, hint: string | undefined, offset: number) => {
+    const context = placeholderContext(html, offset, placeholder.length);
+    const contextStems = stems(context);
+    const hintStems = stems(hint ?? '');
+
+    let best: { target: LinkTarget; score: number } | null = null;
+    for (const candidate of candidates) {
+      if (used.has(normalizeUrl(candidate.target.url))) {
+        continue;
+      }
+      const local = countShared(contextStems, candidate.stems) + countShared(hintStems, candidate.stems);
+      if (local < MIN_LOCAL_MATCHES) {
+        continue;
+      }
+      const score = WEIGHT_CONTEXT * countShared(contextStems, candidate.stems) +
+        WEIGHT_HINT * countShared(hintStems, candidate.stems) +
+        WEIGHT_KEYWORD * countShared(keywordStems, candidate.stems);
+      if (score >= MIN_SCORE && (!best || score > best.score)) {
+        best = { target: candidate.target, score };
+      }
+    }
+
+    if (!best) {
+      report.unresolved.push({ placeholder: placeholder.trim(), context: context.slice(0, 160) });
+      return '';
+    }
+
+    used.add(normalizeUrl(best.target.url));
+    const anchor = hint?.trim() || best.target.title;
+    report.resolved.push({ url: best.target.url, anchor, title: best.target.title, score: best.score });
+    return `${space}<a href="${escapeHtml(best.target.url)}">${escapeHtml(anchor)}</a>`;
+  });
+
+  return {
+    // Removed placeholders can leave blocks with nothing but whitespace
+    content: content.replace(/<(p|li)>\s*<\/\1>/gi, ''),
+    report,
+  };
+}
+
+/**
+ * Article with resolved internal links, ready for publishing
+ */
+export async function linkArticle(
+  article: GeneratedArticle,
+  outline: ArticleOutline,
+  index?: LinkIndex
+): Promise<{ article: GeneratedArticle; report: LinkReport }> {
+  const { targets } = index ?? await getLinkIndex();
+  const { content, report } = resolveInternalLinks(article.content, targets, {
+    keywords: outline.keywords,
+    language: article.language ?? outline.language,
+    exclude: url => new RegExp(`/${article.slug}(-\\d+)?$`).test(normalizeUrl(url)),
+  });
+
+  if (report.resolved.length + report.unresolved.length > 0) {
+    console.log(`[Links] ${article.writer}: ${report.resolved.length} linked, ${report.unresolved.length} removed`);
+  }
+  return { article: { ...article, content }, report };
+}
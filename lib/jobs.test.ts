@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OUTLINE, fakeConfig } from '../test/fixtures';
+import { createJobStore, executeJob, getJobRunner } from './jobs';
+import { createMemoryStore } from './storage';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('executeJob', () => {
+  it('tracks every writer to completion', async () => {
+    const jobs = createJobStore(createMemoryStore());
+    const queued = await jobs.create(OUTLINE);
+
+    const job = await executeJob(queued.id, fakeConfig([{ id: 'alpha' }, { id: 'beta' }]), jobs);
+
+    expect(job.status).toBe('succeeded');
+    expect(job.writers.map(writer => [writer.writer, writer.status])).toEqual([['alpha', 'done'], ['beta', 'done']]);
+    expect(job.result?.article.writer).toMatch(/alpha|beta/);
+  });
+
+  it('lists only the writers left after budget enforcement', async () => {
+    // A cap of $0 is reached before the first call
+    vi.stubEnv('USAGE_BUDGET_PROVIDERS', JSON.stringify({ beta: 0 }));
+    const jobs = createJobStore(createMemoryStore());
+    const queued = await jobs.create(OUTLINE);
+
+    const job = await executeJob(queued.id, fakeConfig([{ id: 'alpha' }, { id: 'beta' }]), jobs);
+
+    expect(job.status).toBe('succeeded');
+    expect(job.writers).toEqual([expect.objectContaining({ writer: 'alpha', status: 'done', error: null })]);
+  });
+
+  it('records failed writers with their error', async () => {
+    const jobs = createJobStore(createMemoryStore());
+    const queued = await jobs.create(OUTLINE);
+
+    const job = await executeJob(queued.id, fakeConfig([{ id: 'alpha' }, { id: 'broken', fake: { failures: 10, failStatus: 400 } }]), jobs);
+
+    expect(job.status).toBe('succeeded');
+    expect(job.writers.find(writer => writer.writer === 'broken')).toMatchObject({ status: 'failed', error: expect.any(String) });
+  });
+
+  it('refuses a job that is not queued', async () => {
+    const jobs = createJobStore(createMemoryStore());
+    const queued = await jobs.create(OUTLINE);
+    await jobs.update(queued.id, { status: 'running' });
+
+    await expect(executeJob(queued.id, fakeConfig([{ id: 'alpha' }]), jobs)).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe('getJobRunner', () => {
+  const KV = { KV_REST_API_URL: 'https://kv.example.com', KV_REST_API_TOKEN: 'token' };
+
+  it('uses the http worker on Vercel with KV storage', () => {
+    expect(getJobRunner({ VERCEL: '1', ...KV })).toBe('http');
+    expect(getJobRunner({ ...KV })).toBe('inline');
+  });
+
+  it('runs inline when the store is not shared between invocations', () => {
+    expect(getJobRunner({ VERCEL: '1' })).toBe('inline');
+    expect(getJobRunner({ VERCEL: '1', JOB_RUNNER: 'http', STORAGE_BACKEND: 'file' })).toBe('inline');
+    expect(getJobRunner({ JOB_RUNNER: 'http', STORAGE_BACKEND: 'kv', ...KV })).toBe('http');
+  });
+});
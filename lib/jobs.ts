@@ -0,0 +1,365 @@
+/**
+ * Generation Jobs
+ * Asynchronous mode for /api/generate, so generation is not bound to the
+ * request's timeout
+ *
+ *   POST /api/generate?async=1  → 202 { jobId }   (job is queued)
+ *   worker runs the pipeline    → job tracks each writer: pending / done / failed
+ *                                 (listed after budget enforcement drops capped writers)
+ *   GET /api/jobs/:id           → status, writers, result or error
+ *   callbackUrl (optional)      → receives the finished job as a POST
+ *
+ * Jobs live in the KeyValueStore (memory / file / KV), keyed `job:<id>`.
+ * JOB_RUNNER decides where the worker runs:
+ *   inline - in the same process, after the response (local dev, long-lived servers)
+ *   http   - POST /api/jobs/run in a separate invocation with its own maxDuration
+ *            (default on Vercel; base URL from JOB_WORKER_URL or VERCEL_URL)
+ * The worker invocation and GET /api/jobs/:id only see the job through a
+ * shared store, so without STORAGE_BACKEND=kv jobs always run inline.
+ */
+
+import { createHmac } from 'crypto';
+import type { AIConfig, ArticleOutline, WriterFailure, WriterTiming } from './ai-writers';
+import { DuplicateContentError } from './duplicate-guard';
+import type { SelectionStrategy } from './ensemble';
+import { HttpError } from './http';
+import { runGenerationPipeline, toGenerationResponse, AllWritersFailedError, type GenerationOptions, type GenerationResponse } from './pipeline';
+import { getResilienceConfig } from './resilience';
+import { createRunId } from './run-history';
+import { getStore, isSharedStore, type KeyValueStore } from './storage';
+
+// Types
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type WriterJobStatus = 'pending' | 'done' | 'failed';
+
+export interface JobWriter {
+  writer: string;
+  model: string;
+  status: WriterJobStatus;
+  durationMs: number | null;
+  error: string | null;
+}
+
+export interface CallbackDelivery {
+  url: string;
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+  at: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  outline: ArticleOutline;
+  callbackUrl: string | null;
+  allowDuplicates: boolean;
+  strategy: SelectionStrategy | null; // null: SELECTION_STRATEGY of the worker
+  editor: string | null;
+  media: boolean | null; // null: MEDIA_BRIEF of the worker
+  writers: JobWriter[];
+  runId: string | null;
+  result: GenerationResponse | null;
+  error: string | null;
+  callback: CallbackDelivery | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface JobStore {
+  create(outline: ArticleOutline, callbackUrl?: string | null, options?: GenerationOptions): Promise<GenerationJob>;
+  get(id: string): Promise<GenerationJob | null>;
+  update(id: string, changes: Partial<GenerationJob>): Promise<GenerationJob>;
+  updateWriter(id: string, writer: string, changes: Partial<JobWriter>): Promise<GenerationJob>;
+}
+
+export type JobRunner = 'inline' | 'http';
+
+type Env = Record<string, string | undefined>;
+
+const JOB_PREFIX = 'job:';
+
+export function createJobStore(kv: KeyValueStore = getStore()): JobStore {
+  // Writers settle concurrently; chain read-modify-write cycles per process
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function getOrThrow(id: string): Promise<GenerationJob> {
+    const job = await kv.get<GenerationJob>(`${JOB_PREFIX}${id}`);
+    if (!job) {
+      throw new HttpError(404, `Job not found: ${id}`);
+    }
+    return job;
+  }
+
+  return {
+    async create(outline, callbackUrl = null, options = {}) {
+      const job: GenerationJob = {
+        id: createRunId(),
+        status: 'queued',
+        outline,
+        callbackUrl,
+        allowDuplicates: options.allowDuplicates === true,
+        strategy: options.strategy ?? null,
+        editor: options.editor ?? null,
+        media: options.media ?? null,
+        writers: [],
+        runId: null,
+        result: null,
+        error: null,
+        callback: null,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        completedAt: null,
+      };
+      await kv.set(`${JOB_PREFIX}${job.id}`, job);
+      return job;
+    },
+
+    get(id) {
+      return kv.get<GenerationJob>(`${JOB_PREFIX}${id}`);
+    },
+
+    update(id, changes) {
+      return serialize(async () => {
+        const job = await getOrThrow(id);
+        const updated: GenerationJob = { ...job, ...changes, id: job.id };
+        await kv.set(`${JOB_PREFIX}${id}`, updated);
+        return updated;
+      });
+    },
+
+    updateWriter(id, writer, changes) {
+      return serialize(async () => {
+        const job = await getOrThrow(id);
+        const updated: GenerationJob = {
+          ...job,
+          writers: job.writers.map(entry => (entry.writer === writer ? { ...entry, ...changes } : entry)),
+        };
+        await kv.set(`${JOB_PREFIX}${id}`, updated);
+        return updated;
+      });
+    },
+  };
+}
+
+/**
+ * Callback URL must be an absolute http(s) URL
+ */
+export function validateCallbackUrl(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new HttpError(400, 'callbackUrl must be a string');
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new HttpError(400, 'callbackUrl must be an absolute URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, 'callbackUrl must use http or https');
+  }
+  return url.toString();
+}
+
+export function getJobRunner(env: Env = process.env): JobRunner {
+  const runner: JobRunner = env.JOB_RUNNER === 'inline' || env.JOB_RUNNER === 'http'
+    ? env.JOB_RUNNER
+    : env.VERCEL ? 'http' : 'inline';
+
+  // Memory and /tmp files are per instance: another invocation would never find the job
+  if (runner === 'http' && !isSharedStore(env)) {
+    if (env.JOB_RUNNER === 'http') {
+      console.log('[Jobs] JOB_RUNNER=http needs STORAGE_BACKEND=kv - running the job inline');
+    }
+    return 'inline';
+  }
+  return runner;
+}
+
+function getWorkerUrl(env: Env): string {
+  const base = env.JOB_WORKER_URL || (env.VERCEL_URL ? `https://${env.VERCEL_URL}` : '');
+  if (!base) {
+    throw new Error('JOB_WORKER_URL or VERCEL_URL is required for JOB_RUNNER=http');
+  }
+  return `${base.replace(/\/+$/, '')}/api/jobs/run`;
+}
+
+/**
+ * POST the finished job to its callback URL. With API_SECRET set the body
+ * is signed: X-Signature: sha256=<hex hmac of the body>
+ */
+async function deliverCallback(job: GenerationJob, env: Env): Promise<CallbackDelivery> {
+  const url = job.callbackUrl as string;
+  const body = JSON.stringify({ ...job, callback: undefined });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Job-Id': job.id };
+  if (env.API_SECRET) {
+    headers['X-Signature'] = `sha256=${createHmac('sha256', env.API_SECRET).update(body).digest('hex')}`;
+  }
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(10000) });
+    console.log(`[Jobs] Callback for ${job.id} → ${response.status}`);
+    return {
+      url,
+      ok: response.ok,
+      status: response.status,
+      error: response.ok ? null : response.statusText,
+      at: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`[Jobs] Callback for ${job.id} failed:`, error);
+    return {
+      url,
+      ok: false,
+      status: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      at: new Date().toISOString(),
+    };
+  }
+}
+
+function writerUpdate(timing: WriterTiming, failure: WriterFailure | null): Partial<JobWriter> {
+  return {
+    status: timing.status === 'fulfilled' ? 'done' : 'failed',
+    durationMs: timing.durationMs,
+    error: failure?.error ?? null,
+  };
+}
+
+/**
+ * Run a queued job to completion; never throws for generation errors
+ * (they end up in the job record)
+ */
+export async function executeJob(
+  id: string,
+  config: AIConfig,
+  jobs: JobStore = createJobStore(),
+  env: Env = process.env
+): Promise<GenerationJob> {
+  const queued = await jobs.get(id);
+  if (!queued) {
+    throw new HttpError(404, `Job not found: ${id}`);
+  }
+  if (queued.status !== 'queued') {
+    throw new HttpError(409, `Job ${id} is already ${queued.status}`);
+  }
+
+  await jobs.update(id, { status: 'running', writers: [], startedAt: new Date().toISOString() });
+  console.log(`[Jobs] Running ${id}: ${queued.outline.topic}`);
+
+  const startTime = Date.now();
+  let job: GenerationJob;
+  try {
+    const result = await runGenerationPipeline({
+      source: 'api',
+      outline: queued.outline,
+      config,
+      allowDuplicates: queued.allowDuplicates,
+      strategy: queued.strategy ?? undefined,
+      editor: queued.editor,
+      media: queued.media ?? undefined,
+      // The worker runs with a longer maxDuration than /api/generate
+      writerTimeoutMs: getResilienceConfig().jobWriterTimeoutMs,
+      hooks: {
+        // Listed once the budget has dropped the writers that sit this run out
+        onWritersStarted: async started => {
+          const writers: JobWriter[] = started.map(({ writer, model }) => ({
+            writer,
+            model,
+            status: 'pending',
+            durationMs: null,
+            error: null,
+          }));
+          await jobs.update(id, { writers });
+        },
+        onWriterSettled: async (timing, failure) => {
+          await jobs.updateWriter(id, timing.writer, writerUpdate(timing, failure));
+        },
+      },
+    });
+    job = await jobs.update(id, {
+      status: 'succeeded',
+      runId: result.runId,
+      result: toGenerationResponse(result, Date.now() - startTime),
+      completedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error(`[Jobs] ${id} failed:`, error);
+    job = await jobs.update(id, {
+      status: 'failed',
+      runId: error instanceof AllWritersFailedError || error instanceof DuplicateContentError ? error.runId : null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  console.log(`[Jobs] ${id} ${job.status} in ${Date.now() - startTime}ms`);
+
+  if (job.callbackUrl) {
+    job = await jobs.update(id, { callback: await deliverCallback(job, env) });
+  }
+  return job;
+}
+
+/**
+ * Start the worker for a queued job without waiting for generation
+ */
+export async function dispatchJob(
+  job: GenerationJob,
+  config: AIConfig,
+  jobs: JobStore = createJobStore(),
+  env: Env = process.env
+): Promise<JobRunner> {
+  const runner = getJobRunner(env);
+
+  if (runner === 'inline') {
+    executeJob(job.id, config, jobs, env).catch(error => {
+      console.error(`[Jobs] Worker for ${job.id} crashed:`, error);
+    });
+    return runner;
+  }
+
+  // The worker keeps running after we stop listening; we only need it to start
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (env.API_SECRET) {
+    headers.Authorization = `Bearer ${env.API_SECRET}`;
+  }
+  let failure: string | null = null;
+  try {
+    const response = await fetch(getWorkerUrl(env), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ id: job.id }),
+      signal: AbortSignal.timeout(2000),
+    });
+    // A quick answer means the worker refused the job (a running worker answers when done)
+    if (!response.ok) {
+      failure = `Worker responded ${response.status} ${response.statusText}`;
+    }
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'TimeoutError')) {
+      failure = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  if (failure) {
+    await jobs.update(job.id, {
+      status: 'failed',
+      error: `Could not start worker: ${failure}`,
+      completedAt: new Date().toISOString(),
+    });
+    throw new Error(`Could not start worker for job ${job.id}: ${failure}`);
+  }
+  return runner;
+}
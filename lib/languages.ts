@@ -0,0 +1,38 @@
+/**
+ * Languages
+ * Output languages for generation and translation (PL is the source market)
+ *
+ * Each language carries what the prompts need (how to name it in a Polish
+ * instruction and in English) and the Odoo language code of the website
+ * its posts are published on.
+ */
+
+// Types
+export type Language = 'pl' | 'en' | 'de' | 'cs';
+
+export interface LanguageDefinition {
+  code: Language;
+  name: string; // English name, used in English prompt lines
+  namePl: string; // "Pisz w języku ..." (locative)
+  odooLang: string; // res.lang code of the matching Odoo website
+}
+
+export const DEFAULT_LANGUAGE: Language = 'pl';
+
+export const LANGUAGES: Record<Language, LanguageDefinition> = {
+  pl: { code: 'pl', name: 'Polish', namePl: 'polskim', odooLang: 'pl_PL' },
+  en: { code: 'en', name: 'English', namePl: 'angielskim', odooLang: 'en_US' },
+  de: { code: 'de', name: 'German', namePl: 'niemieckim', odooLang: 'de_DE' },
+  cs: { code: 'cs', name: 'Czech', namePl: 'czeskim', odooLang: 'cs_CZ' },
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+/**
+ * Language definition for an outline/article (Polish when unset)
+ */
+export function getLanguage(code?: Language | null): LanguageDefinition {
+  return LANGUAGES[code ?? DEFAULT_LANGUAGE];
+}
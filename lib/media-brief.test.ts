@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE, fakeConfig, makeArticle } from '../test/fixtures';
+import { addMediaBrief, buildMediaBrief, createStubImageProvider, getImageProvider, type ImageProvider } from './media-brief';
+
+const PLAN = {
+  cover: {
+    prompt: 'Industrial capacitor bank in a factory switchroom, clean technical style',
+    alt: 'Bateria kondensatorów do kompensacji mocy biernej w rozdzielni zakładu',
+    caption: 'Kompensacja mocy biernej w praktyce',
+  },
+  figures: [
+    {
+      section: 'Czym jest moc bierna',
+      kind: 'diagram',
+      description: 'Trójkąt mocy: czynna, bierna, pozorna',
+      prompt: 'Power triangle vector diagram with P, Q, S labels',
+      alt: 'Trójkąt mocy pokazujący moc bierną, czynną i pozorną',
+      caption: 'Trójkąt mocy',
+    },
+    {
+      section: 'jak działa KOMPENSACJA',
+      kind: 'hologram',
+      description: 'Schemat podłączenia baterii kondensatorów',
+      prompt: 'Wiring diagram of a capacitor bank',
+      alt: '',
+      caption: 'Podłączenie baterii',
+    },
+    { section: 'Nie ma takiej sekcji', kind: 'photo', description: 'x', prompt: 'x', alt: 'x', caption: 'x' },
+  ],
+};
+
+function mediaConfig(fake: { text?: string; failures?: number; failStatus?: number } = { text: JSON.stringify(PLAN) }, id = 'artdirector') {
+  return fakeConfig([{ id, fake }]);
+}
+
+describe('buildMediaBrief', () => {
+  it('maps figures onto the article sections with alt texts', async () => {
+    const media = await buildMediaBrief(makeArticle(), OUTLINE, mediaConfig(), { imageProvider: null });
+
+    expect(media.provider).toBe('artdirector');
+    expect(media.cover).toMatchObject({ alt: PLAN.cover.alt, image: null });
+    expect(media.figures).toEqual([
+      expect.objectContaining({ id: 'fig-1', section: 'Czym jest moc bierna', kind: 'diagram', alt: PLAN.figures[0].alt }),
+      // Section matched case- and diacritic-insensitively; unknown kind and empty alt fall back
+      expect.objectContaining({ id: 'fig-2', section: 'Jak działa kompensacja', kind: 'illustration', alt: 'Schemat podłączenia baterii kondensatorów' }),
+    ]);
+    expect(media.warnings).toEqual(['Figure for unknown section "Nie ma takiej sekcji" dropped']);
+  });
+
+  it('fills the cover and figures with the stub image provider', async () => {
+    const media = await buildMediaBrief(makeArticle(), OUTLINE, mediaConfig(), { imageProvider: createStubImageProvider() });
+
+    expect(media.imageProvider).toBe('stub');
+    expect(media.cover.image).toEqual({ provider: 'stub', url: expect.stringMatching(/^data:image\/svg\+xml/) });
+    expect(decodeURIComponent(media.cover.image?.url ?? '')).toContain('width="1200" height="630"');
+    expect(media.figures.every(figure => figure.image?.provider === 'stub')).toBe(true);
+  });
+
+  it('falls back to the title when the plan has no cover', async () => {
+    const article = makeArticle();
+    const media = await buildMediaBrief(article, OUTLINE, mediaConfig({ text: '{"figures": []}' }), { imageProvider: null });
+
+    expect(media.cover).toMatchObject({ prompt: article.title, alt: `${article.title} - kompensacja mocy biernej` });
+    expect(media.warnings).toContain('No cover prompt in the media brief - the title is used');
+  });
+
+  it('reads IMAGE_PROVIDER', () => {
+    expect(getImageProvider({})).toBeNull();
+    expect(getImageProvider({ IMAGE_PROVIDER: 'stub' })?.id).toBe('stub');
+    expect(() => getImageProvider({ IMAGE_PROVIDER: 'dalle' })).toThrow('Unknown IMAGE_PROVIDER');
+  });
+});
+
+describe('addMediaBrief', () => {
+  it('places figure images after the first paragraph of their section', async () => {
+    const result = await addMediaBrief(makeArticle(), OUTLINE, mediaConfig(), { imageProvider: createStubImageProvider() });
+    const content = result.content;
+
+    const heading = content.indexOf('<h2>Czym jest moc bierna</h2>');
+    const paragraph = content.indexOf('</p>', heading);
+    const figure = content.indexOf('<figure class="media-placeholder" data-media-id="fig-1"');
+    expect(figure).toBeGreaterThan(paragraph);
+    expect(figure).toBeLessThan(content.indexOf('<h2>Jak działa kompensacja</h2>'));
+    expect(content).toContain(`alt="${PLAN.figures[0].alt}" loading="lazy"`);
+    expect(content).toContain('<figcaption>Trójkąt mocy</figcaption>');
+    expect(result.media?.figures).toHaveLength(2);
+  });
+
+  it('keeps placeholders when the image provider fails', async () => {
+    const failing: ImageProvider = {
+      id: 'broken',
+      async generate() {
+        throw new Error('quota exceeded');
+      },
+    };
+    const result = await addMediaBrief(makeArticle(), OUTLINE, mediaConfig(), { imageProvider: failing });
+
+    expect(result.content).toContain('[GRAFIKA: Trójkąt mocy: czynna, bierna, pozorna]');
+    expect(result.content).not.toContain('<img');
+    expect(result.media?.cover.image).toBeNull();
+    expect(result.media?.warnings.filter(warning => warning === 'broken image failed: quota exceeded')).toHaveLength(3);
+  });
+
+  it('returns the article unchanged when the media brief fails', async () => {
+    const article = makeArticle();
+
+    expect(await addMediaBrief(article, OUTLINE, mediaConfig({ failures: 1, failStatus: 400 }, 'broken-director'))).toBe(article);
+  });
+
+  it('keeps the usage of an unreadable media brief', async () => {
+    const article = makeArticle();
+    const result = await addMediaBrief(article, OUTLINE, mediaConfig({ text: 'no JSON here' }, 'vague-director'), { imageProvider: null });
+
+    expect(result.content).toBe(article.content);
+    expect(result.media?.figures).toEqual([]);
+    expect(result.media?.cover.prompt).toBe(article.title);
+    expect(result.media?.warnings[0]).toMatch(/^vague-director returned an unreadable media brief/);
+    expect(result.media?.usage).toMatchObject({ provider: 'vague-director', inputTokens: expect.any(Number) });
+  });
+
+  it('skips the brief when the deadline is too close', async () => {
+    const article = makeArticle();
+
+    expect(await addMediaBrief(article, OUTLINE, mediaConfig(), { deadline: Date.now() + 1000 })).toBe(article);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Media Brief
+ * Cover image prompt, figure placements and SEO alt texts for the selected article
+ *
+ * After selection one provider (MEDIA_PROVIDER, else the article's writer,
+ * else the first enabled one) reads the article and answers with JSON: a
+ * cover image prompt with alt text and caption, and 0-4 figures (diagram,
+ * chart, photo...) each tied to one of the article's <h2> sections, e.g. the
+ * power triangle next to the section that explains it. Alt texts and
+ * captions are written in the article language and use the keywords.
+ *
+ * Figures go into the body as <figure class="media-placeholder"> after the
+ * first paragraph of their section, so the Odoo draft shows editors where
+ * each image belongs; the whole brief is kept on the article
+ * (GeneratedArticle.media) and returned by /api/generate and the cron.
+ *
+ * Images themselves are optional: IMAGE_PROVIDER=stub fills the figures with
+ * SVG placeholders (offline tests); a real generator implements
+ * ImageProvider. Without one the figures stay placeholders with prompts.
+ *
+ * MEDIA_BRIEF=off (or "media": false per request) skips the stage; a failed
+ * media brief never fails the run. In the pipeline the brief shares the
+ * writers' deadline and is skipped when less than MIN_MEDIA_TIME_MS is left,
+ * so it cannot push the run past the function limit. An unreadable answer is
+ * kept as a title-only brief, so its tokens still reach the usage ledger.
+ */
+
+import type { AIConfig, ArticleOutline, GeneratedArticle } from './ai-writers';
+import { truncateAtWord } from './article-parser';
+import { parseJsonObject } from './brief-builder';
+import { requireCategory } from './categories';
+import { getLanguage } from './languages';
+import { getEnabledProviders, type WriterProvider } from './providers';
+import { htmlToText, normalizeText } from './scoring';
+import { priceUsage, type ArticleUsage } from './usage';
+
+// Types
+export type MediaMode = 'on' | 'off';
+
+export type FigureKind = 'diagram' | 'chart' | 'photo' | 'illustration' | 'screenshot';
+
+export const FIGURE_KINDS: FigureKind[] = ['diagram', 'chart', 'photo', 'illustration', 'screenshot'];
+
+export interface MediaImage {
+  url: string;
+  provider: string;
+}
+
+export interface CoverImage {
+  prompt: string; // for an image generator (English)
+  alt: string;
+  caption: string;
+  image: MediaImage | null;
+}
+
+export interface FigurePlacement {
+  id: string; // fig-1, fig-2... (data-media-id of the placeholder)
+  section: string; // h2 text the figure belongs to
+  kind: FigureKind;
+  description: string; // what the figure shows, for the editor
+  prompt: string;
+  alt: string;
+  caption: string;
+  image: MediaImage | null;
+}
+
+export interface MediaBrief {
+  cover: CoverImage;
+  figures: FigurePlacement[];
+  provider: string;
+  model: string;
+  imageProvider: string | null;
+  warnings: string[];
+  usage?: ArticleUsage;
+  generatedAt: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  alt: string;
+  purpose: 'cover' | 'figure';
+}
+
+/**
+ * Image generator behind the media brief (IMAGE_PROVIDER)
+ */
+export interface ImageProvider {
+  id: string;
+  generate(request: ImageRequest): Promise<MediaImage>;
+}
+
+export interface MediaOptions {
+  provider?: string; // media brief provider id (default MEDIA_PROVIDER)
+  imageProvider?: ImageProvider | null; // default IMAGE_PROVIDER
+  deadline?: number; // epoch ms shared with the writers (default: now + WRITER_TIMEOUT_MS)
+}
+
+type Env = Record<string, string | undefined>;
+
+const MAX_FIGURES = 4;
+const MAX_ALT_LENGTH = 125;
+const MAX_CAPTION_LENGTH = 200;
+const MIN_MEDIA_TIME_MS = 15_000;
+
+export function getMediaMode(env: Env = process.env): MediaMode {
+  const mode = env.MEDIA_BRIEF || 'on';
+  if (mode !== 'on' && mode !== 'off') {
+    throw new Error(`Unknown MEDIA_BRIEF: ${mode} (expected on or off)`);
+  }
+  return mode;
+}
+
+/**
+ * Offline image provider: an SVG card with the alt text instead of a picture
+ */
+export function createStubImageProvider(): ImageProvider {
+  return {
+    id: 'stub',
+    async generate(request) {
+      const [width, height] = request.purpose === 'cover' ? [1200, 630] : [800, 450];
+      const label = escapeHtml(truncateAtWord(request.alt, 80));
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        `<rect width="100%" height="100%" fill="#e8edf2"/>` +
+        `<text x="50%" y="50%" font-family="sans-serif" font-size="20" fill="#4a5868" text-anchor="middle">${label}</text></svg>`;
+      return { url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`, provider: 'stub' };
+    },
+  };
+}
+
+export function getImageProvider(env: Env = process.env): ImageProvider | null {
+  const id = env.IMAGE_PROVIDER || 'off';
+  switch (id) {
+    case 'off':
+      return null;
+    case 'stub':
+      return createStubImageProvider();
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER: ${id} (expected off or stub)`);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function headingKey(text: string): string {
+  return normalizeText(text).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function articleHeadings(html: string): string[] {
+  return Array.from(html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi), match => htmlToText(match[1])).filter(Boolean);
+}
+
+function pickMediaProvider(config: AIConfig, preferred: (string | undefined)[]): WriterProvider {
+  const providers = getEnabledProviders(config.providers);
+  if (providers.length === 0) {
+    throw new Error('No AI providers configured. At least one AI provider is required.');
+  }
+
+  for (const id of preferred) {
+    const provider = id ? providers.find(candidate => candidate.id === id) : undefined;
+    if (provider) {
+      return provider;
+    }
+  }
+  return providers[0];
+}
+
+function mediaPrompt(article: GeneratedArticle, outline: ArticleOutline, headings: string[]): string {
+  const category = requireCategory(outline.category);
+  const language = getLanguage(article.language ?? outline.language);
+
+  return `Plan the images for a blog article. You are ${category.persona} working with a graphic designer.
+
+**Title**: ${article.title}
+**Keywords**: ${outline.keywords.join(', ')}
+**Category**: ${category.name}
+**Sections (h2)**:
+${headings.map(heading => `- ${heading}`).join('\n')}
+
+**Article text**:
+${truncateAtWord(htmlToText(article.content), 6000)}
+
+RULES:
+1. One cover image for the whole article.
+2. 0-${MAX_FIGURES} figures where a picture explains more than text (e.g. the power triangle, a wiring diagram, a cost comparison chart), at most one per section; "section" must be one of the h2 headings above, copied exactly.
+3. kind: ${FIGURE_KINDS.join(', ')}.
+4. "prompt": a detailed image-generation prompt in English (style, content, labels); diagrams get clean technical vector style.
+5. "alt": alt text in ${language.name}, max ${MAX_ALT_LENGTH} characters, describing the image and naturally using one of the keywords.
+6. "caption": one-sentence caption in ${language.name}, using a keyword where natural.
+7. "description": what the figure shows, in ${language.name}, for the editor.
+
+Return ONLY JSON, no markdown, in this shape:
+{
+  "cover": { "prompt": "...", "alt": "...", "caption": "..." },
+  "figures": [{ "section": "...", "kind": "diagram", "description": "...", "prompt": "...", "alt": "...", "caption": "..." }]
+}`;
+}
+
+function readText(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * Normalise the provider's JSON: figures must name an existing section, texts are capped
+ */
+export function readMediaPlan(
+  data: Record<string, unknown>,
+  article: GeneratedArticle,
+  outline: ArticleOutline
+): Pick<MediaBrief, 'cover' | 'figures' | 'warnings'> {
+  const warnings: string[] = [];
+  const headings = articleHeadings(article.content);
+  const fallbackAlt = `${article.title} - ${outline.keywords[0] ?? outline.topic}`;
+
+  const cover = (data.cover && typeof data.cover === 'object' ? data.cover : {}) as Record<string, unknown>;
+  if (!readText(cover.prompt)) {
+    warnings.push('No cover prompt in the media brief - the title is used');
+  }
+
+  const used = new Set<string>();
+  const figures: FigurePlacement[] = [];
+  for (const entry of Array.isArray(data.figures) ? data.figures : []) {
+    const figure = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const section = headings.find(heading => headingKey(heading) === headingKey(readText(figure.section)));
+    if (!section) {
+      warnings.push(`Figure for unknown section ${JSON.stringify(figure.section)} dropped`);
+      continue;
+    }
+    if (used.has(section) || figures.length >= MAX_FIGURES) {
+      warnings.push(`Extra figure for "${section}" dropped`);
+      continue;
+    }
+    used.add(section);
+
+    const description = readText(figure.description) || readText(figure.caption) || section;
+    figures.push({
+      id: `fig-${figures.length + 1}`,
+      section,
+      kind: (FIGURE_KINDS as unknown[]).includes(figure.kind) ? figure.kind as FigureKind : 'illustration',
+      description,
+      prompt: readText(figure.prompt) || description,
+      alt: truncateAtWord(readText(figure.alt) || description, MAX_ALT_LENGTH),
+      caption: truncateAtWord(readText(figure.caption) || description, MAX_CAPTION_LENGTH),
+      image: null,
+    });
+  }
+
+  return {
+    cover: {
+      prompt: readText(cover.prompt) || article.title,
+      alt: truncateAtWord(readText(cover.alt) || fallbackAlt, MAX_ALT_LENGTH),
+      caption: truncateAtWord(readText(cover.caption) || article.title, MAX_CAPTION_LENGTH),
+      image: null,
+    },
+    figures,
+    warnings,
+  };
+}
+
+function figureHtml(figure: FigurePlacement): string {
+  const body = figure.image
+    ? `<img src="${escapeHtml(figure.image.url)}" alt="${escapeHtml(figure.alt)}" loading="lazy">`
+    : `<p class="media-placeholder-note">[GRAFIKA: ${escapeHtml(figure.description)}]</p>`;
+  return `<figure class="media-placeholder" data-media-id="${figure.id}" data-media-kind="${figure.kind}" ` +
+    `data-alt="${escapeHtml(figure.alt)}" data-prompt="${escapeHtml(figure.prompt)}">` +
+    `${body}<figcaption>${escapeHtml(figure.caption)}</figcaption></figure>`;
+}
+
+/**
+ * Put each figure after the first paragraph of its section (or at the end of the section)
+ */
+export function insertFigures(html: string, figures: FigurePlacement[]): string {
+  const headings = Array.from(html.matchAll(/<h2[^>]*>([\s\S]*?)<\/h2>/gi));
+  const insertions: { at: number; html: string }[] = [];
+
+  for (const figure of figures) {
+    const index = headings.findIndex(match => headingKey(htmlToText(match[1])) === headingKey(figure.section));
+    if (index < 0) {
+      continue;
+    }
+    const heading = headings[index];
+    const sectionStart = heading.index! + heading[0].length;
+    const sectionEnd = headings[index + 1]?.index ?? html.length;
+    const paragraphEnd = html.indexOf('</p>', sectionStart);
+    const at = paragraphEnd >= 0 && paragraphEnd < sectionEnd ? paragraphEnd + '</p>'.length : sectionEnd;
+    insertions.push({ at, html: `\n${figureHtml(figure)}\n` });
+  }
+
+  // Back to front, so earlier offsets stay valid
+  return insertions
+    .sort((a, b) => b.at - a.at)
+    .reduce((content, insertion) => content.slice(0, insertion.at) + insertion.html + content.slice(insertion.at), html);
+}
+
+// Images are a bonus: a failed one leaves its placeholder
+async function generateImage(provider: ImageProvider, request: ImageRequest, warnings: string[]): Promise<MediaImage | null> {
+  try {
+    return await provider.generate(request);
+  } catch (error) {
+    warnings.push(`${provider.id} image failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Media brief of an article with one provider (MEDIA_PROVIDER, the writer, then the first enabled)
+ */
+export async function buildMediaBrief(
+  article: GeneratedArticle,
+  outline: ArticleOutline,
+  config: AIConfig,
+  options: MediaOptions = {}
+): Promise<MediaBrief> {
+  const provider = pickMediaProvider(config, [options.provider, process.env.MEDIA_PROVIDER, article.writer]);
+  const headings = articleHeadings(article.content);
+  console.log(`[Media] Planning images for "${article.title}" with ${provider.config.label} (${provider.config.model})`);
+
+  const result = await provider.complete({
+    system: 'You are an editorial art director for a technical B2B blog.',
+    prompt: mediaPrompt(article, outline, headings),
+    temperature: 0.4,
+    deadline: options.deadline,
+  });
+
+  // The call is paid for even when its answer is unusable: keep a title-only brief and its usage
+  let data: Record<string, unknown> = {};
+  let unreadable: string | null = null;
+  try {
+    data = parseJsonObject(result.text);
+  } catch (error) {
+    unreadable = `${provider.config.label} returned an unreadable media brief: ${error instanceof Error ? error.message : error}`;
+  }
+  const plan = readMediaPlan(data, article, outline);
+  if (unreadable) {
+    plan.warnings.unshift(unreadable);
+  }
+
+  const imageProvider = options.imageProvider === undefined ? getImageProvider() : options.imageProvider;
+  if (imageProvider) {
+    plan.cover.image = await generateImage(imageProvider, { prompt: plan.cover.prompt, alt: plan.cover.alt, purpose: 'cover' }, plan.warnings);
+    for (const figure of plan.figures) {
+      figure.image = await generateImage(imageProvider, { prompt: figure.prompt, alt: figure.alt, purpose: 'figure' }, plan.warnings);
+    }
+  }
+
+  const usage = priceUsage(provider.id, result);
+  return {
+    ...plan,
+    provider: provider.id,
+    model: result.model,
+    imageProvider: imageProvider?.id ?? null,
+    ...(usage ? { usage } : {}),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The article with its media brief and figure placeholders; unchanged when
+ * the brief fails or the deadline leaves too little time for it
+ */
+export async function addMediaBrief(
+  article: GeneratedArticle,
+  outline: ArticleOutline,
+  config: AIConfig,
+  options: MediaOptions = {}
+): Promise<GeneratedArticle> {
+  const remaining = options.deadline === undefined ? Infinity : options.deadline - Date.now();
+  if (remaining < MIN_MEDIA_TIME_MS) {
+    console.log(`[Media] Skipped - ${Math.max(0, Math.round(remaining / 1000))}s left before the deadline`);
+    return article;
+  }
+
+  try {
+    const media = await buildMediaBrief(article, outline, config, options);
+    console.log(`[Media] ${media.figures.length} figures placed${media.warnings.length > 0 ? `, ${media.warnings.length} warnings` : ''}`);
+    return { ...article, content: insertFigures(article.content, media.figures), media };
+  } catch (error) {
+    console.error('[Media] Media brief failed - article kept without figures:', error);
+    return article;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Notification Sink
+ * Local SMTP and HTTP endpoints that capture what the notifier sends,
+ * for tests and for checking message formats without real Slack/Teams/SMTP
+ *
+ *   const sink = await startNotificationSink();
+ *   const channels = getChannelsFromEnv({
+ *     SMTP_HOST: '127.0.0.1', SMTP_PORT: String(sink.smtpPort), NOTIFY_EMAIL_TO: 'redakcja@powergo.pl',
+ *     SLACK_WEBHOOK_URL: `${sink.httpUrl}/slack`,
+ *   });
+ *   await notify(event, channels);
+ *   sink.emails / sink.webhooks
+ *   await sink.close();
+ */
+
+import { createServer as createHttpServer } from 'http';
+import { createServer as createTcpServer, type AddressInfo, type Socket } from 'net';
+
+// Types
+export interface CapturedEmail {
+  from: string;
+  to: string[];
+  data: string; // raw RFC 5322 message
+}
+
+export interface CapturedWebhook {
+  path: string;
+  body: unknown;
+}
+
+export interface NotificationSink {
+  smtpPort: number;
+  httpUrl: string;
+  emails: CapturedEmail[];
+  webhooks: CapturedWebhook[];
+  close(): Promise<void>;
+}
+
+// Minimal SMTP dialogue: EHLO/HELO, MAIL FROM, RCPT TO, DATA, RSET, NOOP, QUIT (no TLS, no auth)
+function handleSmtp(socket: Socket, emails: CapturedEmail[]): void {
+  let buffer = '';
+  let inData = false;
+  let current: CapturedEmail = { from: '', to: [], data: '' };
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  reply('220 localhost SEO Agent notification sink');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          emails.push(current);
+          current = { from: '', to: [], data: '' };
+          reply('250 OK: queued');
+        } else {
+          current.data += `${line.startsWith('..') ? line.slice(1) : line}\r\n`;
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO') {
+        socket.write('250-localhost\r\n250 8BITMIME\r\n');
+      } else if (command === 'HELO') {
+        reply('250 localhost');
+      } else if (command === 'MAIL') {
+        current.from = line.replace(/^MAIL FROM:\s*/i, '').replace(/[<>]/g, '').split(' ')[0];
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        current.to.push(line.replace(/^RCPT TO:\s*/i, '').replace(/[<>]/g, '').split(' ')[0]);
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        current = { from: '', to: [], data: '' };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+}
+
+export async function startNotificationSink(): Promise<NotificationSink> {
+  const emails: CapturedEmail[] = [];
+  const webhooks: CapturedWebhook[] = [];
+  const sockets = new Set<Socket>();
+
+  const smtp = createTcpServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    handleSmtp(socket, emails);
+  });
+
+  const http = createHttpServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    let parsed: unknown = body;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      // keep raw body
+    }
+    webhooks.push({ path: req.url || '/', body: parsed });
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+  });
+
+  await Promise.all([
+    new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve)),
+    new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve)),
+  ]);
+
+  return {
+    smtpPort: (smtp.address() as AddressInfo).port,
+    httpUrl: `http://127.0.0.1:${(http.address() as AddressInfo).port}`,
+    emails,
+    webhooks,
+    async close() {
+      sockets.forEach(socket => socket.destroy());
+      await Promise.all([
+        new Promise<void>(resolve => smtp.close(() => resolve())),
+        new Promise<void>(resolve => http.close(() => resolve())),
+      ]);
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { createServer, type Server, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { startNotificationSink, type NotificationSink } from './notification-sink';
+import { createEmailChannel, getChannelsFromEnv, notify, type NotificationEvent } from './notifier';
+
+const DRAFT_READY: NotificationEvent = {
+  type: 'draft_ready',
+  title: 'Kompensacja mocy biernej w zakładzie',
+  writer: 'claude',
+  wordCount: 1500,
+  score: 82,
+  category: 'kompensacja_mocy_biernej',
+  odooPostId: 42,
+  runId: 'run-1',
+};
+
+const ALL_FAILED: NotificationEvent = {
+  type: 'all_writers_failed',
+  topic: 'Kompensatory SVG',
+  category: 'kompensatory_svg',
+  failures: [{ writer: 'gemini', model: 'gemini-2.0-flash', error: 'HTTP 503' }],
+  runId: null,
+};
+
+let sink: NotificationSink;
+
+beforeAll(async () => {
+  sink = await startNotificationSink();
+});
+
+afterAll(() => sink.close());
+
+beforeEach(() => {
+  sink.emails.length = 0;
+  sink.webhooks.length = 0;
+});
+
+function sinkChannels() {
+  return getChannelsFromEnv({
+    SMTP_HOST: '127.0.0.1',
+    SMTP_PORT: String(sink.smtpPort),
+    NOTIFY_EMAIL_FROM: 'seo-agent@powergo.pl',
+    NOTIFY_EMAIL_TO: 'redakcja@powergo.pl, szef@powergo.pl',
+    SLACK_WEBHOOK_URL: `${sink.httpUrl}/slack`,
+    TEAMS_WEBHOOK_URL: `${sink.httpUrl}/teams`,
+    NOTIFY_WEBHOOK_URL: `${sink.httpUrl}/json`,
+  });
+}
+
+// Quoted-printable body and Q-encoded headers as nodemailer writes them
+function decodeEmail(data: string): string {
+  const unfolded = data
+    .replace(/\?=\s+=\?UTF-8\?Q\?/g, '')
+    .replace(/=\?UTF-8\?Q\?([^?]*)\?=/g, (_match, word: string) => word.replace(/_/g, ' '))
+    .replace(/=\r\n/g, '');
+  const bytes = unfolded.replace(/=([0-9A-F]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf8');
+}
+
+function webhook(path: string): Record<string, unknown> {
+  const captured = sink.webhooks.find(item => item.path === path);
+  expect(captured, `webhook ${path}`).toBeDefined();
+  return captured?.body as Record<string, unknown>;
+}
+
+describe('notify', () => {
+  it('delivers to every configured channel', async () => {
+    const results = await notify(DRAFT_READY, sinkChannels());
+
+    expect(results).toEqual([
+      { channel: 'email', ok: true },
+      { channel: 'webhook:slack', ok: true },
+      { channel: 'webhook:teams', ok: true },
+      { channel: 'webhook:json', ok: true },
+    ]);
+  });
+
+  it('sends a Slack Block Kit message with fields and a link button', async () => {
+    await notify(DRAFT_READY, sinkChannels());
+    const slack = webhook('/slack');
+    const blocks = slack.blocks as Record<string, unknown>[];
+
+    expect(slack.text).toBe('Nowy szkic do akceptacji: Kompensacja mocy biernej w zakładzie');
+    expect(blocks.map(block => block.type)).toEqual(['header', 'section', 'section', 'actions']);
+    expect(blocks[2].fields).toContainEqual({ type: 'mrkdwn', text: '*Ocena:*\n82/100' });
+    expect(JSON.stringify(blocks[3])).toContain('/web#id=42&model=blog.post&view_type=form');
+  });
+
+  it('sends a Teams MessageCard coloured by severity', async () => {
+    await notify(ALL_FAILED, sinkChannels());
+    const teams = webhook('/teams');
+
+    expect(teams).toMatchObject({
+      '@type': 'MessageCard',
+      themeColor: 'E01E5A',
+      title: 'Generowanie nie powiodło się: Kompensatory SVG',
+    });
+    expect(JSON.stringify(teams.sections)).toContain('gemini (gemini-2.0-flash): HTTP 503');
+    expect(teams.potentialAction).toBeUndefined();
+  });
+
+  it('sends the raw message to the generic webhook', async () => {
+    await notify(ALL_FAILED, sinkChannels());
+    expect(webhook('/json')).toMatchObject({ event: 'all_writers_failed', severity: 'error' });
+  });
+
+  it('emails every recipient with the fields and the Odoo link', async () => {
+    await notify(DRAFT_READY, sinkChannels());
+
+    expect(sink.emails).toHaveLength(1);
+    const [email] = sink.emails;
+    expect(email.from).toBe('seo-agent@powergo.pl');
+    expect(email.to).toEqual(['redakcja@powergo.pl', 'szef@powergo.pl']);
+    const decoded = decodeEmail(email.data);
+    expect(decoded).toContain('Subject: [SEO Agent] Nowy szkic do akceptacji: Kompensacja mocy biernej w zakładzie');
+    expect(decoded).toContain('Słowa: 1500');
+    expect(decoded).toContain('Otwórz w Odoo: https://powergo.pl/web#id=42&model=blog.post&view_type=form');
+  });
+
+  it('reports a failing channel without failing the others', async () => {
+    const channels = [
+      ...getChannelsFromEnv({ SLACK_WEBHOOK_URL: `${sink.httpUrl}/slack` }),
+      ...getChannelsFromEnv({ TEAMS_WEBHOOK_URL: 'http://127.0.0.1:1/teams' }),
+    ];
+    const results = await notify(ALL_FAILED, channels);
+
+    expect(results[0]).toEqual({ channel: 'webhook:slack', ok: true });
+    expect(results[1]).toMatchObject({ channel: 'webhook:teams', ok: false });
+  });
+});
+
+describe('createEmailChannel', () => {
+  let silent: Server;
+  const sockets = new Set<Socket>();
+
+  beforeAll(async () => {
+    // Accepts connections but never sends the SMTP greeting
+    silent = createServer(socket => {
+      sockets.add(socket);
+      socket.on('close', () => sockets.delete(socket));
+    });
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => silent.close(resolve));
+  });
+
+  it('gives up on a server that never greets', async () => {
+    const channel = createEmailChannel({
+      host: '127.0.0.1',
+      port: (silent.address() as AddressInfo).port,
+      secure: false,
+      from: 'seo-agent@powergo.pl',
+      to: ['redakcja@powergo.pl'],
+      timeoutMs: 200,
+    });
+
+    const [result] = await notify(DRAFT_READY, [channel]);
+    expect(result).toMatchObject({ channel: 'email', ok: false });
+    expect(result.error).toMatch(/greeting|timeout/i);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Notifier
+ * Email (SMTP) and webhook (Slack, Microsoft Teams, generic JSON) notifications
+ *
+ * Channels are configured from env; any combination can be enabled:
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, NOTIFY_EMAIL_FROM, NOTIFY_EMAIL_TO,
+ *   SMTP_TIMEOUT_MS (connect / greeting / socket idle limit, default 10 s)
+ *   SLACK_WEBHOOK_URL, TEAMS_WEBHOOK_URL, NOTIFY_WEBHOOK_URL
+ *
+ * A failing channel never fails the caller - results are returned per channel.
+ */
+
+import nodemailer from 'nodemailer';
+import type { WriterFailure } from './ai-writers';
+import type { PipelineResult } from './pipeline';
+
+// Types
+export type NotificationEvent =
+  | {
+      type: 'draft_ready';
+      title: string;
+      writer: string;
+      wordCount: number;
+      score: number | null;
+      category: string;
+      odooPostId: number;
+      runId: string | null;
+    }
+  | {
+      type: 'all_writers_failed';
+      topic: string;
+      category: string;
+      failures: WriterFailure[];
+      runId: string | null;
+    }
+  | {
+      type: 'odoo_publish_failed';
+      title: string;
+      writer: string;
+      error: string;
+      runId: string | null;
+    }
+  | {
+      type: 'providers_rejected';
+      topic: string;
+      failures: WriterFailure[];
+      succeeded: string[];
+      runId: string | null;
+    };
+
+export type Severity = 'info' | 'warning' | 'error';
+
+export interface NotificationMessage {
+  event: NotificationEvent['type'];
+  severity: Severity;
+  subject: string;
+  text: string;
+  fields: { label: string; value: string }[];
+  link?: { label: string; url: string };
+}
+
+export interface NotificationChannel {
+  name: string;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+export type WebhookFormat = 'slack' | 'teams' | 'json';
+
+type Env = Record<string, string | undefined>;
+
+// A hanging SMTP server or webhook must not hold the cron until the function limit
+const WEBHOOK_TIMEOUT_MS = 10000;
+const SMTP_TIMEOUT_MS = 10000;
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  info: '2EB67D',
+  warning: 'ECB22E',
+  error: 'E01E5A',
+};
+
+/**
+ * Odoo backend form view for a blog post
+ */
+export function odooPostUrl(postId: number, env: Env = process.env): string {
+  const base = (env.ODOO_URL || 'https://powergo.pl').replace(/\/+$/, '');
+  return `${base}/web#id=${postId}&model=blog.post&view_type=form`;
+}
+
+function formatFailures(failures: WriterFailure[]): string {
+  return failures.map(failure => `${failure.writer} (${failure.model}): ${failure.error}`).join('\n');
+}
+
+/**
+ * Render an event into a channel-independent message
+ */
+export function buildMessage(event: NotificationEvent, env: Env = process.env): NotificationMessage {
+  const runField = event.runId ? [{ label: 'Run', value: event.runId }] : [];
+
+  switch (event.type) {
+    case 'draft_ready':
+      return {
+        event: event.type,
+        severity: 'info',
+        subject: `Nowy szkic do akceptacji: ${event.title}`,
+        text: `Artykuł "${event.title}" czeka na akceptację w Odoo.`,
+        fields: [
+          { label: 'Writer', value: event.writer },
+          { label: 'Słowa', value: String(event.wordCount) },
+          { label: 'Ocena', value: event.score === null ? '–' : `${event.score}/100` },
+          { label: 'Kategoria', value: event.category },
+          ...runField,
+        ],
+        link: { label: 'Otwórz w Odoo', url: odooPostUrl(event.odooPostId, env) },
+      };
+
+    case 'all_writers_failed':
+      return {
+        event: event.type,
+        severity: 'error',
+        subject: `Generowanie nie powiodło się: ${event.topic}`,
+        text: `Żaden writer nie wygenerował artykułu.\n${formatFailures(event.failures)}`,
+        fields: [{ label: 'Kategoria', value: event.category }, ...runField],
+      };
+
+    case 'odoo_publish_failed':
+      return {
+        event: event.type,
+        severity: 'error',
+        subject: `Publikacja w Odoo nie powiodła się: ${event.title}`,
+        text: `Artykuł został wygenerowany, ale nie trafił do Odoo: ${event.error}\nMożna go opublikować ponownie przez /api/runs.`,
+        fields: [{ label: 'Writer', value: event.writer }, ...runField],
+      };
+
+    case 'providers_rejected':
+      return {
+        event: event.type,
+        severity: 'warning',
+        subject: `Część writerów zawiodła: ${event.failures.map(failure => failure.writer).join(', ')}`,
+        text: `Artykuł "${event.topic}" wygenerowano bez części providerów.\n${formatFailures(event.failures)}`,
+        fields: [{ label: 'Udane', value: event.succeeded.join(', ') || '–' }, ...runField],
+      };
+  }
+}
+
+/**
+ * Slack incoming webhook payload (Block Kit)
+ */
+export function toSlackPayload(message: NotificationMessage): Record<string, unknown> {
+  return {
+    text: message.subject,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: message.subject.slice(0, 150) } },
+      { type: 'section', text: { type: 'mrkdwn', text: message.text } },
+      ...(message.fields.length > 0
+        ? [{
+            type: 'section',
+            fields: message.fields.map(field => ({ type: 'mrkdwn', text: `*${field.label}:*\n${field.value}` })),
+          }]
+        : []),
+      ...(message.link
+        ? [{
+            type: 'actions',
+            elements: [{ type: 'button', text: { type: 'plain_text', text: message.link.label }, url: message.link.url }],
+          }]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Microsoft Teams incoming webhook payload (MessageCard)
+ */
+export function toTeamsPayload(message: NotificationMessage): Record<string, unknown> {
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    themeColor: SEVERITY_COLORS[message.severity],
+    summary: message.subject,
+    title: message.subject,
+    sections: [{
+      text: message.text.replace(/\n/g, '<br>'),
+      facts: message.fields.map(field => ({ name: field.label, value: field.value })),
+    }],
+    ...(message.link
+      ? {
+          potentialAction: [{
+            '@type': 'OpenUri',
+            name: message.link.label,
+            targets: [{ os: 'default', uri: message.link.url }],
+          }],
+        }
+      : {}),
+  };
+}
+
+export function createWebhookChannel(url: string, format: WebhookFormat): NotificationChannel {
+  const toPayload = {
+    slack: toSlackPayload,
+    teams: toTeamsPayload,
+    json: (message: NotificationMessage) => ({ ...message }),
+  }[format];
+
+  return {
+    name: `webhook:${format}`,
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(message)),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+export interface EmailChannelOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+  timeoutMs?: number; // connection, greeting and socket inactivity limit
+}
+
+export function createEmailChannel(options: EmailChannelOptions): NotificationChannel {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    connectionTimeout: options.timeoutMs ?? SMTP_TIMEOUT_MS,
+    greetingTimeout: options.timeoutMs ?? SMTP_TIMEOUT_MS,
+    socketTimeout: options.timeoutMs ?? SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: 'email',
+    async send(message) {
+      const details = message.fields.map(field => `${field.label}: ${field.value}`).join('\n');
+      const link = message.link ? `\n\n${message.link.label}: ${message.link.url}` : '';
+      await transport.sendMail({
+        from: options.from,
+        to: options.to,
+        subject: `[SEO Agent] ${message.subject}`,
+        text: `${message.text}\n\n${details}${link}`,
+      });
+    },
+  };
+}
+
+/**
+ * Channels enabled by environment variables
+ */
+export function getChannelsFromEnv(env: Env = process.env): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+
+  if (env.SMTP_HOST && env.NOTIFY_EMAIL_TO) {
+    const port = parseInt(env.SMTP_PORT || '587');
+    channels.push(createEmailChannel({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.NOTIFY_EMAIL_FROM || env.SMTP_USER || 'seo-agent@powergo.pl',
+      to: env.NOTIFY_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean),
+      timeoutMs: env.SMTP_TIMEOUT_MS ? Number(env.SMTP_TIMEOUT_MS) : undefined,
+    }));
+  }
+  if (env.SLACK_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(env.SLACK_WEBHOOK_URL, 'slack'));
+  }
+  if (env.TEAMS_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(env.TEAMS_WEBHOOK_URL, 'teams'));
+  }
+  if (env.NOTIFY_WEBHOOK_URL) {
+    channels.push(createWebhookChannel(env.NOTIFY_WEBHOOK_URL, 'json'));
+  }
+
+  return channels;
+}
+
+/**
+ * Send an event to all channels
+ */
+export async function notify(
+  event: NotificationEvent,
+  channels: NotificationChannel[] = getChannelsFromEnv()
+): Promise<DeliveryResult[]> {
+  if (channels.length === 0) {
+    return [];
+  }
+
+  const message = buildMessage(event);
+  const results = await Promise.allSettled(channels.map(channel => channel.send(message)));
+
+  return results.map((result, index) => {
+    const channel = channels[index].name;
+    if (result.status === 'fulfilled') {
+      return { channel, ok: true };
+    }
+    const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+    console.error(`[Notifier] ${channel} failed to send ${event.type}:`, error);
+    return { channel, ok: false, error };
+  });
+}
+
+/**
+ * Notify about a finished pipeline run: draft ready, Odoo failure
+ * and/or rejected providers
+ */
+export async function notifyRunOutcome(
+  result: PipelineResult,
+  channels: NotificationChannel[] = getChannelsFromEnv()
+): Promise<DeliveryResult[]> {
+  const { article, odoo, report, runId, run } = result;
+  const deliveries: DeliveryResult[] = [];
+
+  if (odoo?.status === 'draft' && odoo.postId) {
+    deliveries.push(...await notify({
+      type: 'draft_ready',
+      title: article.title,
+      writer: article.writer,
+      wordCount: article.wordCount,
+      score: article.scores?.total ?? null,
+      category: run.category,
+      odooPostId: odoo.postId,
+      runId,
+    }, channels));
+  } else if (odoo?.status === 'failed') {
+    deliveries.push(...await notify({
+      type: 'odoo_publish_failed',
+      title: article.title,
+      writer: article.writer,
+      error: odoo.error || 'Unknown error',
+      runId,
+    }, channels));
+  }
+
+  if (report.failures.length > 0) {
+    deliveries.push(...await notify({
+      type: 'providers_rejected',
+      topic: run.outline.topic,
+      failures: report.failures,
+      succeeded: report.articles.map(candidate => candidate.writer),
+      runId,
+    }, channels));
+  }
+
+  return deliveries;
+}
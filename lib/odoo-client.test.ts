@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { OdooAuthError, OdooHttpError, OdooRpcError, createOdooClient } from './odoo-client';
+import { startMockOdooServer, type MockOdooServer } from './odoo-mock-server';
+
+const LOGIN = 'bot@powergo.pl';
+const API_KEY = 'test-key';
+
+let odoo: MockOdooServer;
+
+beforeAll(async () => {
+  odoo = await startMockOdooServer({ login: LOGIN, apiKey: API_KEY });
+});
+
+afterAll(() => odoo.close());
+
+describe('createOdooClient', () => {
+  it('authenticates once and reuses the uid', async () => {
+    const client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+    const before = odoo.calls.length;
+
+    expect(await client.findBlogByName('blog powergo')).toBe(2);
+    expect(await client.findPartnerByName('PowerGO Redakcja')).toBe(3);
+
+    const calls = odoo.calls.slice(before);
+    expect(calls.filter(call => call.method === 'authenticate')).toHaveLength(1);
+    expect(calls.filter(call => call.method === 'execute_kw').map(call => call.model)).toEqual(['blog.blog', 'res.partner']);
+  });
+
+  it('throws OdooAuthError on a bad API key', async () => {
+    const client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: 'wrong' });
+    await expect(client.authenticate()).rejects.toBeInstanceOf(OdooAuthError);
+  });
+
+  it('throws OdooRpcError with the Odoo exception name', async () => {
+    const client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+    const error = await client.updateBlogPost(999, { name: 'x' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OdooRpcError);
+    expect(error.exceptionName).toBe('odoo.exceptions.MissingError');
+  });
+
+  it('throws OdooHttpError on unknown endpoints', async () => {
+    const client = createOdooClient({ url: `${odoo.url}/missing`, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+    await expect(client.authenticate()).rejects.toMatchObject({ name: 'OdooHttpError', status: 404 });
+    await expect(client.authenticate()).rejects.toBeInstanceOf(OdooHttpError);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Odoo Client
+ * External JSON-RPC API (/jsonrpc, execute_kw) with db / uid / API key auth
+ *
+ * Authentication uses the "common" service with the user login and an API
+ * key (Odoo 14+: Preferences → Account Security → New API Key), every other
+ * call goes through "object".execute_kw. All failures are raised as typed
+ * OdooError subclasses so callers can tell configuration, transport,
+ * authentication and server-side errors apart.
+ */
+
+// Types
+export interface OdooConfig {
+  url: string;
+  db: string;
+  login: string;
+  apiKey: string;
+  timeoutMs?: number;
+}
+
+export interface BlogPostValues {
+  name?: string;
+  subtitle?: string;
+  blog_id?: number;
+  content?: string;
+  teaser_manual?: string;
+  author_id?: number;
+  tag_ids?: [number, number, number[]][];
+  website_meta_title?: string;
+  website_meta_description?: string;
+  website_meta_keywords?: string;
+  seo_name?: string;
+  is_published?: boolean;
+  post_date?: string;
+  [field: string]: unknown;
+}
+
+export interface BlogPostRecord {
+  id: number;
+  name: string;
+  content: string;
+  blog_id: [number, string] | false;
+  tag_ids: number[];
+  is_published: boolean;
+  website_meta_title: string | false;
+  website_meta_description: string | false;
+  website_meta_keywords: string | false;
+  website_url?: string;
+  [field: string]: unknown;
+}
+
+export type OdooDomain = (string | [string, string, unknown])[];
+
+export interface OdooClient {
+  readonly config: OdooConfig;
+  authenticate(): Promise<number>;
+  executeKw<T>(model: string, method: string, args: unknown[], kwargs?: Record<string, unknown>): Promise<T>;
+  findBlogByName(name: string): Promise<number | null>;
+  findTagIds(names: string[], options?: { create?: boolean }): Promise<number[]>;
+  findPartnerByName(name: string): Promise<number | null>;
+  createBlogPost(values: BlogPostValues): Promise<number>;
+  updateBlogPost(id: number, values: BlogPostValues): Promise<void>;
+  readBlogPost(id: number, fields?: string[]): Promise<BlogPostRecord | null>;
+}
+
+// Errors
+export class OdooError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OdooError';
+  }
+}
+
+export class OdooConfigError extends OdooError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OdooConfigError';
+  }
+}
+
+export class OdooHttpError extends OdooError {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'OdooHttpError';
+  }
+}
+
+export class OdooAuthError extends OdooError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OdooAuthError';
+  }
+}
+
+export class OdooRpcError extends OdooError {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly exceptionName?: string,
+    public readonly debug?: string
+  ) {
+    super(message);
+    this.name = 'OdooRpcError';
+  }
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: { name?: string; message?: string; debug?: string };
+  };
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+export const BLOG_POST_FIELDS = [
+  'id', 'name', 'content', 'blog_id', 'tag_ids', 'is_published', 'post_date',
+  'website_meta_title', 'website_meta_description', 'website_meta_keywords', 'website_url',
+];
+
+/**
+ * Read Odoo connection settings from env
+ */
+export function getOdooConfig(env: Record<string, string | undefined> = process.env): OdooConfig {
+  const apiKey = env.ODOO_API_KEY;
+  const login = env.ODOO_LOGIN || env.ODOO_USERNAME;
+
+  if (!apiKey) {
+    throw new OdooConfigError('ODOO_API_KEY not configured');
+  }
+  if (!login) {
+    throw new OdooConfigError('ODOO_LOGIN not configured (user the API key belongs to)');
+  }
+
+  return {
+    url: (env.ODOO_URL || 'https://powergo.pl').replace(/\/+$/, ''),
+    db: env.ODOO_DB || 'odoo',
+    login,
+    apiKey,
+    timeoutMs: env.ODOO_TIMEOUT_MS ? Number(env.ODOO_TIMEOUT_MS) : undefined,
+  };
+}
+
+export function createOdooClient(config: OdooConfig): OdooClient {
+  let uid: number | null = null;
+  let requestId = 0;
+
+  async function call<T>(service: 'common' | 'object', method: string, args: unknown[]): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${config.url}/jsonrpc`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'call',
+          params: { service, method, args },
+          id: ++requestId,
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new OdooHttpError(0, `Odoo request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new OdooHttpError(response.status, `Odoo HTTP error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as JsonRpcResponse<T>;
+    if (data.error) {
+      const { code, message, data: details } = data.error;
+      const name = details?.name;
+      if (name?.includes('AccessDenied') || name?.includes('AccessError')) {
+        throw new OdooAuthError(details?.message || message);
+      }
+      throw new OdooRpcError(details?.message || message, code, name, details?.debug);
+    }
+
+    return data.result as T;
+  }
+
+  const client: OdooClient = {
+    config,
+
+    async authenticate() {
+      if (uid !== null) {
+        return uid;
+      }
+      const result = await call<number | false>('common', 'authenticate', [config.db, config.login, config.apiKey, {}]);
+      if (!result) {
+        throw new OdooAuthError(`Odoo authentication failed for ${config.login} on database ${config.db}`);
+      }
+      uid = result;
+      return uid;
+    },
+
+    async executeKw<T>(model: string, method: string, args: unknown[], kwargs: Record<string, unknown> = {}) {
+      const userId = await client.authenticate();
+      return call<T>('object', 'execute_kw', [config.db, userId, config.apiKey, model, method, args, kwargs]);
+    },
+
+    async findBlogByName(name) {
+      const ids = await client.executeKw<number[]>('blog.blog', 'search', [[['name', '=ilike', name]]], { limit: 1 });
+      return ids[0] ?? null;
+    },
+
+    async findTagIds(names, options = {}) {
+      const unique = Array.from(new Set(names.map(name => name.trim()).filter(Boolean)));
+      const ids: number[] = [];
+
+      for (const name of unique) {
+        const found = await client.executeKw<number[]>('blog.tag', 'search', [[['name', '=ilike', name]]], { limit: 1 });
+        if (found[0]) {
+          ids.push(found[0]);
+        } else if (options.create) {
+          ids.push(await client.executeKw<number>('blog.tag', 'create', [{ name }]));
+        }
+      }
+      return ids;
+    },
+
+    async findPartnerByName(name) {
+      const ids = await client.executeKw<number[]>('res.partner', 'search', [[['name', '=ilike', name]]], { limit: 1 });
+      return ids[0] ?? null;
+    },
+
+    createBlogPost(values) {
+      return client.executeKw<number>('blog.post', 'create', [values]);
+    },
+
+    async updateBlogPost(id, values) {
+      await client.executeKw<boolean>('blog.post', 'write', [[id], values]);
+    },
+
+    async readBlogPost(id, fields = BLOG_POST_FIELDS) {
+      const records = await client.executeKw<BlogPostRecord[]>('blog.post', 'read', [[id]], { fields });
+      return records[0] ?? null;
+    },
+  };
+
+  return client;
+}
+
+let sharedClient: OdooClient | null = null;
+
+/**
+ * Process-wide client configured from env (keeps the authenticated uid)
+ */
+export function getOdooClient(): OdooClient {
+  if (!sharedClient) {
+    sharedClient = createOdooClient(getOdooConfig());
+  }
+  return sharedClient;
+}
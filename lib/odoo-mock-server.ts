@@ -0,0 +1,261 @@
+/**
+ * Mock Odoo Server
+ * Local stand-in for Odoo's external JSON-RPC API, for tests and offline runs
+ *
+ * Implements /jsonrpc with common.version, common.authenticate and
+ * object.execute_kw (search, search_read, read, create, write, unlink,
+ * search_count) on in-memory models. Errors use Odoo's JSON-RPC error shape
+ * so the client's typed errors can be exercised.
+ *
+ *   const odoo = await startMockOdooServer({ login: 'bot@powergo.pl', apiKey: 'test' });
+ *   const client = createOdooClient({ url: odoo.url, db: odoo.db, login: 'bot@powergo.pl', apiKey: 'test' });
+ *   ...
+ *   await odoo.close();
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+// Types
+export interface MockOdooOptions {
+  port?: number; // 0 (default) picks a free port
+  db?: string;
+  login?: string;
+  apiKey?: string;
+  uid?: number;
+}
+
+export type MockRecord = { id: number; [field: string]: unknown };
+
+export interface MockOdooServer {
+  url: string;
+  db: string;
+  models: Record<string, MockRecord[]>;
+  calls: { service: string; method: string; model?: string; modelMethod?: string }[];
+  close(): Promise<void>;
+}
+
+type DomainLeaf = [string, string, unknown];
+
+function seedModels(): Record<string, MockRecord[]> {
+  return {
+    'blog.blog': [
+      { id: 1, name: 'Aktualności' },
+      { id: 2, name: 'Blog PowerGO' },
+    ],
+    'blog.tag': [{ id: 1, name: 'kompensacja mocy biernej' }],
+    'blog.post': [],
+    'res.partner': [{ id: 3, name: 'PowerGO Redakcja' }],
+  };
+}
+
+function matchesLeaf(record: MockRecord, [field, operator, value]: DomainLeaf): boolean {
+  const current = record[field];
+  switch (operator) {
+    case '=':
+      return current === value;
+    case '!=':
+      return current !== value;
+    case '=ilike':
+      return String(current ?? '').toLowerCase() === String(value).toLowerCase();
+    case 'ilike':
+      return String(current ?? '').toLowerCase().includes(String(value).toLowerCase());
+    case 'in':
+      return Array.isArray(value) && value.includes(current);
+    case 'not in':
+      return Array.isArray(value) && !value.includes(current);
+    default:
+      throw new Error(`Unsupported domain operator in mock: ${operator}`);
+  }
+}
+
+// Implicit AND of all leaves ('&' / '|' prefix operators are not supported)
+function filterDomain(records: MockRecord[], domain: unknown[]): MockRecord[] {
+  const leaves = domain.filter((item): item is DomainLeaf => Array.isArray(item));
+  return records.filter(record => leaves.every(leaf => matchesLeaf(record, leaf)));
+}
+
+function pick(record: MockRecord, fields?: string[]): MockRecord {
+  if (!fields || fields.length === 0) {
+    return { ...record };
+  }
+  const picked: MockRecord = { id: record.id };
+  for (const field of fields) {
+    picked[field] = record[field] ?? false;
+  }
+  return picked;
+}
+
+// Apply x2many commands: (6, 0, ids) replace, (4, id) link, (3, id) unlink
+function applyValues(record: MockRecord, values: Record<string, unknown>): void {
+  for (const [field, value] of Object.entries(values)) {
+    if (Array.isArray(value) && value.every(item => Array.isArray(item))) {
+      let ids = Array.isArray(record[field]) ? [...record[field] as number[]] : [];
+      for (const [command, id, list] of value as [number, number, number[]][]) {
+        if (command === 6) ids = [...list];
+        if (command === 4 && !ids.includes(id)) ids.push(id);
+        if (command === 3) ids = ids.filter(existing => existing !== id);
+      }
+      record[field] = ids;
+    } else {
+      record[field] = value;
+    }
+  }
+}
+
+class RpcFault extends Error {
+  constructor(public readonly exceptionName: string, message: string) {
+    super(message);
+  }
+}
+
+export function startMockOdooServer(options: MockOdooOptions = {}): Promise<MockOdooServer> {
+  const db = options.db ?? 'odoo';
+  const login = options.login ?? 'admin';
+  const apiKey = options.apiKey ?? 'test-api-key';
+  const uid = options.uid ?? 2;
+  const models = seedModels();
+  const calls: MockOdooServer['calls'] = [];
+  const nextIds: Record<string, number> = {};
+
+  function nextId(model: string): number {
+    const records = models[model];
+    nextIds[model] = Math.max(nextIds[model] ?? 0, ...records.map(record => record.id)) + 1;
+    return nextIds[model];
+  }
+
+  function table(model: string): MockRecord[] {
+    const records = models[model];
+    if (!records) {
+      throw new RpcFault('builtins.KeyError', `Model not found: ${model}`);
+    }
+    return records;
+  }
+
+  function executeKw(model: string, method: string, args: unknown[], kwargs: Record<string, unknown>): unknown {
+    const records = table(model);
+
+    switch (method) {
+      case 'search': {
+        const found = filterDomain(records, args[0] as unknown[]);
+        const limit = typeof kwargs.limit === 'number' ? kwargs.limit : found.length;
+        return found.slice(0, limit).map(record => record.id);
+      }
+      case 'search_count':
+        return filterDomain(records, args[0] as unknown[]).length;
+      case 'search_read': {
+        const found = filterDomain(records, args[0] as unknown[]);
+        const limit = typeof kwargs.limit === 'number' ? kwargs.limit : found.length;
+        return found.slice(0, limit).map(record => pick(record, kwargs.fields as string[] | undefined));
+      }
+      case 'read': {
+        const ids = args[0] as number[];
+        return records
+          .filter(record => ids.includes(record.id))
+          .map(record => pick(record, (kwargs.fields ?? args[1]) as string[] | undefined));
+      }
+      case 'create': {
+        const record: MockRecord = { id: nextId(model) };
+        applyValues(record, args[0] as Record<string, unknown>);
+        if (model === 'blog.post') {
+          record.website_url = `/blog/${record.blog_id ?? 0}/post-${record.id}`;
+          record.is_published = record.is_published ?? false;
+        }
+        records.push(record);
+        return record.id;
+      }
+      case 'write': {
+        const [ids, values] = args as [number[], Record<string, unknown>];
+        const targets = records.filter(record => ids.includes(record.id));
+        if (targets.length !== ids.length) {
+          throw new RpcFault('odoo.exceptions.MissingError', `Record does not exist or has been deleted (${model})`);
+        }
+        targets.forEach(record => applyValues(record, values));
+        return true;
+      }
+      case 'unlink': {
+        const ids = args[0] as number[];
+        models[model] = records.filter(record => !ids.includes(record.id));
+        return true;
+      }
+      default:
+        throw new RpcFault('builtins.AttributeError', `Method not supported by mock: ${model}.${method}`);
+    }
+  }
+
+  function dispatch(service: string, method: string, args: unknown[]): unknown {
+    if (service === 'common' && method === 'version') {
+      return { server_version: '17.0-mock', protocol_version: 1 };
+    }
+    if (service === 'common' && method === 'authenticate') {
+      const [dbName, user, key] = args as string[];
+      return dbName === db && user === login && key === apiKey ? uid : false;
+    }
+    if (service === 'object' && method === 'execute_kw') {
+      const [dbName, userId, key, model, modelMethod, modelArgs = [], kwargs = {}] = args as [
+        string, number, string, string, string, unknown[], Record<string, unknown>
+      ];
+      calls[calls.length - 1].model = model;
+      calls[calls.length - 1].modelMethod = modelMethod;
+      if (dbName !== db || userId !== uid || key !== apiKey) {
+        throw new RpcFault('odoo.exceptions.AccessDenied', 'Access Denied');
+      }
+      return executeKw(model, modelMethod, modelArgs, kwargs);
+    }
+    throw new RpcFault('builtins.NameError', `Unknown service method: ${service}.${method}`);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || req.url !== '/jsonrpc') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    const request = JSON.parse(body) as { id: number; params: { service: string; method: string; args: unknown[] } };
+    const { service, method, args } = request.params;
+    calls.push({ service, method });
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = { jsonrpc: '2.0', id: request.id, result: dispatch(service, method, args) };
+    } catch (error) {
+      const fault = error instanceof RpcFault ? error : new RpcFault('builtins.Exception', String(error));
+      payload = {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: 200,
+          message: 'Odoo Server Error',
+          data: { name: fault.exceptionName, message: fault.message, debug: fault.stack },
+        },
+      };
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  return new Promise(resolve => {
+    const server = createServer((req, res) => {
+      handle(req, res).catch(error => {
+        res.writeHead(500).end(String(error));
+      });
+    });
+
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        db,
+        models,
+        calls,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+  });
+}
@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { makeArticle } from '../test/fixtures';
+import { OdooAuthError, createOdooClient, type OdooClient } from './odoo-client';
+import { startMockOdooServer, type MockOdooServer } from './odoo-mock-server';
+import { publishToOdoo } from './odoo-publisher';
+
+const LOGIN = 'bot@powergo.pl';
+const API_KEY = 'test-key';
+
+let odoo: MockOdooServer;
+let client: OdooClient;
+
+beforeAll(async () => {
+  odoo = await startMockOdooServer({ login: LOGIN, apiKey: API_KEY });
+  client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+});
+
+afterAll(() => odoo.close());
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('publishToOdoo', () => {
+  it('creates an unpublished draft in the default blog', async () => {
+    const article = makeArticle();
+    const result = await publishToOdoo(article, { client });
+
+    expect(result.created).toBe(true);
+    const post = odoo.models['blog.post'].find(record => record.id === result.id);
+    expect(post).toMatchObject({
+      name: article.title,
+      blog_id: 2,
+      is_published: false,
+      seo_name: article.slug,
+      website_meta_description: article.metaDescription,
+    });
+  });
+
+  it('updates the given post instead of creating a new one', async () => {
+    const { id } = await publishToOdoo(makeArticle(), { client });
+    const count = odoo.models['blog.post'].length;
+
+    const result = await publishToOdoo(makeArticle({ title: 'Nowy tytuł' }), { client, postId: id });
+
+    expect(result).toEqual({ id, created: false });
+    expect(odoo.models['blog.post']).toHaveLength(count);
+    expect(odoo.models['blog.post'].find(record => record.id === id)?.name).toBe('Nowy tytuł');
+  });
+
+  it('resolves keywords to existing tags and creates missing ones', async () => {
+    const { id } = await publishToOdoo(makeArticle(), {
+      client,
+      keywords: ['Kompensacja mocy biernej', 'bateria kondensatorów', 'bateria kondensatorów'],
+    });
+
+    const tags = odoo.models['blog.tag'];
+    const created = tags.find(tag => tag.name === 'bateria kondensatorów');
+    const post = odoo.models['blog.post'].find(record => record.id === id);
+
+    expect(created).toBeDefined();
+    expect(tags.filter(tag => tag.name === 'bateria kondensatorów')).toHaveLength(1);
+    expect(post?.tag_ids).toEqual([1, created?.id]);
+    expect(post?.website_meta_keywords).toBe('Kompensacja mocy biernej, bateria kondensatorów, bateria kondensatorów');
+  });
+
+  it('uses the category blog, else the blog named in ODOO_BLOG_NAME', async () => {
+    const categoryPost = await publishToOdoo(makeArticle(), { client, blogId: 1 });
+    vi.stubEnv('ODOO_BLOG_NAME', 'Aktualności');
+    const namedPost = await publishToOdoo(makeArticle(), { client });
+
+    const blogOf = (id: number) => odoo.models['blog.post'].find(record => record.id === id)?.blog_id;
+    expect(blogOf(categoryPost.id)).toBe(1);
+    expect(blogOf(namedPost.id)).toBe(1);
+
+    vi.stubEnv('ODOO_BLOG_NAME', 'Nie ma takiego bloga');
+    await expect(publishToOdoo(makeArticle(), { client })).rejects.toThrow('Odoo blog not found');
+  });
+
+  it('appends JSON-LD to the post body', async () => {
+    const article = makeArticle({
+      structuredData: { jsonLd: [{ '@context': 'https://schema.org', '@type': 'Article', headline: 'x' }], warnings: [] },
+    });
+    const { id } = await publishToOdoo(article, { client });
+    const content = String(odoo.models['blog.post'].find(record => record.id === id)?.content);
+
+    expect(content.startsWith(article.content)).toBe(true);
+    expect(content).toContain('<script type="application/ld+json">');
+  });
+
+  it('fails with OdooAuthError on a bad API key', async () => {
+    const badClient = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: 'wrong' });
+    const count = odoo.models['blog.post'].length;
+
+    await expect(publishToOdoo(makeArticle(), { client: badClient })).rejects.toBeInstanceOf(OdooAuthError);
+    expect(odoo.models['blog.post']).toHaveLength(count);
+  });
+});
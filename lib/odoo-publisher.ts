@@ -0,0 +1,113 @@
+/**
+ * Odoo Publisher
+ * Maps generated articles onto blog.post records via the Odoo client
+ *
+ * Blog:   category odooBlogId, else ODOO_BLOG_NAME (looked up by name) or ODOO_BLOG_ID (default 2)
+ * Author: ODOO_AUTHOR_NAME (res.partner looked up by name) or ODOO_AUTHOR_ID
+ * Tags:   one blog.tag per keyword, created when missing
+ * JSON-LD: the article's structured data is appended to the body as
+ *          <script type="application/ld+json"> (blog.post content is not sanitised)
+ */
+
+import type { GeneratedArticle } from './ai-writers';
+import { getOdooClient, OdooRpcError, type BlogPostValues, type OdooClient } from './odoo-client';
+import { renderJsonLd } from './structured-data';
+
+export type PublishableArticle = Pick<
+  GeneratedArticle,
+  'title' | 'metaTitle' | 'metaDescription' | 'slug' | 'excerpt' | 'content' | 'structuredData'
+>;
+
+export interface PublishOptions {
+  keywords?: string[];
+  postId?: number | null; // update this post instead of creating a new draft
+  blogId?: number | null; // target blog for new drafts (category's Odoo blog)
+  client?: OdooClient;
+}
+
+export interface PublishResult {
+  id: number;
+  created: boolean;
+}
+
+async function resolveBlogId(client: OdooClient): Promise<number> {
+  const blogName = process.env.ODOO_BLOG_NAME;
+  if (blogName) {
+    const blogId = await client.findBlogByName(blogName);
+    if (!blogId) {
+      throw new OdooRpcError(`Odoo blog not found: ${blogName}`, 404);
+    }
+    return blogId;
+  }
+  return parseInt(process.env.ODOO_BLOG_ID || '2');
+}
+
+async function resolveAuthorId(client: OdooClient): Promise<number | undefined> {
+  if (process.env.ODOO_AUTHOR_ID) {
+    return parseInt(process.env.ODOO_AUTHOR_ID);
+  }
+  if (process.env.ODOO_AUTHOR_NAME) {
+    const authorId = await client.findPartnerByName(process.env.ODOO_AUTHOR_NAME);
+    if (!authorId) {
+      console.warn(`[Odoo] Author not found: ${process.env.ODOO_AUTHOR_NAME} - using API user`);
+    }
+    return authorId ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * blog.post field values for an article
+ */
+export async function buildBlogPostValues(
+  client: OdooClient,
+  article: PublishableArticle,
+  keywords: string[] = []
+): Promise<BlogPostValues> {
+  const jsonLd = renderJsonLd(article.structuredData);
+  const values: BlogPostValues = {
+    name: article.title,
+    content: jsonLd ? `${article.content}\n${jsonLd}` : article.content,
+    teaser_manual: article.excerpt,
+    website_meta_title: article.metaTitle,
+    website_meta_description: article.metaDescription,
+    seo_name: article.slug,
+  };
+
+  if (keywords.length > 0) {
+    values.website_meta_keywords = keywords.join(', ');
+    values.tag_ids = [[6, 0, await client.findTagIds(keywords, { create: true })]];
+  }
+
+  const authorId = await resolveAuthorId(client);
+  if (authorId) {
+    values.author_id = authorId;
+  }
+
+  return values;
+}
+
+/**
+ * Create a draft blog post in Odoo, or update an existing one
+ */
+export async function publishToOdoo(
+  article: PublishableArticle,
+  options: PublishOptions = {}
+): Promise<PublishResult> {
+  const client = options.client ?? getOdooClient();
+  const values = await buildBlogPostValues(client, article, options.keywords);
+
+  if (options.postId) {
+    await client.updateBlogPost(options.postId, values);
+    console.log(`[Odoo] Updated blog.post ${options.postId}`);
+    return { id: options.postId, created: false };
+  }
+
+  const id = await client.createBlogPost({
+    ...values,
+    blog_id: options.blogId ?? await resolveBlogId(client),
+    is_published: false, // Draft - needs approval
+  });
+  console.log(`[Odoo] Created draft blog.post ${id}`);
+  return { id, created: true };
+}
@@ -0,0 +1,317 @@
+/**
+ * Generation Pipeline
+ * duplicate check → budget → generate → score/select (or merge) → media
+ * brief → duplicate check → fact check → (resolve internal links, publish
+ * draft to Odoo) → archive run and its usage
+ *
+ * Shared by /api/generate, the cron, editorial regeneration and the CLI so
+ * every entry point archives runs and publishes drafts the same way.
+ */
+
+import {
+  generateArticlesWithReport,
+  selectBestArticle,
+  type AIConfig,
+  type ArticleOutline,
+  type GeneratedArticle,
+  type GenerationHooks,
+  type GenerationReport,
+} from './ai-writers';
+import { validateBrief } from './brief-builder';
+import { getCategories, getOdooBlogId, requireCategory } from './categories';
+import {
+  createDuplicateGuard,
+  getDuplicateGuardConfig,
+  DuplicateContentError,
+  type DuplicateReport,
+} from './duplicate-guard';
+import { getSelectionStrategy, mergeArticles, type SelectionStrategy } from './ensemble';
+import { checkFacts, flaggedClaims, highlightClaims, FactCheckError, type FactCheckReport } from './fact-check';
+import { HttpError } from './http';
+import { linkArticle } from './internal-links';
+import { isLanguage } from './languages';
+import { addMediaBrief, getMediaMode } from './media-brief';
+import { publishToOdoo } from './odoo-publisher';
+import { getResilienceConfig } from './resilience';
+import {
+  createRun,
+  createRunStore,
+  saveRunSafely,
+  type GenerationRun,
+  type OdooPublication,
+  type RunSource,
+  type RunStore,
+} from './run-history';
+import {
+  articleUsage,
+  createUsageLedger,
+  enforceBudget,
+  recordUsageSafely,
+  runUsageEntry,
+  sumUsage,
+  type UsageLedger,
+} from './usage';
+
+// Types
+export interface PipelineOptions {
+  source: RunSource;
+  outline: ArticleOutline;
+  config: AIConfig;
+  topicId?: string | null;
+  publish?: boolean; // create (or update) an Odoo draft for the selected article
+  odooPostId?: number | null; // update this post instead of creating a new one
+  runStore?: RunStore;
+  ledger?: UsageLedger;
+  hooks?: GenerationHooks; // per-writer progress (async jobs)
+  allowDuplicates?: boolean; // report conflicts instead of blocking (DUPLICATE_GUARD=block)
+  strategy?: SelectionStrategy; // default SELECTION_STRATEGY
+  editor?: string | null; // merge editing pass provider (default MERGE_EDITOR)
+  writerTimeoutMs?: number; // deadline shared by the writers, merge editor and media brief (default WRITER_TIMEOUT_MS)
+  media?: boolean; // media brief and figure placeholders (default MEDIA_BRIEF)
+}
+
+// Per-request generation choices (API body, async jobs)
+export type GenerationOptions = Pick<PipelineOptions, 'allowDuplicates' | 'strategy' | 'editor' | 'media'>;
+
+export interface PipelineResult {
+  runId: string | null;
+  run: GenerationRun;
+  article: GeneratedArticle;
+  articles: GeneratedArticle[];
+  report: GenerationReport;
+  odoo: OdooPublication | null;
+  duplicates: DuplicateReport;
+  factCheck: FactCheckReport;
+  strategy: SelectionStrategy;
+}
+
+/**
+ * Outline from a request body or outline file (/api/generate, CLI)
+ */
+export function validateOutline(body: unknown): ArticleOutline {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body is required');
+  }
+
+  const outline = body as Record<string, unknown>;
+
+  if (!outline.topic || typeof outline.topic !== 'string') {
+    throw new Error('topic is required and must be a string');
+  }
+
+  if (!Array.isArray(outline.keywords) || outline.keywords.length === 0) {
+    throw new Error('keywords is required and must be a non-empty array');
+  }
+
+  // Unknown categories are a 400; omitted ones fall back to the first configured category
+  const category = outline.category === undefined
+    ? getCategories()[0]
+    : requireCategory(outline.category);
+  // A reviewed brief from /api/brief: its h2 plan stands in for missing sections
+  const brief = outline.brief === undefined ? undefined : validateBrief(outline.brief);
+  const sections = Array.isArray(outline.sections) ? outline.sections as string[] : [];
+  const plannedSections = brief ? brief.headings.map(heading => heading.h2) : [];
+
+  if (outline.promptVersion !== undefined && typeof outline.promptVersion !== 'string') {
+    throw new HttpError(400, 'promptVersion must be a string');
+  }
+
+  if (outline.language !== undefined && !isLanguage(outline.language)) {
+    throw new HttpError(400, `Unknown language: ${String(outline.language)} (supported: pl, en, de, cs)`);
+  }
+
+  return {
+    topic: outline.topic,
+    keywords: outline.keywords as string[],
+    targetLength: typeof outline.targetLength === 'number' ? outline.targetLength : category.targetLength,
+    sections: sections.length > 0 ? sections : plannedSections.length > 0 ? plannedSections : category.sections,
+    category: category.id,
+    ...(outline.language ? { language: outline.language } : {}),
+    ...(brief ? { brief } : {}),
+    ...(outline.promptVersion ? { promptVersion: outline.promptVersion } : {}),
+  };
+}
+
+/**
+ * Thrown when every writer failed; the failed run is archived first
+ */
+export class AllWritersFailedError extends Error {
+  constructor(public readonly report: GenerationReport, public readonly runId: string | null) {
+    super('All AI writers failed to generate content');
+    this.name = 'AllWritersFailedError';
+  }
+}
+
+export async function publishDraft(
+  article: GeneratedArticle,
+  outline: ArticleOutline,
+  postId: number | null,
+  factCheck: FactCheckReport = checkFacts(article, outline)
+): Promise<OdooPublication> {
+  try {
+    // [INTERNAL_LINK] placeholders become real links (or are removed) - never literal text in Odoo
+    const linked = await linkArticle(article, outline);
+    // Flagged claims are marked for the editor; approval strips the marks
+    const result = await publishToOdoo({ ...linked.article, content: highlightClaims(linked.article.content, factCheck) }, {
+      keywords: outline.keywords,
+      postId,
+      blogId: getOdooBlogId(outline.category, outline.language),
+    });
+    console.log(`[Pipeline] Published to Odoo as draft, ID: ${result.id}`);
+    return { postId: result.id, writer: article.writer, status: 'draft', links: linked.report, at: new Date().toISOString() };
+  } catch (error) {
+    console.error('[Pipeline] Failed to publish to Odoo:', error);
+    // Continue - article was generated successfully
+    return {
+      postId,
+      writer: article.writer,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      at: new Date().toISOString(),
+    };
+  }
+}
+
+export async function runGenerationPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  const { source, outline, config } = options;
+  const topicId = options.topicId ?? null;
+  const runStore = options.runStore ?? createRunStore();
+  const ledger = options.ledger ?? createUsageLedger();
+  const startedAt = new Date();
+
+  // Every archived run is billed to the usage ledger
+  const archive = async (run: GenerationRun): Promise<string | null> => {
+    const runId = await saveRunSafely(runStore, run);
+    await recordUsageSafely(ledger, runUsageEntry(run));
+    return runId;
+  };
+
+  const guardConfig = getDuplicateGuardConfig();
+  const guard = createDuplicateGuard(runStore, {
+    config: options.allowDuplicates && guardConfig.mode === 'block' ? { ...guardConfig, mode: 'warn' } : guardConfig,
+    excludePostId: options.odooPostId,
+  });
+
+  // Keyword cannibalisation is known before any tokens are spent
+  const precheck = await guard.checkOutline(outline);
+  if (precheck.blocked) {
+    throw new DuplicateContentError(precheck, null);
+  }
+
+  // Writers over their usage cap (or, near the monthly limit, all but the cheapest) sit this one out
+  const budgeted = await enforceBudget(config, ledger);
+
+  // The merge editor and the media brief get what the writers left of the deadline, never a fresh one
+  const writerTimeoutMs = options.writerTimeoutMs ?? getResilienceConfig().writerTimeoutMs;
+  const deadline = Date.now() + writerTimeoutMs;
+  const report = await generateArticlesWithReport(outline, budgeted, options.hooks, writerTimeoutMs);
+  const articles = report.articles;
+
+  if (articles.length === 0) {
+    // Keep the failed run in history so rejected writers can be inspected
+    const runId = await archive(createRun({ source, outline, report, selected: null, startedAt, topicId }));
+    throw new AllWritersFailedError(report, runId);
+  }
+
+  const best = selectBestArticle(articles, config);
+  console.log(`[Pipeline] Best article from ${best.writer}: ${best.wordCount} words`);
+
+  // Merge: the composite joins the candidates so it is archived, selectable and republishable
+  const strategy = options.strategy ?? getSelectionStrategy();
+  const composed = strategy === 'merge' && articles.length > 1
+    ? await mergeArticles(articles, best, outline, budgeted, { editor: options.editor ?? process.env.MERGE_EDITOR ?? null, deadline })
+    : best;
+
+  // Cover prompt, figure placeholders and alt texts for the article that goes out (never fails the run)
+  const article = (options.media ?? getMediaMode() === 'on')
+    ? await addMediaBrief(composed, outline, budgeted, { deadline })
+    : composed;
+  const candidates = composed === best
+    ? articles.map(candidate => (candidate === best ? article : candidate))
+    : [...articles, article];
+  const archived: GenerationReport = { ...report, articles: candidates };
+
+  const duplicates = await guard.checkArticle(article, outline);
+  if (duplicates.blocked) {
+    // Archived but not published - an editor can still push it via /api/runs republish
+    const runId = await archive({
+      ...createRun({ source, outline, report: archived, selected: article, startedAt, topicId }),
+      duplicates,
+    });
+    throw new DuplicateContentError(duplicates, runId);
+  }
+
+  // Reported on every run; FACT_CHECK=block only stops auto-drafting
+  const factCheck = checkFacts(article, outline);
+  if (options.publish && factCheck.blocked) {
+    const runId = await archive({
+      ...createRun({ source, outline, report: archived, selected: article, startedAt, topicId }),
+      duplicates,
+      factCheck,
+    });
+    throw new FactCheckError(factCheck, runId);
+  }
+
+  const odoo = options.publish
+    ? await publishDraft(article, outline, options.odooPostId ?? null, factCheck)
+    : null;
+
+  // Archive the run with all candidates so alternatives can be republished later
+  const run: GenerationRun = {
+    ...createRun({ source, outline, report: archived, selected: article, startedAt, topicId }),
+    odoo,
+    duplicates,
+    factCheck,
+  };
+  const runId = await archive(run);
+
+  return { runId, run, article, articles: candidates, report, odoo, duplicates, factCheck, strategy };
+}
+
+/**
+ * Response body shared by POST /api/generate and finished async jobs
+ */
+export function toGenerationResponse(result: PipelineResult, responseTime: number) {
+  const { runId, article: bestArticle, articles, report, duplicates, factCheck, strategy } = result;
+
+  return {
+    runId,
+    article: bestArticle,
+    alternatives: articles.filter(a => a.writer !== bestArticle.writer),
+    metadata: {
+      totalArticles: articles.length,
+      selectedWriter: bestArticle.writer,
+      strategy,
+      // Prompt template all writers of the run used
+      promptVersion: bestArticle.promptVersion ?? null,
+      // Merge strategy: which writer each section came from
+      sections: bestArticle.merge?.sections ?? null,
+      failedWriters: report.failures,
+      responseTime,
+      // Tokens and cost of every candidate (and the merge editing pass and media brief)
+      usage: sumUsage(articles.flatMap(articleUsage)),
+      // Earlier articles competing for the same keywords / with similar content
+      duplicates: duplicates.conflicts,
+      // Claims that conflict with the verified facts or could not be verified
+      factCheck: {
+        verified: factCheck.verified,
+        unverified: factCheck.unverified,
+        conflicts: factCheck.conflicts,
+        flagged: flaggedClaims(factCheck),
+      },
+      // Per-criterion breakdown so editors can see why one writer won
+      ranking: articles
+        .map(a => ({
+          writer: a.writer,
+          total: a.scores?.total ?? null,
+          seo: a.scores?.seo ?? null,
+          readability: a.scores?.readability ?? null,
+          engagement: a.scores?.engagement ?? null,
+          breakdown: a.scores?.breakdown ?? [],
+        }))
+        .sort((a, b) => (b.total ?? -1) - (a.total ?? -1)),
+    },
+  };
+}
+
+export type GenerationResponse = ReturnType<typeof toGenerationResponse>;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE, makeArticle, makeRun } from '../test/fixtures';
+import type { GeneratedArticle } from './ai-writers';
+import { DEFAULT_PROMPT_TEMPLATES } from './default-prompts';
+import { promptReport, renderPrompt } from './prompt-templates';
+
+function scored(writer: string, total: number, overrides: Partial<GeneratedArticle> = {}): GeneratedArticle {
+  return makeArticle({ writer, promptVersion: 'v1', scores: { seo: total, readability: total, engagement: total, total, breakdown: [] }, ...overrides });
+}
+
+describe('renderPrompt', () => {
+  it('fills the outline variables and drops empty blocks', () => {
+    const { version, system, prompt } = renderPrompt(DEFAULT_PROMPT_TEMPLATES[0], OUTLINE);
+
+    expect(version).toBe(DEFAULT_PROMPT_TEMPLATES[0].version);
+    expect(system).toContain('ekspert');
+    expect(prompt).toContain('Kompensacja mocy biernej w zakładzie produkcyjnym');
+    expect(prompt).toContain('kompensacja mocy biernej, tg φ');
+    expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+  });
+});
+
+describe('promptReport', () => {
+  it('averages candidates and selected articles per version', () => {
+    const runs = [
+      makeRun({ candidates: [scored('claude', 80), scored('gemini', 60)], selectedWriter: 'claude' }),
+      makeRun({ candidates: [scored('claude', 90, { promptVersion: 'v2' })], selectedWriter: 'claude' }),
+    ];
+
+    expect(promptReport(runs)).toEqual([
+      expect.objectContaining({ version: 'v2', runs: 1, averageScore: 90 }),
+      {
+        version: 'v1',
+        runs: 1,
+        articles: 2,
+        averageScore: 70,
+        averageSelectedScore: 80,
+        byWriter: { claude: { articles: 1, averageScore: 80 }, gemini: { articles: 1, averageScore: 60 } },
+      },
+    ]);
+  });
+
+  it('leaves out translation runs and ensemble composites', () => {
+    const composite = scored('ensemble', 95, { merge: { sections: [], editor: null, warnings: [] } });
+    const runs = [
+      makeRun({ candidates: [scored('claude', 80), scored('gemini', 60), composite], selectedWriter: 'ensemble' }),
+      makeRun({
+        candidates: [scored('claude', 40)],
+        selectedWriter: 'claude',
+        translationOf: { runId: 'source', writer: 'claude', language: 'pl' },
+      }),
+    ];
+
+    const [report] = promptReport(runs);
+
+    expect(report).toMatchObject({ version: 'v1', runs: 1, articles: 2, averageScore: 70, averageSelectedScore: null });
+    expect(Object.keys(report.byWriter)).toEqual(['claude', 'gemini']);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Prompt Templates
+ * Versioned writer prompts with variables, an active version and A/B tests
+ *
+ * A template has a system message, the writing guide (instructions), the
+ * new-article task and the revision task (lib/refresh.ts). Variables are
+ * written as {{name}} (PROMPT_VARIABLES); {{brief}} and {{editorNotes}} expand
+ * to whole blocks, or to nothing when the outline has no brief or notes.
+ *
+ * Versions are immutable: the built-in one (lib/default-prompts.ts) and the
+ * ones created through /api/prompts (`prompt:<version>` in the store). A
+ * tweak is a new version, so every article records exactly the prompt that
+ * produced it (GeneratedArticle.promptVersion).
+ *
+ * Which version a run uses: outline.promptVersion, else the running A/B test
+ * (each run picks one of its two versions at random, all writers of the run
+ * share it), else the active version (default PROMPT_VERSION, then "v1").
+ * promptReport() compares versions by the scores of their runs.
+ */
+
+import type { ArticleOutline } from './ai-writers';
+import type { OutlineBrief } from './brief-builder';
+import { getSite, requireCategory } from './categories';
+import { DEFAULT_PROMPT_TEMPLATES, DEFAULT_PROMPT_VERSION } from './default-prompts';
+import { HttpError } from './http';
+import { getLanguage } from './languages';
+import type { GenerationRun } from './run-history';
+import { getStore, type KeyValueStore } from './storage';
+
+// Types
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  system: string;
+  instructions: string; // writing guide, sent before either task
+  task: string; // new article
+  revision: string; // update of a live post (outline.revision)
+  createdAt: string;
+  createdBy: string;
+}
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'version'> &
+  Partial<Pick<PromptTemplate, 'description' | 'system' | 'instructions' | 'task' | 'revision'>>;
+
+export interface AbTest {
+  versions: [string, string];
+  startedAt: string;
+  startedBy: string;
+}
+
+export interface PromptSettings {
+  active: string;
+  abTest: AbTest | null;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface RenderedPrompt {
+  version: string;
+  system: string;
+  prompt: string;
+}
+
+export interface PromptVersionReport {
+  version: string;
+  runs: number;
+  articles: number; // scored candidates of those runs
+  averageScore: number | null; // all candidates
+  averageSelectedScore: number | null; // the article each run selected
+  byWriter: Record<string, { articles: number; averageScore: number | null }>;
+}
+
+export interface PromptStore {
+  list(): Promise<PromptTemplate[]>;
+  get(version: string): Promise<PromptTemplate | null>;
+  create(input: PromptTemplateInput, actor: string, base?: string): Promise<PromptTemplate>;
+  getSettings(): Promise<PromptSettings>;
+  saveSettings(settings: Omit<PromptSettings, 'updatedAt' | 'updatedBy'>, actor: string): Promise<PromptSettings>;
+}
+
+type Env = Record<string, string | undefined>;
+
+export const PROMPT_VARIABLES = [
+  'topic', 'keywords', 'sections', 'length', 'category', 'persona', 'tone', 'site', 'siteUrl',
+  'language', 'languagePl', 'brief', 'editorNotes', 'url', 'currentTitle', 'currentContent',
+];
+
+const PROMPT_PREFIX = 'prompt:';
+const SETTINGS_KEY = 'prompts:settings';
+const VERSION_PATTERN = /^[a-z0-9][a-z0-9._-]{0,39}$/i;
+const TEMPLATE_FIELDS = ['system', 'instructions', 'task', 'revision'] as const;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+/**
+ * Unknown {{variables}} and empty parts are a 400, not a broken prompt at generation time
+ */
+export function validateTemplate(template: Pick<PromptTemplate, 'version' | typeof TEMPLATE_FIELDS[number]>): void {
+  if (!VERSION_PATTERN.test(template.version)) {
+    throw new HttpError(400, `Prompt version must match ${VERSION_PATTERN} (e.g. v2, 2025-03-tone): ${template.version}`);
+  }
+  for (const field of TEMPLATE_FIELDS) {
+    const text = template[field];
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new HttpError(400, `Prompt template ${template.version}: ${field} is required`);
+    }
+    const unknown = Array.from(text.matchAll(/\{\{\s*([^}\s]+)\s*\}\}/g), match => match[1])
+      .filter(name => !PROMPT_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Prompt template ${template.version}: unknown variables in ${field}: ${unknown.join(', ')} (known: ${PROMPT_VARIABLES.join(', ')})`);
+    }
+  }
+}
+
+function defaultSettings(env: Env): PromptSettings {
+  return { active: env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION, abTest: null, updatedAt: null, updatedBy: null };
+}
+
+export function createPromptStore(kv: KeyValueStore = getStore(), env: Env = process.env): PromptStore {
+  const builtIn = (version: string) => DEFAULT_PROMPT_TEMPLATES.find(template => template.version === version) ?? null;
+
+  const store: PromptStore = {
+    async list() {
+      const keys = await kv.keys(PROMPT_PREFIX);
+      const stored = await Promise.all(keys.map(key => kv.get<PromptTemplate>(key)));
+      return [...DEFAULT_PROMPT_TEMPLATES, ...stored.filter((template): template is PromptTemplate => template !== null)];
+    },
+
+    async get(version) {
+      return builtIn(version) ?? kv.get<PromptTemplate>(`${PROMPT_PREFIX}${version}`);
+    },
+
+    async create(input, actor, base) {
+      if (await store.get(input.version)) {
+        throw new HttpError(409, `Prompt version already exists: ${input.version} (versions are immutable - pick a new one)`);
+      }
+      // Parts not given are copied from the base version (default: the active one)
+      const baseVersion = base ?? (await store.getSettings()).active;
+      const source = await store.get(baseVersion);
+      if (!source) {
+        throw new HttpError(400, `Unknown base prompt version: ${baseVersion}`);
+      }
+
+      const template: PromptTemplate = {
+        version: input.version,
+        description: input.description ?? `Based on ${source.version}`,
+        system: input.system ?? source.system,
+        instructions: input.instructions ?? source.instructions,
+        task: input.task ?? source.task,
+        revision: input.revision ?? source.revision,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      };
+      validateTemplate(template);
+
+      await kv.set(`${PROMPT_PREFIX}${template.version}`, template);
+      console.log(`[Prompts] Created version ${template.version} (from ${source.version}) by ${actor}`);
+      return template;
+    },
+
+    async getSettings() {
+      return (await kv.get<PromptSettings>(SETTINGS_KEY)) ?? defaultSettings(env);
+    },
+
+    async saveSettings(settings, actor) {
+      const versions = [settings.active, ...(settings.abTest?.versions ?? [])];
+      for (const version of versions) {
+        if (!await store.get(version)) {
+          throw new HttpError(400, `Unknown prompt version: ${version}`);
+        }
+      }
+
+      const saved: PromptSettings = { ...settings, updatedAt: new Date().toISOString(), updatedBy: actor };
+      await kv.set(SETTINGS_KEY, saved);
+      console.log(`[Prompts] Active ${saved.active}${saved.abTest ? `, A/B ${saved.abTest.versions.join(' vs ')}` : ''} (by ${actor})`);
+      return saved;
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Template for one run: the requested version, the A/B split or the active version
+ */
+export async function resolvePromptTemplate(
+  requested?: string,
+  store: PromptStore = createPromptStore(),
+  random: () => number = Math.random
+): Promise<PromptTemplate> {
+  if (requested) {
+    const template = await store.get(requested);
+    if (!template) {
+      throw new HttpError(400, `Unknown prompt version: ${requested}`);
+    }
+    return template;
+  }
+
+  let version: string;
+  try {
+    const settings = await store.getSettings();
+    version = settings.abTest ? settings.abTest.versions[random() < 0.5 ? 0 : 1] : settings.active;
+    const template = await store.get(version);
+    if (template) {
+      return template;
+    }
+    console.error(`[Prompts] Prompt version ${version} not found - using ${DEFAULT_PROMPT_VERSION}`);
+  } catch (error) {
+    // A store outage must not stop generation
+    console.error('[Prompts] Failed to load prompt settings - using the built-in template:', error);
+  }
+  return DEFAULT_PROMPT_TEMPLATES.find(template => template.version === DEFAULT_PROMPT_VERSION)!;
+}
+
+// Heading plan and research from the brief builder
+function briefBlock(brief: OutlineBrief): string {
+  const headings = brief.headings
+    .map(heading => [`- <h2> ${heading.h2}`, ...heading.h3.map(h3 => `  - <h3> ${h3}`)].join('\n'))
+    .join('\n');
+  const clusters = brief.keywordClusters
+    .map(cluster => `- ${cluster.name ? `${cluster.name}: ` : ''}${cluster.keywords.join(', ')}`)
+    .join('\n');
+
+  return `
+**BRIEF** (follow the heading plan in this order):
+**Search intent**: ${brief.intent}
+**Heading plan**:
+${headings}
+${clusters ? `**Keyword clusters** (use each cluster in its matching section):\n${clusters}\n` : ''}${brief.faq.length > 0 ? `**FAQ questions to answer**:\n${brief.faq.map(question => `- ${question}`).join('\n')}\n` : ''}`;
+}
+
+function fill(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*([^}\s]+)\s*\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+/**
+ * System message and prompt of an outline (the revision task when outline.revision is set)
+ */
+export function renderPrompt(template: PromptTemplate, outline: ArticleOutline): RenderedPrompt {
+  const category = requireCategory(outline.category);
+  const site = getSite(category.site);
+  const language = getLanguage(outline.language);
+  const revision = outline.revision;
+
+  const notesHeading = revision ? 'address every point' : 'a previous draft was sent back - address every point';
+  const variables: Record<string, string> = {
+    topic: outline.topic,
+    keywords: outline.keywords.join(', '),
+    sections: outline.sections.join(', '),
+    length: String(outline.targetLength),
+    category: category.name,
+    persona: category.persona,
+    tone: category.tone,
+    site: site?.name ?? category.name,
+    siteUrl: site?.url ?? '',
+    language: language.name,
+    languagePl: language.namePl,
+    brief: outline.brief ? briefBlock(outline.brief) : '',
+    editorNotes: outline.editorNotes ? `\n**EDITOR NOTES** (${notesHeading}):\n${outline.editorNotes}\n` : '',
+    url: revision ? revision.url ?? `post #${revision.postId}` : '',
+    currentTitle: revision?.title ?? '',
+    currentContent: revision?.content ?? '',
+  };
+
+  return {
+    version: template.version,
+    system: fill(template.system, variables),
+    prompt: `${fill(template.instructions, variables)}\n\n---\n\n${fill(revision ? template.revision : template.task, variables)}`,
+  };
+}
+
+/**
+ * Average scores per prompt version over archived runs (A/B results); only
+ * articles the template wrote directly count - translation runs and ensemble
+ * composites are left out
+ */
+export function promptReport(runs: GenerationRun[], versions?: string[]): PromptVersionReport[] {
+  const groups = new Map<string, { runs: number; scores: number[]; selected: number[]; writers: Map<string, number[]> }>();
+
+  for (const run of runs) {
+    // Runs before prompt versioning have no version on their articles
+    const version = run.candidates.find(article => article.promptVersion)?.promptVersion;
+    if (!version || (versions && !versions.includes(version)) || run.translationOf) {
+      continue;
+    }
+
+    const group = groups.get(version) ?? { runs: 0, scores: [], selected: [], writers: new Map<string, number[]>() };
+    group.runs++;
+    for (const article of run.candidates) {
+      const score = article.scores?.total;
+      if (typeof score !== 'number' || article.merge) {
+        continue;
+      }
+      group.scores.push(score);
+      group.writers.set(article.writer, [...(group.writers.get(article.writer) ?? []), score]);
+      if (article.writer === run.selectedWriter) {
+        group.selected.push(score);
+      }
+    }
+    groups.set(version, group);
+  }
+
+  return Array.from(groups, ([version, group]) => ({
+    version,
+    runs: group.runs,
+    articles: group.scores.length,
+    averageScore: average(group.scores),
+    averageSelectedScore: average(group.selected),
+    byWriter: Object.fromEntries(Array.from(group.writers, ([writer, scores]) => [
+      writer,
+      { articles: scores.length, averageScore: average(scores) },
+    ])),
+  })).sort((a, b) => (b.averageScore ?? -1) - (a.averageScore ?? -1));
+}
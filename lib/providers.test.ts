@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getEnabledProviders, loadProviderConfigs } from './providers';
+
+describe('loadProviderConfigs', () => {
+  it('enables the built-in writers that have an API key', () => {
+    const configs = loadProviderConfigs({ ANTHROPIC_API_KEY: 'sk-ant', OPENAI_MODEL: 'gpt-4o' });
+
+    expect(configs.map(config => [config.id, config.kind, config.enabled])).toEqual([
+      ['gemini', 'gemini', false],
+      ['chatgpt', 'openai', false],
+      ['claude', 'anthropic', true],
+    ]);
+    expect(configs.find(config => config.id === 'chatgpt')?.model).toBe('gpt-4o');
+  });
+
+  it('adds an OpenAI-compatible endpoint from the environment', () => {
+    const configs = loadProviderConfigs({ OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1', OPENAI_COMPATIBLE_ID: 'ollama' });
+
+    expect(configs.find(config => config.id === 'ollama')).toMatchObject({
+      kind: 'openai-compatible',
+      baseURL: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      enabled: true,
+    });
+  });
+
+  it('overrides and extends the defaults with WRITERS_CONFIG', () => {
+    const configs = loadProviderConfigs({
+      GEMINI_API_KEY: 'g-key',
+      LOCAL_KEY: 'local-key',
+      WRITERS_CONFIG: JSON.stringify([
+        { id: 'gemini', weight: 1.5, model: 'gemini-1.5-pro' },
+        { id: 'claude', apiKeyEnv: 'LOCAL_KEY' },
+        { id: 'vllm', baseURL: 'http://gpu:8000/v1', model: 'qwen2.5', apiKeyEnv: 'LOCAL_KEY' },
+      ]),
+    });
+
+    expect(configs.find(config => config.id === 'gemini')).toMatchObject({ weight: 1.5, model: 'gemini-1.5-pro', enabled: true });
+    // A key from apiKeyEnv enables a built-in writer
+    expect(configs.find(config => config.id === 'claude')).toMatchObject({ apiKey: 'local-key', enabled: true });
+    expect(configs.find(config => config.id === 'vllm')).toMatchObject({ kind: 'openai-compatible', apiKey: 'local-key', enabled: true, weight: 1 });
+  });
+
+  it('rejects invalid configs', () => {
+    expect(() => loadProviderConfigs({ WRITERS_CONFIG: '{"id": "x"}' })).toThrow('must be a JSON array');
+    expect(() => loadProviderConfigs({ WRITERS_CONFIG: '[{"id": "x", "kind": "bard", "model": "m"}]' })).toThrow('unknown kind');
+    expect(() => loadProviderConfigs({ WRITERS_CONFIG: '[{"id": "x", "model": "m"}]' })).toThrow('requires a baseURL');
+    expect(() => loadProviderConfigs({ WRITERS_CONFIG: '[{"id": "gemini", "weight": -1}]' })).toThrow('must not be negative');
+  });
+});
+
+describe('getEnabledProviders', () => {
+  it('creates the enabled providers in configuration order', () => {
+    const providers = getEnabledProviders(loadProviderConfigs({ OPENAI_API_KEY: 'o-key', GEMINI_API_KEY: 'g-key' }));
+
+    expect(providers.map(provider => provider.id)).toEqual(['gemini', 'chatgpt']);
+    expect(providers[0].config.label).toBe('Gemini');
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * Writer Provider Registry
+ * One place that decides which LLMs write articles and how they are called
+ *
+ * Providers are built from environment variables (API keys + optional
+ * *_MODEL overrides) and can be overridden or extended with a JSON config
+ * (WRITERS_CONFIG inline or WRITERS_CONFIG_FILE path), so changing a model,
+ * temperature or weight does not need a code change.
+ *
+ * Example WRITERS_CONFIG:
+ * [
+ *   { "id": "claude", "model": "claude-3-5-haiku-20241022", "weight": 1.2 },
+ *   { "id": "gemini", "enabled": false, "fallbackModel": "gemini-1.5-flash" },
+ *   { "id": "ollama", "kind": "openai-compatible", "baseURL": "http://localhost:11434/v1", "model": "llama3.1" },
+ *   { "id": "stub", "kind": "fake", "model": "fake", "fake": { "delayMs": 200, "failures": 1 } },
+ *   { "id": "claude", "kind": "fake", "model": "recorded", "fake": { "textFile": "recordings/claude.html" } }
+ * ]
+ *
+ * Every call goes through lib/resilience.ts (retries, deadline, fallback
+ * model, circuit breaker); the SDKs' own retries are switched off. The fake
+ * kind answers locally (a placeholder, a fixed text or a recorded answer),
+ * for tests and offline runs.
+ */
+
+import { readFileSync } from 'fs';
+import { GoogleGenerativeAI, type UsageMetadata } from '@google/generative-ai';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { completeResiliently } from './resilience';
+
+// Types
+export type ProviderKind = 'gemini' | 'openai' | 'anthropic' | 'openai-compatible' | 'fake';
+
+export interface FakeBehaviour {
+  text?: string; // answer (default: a short placeholder article)
+  textFile?: string; // answer read from this file on every call, e.g. a recorded response
+  delayMs?: number;
+  failures?: number; // the first N calls in this process fail
+  failStatus?: number; // HTTP status of those failures (default 503)
+  usage?: TokenUsage;
+}
+
+export interface ProviderConfig {
+  id: string; // writer name reported on articles, e.g. 'claude'
+  kind: ProviderKind;
+  label: string; // used in logs
+  model: string;
+  apiKey?: string;
+  apiKeyEnv?: string; // JSON config: read the key from this env variable
+  baseURL?: string; // openai-compatible endpoints (Ollama, vLLM, LM Studio...)
+  temperature: number;
+  maxTokens: number;
+  enabled: boolean;
+  weight: number; // multiplier applied to the article score during selection
+  fallbackModel?: string; // tried when the primary model keeps failing
+  fake?: FakeBehaviour; // kind 'fake' only
+}
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  onToken?: (text: string) => void; // set to use the provider's streaming API
+  deadline?: number; // epoch ms; retries and fallbacks stop here (default: now + WRITER_TIMEOUT_MS)
+  signal?: AbortSignal; // set by the resilience layer for each attempt
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  usage: TokenUsage | null; // null when the endpoint does not report it
+}
+
+interface Completion {
+  text: string;
+  usage: TokenUsage | null;
+}
+
+export interface WriterProvider {
+  id: string;
+  config: ProviderConfig;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'anthropic', 'openai-compatible', 'fake'];
+
+/**
+ * Error with the HTTP status of a failed provider call (fake provider; the SDK errors carry one too)
+ */
+export class ProviderError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Built-in providers, configured from the classic *_API_KEY variables
+ */
+function defaultProviderConfigs(env: Env): ProviderConfig[] {
+  const configs: ProviderConfig[] = [
+    {
+      id: 'gemini',
+      kind: 'gemini',
+      label: 'Gemini',
+      model: env.GEMINI_MODEL || 'gemini-2.0-flash-exp',
+      fallbackModel: env.GEMINI_FALLBACK_MODEL || undefined,
+      apiKey: env.GEMINI_API_KEY,
+      temperature: numberFromEnv(env.GEMINI_TEMPERATURE, 0.7),
+      maxTokens: numberFromEnv(env.GEMINI_MAX_TOKENS, 8192),
+      enabled: Boolean(env.GEMINI_API_KEY),
+      weight: 1,
+    },
+    {
+      id: 'chatgpt',
+      kind: 'openai',
+      label: 'ChatGPT',
+      model: env.OPENAI_MODEL || 'gpt-4o-mini',
+      fallbackModel: env.OPENAI_FALLBACK_MODEL || undefined,
+      apiKey: env.OPENAI_API_KEY,
+      temperature: numberFromEnv(env.OPENAI_TEMPERATURE, 0.7),
+      maxTokens: numberFromEnv(env.OPENAI_MAX_TOKENS, 4000),
+      enabled: Boolean(env.OPENAI_API_KEY),
+      weight: 1,
+    },
+    {
+      id: 'claude',
+      kind: 'anthropic',
+      label: 'Claude',
+      model: env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022',
+      fallbackModel: env.ANTHROPIC_FALLBACK_MODEL || undefined,
+      apiKey: env.ANTHROPIC_API_KEY,
+      temperature: numberFromEnv(env.ANTHROPIC_TEMPERATURE, 0.7),
+      maxTokens: numberFromEnv(env.ANTHROPIC_MAX_TOKENS, 4000),
+      enabled: Boolean(env.ANTHROPIC_API_KEY),
+      weight: 1,
+    },
+  ];
+
+  if (env.OPENAI_COMPATIBLE_BASE_URL) {
+    configs.push({
+      id: env.OPENAI_COMPATIBLE_ID || 'local',
+      kind: 'openai-compatible',
+      label: env.OPENAI_COMPATIBLE_ID || 'Local',
+      model: env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      temperature: numberFromEnv(env.OPENAI_COMPATIBLE_TEMPERATURE, 0.7),
+      maxTokens: numberFromEnv(env.OPENAI_COMPATIBLE_MAX_TOKENS, 4000),
+      enabled: true,
+      weight: 1,
+    });
+  }
+
+  return configs;
+}
+
+function readOverrides(env: Env): Partial<ProviderConfig>[] {
+  let raw: string | undefined = env.WRITERS_CONFIG;
+  if (!raw && env.WRITERS_CONFIG_FILE) {
+    raw = readFileSync(env.WRITERS_CONFIG_FILE, 'utf8');
+  }
+  if (!raw) {
+    return [];
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error('WRITERS_CONFIG must be a JSON array of provider configs');
+  }
+  return parsed as Partial<ProviderConfig>[];
+}
+
+/**
+ * Validate a merged provider config
+ */
+function validateProviderConfig(config: ProviderConfig): ProviderConfig {
+  if (!config.id || typeof config.id !== 'string') {
+    throw new Error('Provider config requires an id');
+  }
+  if (!PROVIDER_KINDS.includes(config.kind)) {
+    throw new Error(`Provider "${config.id}" has unknown kind: ${config.kind}`);
+  }
+  if (!config.model) {
+    throw new Error(`Provider "${config.id}" requires a model`);
+  }
+  if (config.kind === 'openai-compatible' && !config.baseURL) {
+    throw new Error(`Provider "${config.id}" (openai-compatible) requires a baseURL`);
+  }
+  if (config.weight < 0) {
+    throw new Error(`Provider "${config.id}" weight must not be negative`);
+  }
+  return config;
+}
+
+/**
+ * Load provider configs: env defaults merged with WRITERS_CONFIG overrides
+ */
+export function loadProviderConfigs(env: Env = process.env): ProviderConfig[] {
+  const configs = defaultProviderConfigs(env);
+
+  for (const override of readOverrides(env)) {
+    const apiKey = override.apiKeyEnv ? env[override.apiKeyEnv] : override.apiKey;
+    const existing = configs.find(config => config.id === override.id);
+
+    if (existing) {
+      Object.assign(existing, override, apiKey !== undefined ? { apiKey } : {});
+      // A key configured after the defaults were built re-enables the provider
+      if (override.enabled === undefined && existing.kind !== 'openai-compatible' && existing.kind !== 'fake') {
+        existing.enabled = Boolean(existing.apiKey);
+      }
+      continue;
+    }
+
+    const kind = override.kind || 'openai-compatible';
+    configs.push({
+      label: override.id || 'custom',
+      temperature: 0.7,
+      maxTokens: 4000,
+      weight: 1,
+      ...override,
+      id: override.id || '',
+      kind,
+      model: override.model || '',
+      apiKey,
+      enabled: override.enabled ?? (kind === 'openai-compatible' || kind === 'fake' || Boolean(apiKey)),
+    });
+  }
+
+  return configs.map(validateProviderConfig);
+}
+
+function geminiUsage(metadata: UsageMetadata | undefined): TokenUsage | null {
+  return metadata
+    ? { inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 }
+    : null;
+}
+
+async function completeWithGemini(config: ProviderConfig, request: CompletionRequest): Promise<Completion> {
+  const genAI = new GoogleGenerativeAI(config.apiKey || '');
+  const model = genAI.getGenerativeModel({
+    model: config.model,
+    systemInstruction: request.system,
+    generationConfig: {
+      temperature: request.temperature ?? config.temperature,
+      maxOutputTokens: request.maxTokens ?? config.maxTokens,
+    },
+  });
+
+  if (request.onToken) {
+    const result = await model.generateContentStream(request.prompt, { signal: request.signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        text += delta;
+        request.onToken(delta);
+      }
+    }
+    return { text, usage: geminiUsage((await result.response).usageMetadata) };
+  }
+
+  const result = await model.generateContent(request.prompt, { signal: request.signal });
+  const response = await result.response;
+  return { text: response.text(), usage: geminiUsage(response.usageMetadata) };
+}
+
+async function completeWithOpenAI(config: ProviderConfig, request: CompletionRequest): Promise<Completion> {
+  // Direct api.openai.com unless a baseURL points at a compatible server
+  const client = new OpenAI({
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+    maxRetries: 0, // lib/resilience.ts retries within the deadline
+  });
+
+  const params = {
+    model: config.model,
+    messages: [
+      ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+      { role: 'user' as const, content: request.prompt },
+    ],
+    temperature: request.temperature ?? config.temperature,
+    max_tokens: request.maxTokens ?? config.maxTokens,
+  };
+
+  if (request.onToken) {
+    // The usage arrives in a final chunk without choices
+    const stream = await client.chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+    let text = '';
+    let usage: TokenUsage | null = null;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        request.onToken(delta);
+      }
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+    return { text, usage };
+  }
+
+  const response = await client.chat.completions.create(params, { signal: request.signal });
+
+  return {
+    text: response.choices[0]?.message?.content || '',
+    usage: response.usage
+      ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+      : null,
+  };
+}
+
+async function completeWithAnthropic(config: ProviderConfig, request: CompletionRequest): Promise<Completion> {
+  const client = new Anthropic({ apiKey: config.apiKey, maxRetries: 0 });
+
+  const params = {
+    model: config.model,
+    max_tokens: request.maxTokens ?? config.maxTokens,
+    temperature: request.temperature ?? config.temperature,
+    ...(request.system ? { system: request.system } : {}),
+    messages: [{ role: 'user' as const, content: request.prompt }],
+  };
+
+  if (request.onToken) {
+    const onToken = request.onToken;
+    const stream = client.messages.stream(params, { signal: request.signal }).on('text', delta => onToken(delta));
+    const text = await stream.finalText();
+    const { usage } = await stream.finalMessage();
+    return { text, usage: { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } };
+  }
+
+  const response = await client.messages.create(params, { signal: request.signal });
+
+  return {
+    text: response.content[0]?.type === 'text' ? response.content[0].text : '',
+    usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+  };
+}
+
+const FAKE_ARTICLE = `<title>Artykuł testowy</title>
+<meta name="description" content="Odpowiedź fałszywego providera do testów i pracy offline.">
+<h1>Artykuł testowy</h1>
+<p>Odpowiedź fałszywego providera.</p>
+<h2>Sekcja</h2>
+<p>Treść sekcji.</p>
+<h2>Podsumowanie</h2>
+<p>Skontaktuj się z nami.</p>`;
+
+// Calls per fake provider in this process (for "fail the first N calls")
+const fakeCalls = new Map<string, number>();
+
+async function completeWithFake(config: ProviderConfig, request: CompletionRequest): Promise<Completion> {
+  const behaviour = config.fake ?? {};
+  const call = (fakeCalls.get(config.id) ?? 0) + 1;
+  fakeCalls.set(config.id, call);
+
+  if (behaviour.delayMs) {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, behaviour.delayMs);
+      request.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Request was aborted'));
+      });
+    });
+  }
+  if (call <= (behaviour.failures ?? 0)) {
+    throw new ProviderError(behaviour.failStatus ?? 503, `${config.id} (fake) failure ${call} of ${behaviour.failures}`);
+  }
+
+  const text = behaviour.textFile ? readFileSync(behaviour.textFile, 'utf8') : behaviour.text ?? FAKE_ARTICLE;
+  request.onToken?.(text);
+  return {
+    text,
+    usage: behaviour.usage ?? { inputTokens: Math.ceil(request.prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+  };
+}
+
+/**
+ * Create a provider instance from its config
+ */
+export function createProvider(config: ProviderConfig): WriterProvider {
+  const complete = {
+    gemini: completeWithGemini,
+    openai: completeWithOpenAI,
+    'openai-compatible': completeWithOpenAI,
+    anthropic: completeWithAnthropic,
+    fake: completeWithFake,
+  }[config.kind];
+
+  return {
+    id: config.id,
+    config,
+    complete(request) {
+      // The model may be the fallback; the result reports the one that answered
+      return completeResiliently(config, request, async (model, attempt) => {
+        const { text, usage } = await complete({ ...config, model }, attempt);
+        return { text, model, usage };
+      });
+    },
+  };
+}
+
+/**
+ * Enabled providers, in configuration order
+ */
+export function getEnabledProviders(configs: ProviderConfig[]): WriterProvider[] {
+  return configs.filter(config => config.enabled).map(createProvider);
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { loadCategoryRegistry } from './categories';
+import {
+  addDays,
+  createCalendarStore,
+  easterSunday,
+  getDuePublications,
+  holidayName,
+  localDate,
+  planCategory,
+  polishHolidays,
+  type CalendarConfig,
+} from './publication-calendar';
+import { createMemoryStore } from './storage';
+
+// Built-in categories: kompensacja_mocy_biernej on Mondays, kompensatory_svg on Thursdays
+const [MONDAYS, THURSDAYS] = loadCategoryRegistry({}).categories;
+
+const SHIFT: CalendarConfig = { onHoliday: 'shift', blackouts: [], catchUpDays: 0 };
+
+describe('polishHolidays', () => {
+  it('computes Easter and the holidays that move with it', () => {
+    expect(easterSunday(2024)).toBe('2024-03-31');
+    expect(easterSunday(2025)).toBe('2025-04-20');
+
+    const holidays = polishHolidays(2025);
+    expect(holidays.get('2025-04-21')).toBe('Poniedziałek Wielkanocny');
+    expect(holidays.get('2025-06-08')).toBe('Zielone Świątki');
+    expect(holidays.get('2025-06-19')).toBe('Boże Ciało');
+  });
+
+  it('treats Christmas Eve as a holiday from 2025', () => {
+    expect(holidayName('2024-12-24')).toBeNull();
+    expect(holidayName('2025-12-24')).toBe('Wigilia Bożego Narodzenia');
+    expect(holidayName('2025-04-22')).toBeNull();
+  });
+});
+
+describe('planCategory', () => {
+  it('moves a holiday publication to the next free day', () => {
+    const { planned, skipped } = planCategory(MONDAYS, '2025-04-14', '2025-04-27', SHIFT);
+
+    expect(planned).toEqual([
+      { date: '2025-04-14', category: MONDAYS.id, shiftedFrom: null },
+      { date: '2025-04-22', category: MONDAYS.id, shiftedFrom: '2025-04-21' },
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it('shifts Corpus Christi to Friday', () => {
+    const { planned } = planCategory(THURSDAYS, '2025-06-16', '2025-06-22', SHIFT);
+
+    expect(planned).toEqual([{ date: '2025-06-20', category: THURSDAYS.id, shiftedFrom: '2025-06-19' }]);
+  });
+
+  it('never shifts onto a Sunday', () => {
+    // All Saints' Day 2025 is a Saturday
+    const [saturdays] = loadCategoryRegistry({
+      CATEGORIES_CONFIG: JSON.stringify({ categories: [{ id: 'soboty', name: 'Soboty', cronDays: [6] }] }),
+    }).categories.filter(category => category.id === 'soboty');
+
+    const { planned } = planCategory(saturdays, '2025-10-27', '2025-11-09', SHIFT);
+
+    expect(planned.map(entry => entry.date)).toEqual(['2025-11-03', '2025-11-08']);
+  });
+
+  it('drops holiday and blackout publications with a reason', () => {
+    const config: CalendarConfig = { onHoliday: 'skip', blackouts: [{ from: '2025-04-28', to: '2025-05-04' }], catchUpDays: 0 };
+
+    const { planned, skipped } = planCategory(MONDAYS, '2025-04-21', '2025-05-05', config);
+
+    expect(planned.map(entry => entry.date)).toEqual(['2025-05-05']);
+    expect(skipped).toEqual([
+      { date: '2025-04-21', category: MONDAYS.id, reason: 'holiday: Poniedziałek Wielkanocny' },
+      { date: '2025-04-28', category: MONDAYS.id, reason: 'blackout 2025-04-28..2025-05-04' },
+    ]);
+  });
+});
+
+describe('getDuePublications', () => {
+  it('owes missed publications after the day\'s own ones until they are recorded', async () => {
+    const calendar = createCalendarStore(createMemoryStore());
+    const config: CalendarConfig = { ...SHIFT, catchUpDays: 7 };
+    // Tracked since the publication a week earlier; Monday 2025-03-10 never happened
+    await calendar.recordPublication(MONDAYS.id, '2025-03-03');
+
+    const due = await getDuePublications('2025-03-13', calendar, [MONDAYS, THURSDAYS], config);
+
+    expect(due).toEqual([
+      { date: '2025-03-13', category: THURSDAYS.id, shiftedFrom: null, catchUp: false },
+      { date: '2025-03-10', category: MONDAYS.id, shiftedFrom: null, catchUp: true },
+    ]);
+
+    await calendar.recordPublication(MONDAYS.id, '2025-03-10');
+    expect(await getDuePublications('2025-03-13', calendar, [MONDAYS, THURSDAYS], config)).toHaveLength(1);
+  });
+
+  it('does not owe days before tracking started', async () => {
+    const calendar = createCalendarStore(createMemoryStore());
+
+    const due = await getDuePublications('2025-03-13', calendar, [MONDAYS], { ...SHIFT, catchUpDays: 7 });
+
+    expect(due).toEqual([]);
+    expect(await calendar.get(MONDAYS.id)).toEqual({ since: '2025-03-13', published: [] });
+  });
+});
+
+describe('localDate', () => {
+  it('follows Warsaw time across the DST changes', () => {
+    // Spring forward on 2025-03-30 (UTC+1 → UTC+2), fall back on 2025-10-26
+    expect(localDate(new Date('2025-03-29T22:59:00Z'))).toBe('2025-03-29');
+    expect(localDate(new Date('2025-03-29T23:00:00Z'))).toBe('2025-03-30');
+    expect(localDate(new Date('2025-03-30T22:00:00Z'))).toBe('2025-03-31');
+    expect(localDate(new Date('2025-10-25T22:00:00Z'))).toBe('2025-10-26');
+    expect(localDate(new Date('2025-10-26T22:59:00Z'))).toBe('2025-10-26');
+    expect(localDate(new Date('2025-10-26T23:00:00Z'))).toBe('2025-10-27');
+  });
+
+  it('counts calendar days without DST drift', () => {
+    expect(addDays('2025-03-29', 2)).toBe('2025-03-31');
+    expect(addDays('2025-10-27', -2)).toBe('2025-10-25');
+  });
+});
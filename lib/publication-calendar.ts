@@ -0,0 +1,388 @@
+/**
+ * Publication Calendar
+ * Which categories the cron writes on which day, in Polish time
+ *
+ * Dates are calendar days in Europe/Warsaw, whatever the server clock or the
+ * UTC cron schedule says. Each category has a cadence (lib/categories.ts):
+ * weekly on given weekdays, or every N days from a start date.
+ *
+ * - Polish public holidays (computed per year, Easter-based ones included):
+ *   PUBLICATION_ON_HOLIDAY=shift (default) moves the publication to the next
+ *   free day, skip drops it.
+ * - Blackout dates (PUBLICATION_BLACKOUTS, e.g. "2025-12-22..2026-01-02,2026-05-04")
+ *   drop publications, e.g. a holiday freeze.
+ * - Catch-up (PUBLICATION_CATCH_UP_DAYS, default 0 = off): planned
+ *   publications from the last N days that never happened (failed run, budget,
+ *   empty backlog, several categories on one day) are written on the
+ *   following runs, oldest first, after that day's own publications.
+ *
+ * Publications done by the cron are recorded per category (`calendar:<id>`);
+ * GET /api/calendar previews the plan, the CLI's `schedule --dry-run` a single day.
+ */
+
+import type { ArticleCategory } from './ai-writers';
+import { getCategories, requireCategory, type Cadence, type CategoryDefinition } from './categories';
+import { getStore, type KeyValueStore } from './storage';
+import type { Topic, TopicStore } from './topic-store';
+
+// Types
+export type HolidayPolicy = 'shift' | 'skip';
+
+export interface BlackoutRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface CalendarConfig {
+  onHoliday: HolidayPolicy;
+  blackouts: BlackoutRange[];
+  catchUpDays: number;
+}
+
+export interface PlannedPublication {
+  date: string; // YYYY-MM-DD in Europe/Warsaw
+  category: string;
+  shiftedFrom: string | null; // planned date that fell on a holiday
+}
+
+export interface SkippedPublication {
+  date: string;
+  category: string;
+  reason: string;
+}
+
+export interface DuePublication extends PlannedPublication {
+  catchUp: boolean; // missed on an earlier day
+}
+
+export interface CategoryCalendarState {
+  since: string; // first day tracked (nothing before it counts as missed)
+  published: string[]; // planned dates already published, recent first
+}
+
+export interface CalendarStore {
+  get(category: string): Promise<CategoryCalendarState | null>;
+  recordPublication(category: string, date: string): Promise<void>;
+  ensureTracked(category: string, today: string): Promise<CategoryCalendarState>;
+}
+
+export interface TopicForToday {
+  topic: Topic | null; // null: the category's backlog is empty
+  category: ArticleCategory;
+  publication: DuePublication | null; // null: category requested outside the calendar
+}
+
+type Env = Record<string, string | undefined>;
+
+export const TIMEZONE = 'Europe/Warsaw';
+
+const CALENDAR_PREFIX = 'calendar:';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SHIFT_DAYS = 14;
+const PUBLISHED_HISTORY = 120; // planned dates kept per category
+
+const WEEKDAY_NAMES = ['niedziela', 'poniedziałek', 'wtorek', 'środa', 'czwartek', 'piątek', 'sobota'];
+
+/**
+ * Calendar day of an instant in Europe/Warsaw (YYYY-MM-DD)
+ */
+export function localDate(instant: Date = new Date()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: TIMEZONE, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(instant);
+}
+
+// Calendar arithmetic on plain dates (UTC midnight, so no DST surprises)
+function toDayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 86_400_000;
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date((toDayNumber(date) + days) * 86_400_000).toISOString().slice(0, 10);
+}
+
+export function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function weekdayName(date: string): string {
+  return WEEKDAY_NAMES[weekday(date)];
+}
+
+export function isCalendarDate(value: unknown): value is string {
+  // Impossible dates (2025-02-30) do not survive the round trip; invalid ones (2025-13-01) do not parse
+  return typeof value === 'string' && DATE_PATTERN.test(value) &&
+    !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) && addDays(value, 0) === value;
+}
+
+/**
+ * Easter Sunday (Gregorian, Meeus/Jones/Butcher)
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Statutory public holidays in Poland (date → name)
+ */
+export function polishHolidays(year: number): Map<string, string> {
+  const easter = easterSunday(year);
+  const holidays: [string, string][] = [
+    [`${year}-01-01`, 'Nowy Rok'],
+    [`${year}-01-06`, 'Święto Trzech Króli'],
+    [easter, 'Wielkanoc'],
+    [addDays(easter, 1), 'Poniedziałek Wielkanocny'],
+    [`${year}-05-01`, 'Święto Pracy'],
+    [`${year}-05-03`, 'Święto Konstytucji 3 Maja'],
+    [addDays(easter, 49), 'Zielone Świątki'],
+    [addDays(easter, 60), 'Boże Ciało'],
+    [`${year}-08-15`, 'Wniebowzięcie Najświętszej Maryi Panny'],
+    [`${year}-11-01`, 'Wszystkich Świętych'],
+    [`${year}-11-11`, 'Narodowe Święto Niepodległości'],
+    [`${year}-12-25`, 'Boże Narodzenie (pierwszy dzień)'],
+    [`${year}-12-26`, 'Boże Narodzenie (drugi dzień)'],
+  ];
+  // Christmas Eve is a public holiday from 2025
+  if (year >= 2025) {
+    holidays.push([`${year}-12-24`, 'Wigilia Bożego Narodzenia']);
+  }
+  return new Map(holidays);
+}
+
+export function holidayName(date: string): string | null {
+  return polishHolidays(Number(date.slice(0, 4))).get(date) ?? null;
+}
+
+function parseBlackouts(raw: string | undefined): BlackoutRange[] {
+  if (!raw) {
+    return [];
+  }
+  return raw.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const [from, to = from] = part.split('..').map(date => date.trim());
+    if (!isCalendarDate(from) || !isCalendarDate(to) || to < from) {
+      throw new Error(`PUBLICATION_BLACKOUTS entry must be a date or a range "YYYY-MM-DD..YYYY-MM-DD": ${part}`);
+    }
+    return { from, to };
+  });
+}
+
+export function getCalendarConfig(env: Env = process.env): CalendarConfig {
+  const onHoliday = env.PUBLICATION_ON_HOLIDAY || 'shift';
+  if (onHoliday !== 'shift' && onHoliday !== 'skip') {
+    throw new Error(`Unknown PUBLICATION_ON_HOLIDAY: ${onHoliday} (expected shift or skip)`);
+  }
+
+  const catchUpDays = env.PUBLICATION_CATCH_UP_DAYS ? parseInt(env.PUBLICATION_CATCH_UP_DAYS, 10) : 0;
+  return {
+    onHoliday,
+    blackouts: parseBlackouts(env.PUBLICATION_BLACKOUTS),
+    catchUpDays: Number.isFinite(catchUpDays) && catchUpDays > 0 ? catchUpDays : 0,
+  };
+}
+
+function blackoutOf(date: string, config: CalendarConfig): BlackoutRange | null {
+  return config.blackouts.find(range => date >= range.from && date <= range.to) ?? null;
+}
+
+/**
+ * True when the cadence plans a publication on the date (before holidays and blackouts)
+ */
+export function isCadenceDay(cadence: Cadence, date: string): boolean {
+  if (cadence.type === 'weekly') {
+    return cadence.days.includes(weekday(date));
+  }
+  const offset = toDayNumber(date) - toDayNumber(cadence.start);
+  return offset >= 0 && offset % cadence.every === 0;
+}
+
+/**
+ * Publications of one category between two dates (inclusive), with the
+ * ones dropped by holidays or blackouts
+ */
+export function planCategory(
+  category: CategoryDefinition,
+  from: string,
+  to: string,
+  config: CalendarConfig = getCalendarConfig()
+): { planned: PlannedPublication[]; skipped: SkippedPublication[] } {
+  const planned: PlannedPublication[] = [];
+  const skipped: SkippedPublication[] = [];
+
+  // Start early enough to see holiday publications shifted into the range
+  for (let date = addDays(from, -MAX_SHIFT_DAYS); date <= to; date = addDays(date, 1)) {
+    if (!isCadenceDay(category.cadence, date)) {
+      continue;
+    }
+
+    let target: string | null = date;
+    let reason: string | null = null;
+    const blackout = blackoutOf(date, config);
+    const holiday = holidayName(date);
+    if (blackout) {
+      target = null;
+      reason = `blackout ${blackout.from}..${blackout.to}`;
+    } else if (holiday && config.onHoliday === 'skip') {
+      target = null;
+      reason = `holiday: ${holiday}`;
+    } else if (holiday) {
+      // Next day that is neither a holiday nor blacked out (nor a Sunday)
+      target = null;
+      for (let next = addDays(date, 1); next <= addDays(date, MAX_SHIFT_DAYS); next = addDays(next, 1)) {
+        if (!holidayName(next) && !blackoutOf(next, config) && weekday(next) !== 0) {
+          target = next;
+          break;
+        }
+      }
+      reason = target ? null : `holiday: ${holiday} (no free day to shift to)`;
+    }
+
+    if (target === null) {
+      if (date >= from) {
+        skipped.push({ date, category: category.id, reason: reason ?? 'skipped' });
+      }
+      continue;
+    }
+    // A shifted publication landing on a regular one merges with it
+    if (target >= from && target <= to && !planned.some(entry => entry.date === target)) {
+      planned.push({ date: target, category: category.id, shiftedFrom: target === date ? null : date });
+    }
+  }
+
+  planned.sort((a, b) => a.date.localeCompare(b.date));
+  return { planned, skipped };
+}
+
+/**
+ * Planned publications of all (or the given) categories, ordered by date and
+ * then configuration order
+ */
+export function planPublications(
+  from: string,
+  to: string,
+  categories: CategoryDefinition[] = getCategories(),
+  config: CalendarConfig = getCalendarConfig()
+): { planned: PlannedPublication[]; skipped: SkippedPublication[] } {
+  const plans = categories.map(category => planCategory(category, from, to, config));
+  const order = new Map(categories.map((category, index) => [category.id, index]));
+  const byDate = (a: { date: string; category: string }, b: { date: string; category: string }) =>
+    a.date.localeCompare(b.date) || (order.get(a.category) ?? 0) - (order.get(b.category) ?? 0);
+
+  return {
+    planned: plans.flatMap(plan => plan.planned).sort(byDate),
+    skipped: plans.flatMap(plan => plan.skipped).sort(byDate),
+  };
+}
+
+export function createCalendarStore(kv: KeyValueStore = getStore()): CalendarStore {
+  const key = (category: string) => `${CALENDAR_PREFIX}${category}`;
+
+  return {
+    get(category) {
+      return kv.get<CategoryCalendarState>(key(category));
+    },
+
+    async recordPublication(category, date) {
+      const state = await kv.get<CategoryCalendarState>(key(category));
+      const published = [date, ...(state?.published ?? []).filter(entry => entry !== date)]
+        .sort((a, b) => b.localeCompare(a))
+        .slice(0, PUBLISHED_HISTORY);
+      await kv.set(key(category), { since: state?.since ?? date, published });
+    },
+
+    async ensureTracked(category, today) {
+      const state = await kv.get<CategoryCalendarState>(key(category));
+      if (state) {
+        return state;
+      }
+      // Tracking starts today - earlier dates are not "missed"
+      const initial: CategoryCalendarState = { since: today, published: [] };
+      await kv.set(key(category), initial);
+      return initial;
+    },
+  };
+}
+
+/**
+ * Publications the cron owes on a day: that day's own ones first, then
+ * (catch-up) missed ones from the last PUBLICATION_CATCH_UP_DAYS days, oldest first.
+ * The cron starts tracking untracked categories; previews (track: false) only read.
+ */
+export async function getDuePublications(
+  today: string,
+  store: CalendarStore = createCalendarStore(),
+  categories: CategoryDefinition[] = getCategories(),
+  config: CalendarConfig = getCalendarConfig(),
+  options: { track?: boolean } = {}
+): Promise<DuePublication[]> {
+  const from = addDays(today, -config.catchUpDays);
+  const { planned } = planPublications(from, today, categories, config);
+
+  const due: DuePublication[] = [];
+  for (const category of categories) {
+    const state = options.track === false
+      ? await store.get(category.id)
+      : await store.ensureTracked(category.id, today);
+    for (const publication of planned) {
+      if (publication.category !== category.id || state?.published.includes(publication.date)) {
+        continue;
+      }
+      if (publication.date === today) {
+        due.push({ ...publication, catchUp: false });
+      } else if (state && publication.date >= state.since) {
+        due.push({ ...publication, catchUp: true });
+      }
+    }
+  }
+
+  const order = new Map(categories.map((category, index) => [category.id, index]));
+  return due.sort((a, b) =>
+    Number(a.catchUp) - Number(b.catchUp) ||
+    a.date.localeCompare(b.date) ||
+    (order.get(a.category) ?? 0) - (order.get(b.category) ?? 0));
+}
+
+/**
+ * Publication due on a day and its next queued topic; with several due the
+ * first one (the day's own before catch-up, then config order) with a queued
+ * topic wins. Null when nothing is planned (or everything due is published).
+ */
+export async function getTopicForToday(
+  store: TopicStore,
+  calendar: CalendarStore,
+  today: string,
+  requested?: string,
+  options: { track?: boolean } = {}
+): Promise<TopicForToday | null> {
+  const due: { category: ArticleCategory; publication: DuePublication | null }[] = requested
+    ? [{ category: requireCategory(requested).id, publication: null }]
+    : (await getDuePublications(today, calendar, getCategories(), getCalendarConfig(), options))
+      .map(publication => ({ category: publication.category, publication }));
+
+  if (due.length === 0) {
+    return null;
+  }
+
+  // Next unused topic from the backlog (managed via /api/topics)
+  for (const entry of due) {
+    const topic = await store.nextTopic(entry.category);
+    if (topic) {
+      return { topic, ...entry };
+    }
+  }
+
+  return { topic: null, ...due[0] };
+}
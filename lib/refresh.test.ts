@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createOdooClient, type OdooClient } from './odoo-client';
+import { startMockOdooServer, type MockOdooServer } from './odoo-mock-server';
+import {
+  applyRefresh,
+  createRefreshStore,
+  diffArticles,
+  discardRefresh,
+  liveBody,
+  splitBlocks,
+  type PendingUpdate,
+} from './refresh';
+import { createMemoryStore } from './storage';
+
+const LOGIN = 'bot@powergo.pl';
+const API_KEY = 'test-key';
+
+const LIVE = `<p>Wstęp o mocy biernej.</p>
+<h2>Kary</h2>
+<p>Operator nalicza opłaty powyżej tg φ 0,4.</p>
+<p>Stawki z 2023 roku.</p>
+<h2>Stare FAQ</h2>
+<p>Nieaktualne pytania.</p>`;
+
+const REVISED = `<p>Wstęp o mocy biernej.</p>
+<h2>Kary</h2>
+<p>Operator nalicza opłaty powyżej tg φ 0,4.</p>
+<p>Stawki z 2025 roku.</p>
+<h2>Kompensatory SVG</h2>
+<p>Nowa sekcja.</p>`;
+
+let odoo: MockOdooServer;
+let client: OdooClient;
+
+beforeAll(async () => {
+  odoo = await startMockOdooServer({ login: LOGIN, apiKey: API_KEY });
+  client = createOdooClient({ url: odoo.url, db: odoo.db, login: LOGIN, apiKey: API_KEY });
+});
+
+afterAll(async () => {
+  await odoo.close();
+});
+
+function pendingUpdate(postId: number): PendingUpdate {
+  const now = new Date().toISOString();
+  return {
+    id: `20250310T090000Z-${postId}`,
+    postId,
+    url: null,
+    category: 'kompensacja_mocy_biernej',
+    language: 'pl',
+    keywords: ['moc bierna'],
+    editorNotes: null,
+    status: 'pending',
+    liveTitle: 'Kary za moc bierną',
+    liveContent: LIVE,
+    revision: {
+      title: 'Kary za moc bierną 2025',
+      metaTitle: 'Kary za moc bierną 2025',
+      metaDescription: 'Aktualne stawki.',
+      content: REVISED,
+      writer: 'claude',
+      model: 'fake',
+      wordCount: 20,
+      score: 70,
+      promptVersion: null,
+    },
+    ranking: [],
+    diff: diffArticles(LIVE, REVISED),
+    flaggedClaims: [],
+    usage: { calls: 1, inputTokens: 10, outputTokens: 10, costUsd: 0, unpricedCalls: 0 },
+    history: [{ from: null, to: 'pending', actor: 'ania', at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+async function setup(content = LIVE) {
+  const postId = await client.createBlogPost({ name: 'Kary za moc bierną', blog_id: 1, content });
+  const store = createRefreshStore(createMemoryStore());
+  const update = await store.create(pendingUpdate(postId));
+  return { postId, update, deps: { store, odoo: client } };
+}
+
+describe('diffArticles', () => {
+  it('matches sections by heading and diffs changed blocks', () => {
+    const diff = diffArticles(LIVE, REVISED);
+
+    expect(diff.sections.map(section => [section.heading, section.change])).toEqual([
+      [null, 'unchanged'],
+      ['Kary', 'modified'],
+      ['Stare FAQ', 'removed'],
+      ['Kompensatory SVG', 'added'],
+    ]);
+    expect(diff.counts).toEqual({ unchanged: 1, modified: 1, added: 1, removed: 1 });
+    expect(diff.sections[1].diff).toBe([
+      '<h2>Kary</h2>',
+      '<p>Operator nalicza opłaty powyżej tg φ 0,4.</p>',
+      '<del class="refresh-removed"><p>Stawki z 2023 roku.</p></del>',
+      '<ins class="refresh-added"><p>Stawki z 2025 roku.</p></ins>',
+    ].join('\n'));
+  });
+
+  it('keeps the longest common run of blocks in order', () => {
+    const diff = diffArticles('<p>A</p><p>B</p><p>C</p><p>D</p>', '<p>B</p><p>X</p><p>C</p><p>D</p><p>A</p>');
+
+    expect(diff.html).toBe([
+      '<del class="refresh-removed"><p>A</p></del>',
+      '<p>B</p>',
+      '<ins class="refresh-added"><p>X</p></ins>',
+      '<p>C</p>',
+      '<p>D</p>',
+      '<ins class="refresh-added"><p>A</p></ins>',
+    ].join('\n'));
+  });
+
+  it('ignores markup and whitespace that do not change the text', () => {
+    const diff = diffArticles('<h2>Kary</h2><p>Tekst  akapitu.</p>', '<h2>Kary</h2>\n<p class="lead">Tekst akapitu.</p>');
+
+    expect(diff.counts).toEqual({ unchanged: 1, modified: 0, added: 0, removed: 0 });
+  });
+});
+
+describe('splitBlocks / liveBody', () => {
+  it('splits top-level elements and strips JSON-LD and fact-check marks', () => {
+    expect(splitBlocks('<p>A<br>B</p><ul><li>1</li></ul>tekst')).toEqual(['<p>A<br>B</p>', '<ul><li>1</li></ul>', 'tekst']);
+    expect(liveBody('<p><mark data-fact-check="conflict" title="x">0,5</mark></p>\n<script type="application/ld+json">{}</script>'))
+      .toBe('<p>0,5</p>');
+  });
+});
+
+describe('refresh transitions', () => {
+  it('applies a pending update to the live post once', async () => {
+    const { postId, update, deps } = await setup();
+
+    const applied = await applyRefresh(update.id, { actor: 'ania' }, deps);
+
+    expect(applied.status).toBe('applied');
+    expect(applied.history.map(entry => [entry.from, entry.to, entry.actor])).toEqual([[null, 'pending', 'ania'], ['pending', 'applied', 'ania']]);
+    expect(odoo.models['blog.post'].find(record => record.id === postId)).toMatchObject({
+      name: 'Kary za moc bierną',
+      content: REVISED,
+      website_meta_title: 'Kary za moc bierną 2025',
+    });
+    await expect(applyRefresh(update.id, { actor: 'ania' }, deps)).rejects.toMatchObject({ status: 409 });
+    await expect(discardRefresh(update.id, { actor: 'ania' }, deps)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('refuses to overwrite a post edited since the revision, unless forced', async () => {
+    const { update, deps } = await setup(`${LIVE}\n<p>Dopisane ręcznie.</p>`);
+
+    await expect(applyRefresh(update.id, { actor: 'ania' }, deps)).rejects.toMatchObject({ status: 409 });
+    expect((await applyRefresh(update.id, { actor: 'ania', force: true }, deps)).status).toBe('applied');
+  });
+
+  it('discards a pending update with the reason', async () => {
+    const { update, deps } = await setup();
+
+    const discarded = await discardRefresh(update.id, { actor: 'tomek', reason: 'stawki bez zmian' }, deps);
+
+    expect(discarded.status).toBe('discarded');
+    expect(discarded.history.at(-1)).toMatchObject({ from: 'pending', to: 'discarded', actor: 'tomek', note: 'stawki bez zmian' });
+    await expect(applyRefresh('missing', { actor: 'ania' }, deps)).rejects.toMatchObject({ status: 404 });
+  });
+});
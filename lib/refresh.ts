@@ -0,0 +1,506 @@
+/**
+ * Article Refresh
+ * Revisions of live Odoo posts (tariffs, prices and regulations go stale)
+ *
+ * The live blog.post is read by ID; its body, keywords (meta keywords or the
+ * request) and editor notes become a revision prompt (ArticleOutline.revision)
+ * that keeps the URL and the <h2> structure. Every configured writer revises
+ * it, the best revision wins like a new article (generateArticlesParallel /
+ * selectBestArticle), and it is compared with the live version section by
+ * section. The result is stored as a pending update - the post is not touched:
+ *
+ *   pending ──apply───▶ applied    (content and meta written to the post; name and URL stay)
+ *      └────discard──▶ discarded
+ *
+ * Applying is refused (409) when the live post changed since the revision
+ * was prepared, unless forced.
+ */
+
+import {
+  generateArticlesParallel,
+  selectBestArticle,
+  type AIConfig,
+  type ArticleOutline,
+} from './ai-writers';
+import { getCategories, requireCategory, type CategoryDefinition } from './categories';
+import { splitSections } from './ensemble';
+import { checkFacts, flaggedClaims, stripFactHighlights, type FactClaim } from './fact-check';
+import { HttpError } from './http';
+import { linkArticle } from './internal-links';
+import { DEFAULT_LANGUAGE, type Language } from './languages';
+import { getOdooClient, type BlogPostRecord, type OdooClient } from './odoo-client';
+import { createRunId } from './run-history';
+import { countWords, htmlToText, normalizeText } from './scoring';
+import { getStore, type KeyValueStore } from './storage';
+import { renderJsonLd, type StructuredData } from './structured-data';
+import {
+  createUsageLedger,
+  enforceBudget,
+  recordUsageSafely,
+  sumUsage,
+  type UsageLedger,
+  type UsageTotals,
+} from './usage';
+
+// Types
+export type RefreshStatus = 'pending' | 'applied' | 'discarded';
+
+export const REFRESH_STATUSES: RefreshStatus[] = ['pending', 'applied', 'discarded'];
+
+export type SectionChangeKind = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface SectionChange {
+  heading: string | null; // null for the introduction before the first h2
+  change: SectionChangeKind;
+  before: string | null; // live section HTML
+  after: string | null; // revised section HTML
+  diff: string; // section with removed blocks in <del>, added ones in <ins>
+}
+
+export interface RefreshDiff {
+  sections: SectionChange[];
+  counts: Record<SectionChangeKind, number>;
+  html: string; // whole article, changes marked like SectionChange.diff
+}
+
+export interface RefreshTransition {
+  from: RefreshStatus | null;
+  to: RefreshStatus;
+  actor: string;
+  at: string;
+  note?: string;
+}
+
+export interface PendingUpdate {
+  id: string; // run-style id, so keys sort chronologically
+  postId: number;
+  url: string | null;
+  category: string;
+  language: Language;
+  keywords: string[];
+  editorNotes: string | null;
+  status: RefreshStatus;
+  liveTitle: string;
+  liveContent: string; // live body the revision was made from (to detect later edits)
+  revision: {
+    title: string; // suggestion only - the post name (and URL) is kept
+    metaTitle: string;
+    metaDescription: string;
+    content: string; // internal links resolved
+    structuredData?: StructuredData;
+    writer: string;
+    model: string;
+    wordCount: number;
+    score: number | null;
+    promptVersion: string | null;
+  };
+  ranking: { writer: string; model: string; score: number | null; wordCount: number }[];
+  diff: RefreshDiff;
+  flaggedClaims: FactClaim[];
+  usage: UsageTotals;
+  history: RefreshTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RefreshRequest {
+  postId: number;
+  actor: string;
+  keywords?: string[]; // default: the post's meta keywords
+  notes?: string; // what to update (e.g. "new 2025 tariffs for cos φ penalties")
+  category?: string; // default: the category whose Odoo blog holds the post
+}
+
+export interface RefreshStore {
+  create(update: PendingUpdate): Promise<PendingUpdate>;
+  get(id: string): Promise<PendingUpdate | null>;
+  list(status?: RefreshStatus): Promise<PendingUpdate[]>;
+  transition(id: string, to: RefreshStatus, actor: string, note?: string): Promise<PendingUpdate>;
+}
+
+export interface RefreshDeps {
+  store?: RefreshStore;
+  odoo?: OdooClient;
+  ledger?: UsageLedger;
+}
+
+interface Block {
+  key: string; // normalised text, what blocks are compared by
+  html: string;
+}
+
+const REFRESH_PREFIX = 'refresh:';
+
+const TRANSITIONS: Record<RefreshStatus, RefreshStatus[]> = {
+  pending: ['applied', 'discarded'],
+  applied: [],
+  discarded: [],
+};
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'source', 'wbr', 'col']);
+
+export function isRefreshStatus(value: unknown): value is RefreshStatus {
+  return typeof value === 'string' && (REFRESH_STATUSES as string[]).includes(value);
+}
+
+export function createRefreshStore(kv: KeyValueStore = getStore()): RefreshStore {
+  return {
+    async create(update) {
+      await kv.set(`${REFRESH_PREFIX}${update.id}`, update);
+      return update;
+    },
+
+    get(id) {
+      return kv.get<PendingUpdate>(`${REFRESH_PREFIX}${id}`);
+    },
+
+    async list(status) {
+      const keys = (await kv.keys(REFRESH_PREFIX)).reverse();
+      const updates = await Promise.all(keys.map(key => kv.get<PendingUpdate>(key)));
+      return updates.filter((update): update is PendingUpdate =>
+        update !== null && (!status || update.status === status)
+      );
+    },
+
+    async transition(id, to, actor, note) {
+      const update = await kv.get<PendingUpdate>(`${REFRESH_PREFIX}${id}`);
+      if (!update) {
+        throw new HttpError(404, `Refresh not found: ${id}`);
+      }
+      if (!TRANSITIONS[update.status].includes(to)) {
+        throw new HttpError(409, `Cannot move refresh ${id} from ${update.status} to ${to}`);
+      }
+
+      const now = new Date().toISOString();
+      const updated: PendingUpdate = {
+        ...update,
+        status: to,
+        updatedAt: now,
+        history: [...update.history, { from: update.status, to, actor, at: now, ...(note ? { note } : {}) }],
+      };
+      await kv.set(`${REFRESH_PREFIX}${id}`, updated);
+      console.log(`[Refresh] ${id}: ${update.status} → ${to} by ${actor}`);
+      return updated;
+    },
+  };
+}
+
+/**
+ * Editable body of a live post: without the JSON-LD the publisher appends
+ * and without fact-check marks left on unapproved drafts
+ */
+export function liveBody(content: string | false | null | undefined): string {
+  if (typeof content !== 'string') {
+    return '';
+  }
+  return stripFactHighlights(content.replace(/\s*<script type="application\/ld\+json">[\s\S]*?<\/script>/gi, '')).trim();
+}
+
+/**
+ * Split HTML into its top-level elements (paragraphs, lists, tables, h3...)
+ */
+export function splitBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const tags = /<(\/?)([a-z][a-z0-9]*)\b[^>]*?(\/?)>/gi;
+  let depth = 0;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (end: number) => {
+    const text = html.slice(start, end).trim();
+    if (text) {
+      blocks.push(text);
+    }
+  };
+
+  while ((match = tags.exec(html)) !== null) {
+    const [tag, closing, name, selfClosing] = match;
+    if (VOID_ELEMENTS.has(name.toLowerCase()) || selfClosing) {
+      continue;
+    }
+    if (!closing) {
+      if (depth === 0) {
+        pushText(match.index);
+        start = match.index;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        pushText(match.index + tag.length);
+        start = match.index + tag.length;
+      }
+    }
+  }
+  pushText(html.length);
+  return blocks;
+}
+
+function textKey(html: string): string {
+  return normalizeText(htmlToText(html)).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Longest common subsequence alignment: matched pairs, removals and additions in order
+ */
+function align<T>(before: T[], after: T[], key: (item: T) => string): { before?: T; after?: T }[] {
+  const a = before.map(key);
+  const b = after.map(key);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const steps: { before?: T; after?: T }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      steps.push({ before: before[i++], after: after[j++] });
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      steps.push({ before: before[i++] });
+    } else {
+      steps.push({ after: after[j++] });
+    }
+  }
+  return steps;
+}
+
+const removed = (html: string) => `<del class="refresh-removed">${html}</del>`;
+const added = (html: string) => `<ins class="refresh-added">${html}</ins>`;
+
+// Block-level diff of one section; identical blocks are kept as they are
+function diffBlocks(before: string, after: string): string {
+  const toBlocks = (html: string): Block[] => splitBlocks(html).map(block => ({ key: textKey(block), html: block }));
+  return align(toBlocks(before), toBlocks(after), block => block.key)
+    .map(step => {
+      if (step.before && step.after) {
+        return step.after.html;
+      }
+      return step.before ? removed(step.before.html) : added(step.after!.html);
+    })
+    .join('\n');
+}
+
+/**
+ * Section-level diff: sections are matched by their <h2> text, changed
+ * sections get a block-level diff
+ */
+export function diffArticles(liveHtml: string, revisedHtml: string): RefreshDiff {
+  const sectionKey = (section: { heading: string | null }) =>
+    section.heading === null ? '' : normalizeText(section.heading).replace(/\s+/g, ' ').trim();
+
+  const sections: SectionChange[] = align(splitSections(liveHtml), splitSections(revisedHtml), sectionKey).map(step => {
+    const heading = (step.after ?? step.before)!.heading;
+    if (step.before && step.after) {
+      const unchanged = textKey(step.before.html) === textKey(step.after.html);
+      return {
+        heading,
+        change: unchanged ? 'unchanged' : 'modified',
+        before: step.before.html,
+        after: step.after.html,
+        diff: unchanged ? step.after.html : diffBlocks(step.before.html, step.after.html),
+      };
+    }
+    return step.before
+      ? { heading, change: 'removed', before: step.before.html, after: null, diff: removed(step.before.html) }
+      : { heading, change: 'added', before: null, after: step.after!.html, diff: added(step.after!.html) };
+  });
+
+  const counts: Record<SectionChangeKind, number> = { unchanged: 0, modified: 0, added: 0, removed: 0 };
+  sections.forEach(section => counts[section.change]++);
+
+  return { sections, counts, html: sections.map(section => section.diff).join('\n') };
+}
+
+// Category and language of the Odoo blog the post belongs to
+function categoryOfPost(post: BlogPostRecord): { category: CategoryDefinition; language: Language } | null {
+  const blogId = post.blog_id ? post.blog_id[0] : null;
+  for (const category of getCategories()) {
+    if (blogId !== null && category.odooBlogId === blogId) {
+      return { category, language: DEFAULT_LANGUAGE };
+    }
+    const language = (Object.keys(category.odooBlogIds) as Language[]).find(code => category.odooBlogIds[code] === blogId);
+    if (language) {
+      return { category, language };
+    }
+  }
+  return null;
+}
+
+/**
+ * Revision outline of a live post
+ */
+export function buildRefreshOutline(
+  post: BlogPostRecord,
+  request: Pick<RefreshRequest, 'keywords' | 'notes'>,
+  category: CategoryDefinition,
+  language: Language
+): ArticleOutline {
+  const content = liveBody(post.content);
+  const metaKeywords = typeof post.website_meta_keywords === 'string'
+    ? post.website_meta_keywords.split(',').map(keyword => keyword.trim()).filter(Boolean)
+    : [];
+  const headings = splitSections(content).flatMap(section => (section.heading ? [section.heading] : []));
+
+  return {
+    topic: post.name,
+    keywords: request.keywords && request.keywords.length > 0 ? request.keywords : metaKeywords,
+    targetLength: Math.max(300, countWords(htmlToText(content))),
+    sections: headings.length > 0 ? headings : category.sections,
+    category: category.id,
+    language,
+    ...(request.notes ? { editorNotes: request.notes } : {}),
+    revision: {
+      postId: post.id,
+      url: typeof post.website_url === 'string' && post.website_url ? post.website_url : null,
+      title: post.name,
+      content,
+    },
+  };
+}
+
+/**
+ * Revise a live post with every writer and store the best revision as a pending update
+ */
+export async function refreshPost(
+  request: RefreshRequest,
+  config: AIConfig,
+  deps: RefreshDeps = {}
+): Promise<PendingUpdate> {
+  const odoo = deps.odoo ?? getOdooClient();
+  const post = await odoo.readBlogPost(request.postId);
+  if (!post) {
+    throw new HttpError(404, `Odoo blog post not found: ${request.postId}`);
+  }
+
+  const owner = request.category
+    ? { category: requireCategory(request.category), language: categoryOfPost(post)?.language ?? DEFAULT_LANGUAGE }
+    : categoryOfPost(post);
+  if (!owner) {
+    throw new HttpError(400, `Post ${request.postId} is not in a configured category blog - pass category`);
+  }
+
+  const outline = buildRefreshOutline(post, request, owner.category, owner.language);
+  const live = outline.revision!.content;
+  if (!htmlToText(live)) {
+    throw new HttpError(422, `Post ${request.postId} has no content to refresh`);
+  }
+  if (outline.keywords.length === 0) {
+    throw new HttpError(400, `Post ${request.postId} has no meta keywords - pass keywords`);
+  }
+
+  console.log(`[Refresh] Revising post ${post.id} "${post.name}" (${owner.category.id})`);
+  const ledger = deps.ledger ?? createUsageLedger();
+  const articles = await generateArticlesParallel(outline, await enforceBudget(config, ledger));
+  const best = selectBestArticle(articles, config);
+
+  // Placeholders become links now, so the diff shows what the post would get
+  const { article } = await linkArticle(best, outline);
+  const factCheck = checkFacts(article, outline);
+  const diff = diffArticles(live, article.content);
+  console.log(`[Refresh] Best revision from ${article.writer}: ${diff.counts.modified} modified, ${diff.counts.added} added, ${diff.counts.removed} removed sections`);
+
+  const id = createRunId();
+  const items = articles.flatMap(candidate => (candidate.usage ? [candidate.usage] : []));
+  if (items.length > 0) {
+    await recordUsageSafely(ledger, {
+      id,
+      runId: null,
+      source: 'refresh',
+      category: owner.category.id,
+      topic: post.name,
+      at: new Date().toISOString(),
+      items,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const store = deps.store ?? createRefreshStore();
+  return store.create({
+    id,
+    postId: post.id,
+    url: outline.revision!.url,
+    category: owner.category.id,
+    language: owner.language,
+    keywords: outline.keywords,
+    editorNotes: request.notes ?? null,
+    status: 'pending',
+    liveTitle: post.name,
+    liveContent: live,
+    revision: {
+      title: article.title,
+      metaTitle: article.metaTitle,
+      metaDescription: article.metaDescription,
+      content: article.content,
+      structuredData: article.structuredData,
+      writer: article.writer,
+      model: article.model,
+      wordCount: article.wordCount,
+      score: article.scores?.total ?? null,
+      promptVersion: article.promptVersion ?? null,
+    },
+    ranking: articles
+      .map(candidate => ({
+        writer: candidate.writer,
+        model: candidate.model,
+        score: candidate.scores?.total ?? null,
+        wordCount: candidate.wordCount,
+      }))
+      .sort((a, b) => (b.score ?? -1) - (a.score ?? -1)),
+    diff,
+    flaggedClaims: flaggedClaims(factCheck),
+    usage: sumUsage(items),
+    history: [{ from: null, to: 'pending', actor: request.actor, at: now }],
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Write the revision to the post (content, JSON-LD and meta; name, URL and
+ * publication state stay as they are)
+ */
+export async function applyRefresh(
+  id: string,
+  params: { actor: string; note?: string; force?: boolean },
+  deps: RefreshDeps = {}
+): Promise<PendingUpdate> {
+  const store = deps.store ?? createRefreshStore();
+  const update = await store.get(id);
+  if (!update) {
+    throw new HttpError(404, `Refresh not found: ${id}`);
+  }
+  if (update.status !== 'pending') {
+    throw new HttpError(409, `Refresh ${id} is ${update.status}, not pending`);
+  }
+
+  const odoo = deps.odoo ?? getOdooClient();
+  const post = await odoo.readBlogPost(update.postId, ['content']);
+  if (!post) {
+    throw new HttpError(404, `Odoo blog post not found: ${update.postId}`);
+  }
+  if (!params.force && textKey(liveBody(post.content)) !== textKey(update.liveContent)) {
+    throw new HttpError(409, `Post ${update.postId} changed since refresh ${id} was prepared - refresh again or apply with force`);
+  }
+
+  const jsonLd = renderJsonLd(update.revision.structuredData);
+  await odoo.updateBlogPost(update.postId, {
+    content: jsonLd ? `${update.revision.content}\n${jsonLd}` : update.revision.content,
+    website_meta_title: update.revision.metaTitle,
+    website_meta_description: update.revision.metaDescription,
+  });
+  console.log(`[Refresh] Applied ${id} to blog.post ${update.postId}`);
+
+  return store.transition(id, 'applied', params.actor, params.note);
+}
+
+export function discardRefresh(
+  id: string,
+  params: { actor: string; reason?: string },
+  deps: RefreshDeps = {}
+): Promise<PendingUpdate> {
+  return (deps.store ?? createRefreshStore()).transition(id, 'discarded', params.actor, params.reason);
+}
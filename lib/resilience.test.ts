@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { OUTLINE, fakeConfig } from '../test/fixtures';
+import { generateArticlesWithReport } from './ai-writers';
+import { ProviderError, createProvider, loadProviderConfigs, type FakeBehaviour, type ProviderConfig } from './providers';
+import {
+  CircuitOpenError,
+  ProviderTimeoutError,
+  completeResiliently,
+  createCircuitBreaker,
+  getResilienceConfig,
+  isTransientError,
+  type AttemptCall,
+} from './resilience';
+import { createMemoryStore } from './storage';
+
+let providerCount = 0;
+
+// Fake call counts and circuit state are kept per provider id, so every test gets its own
+function fakeProvider(fake: FakeBehaviour, extra: Partial<ProviderConfig> = {}): ProviderConfig {
+  const id = `fake-${++providerCount}`;
+  const [config] = loadProviderConfigs({ WRITERS_CONFIG: JSON.stringify([{ id, kind: 'fake', model: 'fake-large', fake, ...extra }]) })
+    .filter(provider => provider.id === id);
+  return config;
+}
+
+beforeEach(() => {
+  vi.stubEnv('PROVIDER_RETRIES', '2');
+  vi.stubEnv('PROVIDER_RETRY_BASE_MS', '1');
+  vi.stubEnv('PROVIDER_RETRY_MAX_MS', '2');
+  vi.stubEnv('CIRCUIT_BREAKER_THRESHOLD', '0');
+  return () => vi.unstubAllEnvs();
+});
+
+describe('isTransientError', () => {
+  it('retries rate limits, overload and dropped connections only', () => {
+    expect(isTransientError(new ProviderError(429, 'rate limited'))).toBe(true);
+    expect(isTransientError(new ProviderError(529, 'overloaded'))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('fetch failed'), { cause: { code: 'ECONNRESET' } }))).toBe(true);
+    expect(isTransientError(new ProviderError(400, 'bad request'))).toBe(false);
+    expect(isTransientError(new Error('unknown model'))).toBe(false);
+  });
+});
+
+describe('provider calls', () => {
+  it('retries transient failures with the same model', async () => {
+    const config = fakeProvider({ failures: 2, failStatus: 503, text: 'ok' });
+    const result = await createProvider(config).complete({ prompt: 'x' });
+
+    expect(result).toMatchObject({ text: 'ok', model: 'fake-large' });
+  });
+
+  it('falls back to the fallback model once retries run out', async () => {
+    const config = fakeProvider({ failures: 3, failStatus: 503, text: 'ok' }, { fallbackModel: 'fake-small' });
+    const result = await createProvider(config).complete({ prompt: 'x' });
+
+    expect(result.model).toBe('fake-small');
+  });
+
+  it('goes straight to the fallback model on a non-transient error', async () => {
+    const config = fakeProvider({ failures: 1, failStatus: 400, text: 'ok' }, { fallbackModel: 'fake-small' });
+    const result = await createProvider(config).complete({ prompt: 'x' });
+
+    expect(result.model).toBe('fake-small');
+  });
+
+  it('fails with the last error when every model fails', async () => {
+    const config = fakeProvider({ failures: 10, failStatus: 503 }, { fallbackModel: 'fake-small' });
+    await expect(createProvider(config).complete({ prompt: 'x' })).rejects.toMatchObject({ status: 503, message: expect.stringContaining('failure 6 of 10') });
+  });
+
+  it('stops at the deadline without retrying', async () => {
+    const config = fakeProvider({ delayMs: 500 }, { fallbackModel: 'fake-small' });
+    const started = Date.now();
+
+    await expect(createProvider(config).complete({ prompt: 'x', deadline: Date.now() + 50 })).rejects.toBeInstanceOf(ProviderTimeoutError);
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+});
+
+describe('shared writer deadline', () => {
+  it('keeps the writers that finished in time', async () => {
+    const config = fakeConfig([{ id: 'quick' }, { id: 'slow', fake: { delayMs: 1000 } }]);
+    const report = await generateArticlesWithReport(OUTLINE, config, {}, 200);
+
+    expect(report.articles.map(article => article.writer)).toEqual(['quick']);
+    expect(report.failures).toEqual([expect.objectContaining({ writer: 'slow', error: expect.stringContaining('timed out') })]);
+    expect(report.durationMs).toBeLessThan(900);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('opens after repeated failures and closes after a successful trial call', async () => {
+    vi.stubEnv('CIRCUIT_BREAKER_THRESHOLD', '2');
+    vi.stubEnv('CIRCUIT_BREAKER_COOLDOWN_MS', '100');
+    const config = fakeProvider({ failures: 2, failStatus: 400, text: 'ok' });
+    const provider = createProvider(config);
+    const breaker = createCircuitBreaker();
+
+    await expect(provider.complete({ prompt: 'x' })).rejects.toMatchObject({ status: 400 });
+    await expect(provider.complete({ prompt: 'x' })).rejects.toMatchObject({ status: 400 });
+    expect(await breaker.get(config.id)).toMatchObject({ failures: 2, openUntil: expect.any(String) });
+
+    // Skipped without calling the provider (its third call would succeed)
+    await expect(provider.complete({ prompt: 'x' })).rejects.toBeInstanceOf(CircuitOpenError);
+
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect((await provider.complete({ prompt: 'x' })).text).toBe('ok');
+    expect(await breaker.get(config.id)).toEqual({ failures: 0, openUntil: null, lastError: null });
+  });
+
+  it('is disabled with a threshold of 0', async () => {
+    const config = fakeProvider({ failures: 3, failStatus: 400, text: 'ok' });
+    const provider = createProvider(config);
+
+    for (let call = 0; call < 3; call++) {
+      await expect(provider.complete({ prompt: 'x' })).rejects.toMatchObject({ status: 400 });
+    }
+    expect((await provider.complete({ prompt: 'x' })).text).toBe('ok');
+  });
+});
+
+describe('streaming', () => {
+  const options = {
+    config: { ...getResilienceConfig({ PROVIDER_RETRY_BASE_MS: '1', PROVIDER_RETRY_MAX_MS: '2' }), breakerThreshold: 0 },
+    breaker: createCircuitBreaker(createMemoryStore()),
+  };
+
+  it('does not retry or fall back once tokens were streamed', async () => {
+    const config = fakeProvider({}, { fallbackModel: 'fake-small' });
+    const tokens: string[] = [];
+    const call = vi.fn<AttemptCall>(async (_model, request) => {
+      request.onToken?.('<h1>Po');
+      throw new ProviderError(503, 'stream dropped');
+    });
+
+    await expect(completeResiliently(config, { prompt: 'x', onToken: text => tokens.push(text) }, call, options))
+      .rejects.toThrow('stream dropped');
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(tokens).toEqual(['<h1>Po']);
+  });
+
+  it('retries a stream that failed before the first token', async () => {
+    const config = fakeProvider({});
+    const call = vi.fn<AttemptCall>()
+      .mockRejectedValueOnce(new ProviderError(503, 'overloaded'))
+      .mockImplementation(async (model, request) => {
+        request.onToken?.('ok');
+        return { text: 'ok', model, usage: null };
+      });
+
+    const result = await completeResiliently(config, { prompt: 'x', onToken: () => undefined }, call, options);
+    expect(result.text).toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
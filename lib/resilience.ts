@@ -0,0 +1,291 @@
+/**
+ * Provider Resilience
+ * Retries, deadlines, fallback models and a circuit breaker around every
+ * provider call (writers, briefs, translations, merge edits)
+ *
+ * - Transient errors (429, 5xx, 529 overloaded, connection resets) are
+ *   retried with jittered exponential backoff (PROVIDER_RETRIES times,
+ *   PROVIDER_RETRY_BASE_MS doubling up to PROVIDER_RETRY_MAX_MS).
+ * - Every call has a deadline (WRITER_TIMEOUT_MS after it starts, default
+ *   90 s of the 120 s function limit; JOB_WRITER_TIMEOUT_MS in the async
+ *   worker): attempts are aborted when it passes, so the writers that did
+ *   finish can still be scored, published and archived.
+ * - When the primary model keeps failing, the provider's fallbackModel
+ *   (WRITERS_CONFIG or *_FALLBACK_MODEL) gets the remaining retries and time.
+ * - After CIRCUIT_BREAKER_THRESHOLD failed calls in a row a provider is
+ *   skipped for CIRCUIT_BREAKER_COOLDOWN_MS; the next call after that is a
+ *   trial that closes the circuit again or re-opens it. The state lives in
+ *   the shared store so every function invocation sees it.
+ *
+ * Streaming calls are not retried once tokens were sent to the client.
+ */
+
+import type { CompletionRequest, CompletionResult, ProviderConfig } from './providers';
+import { getStore, type KeyValueStore } from './storage';
+
+// Types
+export interface ResilienceConfig {
+  retries: number; // per model
+  baseDelayMs: number;
+  maxDelayMs: number;
+  writerTimeoutMs: number;
+  jobWriterTimeoutMs: number;
+  breakerThreshold: number; // 0 disables the circuit breaker
+  breakerCooldownMs: number;
+}
+
+export interface CircuitState {
+  failures: number; // failed calls in a row
+  openUntil: string | null;
+  lastError: string | null;
+}
+
+export type AttemptCall = (model: string, request: CompletionRequest) => Promise<CompletionResult>;
+
+type Env = Record<string, string | undefined>;
+
+const CIRCUIT_PREFIX = 'circuit:';
+
+// HTTP statuses worth another attempt (529: Anthropic overloaded)
+const TRANSIENT_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504, 529];
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+/**
+ * Provider call that ran out of time (not retried - the deadline is shared)
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} timed out after ${timeoutMs}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Provider skipped because its circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(provider: string, public readonly openUntil: string) {
+    super(`${provider} skipped: circuit open until ${openUntil} after repeated failures`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = value !== undefined && value !== '' ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getResilienceConfig(env: Env = process.env): ResilienceConfig {
+  return {
+    retries: Math.floor(numberFromEnv(env.PROVIDER_RETRIES, 2)),
+    baseDelayMs: numberFromEnv(env.PROVIDER_RETRY_BASE_MS, 1000),
+    maxDelayMs: numberFromEnv(env.PROVIDER_RETRY_MAX_MS, 8000),
+    writerTimeoutMs: numberFromEnv(env.WRITER_TIMEOUT_MS, 90_000),
+    jobWriterTimeoutMs: numberFromEnv(env.JOB_WRITER_TIMEOUT_MS, 240_000),
+    breakerThreshold: Math.floor(numberFromEnv(env.CIRCUIT_BREAKER_THRESHOLD, 3)),
+    breakerCooldownMs: numberFromEnv(env.CIRCUIT_BREAKER_COOLDOWN_MS, 15 * 60_000),
+  };
+}
+
+/**
+ * Rate limits, overload, server errors and dropped connections
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { status, code, name, cause, message } = error as {
+    status?: unknown;
+    code?: unknown;
+    name?: unknown;
+    cause?: unknown;
+    message?: unknown;
+  };
+
+  if (typeof status === 'number') {
+    return TRANSIENT_STATUSES.includes(status);
+  }
+  if (typeof code === 'string' && TRANSIENT_CODES.includes(code)) {
+    return true;
+  }
+  // SDK connection errors carry no status; fetch wraps the socket error in cause
+  if (name === 'APIConnectionError' || name === 'APIConnectionTimeoutError' || message === 'fetch failed') {
+    return true;
+  }
+  return cause !== undefined && cause !== error && isTransientError(cause);
+}
+
+/**
+ * Exponential backoff with full jitter in its upper half
+ */
+export function backoffDelay(attempt: number, config: ResilienceConfig, random: () => number = Math.random): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (ceiling / 2) * random());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run one attempt with an abort signal that fires after timeoutMs
+ */
+async function withTimeout<T>(
+  provider: string,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderTimeoutError(provider, timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    // The race also covers SDK calls that ignore the signal
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createCircuitBreaker(kv: KeyValueStore = getStore(), config: ResilienceConfig = getResilienceConfig()) {
+  const key = (provider: string) => `${CIRCUIT_PREFIX}${provider}`;
+
+  // Breaker bookkeeping must never fail the call it guards
+  async function read(provider: string): Promise<CircuitState | null> {
+    try {
+      return await kv.get<CircuitState>(key(provider));
+    } catch (error) {
+      console.error(`[Resilience] Failed to read circuit state of ${provider}:`, error);
+      return null;
+    }
+  }
+
+  async function write(provider: string, state: CircuitState): Promise<void> {
+    try {
+      await kv.set(key(provider), state);
+    } catch (error) {
+      console.error(`[Resilience] Failed to save circuit state of ${provider}:`, error);
+    }
+  }
+
+  return {
+    async assertClosed(provider: string): Promise<void> {
+      if (config.breakerThreshold === 0) {
+        return;
+      }
+      const state = await read(provider);
+      if (state?.openUntil && Date.parse(state.openUntil) > Date.now()) {
+        throw new CircuitOpenError(provider, state.openUntil);
+      }
+    },
+
+    async recordSuccess(provider: string): Promise<void> {
+      if (config.breakerThreshold === 0) {
+        return;
+      }
+      const state = await read(provider);
+      if (state && state.failures > 0) {
+        if (state.openUntil) {
+          console.log(`[Resilience] ${provider}: circuit closed`);
+        }
+        await write(provider, { failures: 0, openUntil: null, lastError: null });
+      }
+    },
+
+    async recordFailure(provider: string, error: unknown): Promise<void> {
+      if (config.breakerThreshold === 0) {
+        return;
+      }
+      const state = await read(provider);
+      const failures = (state?.failures ?? 0) + 1;
+      const open = failures >= config.breakerThreshold;
+      const openUntil = open ? new Date(Date.now() + config.breakerCooldownMs).toISOString() : null;
+      if (open) {
+        console.warn(`[Resilience] ${provider}: circuit open until ${openUntil} after ${failures} failed calls`);
+      }
+      await write(provider, {
+        failures,
+        openUntil,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+    },
+
+    get(provider: string): Promise<CircuitState | null> {
+      return read(provider);
+    },
+  };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+/**
+ * One provider call with retries, fallback model, deadline and circuit breaker
+ */
+export async function completeResiliently(
+  provider: ProviderConfig,
+  request: CompletionRequest,
+  call: AttemptCall,
+  options: { config?: ResilienceConfig; breaker?: CircuitBreaker } = {}
+): Promise<CompletionResult> {
+  const config = options.config ?? getResilienceConfig();
+  const breaker = options.breaker ?? createCircuitBreaker(getStore(), config);
+  const startedAt = Date.now();
+  const deadline = request.deadline ?? startedAt + config.writerTimeoutMs;
+
+  await breaker.assertClosed(provider.id);
+
+  // Tokens already streamed to the client cannot be taken back
+  let streamed = false;
+  const onToken = request.onToken && ((text: string) => {
+    streamed = true;
+    request.onToken?.(text);
+  });
+
+  const models = [provider.model, ...(provider.fallbackModel && provider.fallbackModel !== provider.model ? [provider.fallbackModel] : [])];
+  let lastError: unknown = null;
+
+  for (const model of models) {
+    if (model !== provider.model) {
+      console.warn(`[Resilience] ${provider.id}: falling back to ${model}`);
+    }
+
+    for (let attempt = 0; attempt <= config.retries; attempt++) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        lastError = new ProviderTimeoutError(provider.id, deadline - startedAt);
+        break;
+      }
+
+      try {
+        const result = await withTimeout(provider.id, remaining, signal => call(model, { ...request, onToken, signal }));
+        await breaker.recordSuccess(provider.id);
+        return result;
+      } catch (error) {
+        lastError = error instanceof ProviderTimeoutError ? new ProviderTimeoutError(provider.id, deadline - startedAt) : error;
+        if (error instanceof ProviderTimeoutError || streamed) {
+          break;
+        }
+        // Non-transient errors (bad request, unknown model, auth) go straight to the fallback model
+        if (!isTransientError(error) || attempt === config.retries) {
+          break;
+        }
+
+        const delay = Math.min(backoffDelay(attempt, config), Math.max(0, deadline - Date.now()));
+        console.warn(`[Resilience] ${provider.id} (${model}) attempt ${attempt + 1} failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+        await sleep(delay);
+      }
+    }
+
+    if (lastError instanceof ProviderTimeoutError || streamed) {
+      break;
+    }
+  }
+
+  await breaker.recordFailure(provider.id, lastError);
+  throw lastError;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { makeRun } from '../test/fixtures';
+import { createRunId, createRunStore, getSelectedArticle, summarizeRun } from './run-history';
+import { createMemoryStore } from './storage';
+
+describe('createRunId', () => {
+  it('starts with a sortable timestamp', () => {
+    expect(createRunId(new Date('2025-03-10T09:00:00.123Z'))).toMatch(/^20250310T090000Z-[0-9a-f]{6}$/);
+  });
+});
+
+describe('summarizeRun', () => {
+  it('reports writers, failures and the selected article', () => {
+    const run = makeRun();
+    const summary = summarizeRun(run);
+
+    expect(summary.selectedWriter).toBe('claude');
+    expect(summary.writers).toEqual(['claude', 'gemini']);
+    expect(summary.failedWriters).toEqual(['chatgpt']);
+    expect(summary.language).toBe('pl');
+    expect(summary.odooPostId).toBeNull();
+    expect(getSelectedArticle(run)?.writer).toBe('claude');
+  });
+});
+
+describe('createRunStore', () => {
+  it('lists runs newest first with filters', async () => {
+    const store = createRunStore(createMemoryStore());
+    const older = await store.save(makeRun({}, new Date('2025-03-01T09:00:00Z')));
+    const newer = await store.save(makeRun({ source: 'cron' }, new Date('2025-03-05T09:00:00Z')));
+
+    expect((await store.list()).map(run => run.id)).toEqual([newer.id, older.id]);
+    expect((await store.list({ source: 'cron' })).map(run => run.id)).toEqual([newer.id]);
+    expect((await store.list({ to: '2025-03-02' })).map(run => run.id)).toEqual([older.id]);
+    expect(await store.list({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('keeps earlier Odoo publications in the history', async () => {
+    const store = createRunStore(createMemoryStore());
+    const run = await store.save(makeRun());
+
+    await store.recordOdoo(run.id, { postId: 7, writer: 'claude', status: 'draft', at: '2025-03-10T10:00:00Z' });
+    const updated = await store.recordOdoo(run.id, { postId: 7, writer: 'gemini', status: 'draft', at: '2025-03-10T11:00:00Z' });
+
+    expect(updated.odoo?.writer).toBe('gemini');
+    expect(updated.odooHistory.map(publication => publication.writer)).toEqual(['claude']);
+  });
+
+  it('rejects writers without a candidate and unknown runs', async () => {
+    const store = createRunStore(createMemoryStore());
+    const run = await store.save(makeRun());
+
+    await expect(store.selectWriter(run.id, 'chatgpt')).rejects.toMatchObject({ status: 400 });
+    await expect(store.selectWriter('missing', 'claude')).rejects.toMatchObject({ status: 404 });
+    expect((await store.selectWriter(run.id, 'gemini')).selectedWriter).toBe('gemini');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Run History
+ * Archive of every generation run (API, cron and translations)
+ *
+ * A run keeps the outline, every candidate article with its scores, the
+ * selected writer, per-writer timings, errors from rejected writers and the
+ * Odoo result, so an editor can later swap in an alternative and republish
+ * it without paying for a new generation. Translations are runs of their
+ * own, linked both ways to the run they were translated from.
+ */
+
+import { randomBytes } from 'crypto';
+import type {
+  ArticleCategory,
+  ArticleOutline,
+  GeneratedArticle,
+  GenerationReport,
+  TranslationSource,
+  WriterFailure,
+  WriterTiming,
+} from './ai-writers';
+import type { ApprovalStatus } from './approvals';
+import type { DuplicateReport } from './duplicate-guard';
+import type { FactCheckReport } from './fact-check';
+import { HttpError } from './http';
+import type { LinkReport } from './internal-links';
+import type { Language } from './languages';
+import { getStore, type KeyValueStore } from './storage';
+import { articleUsage } from './usage';
+
+// Types
+export type RunSource = 'api' | 'cron' | 'translation' | 'cli';
+
+export const RUN_SOURCES: RunSource[] = ['api', 'cron', 'translation', 'cli'];
+
+export interface TranslationLink {
+  language: Language;
+  runId: string;
+  writer: string; // source candidate that was translated
+  at: string;
+}
+
+export interface OdooPublication {
+  postId: number | null;
+  writer: string;
+  status: 'draft' | 'failed';
+  error?: string;
+  links?: LinkReport; // internal links resolved / removed before publishing
+  at: string;
+}
+
+export interface GenerationRun {
+  id: string;
+  source: RunSource;
+  category: ArticleCategory;
+  outline: ArticleOutline;
+  topicId: string | null;
+  candidates: GeneratedArticle[];
+  selectedWriter: string | null;
+  failures: WriterFailure[];
+  timings: WriterTiming[];
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  odoo: OdooPublication | null;
+  // Earlier publications, kept when an alternative is republished
+  odooHistory: OdooPublication[];
+  translationOf?: TranslationSource | null; // set on translation runs
+  translations?: TranslationLink[]; // set on source runs
+  duplicates?: DuplicateReport; // similarity to earlier runs (pipeline runs)
+  factCheck?: FactCheckReport; // claims of the selected article checked against verified facts
+  approval?: ApprovalStatus; // review status of the Odoo draft, mirrored from lib/approvals.ts
+}
+
+export interface RunSummary {
+  id: string;
+  source: RunSource;
+  category: ArticleCategory;
+  language: Language;
+  topic: string;
+  selectedWriter: string | null;
+  writers: string[];
+  failedWriters: string[];
+  bestScore: number | null;
+  costUsd: number | null; // null when no candidate reported usage
+  promptVersion: string | null; // prompt template of the run (lib/prompt-templates.ts)
+  startedAt: string;
+  durationMs: number;
+  odooPostId: number | null;
+}
+
+export interface RunFilter {
+  category?: ArticleCategory;
+  writer?: string; // selected writer
+  source?: RunSource;
+  from?: string; // ISO date (inclusive)
+  to?: string; // ISO date (inclusive)
+  limit?: number;
+}
+
+export interface RunStore {
+  save(run: GenerationRun): Promise<GenerationRun>;
+  get(id: string): Promise<GenerationRun | null>;
+  list(filter?: RunFilter): Promise<GenerationRun[]>;
+  selectWriter(id: string, writer: string): Promise<GenerationRun>;
+  recordOdoo(id: string, publication: OdooPublication): Promise<GenerationRun>;
+  recordTranslation(id: string, link: TranslationLink): Promise<GenerationRun>;
+  recordApproval(id: string, status: ApprovalStatus): Promise<GenerationRun>;
+}
+
+const RUN_PREFIX = 'run:';
+const DEFAULT_LIST_LIMIT = 50;
+
+/**
+ * Sortable run id: timestamp first so key order is chronological
+ */
+export function createRunId(date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Build a run record from a generation report
+ */
+export function createRun(params: {
+  source: RunSource;
+  outline: ArticleOutline;
+  report: GenerationReport;
+  selected: GeneratedArticle | null;
+  startedAt: Date;
+  topicId?: string | null;
+  translationOf?: TranslationSource | null;
+}): GenerationRun {
+  const completedAt = new Date();
+
+  return {
+    id: createRunId(params.startedAt),
+    source: params.source,
+    category: params.outline.category,
+    outline: params.outline,
+    topicId: params.topicId ?? null,
+    candidates: params.report.articles,
+    selectedWriter: params.selected?.writer ?? null,
+    failures: params.report.failures,
+    timings: params.report.timings,
+    startedAt: params.startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs: completedAt.getTime() - params.startedAt.getTime(),
+    odoo: null,
+    odooHistory: [],
+    translationOf: params.translationOf ?? null,
+    translations: [],
+  };
+}
+
+/**
+ * Candidate currently selected for the run
+ */
+export function getSelectedArticle(run: GenerationRun): GeneratedArticle | null {
+  return run.candidates.find(article => article.writer === run.selectedWriter) ?? null;
+}
+
+/**
+ * Compact listing entry (no article bodies)
+ */
+export function summarizeRun(run: GenerationRun): RunSummary {
+  const scores = run.candidates
+    .map(article => article.scores?.total)
+    .filter((score): score is number => typeof score === 'number');
+  const costs = run.candidates
+    .flatMap(articleUsage)
+    .map(usage => usage.costUsd)
+    .filter((cost): cost is number => typeof cost === 'number');
+
+  return {
+    id: run.id,
+    source: run.source,
+    category: run.category,
+    language: run.outline.language ?? 'pl',
+    topic: run.outline.topic,
+    selectedWriter: run.selectedWriter,
+    writers: run.candidates.map(article => article.writer),
+    failedWriters: run.failures.map(failure => failure.writer),
+    bestScore: scores.length > 0 ? Math.max(...scores) : null,
+    costUsd: costs.length > 0 ? Math.round(costs.reduce((sum, cost) => sum + cost, 0) * 1e6) / 1e6 : null,
+    promptVersion: run.candidates.find(article => article.promptVersion)?.promptVersion ?? null,
+    startedAt: run.startedAt,
+    durationMs: run.durationMs,
+    odooPostId: run.odoo?.postId ?? null,
+  };
+}
+
+function matchesFilter(run: GenerationRun, filter: RunFilter): boolean {
+  const day = run.startedAt.slice(0, 10);
+  return (!filter.category || run.category === filter.category) &&
+    (!filter.writer || run.selectedWriter === filter.writer) &&
+    (!filter.source || run.source === filter.source) &&
+    (!filter.from || day >= filter.from.slice(0, 10)) &&
+    (!filter.to || day <= filter.to.slice(0, 10));
+}
+
+export function createRunStore(kv: KeyValueStore = getStore()): RunStore {
+  async function getOrThrow(id: string): Promise<GenerationRun> {
+    const run = await kv.get<GenerationRun>(`${RUN_PREFIX}${id}`);
+    if (!run) {
+      throw new HttpError(404, `Run not found: ${id}`);
+    }
+    return run;
+  }
+
+  const store: RunStore = {
+    async save(run) {
+      await kv.set(`${RUN_PREFIX}${run.id}`, run);
+      return run;
+    },
+
+    get(id) {
+      return kv.get<GenerationRun>(`${RUN_PREFIX}${id}`);
+    },
+
+    async list(filter = {}) {
+      const limit = filter.limit ?? DEFAULT_LIST_LIMIT;
+      // Newest first; keys sort chronologically
+      const keys = (await kv.keys(RUN_PREFIX)).reverse();
+      const runs: GenerationRun[] = [];
+
+      for (const key of keys) {
+        const run = await kv.get<GenerationRun>(key);
+        if (run && matchesFilter(run, filter)) {
+          runs.push(run);
+          if (runs.length >= limit) {
+            break;
+          }
+        }
+      }
+      return runs;
+    },
+
+    async selectWriter(id, writer) {
+      const run = await getOrThrow(id);
+      if (!run.candidates.some(article => article.writer === writer)) {
+        throw new HttpError(400, `Run ${id} has no candidate from writer: ${writer}`);
+      }
+      return store.save({ ...run, selectedWriter: writer });
+    },
+
+    async recordOdoo(id, publication) {
+      const run = await getOrThrow(id);
+      return store.save({
+        ...run,
+        odoo: publication,
+        odooHistory: run.odoo ? [...run.odooHistory, run.odoo] : run.odooHistory,
+      });
+    },
+
+    async recordTranslation(id, link) {
+      const run = await getOrThrow(id);
+      // One current translation per language; a newer one replaces the link
+      const translations = (run.translations ?? []).filter(existing => existing.language !== link.language);
+      return store.save({ ...run, translations: [...translations, link] });
+    },
+
+    async recordApproval(id, status) {
+      const run = await getOrThrow(id);
+      return store.save({ ...run, approval: status });
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Persist a run without failing the caller - losing the archive entry
+ * must not lose an article that was already generated
+ */
+export async function saveRunSafely(store: RunStore, run: GenerationRun): Promise<string | null> {
+  try {
+    await store.save(run);
+    console.log(`[History] Saved run ${run.id}`);
+    return run.id;
+  } catch (error) {
+    console.error('[History] Failed to save run:', error);
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { ARTICLE_HTML, OUTLINE, makeArticle } from '../test/fixtures';
+import type { Language } from './languages';
+import {
+  countStatistics,
+  countSyllablesEn,
+  countSyllablesPl,
+  fleschReadingEase,
+  readabilityIndexesPl,
+  scoreArticle,
+} from './scoring';
+
+describe('readabilityIndexesPl', () => {
+  it('computes FOG-PL and Pisarek from sentence length and hard words', () => {
+    // 4 words, 2 sentences, 1 hard word ("elektryfikacja", 6 syllables)
+    const result = readabilityIndexesPl('Elektryfikacja trwa. Kot śpi.');
+
+    expect(result.wordsPerSentence).toBe(2);
+    expect(result.hardWordPercent).toBe(25);
+    expect(result.fogPl).toBeCloseTo(10.8, 5);
+    expect(result.pisarek).toBeCloseTo(Math.sqrt(629) / 2, 5);
+  });
+
+  it('returns zeros for empty text', () => {
+    expect(readabilityIndexesPl('')).toEqual({ fogPl: 0, pisarek: 0, wordsPerSentence: 0, hardWordPercent: 0 });
+  });
+
+  it('counts Polish syllables by vowel groups', () => {
+    expect(countSyllablesPl('kompensacja')).toBe(4);
+    expect(countSyllablesPl('moc')).toBe(1);
+  });
+});
+
+describe('fleschReadingEase', () => {
+  it('uses the English Flesch formula', () => {
+    const result = fleschReadingEase('The cat sat. The dog ran.', 'en');
+
+    expect(result.wordsPerSentence).toBe(3);
+    expect(result.syllablesPerWord).toBe(1);
+    expect(result.score).toBeCloseTo(206.835 - 1.015 * 3 - 84.6, 5);
+  });
+
+  it('uses the Amstad formula for German', () => {
+    // 7 syllables in 6 words ("Katze" has two)
+    const result = fleschReadingEase('Der Hund lief. Die Katze schlief.', 'de');
+
+    expect(result.syllablesPerWord).toBeCloseTo(7 / 6, 5);
+    expect(result.score).toBeCloseTo(180 - 3 - 58.5 * (7 / 6), 5);
+  });
+
+  it('drops the silent final e in English', () => {
+    expect(countSyllablesEn('simple')).toBe(2);
+    expect(countSyllablesEn('make')).toBe(1);
+  });
+});
+
+describe('countStatistics', () => {
+  it('counts figures with units', () => {
+    expect(countStatistics('Oszczędność 25%, bateria 120 kvar, sieć 15 kV, zwrot w 2 lata, 300 zł miesięcznie.')).toBe(5);
+  });
+
+  it('ignores numbers followed by ordinary words', () => {
+    expect(countStatistics('W mieście są 3 apteki, 2 kwiaty i 4 auta.')).toBe(0);
+  });
+});
+
+describe('scoreArticle', () => {
+  it.each<[Language, string]>([
+    ['pl', 'fog_pl'],
+    ['cs', 'fog_cs'],
+    ['en', 'flesch_en'],
+    ['de', 'amstad_de'],
+  ])('scores readability of %s with %s', (language, id) => {
+    const scores = scoreArticle(makeArticle(), { ...OUTLINE, language });
+    expect(scores.breakdown.some(item => item.id === id)).toBe(true);
+  });
+
+  it('reports group scores within 0-100', () => {
+    const scores = scoreArticle(makeArticle({}, ARTICLE_HTML), OUTLINE);
+
+    for (const value of [scores.seo, scores.readability, scores.engagement, scores.total]) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(100);
+    }
+    expect(scores.breakdown.find(item => item.id === 'statistics')?.detail).toBe('0 figures');
+  });
+
+  it.each<[string, Language, string, string]>([
+    ['finds a call to action at the end', 'en', '<p>Contact us for a free audit.</p>', '"contact us"'],
+    ['finds a Polish call to action', 'pl', '<p>Skontaktuj się z nami po bezpłatny audyt.</p>', '"skontaktuj"'],
+    ['matches Polish stems', 'pl', '<p>Zamówienie złożysz w formularzu.</p>', '"zamow"'],
+    ['ignores words that only contain a CTA', 'en', '<p>In order to keep the information in this format, performance matters.</p>', 'missing'],
+    ['ignores Polish words that only contain a CTA', 'pl', '<p>Pomiar bezkontaktowy to kwestia rozumowania.</p>', 'missing'],
+  ])('%s', (_name, language, closing, detail) => {
+    const article = makeArticle({ language }, `<title>T</title><h2>Intro</h2><p>${'Reactive power costs money. '.repeat(20)}</p>${closing}`);
+    const scores = scoreArticle(article, { ...OUTLINE, language });
+
+    expect(scores.breakdown.find(item => item.id === 'cta')?.detail).toBe(detail);
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * Article Scoring Module
+ * Deterministic, offline SEO / readability / engagement scoring
+ *
+ * Every criterion reports its own points so editors can see why one
+ * writer beat another. Keyword matching is case- and diacritic-insensitive
+ * and tolerant of Polish inflection (matches on word stems).
+ *
+ * Readability and CTA detection follow the outline's language:
+ * FOG-PL (pl), FOG with Czech syllables (cs), Flesch Reading Ease (en)
+ * and Amstad's German Flesch (de).
+ */
+
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import { getLanguage, type Language } from './languages';
+
+// Types
+export type ScoreGroup = 'seo' | 'readability' | 'engagement';
+
+export interface ScoreCriterion {
+  id: string;
+  group: ScoreGroup;
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+export interface ArticleScores {
+  seo: number;
+  readability: number;
+  engagement: number;
+  total: number;
+  breakdown: ScoreCriterion[];
+}
+
+// Weights of each group in the total score
+const GROUP_WEIGHTS: Record<ScoreGroup, number> = {
+  seo: 0.45,
+  readability: 0.25,
+  engagement: 0.3,
+};
+
+// Targets taken from the built-in writing guide (lib/default-prompts.ts)
+const KEYWORD_DENSITY_MIN = 1;
+const KEYWORD_DENSITY_MAX = 2;
+const FAQ_MIN = 5;
+const FAQ_MAX = 7;
+const LENGTH_TOLERANCE = 0.1;
+
+// FOG-PL: 7-12 is comfortable for a professional (B2B) audience
+const FOG_PL_IDEAL_MAX = 12;
+const FOG_PL_IDEAL_MIN = 7;
+const FOG_PL_UNREADABLE = 20;
+
+// Flesch (en) / Amstad (de): 40+ is fine for B2B, below 10 is unreadable
+const FLESCH_IDEAL_MIN = 40;
+const FLESCH_UNREADABLE = 10;
+
+// Number followed by a whole-word unit; no one-letter units (V/A match too many words)
+const STATISTIC_PATTERN = /\d+([.,]\d+)?\s?(%|zł|€|eur|kč|kvar|kv|kwh|kw|mwh|lata?|miesi\p{L}*|years|jahre|let)(?![\p{L}\p{N}])/giu;
+
+// Normalised (lowercase, no diacritics) CTA phrases per language, matched as whole
+// words; a trailing * marks a stem ("zamow*": zamów, zamówienie)
+const CTA_PATTERNS: Record<Language, string[]> = {
+  pl: [
+    'skontaktuj*', 'zadzwon*', 'napisz do nas', 'zamow*', 'sprawdz ofert*', 'umow*',
+    'popros o', 'zapytaj o', 'wycen*', 'kontakt*', 'formularz*', 'dowiedz sie wiecej',
+  ],
+  en: [
+    'contact us', 'get in touch', 'call us', 'request a quote', 'get a quote', 'book a',
+    'order now', 'place an order', 'ask for', 'learn more', 'find out more', 'contact', 'fill in the form',
+  ],
+  de: [
+    'kontaktieren*', 'rufen sie', 'schreiben sie', 'anfrage*', 'angebot*', 'bestellen*',
+    'vereinbaren*', 'beratung*', 'mehr erfahren', 'kontakt*', 'formular*',
+  ],
+  cs: [
+    'kontaktujte', 'zavolejte', 'napiste nam', 'objednejte', 'poptavk*', 'nabidk*',
+    'domluvte', 'zjistete vice', 'vice informaci', 'kontakt*', 'formular*',
+  ],
+};
+
+/**
+ * Lowercase and strip Polish diacritics so that "oszczednosci" matches "oszczędności"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Strip HTML tags and decode the few entities LLMs commonly emit
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/(p|h[1-6]|li|td|th|tr|div|dt|dd|blockquote)>/gi, '$&\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*/g, '\n')
+    .trim();
+}
+
+export function countWords(text: string): number {
+  const words = text.match(/[\p{L}\p{N}][\p{L}\p{N}'-]*/gu);
+  return words ? words.length : 0;
+}
+
+/**
+ * Build a regex that matches a keyword phrase with inflected endings
+ * ("kompensacja mocy biernej" also matches "kompensacji mocy biernej")
+ */
+function keywordPattern(keyword: string): RegExp {
+  const stems = normalizeText(keyword)
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => {
+      const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return word.length > 5 ? `${escaped.slice(0, -2)}[\\p{L}]{0,4}` : `${escaped}[\\p{L}]{0,2}`;
+    });
+  return new RegExp(`(?<![\\p{L}])${stems.join('\\s+')}(?![\\p{L}])`, 'gu');
+}
+
+export function countKeyword(normalizedText: string, keyword: string): number {
+  const matches = normalizedText.match(keywordPattern(keyword));
+  return matches ? matches.length : 0;
+}
+
+// Function words (pl/en/de/cs) that carry no topic
+const STOPWORDS = new Set([
+  'dla', 'jak', 'sie', 'czy', 'nie', 'ich', 'jej', 'tym', 'tak', 'gdy', 'ten', 'tez', 'ale', 'lub', 'pod',
+  'oraz', 'jest', 'przez', 'ktore', 'ktory', 'ktora', 'jako', 'moze', 'tego', 'takze', 'rowniez',
+  'bardzo', 'wiecej', 'warto', 'artykul', 'artykule', 'blog', 'the', 'and', 'for', 'are', 'how',
+  'with', 'that', 'this', 'more', 'from', 'your', 'about', 'der', 'die', 'das', 'und', 'mit', 'von',
+  'ist', 'wie', 'oder', 'eine', 'einer', 'mehr', 'pro', 'nebo', 'jsou', 'vice',
+]);
+
+/**
+ * Topic-bearing words cut to a common prefix so inflected forms meet
+ * (used for link matching and duplicate detection, not for scoring)
+ */
+export function wordStems(text: string, length = 5): string[] {
+  const words = normalizeText(text).match(/\p{L}+/gu) || [];
+  return words
+    .filter(word => word.length >= 3 && !STOPWORDS.has(word))
+    .map(word => word.slice(0, length));
+}
+
+function extractTags(html: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'gi');
+  return Array.from(html.matchAll(pattern), match => htmlToText(match[1]));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => countWords(sentence) > 0);
+}
+
+/**
+ * Polish syllable count: one syllable per vowel group (i before a vowel only softens)
+ */
+export function countSyllablesPl(word: string): number {
+  const groups = normalizeText(word).match(/[aeiouy]+/g);
+  return groups ? groups.length : 0;
+}
+
+/**
+ * Czech syllable count: vowel groups plus syllabic r/l between consonants ("vlk", "prst")
+ */
+export function countSyllablesCs(word: string): number {
+  const normalized = normalizeText(word);
+  const vowels = normalized.match(/[aeiouy]+/g)?.length ?? 0;
+  const syllabic = normalized.match(/(?<=[^aeiouy]|^)[rl](?=[^aeiouy]|$)/g)?.length ?? 0;
+  return vowels + (normalized.length > 1 ? syllabic : 0);
+}
+
+/**
+ * English syllable count: vowel groups, minus a silent final "e" (but not "-le")
+ */
+export function countSyllablesEn(word: string): number {
+  const normalized = normalizeText(word).replace(/[^a-z]/g, '');
+  if (normalized.length <= 3) {
+    return normalized.length > 0 ? 1 : 0;
+  }
+  const groups = normalized.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+/**
+ * Flesch Reading Ease (en) or Amstad's German adaptation (de)
+ */
+export function fleschReadingEase(text: string, language: 'en' | 'de'): {
+  score: number;
+  wordsPerSentence: number;
+  syllablesPerWord: number;
+} {
+  const sentences = splitSentences(text);
+  const words: string[] = text.match(/[\p{L}]+/gu) || [];
+
+  if (sentences.length === 0 || words.length === 0) {
+    return { score: 0, wordsPerSentence: 0, syllablesPerWord: 0 };
+  }
+
+  // German diphthongs (ei, au, eu, ie) are single vowel groups, so the Polish counter fits
+  const countSyllables = language === 'en' ? countSyllablesEn : countSyllablesPl;
+  const syllables = words.reduce((sum, word) => sum + Math.max(1, countSyllables(word)), 0);
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord = syllables / words.length;
+
+  const score = language === 'en'
+    ? 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+    : 180 - wordsPerSentence - 58.5 * syllablesPerWord;
+
+  return { score, wordsPerSentence, syllablesPerWord };
+}
+
+/**
+ * FOG-PL (Broda, Jasnopis) and Pisarek readability indexes.
+ * Hard words are words with 4 or more syllables. Czech uses the same
+ * formula with its own syllable counter.
+ */
+export function readabilityIndexesPl(text: string, countSyllables = countSyllablesPl): {
+  fogPl: number;
+  pisarek: number;
+  wordsPerSentence: number;
+  hardWordPercent: number;
+} {
+  const sentences = splitSentences(text);
+  const words = text.match(/[\p{L}]+/gu) || [];
+
+  if (sentences.length === 0 || words.length === 0) {
+    return { fogPl: 0, pisarek: 0, wordsPerSentence: 0, hardWordPercent: 0 };
+  }
+
+  const hardWords = words.filter(word => countSyllables(word) >= 4).length;
+  const wordsPerSentence = words.length / sentences.length;
+  const hardWordPercent = (hardWords / words.length) * 100;
+
+  return {
+    fogPl: 0.4 * (wordsPerSentence + hardWordPercent),
+    pisarek: Math.sqrt(wordsPerSentence ** 2 + hardWordPercent ** 2) / 2,
+    wordsPerSentence,
+    hardWordPercent,
+  };
+}
+
+/**
+ * Figures with a unit (percent, currency, power, duration). The unit must end
+ * the word, so "3 apteki" or "2 kwiaty" are not statistics.
+ */
+export function countStatistics(text: string): number {
+  return (text.match(STATISTIC_PATTERN) || []).length;
+}
+
+/**
+ * HTML of the FAQ section: from its h2 (FAQ / pytania / questions / Fragen /
+ * otázky / dotazy) up to the next h2
+ */
+export function extractFaqSection(html: string): string | null {
+  const faqStart = html.search(/<h2[^>]*>[^<]*(FAQ|pytani|question|fragen|otázk|otazk|dotaz)/i);
+  if (faqStart < 0) {
+    return null;
+  }
+  const rest = html.slice(faqStart);
+  const nextH2 = rest.slice(1).search(/<h2[\s>]/i);
+  return nextH2 >= 0 ? rest.slice(0, nextH2 + 1) : rest;
+}
+
+/**
+ * Count FAQ questions: h3/h4/dt/strong entries inside the FAQ section,
+ * falling back to any heading phrased as a question
+ */
+export function countFaqQuestions(html: string): number {
+  const section = extractFaqSection(html);
+  if (section) {
+    const questions = [
+      ...extractTags(section, 'h3'),
+      ...extractTags(section, 'h4'),
+      ...extractTags(section, 'dt'),
+      ...extractTags(section, 'strong'),
+    ].filter(text => text.trim().endsWith('?'));
+    if (questions.length > 0) {
+      return questions.length;
+    }
+  }
+
+  return [...extractTags(html, 'h3'), ...extractTags(html, 'h4')]
+    .filter(text => text.trim().endsWith('?')).length;
+}
+
+function criterion(
+  group: ScoreGroup,
+  id: string,
+  label: string,
+  maxPoints: number,
+  ratio: number,
+  detail: string
+): ScoreCriterion {
+  const clamped = Math.max(0, Math.min(1, ratio));
+  return { id, group, label, maxPoints, points: Math.round(clamped * maxPoints * 10) / 10, detail };
+}
+
+function scoreSeo(html: string, text: string, outline: ArticleOutline): ScoreCriterion[] {
+  const normalized = normalizeText(text);
+  const wordCount = countWords(text);
+  const keywords = outline.keywords.filter(keyword => keyword.trim());
+  const mainKeyword = keywords[0] || outline.topic;
+
+  // Keyword density (all keyword phrases, weighted by phrase length)
+  const keywordWords = keywords.reduce(
+    (sum, keyword) => sum + countKeyword(normalized, keyword) * countWords(keyword),
+    0
+  );
+  const density = wordCount > 0 ? (keywordWords / wordCount) * 100 : 0;
+  let densityRatio = 0;
+  if (density >= KEYWORD_DENSITY_MIN && density <= KEYWORD_DENSITY_MAX) {
+    densityRatio = 1;
+  } else if (density >= KEYWORD_DENSITY_MIN / 2 && density <= KEYWORD_DENSITY_MAX * 1.5) {
+    densityRatio = 0.5;
+  }
+
+  // Main keyword in the first paragraph
+  const firstParagraph = normalizeText(extractTags(html, 'p')[0] || text.split('\n')[0] || '');
+  const inFirstParagraph = countKeyword(firstParagraph, mainKeyword) > 0;
+
+  // Keywords in h2/h3 headings
+  const headings = normalizeText([...extractTags(html, 'h2'), ...extractTags(html, 'h3')].join('\n'));
+  const keywordsInHeadings = keywords.filter(keyword => countKeyword(headings, keyword) > 0);
+  const headingRatio = keywords.length > 0
+    ? keywordsInHeadings.length / Math.min(keywords.length, 3)
+    : 0;
+
+  // Required sections covered by a heading
+  const sectionsCovered = outline.sections.filter(section =>
+    countKeyword(headings, section) > 0 || headings.includes(normalizeText(section))
+  );
+  const sectionRatio = outline.sections.length > 0 ? sectionsCovered.length / outline.sections.length : 1;
+
+  // Length within ±10% of target
+  const deviation = outline.targetLength > 0
+    ? Math.abs(wordCount - outline.targetLength) / outline.targetLength
+    : 0;
+  let lengthRatio = 0;
+  if (deviation <= LENGTH_TOLERANCE) {
+    lengthRatio = 1;
+  } else if (deviation <= LENGTH_TOLERANCE * 2.5) {
+    lengthRatio = 0.5;
+  }
+
+  // Internal linking placeholders or links
+  const internalLinks = (html.match(/\[INTERNAL_LINK[^\]]*\]|<a\s[^>]*href/gi) || []).length;
+
+  return [
+    criterion('seo', 'keyword_density', 'Gęstość słów kluczowych 1-2%', 25, densityRatio,
+      `${density.toFixed(2)}%`),
+    criterion('seo', 'keyword_first_paragraph', 'Słowo kluczowe w pierwszym akapicie', 15,
+      inFirstParagraph ? 1 : 0, inFirstParagraph ? `"${mainKeyword}" found` : `"${mainKeyword}" missing`),
+    criterion('seo', 'keywords_in_headings', 'Słowa kluczowe w nagłówkach h2/h3', 20, headingRatio,
+      `${keywordsInHeadings.length}/${keywords.length} keywords in headings`),
+    criterion('seo', 'required_sections', 'Wymagane sekcje', 15, sectionRatio,
+      `${sectionsCovered.length}/${outline.sections.length} sections`),
+    criterion('seo', 'target_length', 'Długość zgodna z targetLength (±10%)', 15, lengthRatio,
+      `${wordCount}/${outline.targetLength} words`),
+    criterion('seo', 'internal_links', 'Linkowanie wewnętrzne', 10, internalLinks > 0 ? 1 : 0,
+      `${internalLinks} links/placeholders`),
+  ];
+}
+
+function fogRatio(fog: number): number {
+  if (fog > FOG_PL_IDEAL_MAX) {
+    return 1 - (fog - FOG_PL_IDEAL_MAX) / (FOG_PL_UNREADABLE - FOG_PL_IDEAL_MAX);
+  }
+  if (fog < FOG_PL_IDEAL_MIN) {
+    return 0.5 + 0.5 * (fog / FOG_PL_IDEAL_MIN);
+  }
+  return 1;
+}
+
+// Language-specific readability index (40 of the 100 readability points)
+function readabilityIndexCriterion(text: string, language: Language): ScoreCriterion {
+  if (language === 'en' || language === 'de') {
+    const { score } = fleschReadingEase(text, language);
+    const ratio = score >= FLESCH_IDEAL_MIN ? 1 : (score - FLESCH_UNREADABLE) / (FLESCH_IDEAL_MIN - FLESCH_UNREADABLE);
+    return language === 'en'
+      ? criterion('readability', 'flesch_en', 'Flesch Reading Ease', 40, ratio, `Flesch ${score.toFixed(1)}`)
+      : criterion('readability', 'amstad_de', 'Flesch-Amstad (DE)', 40, ratio, `Amstad ${score.toFixed(1)}`);
+  }
+
+  if (language === 'cs') {
+    const { fogPl: fog } = readabilityIndexesPl(text, countSyllablesCs);
+    return criterion('readability', 'fog_cs', 'Indeks FOG (CS)', 40, fogRatio(fog), `FOG ${fog.toFixed(1)}`);
+  }
+
+  const { fogPl, pisarek } = readabilityIndexesPl(text);
+  return criterion('readability', 'fog_pl', 'Indeks FOG-PL', 40, fogRatio(fogPl),
+    `FOG-PL ${fogPl.toFixed(1)}, Pisarek ${pisarek.toFixed(1)}`);
+}
+
+function scoreReadability(html: string, text: string, language: Language): ScoreCriterion[] {
+  const sentences = splitSentences(text);
+  const { wordsPerSentence } = readabilityIndexesPl(text);
+  const longSentences = sentences.filter(sentence => countWords(sentence) > 25).length;
+  const longShare = sentences.length > 0 ? longSentences / sentences.length : 0;
+
+  const paragraphs = extractTags(html, 'p').map(countWords).filter(count => count > 0);
+  const avgParagraph = paragraphs.length > 0
+    ? paragraphs.reduce((sum, count) => sum + count, 0) / paragraphs.length
+    : 0;
+
+  return [
+    readabilityIndexCriterion(text, language),
+    criterion('readability', 'sentence_length', 'Średnia długość zdania ≤ 20 słów', 25,
+      wordsPerSentence <= 20 ? 1 : 1 - (wordsPerSentence - 20) / 15,
+      `${wordsPerSentence.toFixed(1)} words/sentence`),
+    criterion('readability', 'long_sentences', 'Udział zdań > 25 słów ≤ 15%', 15,
+      longShare <= 0.15 ? 1 : 1 - (longShare - 0.15) / 0.35,
+      `${Math.round(longShare * 100)}%`),
+    criterion('readability', 'paragraph_length', 'Akapity ≤ 80 słów', 20,
+      paragraphs.length === 0 ? 0 : avgParagraph <= 80 ? 1 : 1 - (avgParagraph - 80) / 80,
+      `${avgParagraph.toFixed(0)} words/paragraph`),
+  ];
+}
+
+// "bezkontaktowy" or "rozumowanie" are no call to action
+function ctaPattern(pattern: string): RegExp {
+  const stem = pattern.endsWith('*');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${stem ? pattern.slice(0, -1) : pattern}${stem ? '' : '(?![\\p{L}\\p{N}])'}`, 'u');
+}
+
+function scoreEngagement(html: string, text: string, language: Language): ScoreCriterion[] {
+  const faqCount = countFaqQuestions(html);
+  let faqRatio = 0;
+  if (faqCount >= FAQ_MIN && faqCount <= FAQ_MAX) {
+    faqRatio = 1;
+  } else if (faqCount > 0) {
+    faqRatio = faqCount < FAQ_MIN ? faqCount / FAQ_MIN : 0.7;
+  }
+
+  const hasTable = /<table[\s>]/i.test(html);
+  const lists = (html.match(/<(ul|ol)[\s>]/gi) || []).length;
+
+  // CTA is expected in the closing part of the article
+  const normalized = normalizeText(text);
+  const closing = normalized.slice(Math.floor(normalized.length * 0.75));
+  const ctaFound = CTA_PATTERNS[language].find(pattern => ctaPattern(pattern).test(closing))?.replace(/\*$/, '');
+
+  const statistics = countStatistics(text);
+  const definitions = (html.match(/<(dfn|dl)[\s>]|<strong>[^<]+<\/strong>\s*(–|-|—|to\s)/gi) || []).length;
+
+  return [
+    criterion('engagement', 'faq', 'Sekcja FAQ (5-7 pytań)', 30, faqRatio, `${faqCount} questions`),
+    criterion('engagement', 'table', 'Tabela porównawcza', 20, hasTable ? 1 : 0,
+      hasTable ? 'present' : 'missing'),
+    criterion('engagement', 'lists', 'Listy punktowane/numerowane', 15, Math.min(lists, 2) / 2,
+      `${lists} lists`),
+    criterion('engagement', 'cta', 'Call-to-Action na końcu', 20, ctaFound ? 1 : 0,
+      ctaFound ? `"${ctaFound}"` : 'missing'),
+    criterion('engagement', 'statistics', 'Statystyki i dane liczbowe', 10, Math.min(statistics, 3) / 3,
+      `${statistics} figures`),
+    criterion('engagement', 'definitions', 'Definicje kluczowych terminów', 5, definitions > 0 ? 1 : 0,
+      `${definitions} definitions`),
+  ];
+}
+
+function groupScore(breakdown: ScoreCriterion[], group: ScoreGroup): number {
+  const criteria = breakdown.filter(item => item.group === group);
+  const max = criteria.reduce((sum, item) => sum + item.maxPoints, 0);
+  const points = criteria.reduce((sum, item) => sum + item.points, 0);
+  return max > 0 ? Math.round((points / max) * 100) : 0;
+}
+
+/**
+ * Score an article against its outline (0-100 per group and total)
+ */
+export function scoreArticle(
+  article: Pick<GeneratedArticle, 'content'>,
+  outline: ArticleOutline
+): ArticleScores {
+  const html = article.content;
+  const text = htmlToText(html);
+  const language = getLanguage(outline.language).code;
+
+  const breakdown = [
+    ...scoreSeo(html, text, outline),
+    ...scoreReadability(html, text, language),
+    ...scoreEngagement(html, text, language),
+  ];
+
+  const seo = groupScore(breakdown, 'seo');
+  const readability = groupScore(breakdown, 'readability');
+  const engagement = groupScore(breakdown, 'engagement');
+  const total = Math.round(
+    seo * GROUP_WEIGHTS.seo +
+    readability * GROUP_WEIGHTS.readability +
+    engagement * GROUP_WEIGHTS.engagement
+  );
+
+  return { seo, readability, engagement, total, breakdown };
+}
@@ -0,0 +1,203 @@
+/**
+ * Storage Module
+ * Small key-value abstraction shared by all persistent state
+ *
+ * Backends (STORAGE_BACKEND):
+ * - kv:     Vercel KV / Upstash Redis REST API (KV_REST_API_URL + KV_REST_API_TOKEN)
+ * - file:   single JSON file in DATA_DIR (default .data, /tmp/seo-agent on Vercel)
+ * - memory: in-process map, used as a local stand-in for KV
+ *
+ * Without STORAGE_BACKEND, kv is used when KV_REST_API_URL is set, else file.
+ * Note: /tmp on Vercel is not shared between invocations - use kv in production.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Types
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+}
+
+export type StorageBackend = 'kv' | 'file' | 'memory';
+
+/**
+ * In-memory store (values are cloned so callers cannot mutate stored state)
+ */
+export function createMemoryStore(): KeyValueStore {
+  const data = new Map<string, string>();
+
+  return {
+    async get<T>(key: string) {
+      const value = data.get(key);
+      return value === undefined ? null : JSON.parse(value) as T;
+    },
+    async set<T>(key: string, value: T) {
+      data.set(key, JSON.stringify(value));
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async keys(prefix: string) {
+      return Array.from(data.keys()).filter(key => key.startsWith(prefix)).sort();
+    },
+  };
+}
+
+/**
+ * JSON file store - the whole map is read and rewritten on every change
+ */
+export function createFileStore(filePath: string): KeyValueStore {
+  // Serialise writes within this process so concurrent updates are not lost
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as Record<string, unknown>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  function update(mutate: (data: Record<string, unknown>) => void): Promise<void> {
+    const next = queue.then(async () => {
+      const data = await read();
+      mutate(data);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+      await fs.rename(tmpPath, filePath);
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    async get<T>(key: string) {
+      await queue;
+      const data = await read();
+      return key in data ? data[key] as T : null;
+    },
+    set<T>(key: string, value: T) {
+      return update(data => {
+        data[key] = value;
+      });
+    },
+    delete(key: string) {
+      return update(data => {
+        delete data[key];
+      });
+    },
+    async keys(prefix: string) {
+      await queue;
+      return Object.keys(await read()).filter(key => key.startsWith(prefix)).sort();
+    },
+  };
+}
+
+/**
+ * Vercel KV / Upstash Redis over the REST API
+ */
+export function createKVStore(url: string, token: string): KeyValueStore {
+  async function command<T>(args: (string | number)[]): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      throw new Error(`KV error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { result?: T; error?: string };
+    if (data.error) {
+      throw new Error(`KV error: ${data.error}`);
+    }
+    return data.result as T;
+  }
+
+  return {
+    async get<T>(key: string) {
+      const value = await command<string | null>(['GET', key]);
+      return value === null ? null : JSON.parse(value) as T;
+    },
+    async set<T>(key: string, value: T) {
+      await command(['SET', key, JSON.stringify(value)]);
+    },
+    async delete(key: string) {
+      await command(['DEL', key]);
+    },
+    async keys(prefix: string) {
+      // SCAN instead of KEYS so large databases are not blocked
+      const keys: string[] = [];
+      let cursor = '0';
+      do {
+        const [next, batch] = await command<[string, string[]]>(['SCAN', cursor, 'MATCH', `${prefix}*`, 'COUNT', 500]);
+        keys.push(...batch);
+        cursor = next;
+      } while (cursor !== '0');
+      return Array.from(new Set(keys)).sort();
+    },
+  };
+}
+
+function resolveBackend(env: Record<string, string | undefined>): StorageBackend {
+  const backend = env.STORAGE_BACKEND;
+  if (backend === 'kv' || backend === 'file' || backend === 'memory') {
+    return backend;
+  }
+  if (backend) {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+  return env.KV_REST_API_URL ? 'kv' : 'file';
+}
+
+/**
+ * True when every invocation sees the same data (kv); memory and /tmp files are per instance
+ */
+export function isSharedStore(env: Record<string, string | undefined> = process.env): boolean {
+  return resolveBackend(env) === 'kv';
+}
+
+/**
+ * Create the store configured by environment variables
+ */
+export function createStoreFromEnv(env: Record<string, string | undefined> = process.env): KeyValueStore {
+  const backend = resolveBackend(env);
+
+  if (backend === 'kv') {
+    if (!env.KV_REST_API_URL || !env.KV_REST_API_TOKEN) {
+      throw new Error('KV_REST_API_URL and KV_REST_API_TOKEN are required for the kv storage backend');
+    }
+    return createKVStore(env.KV_REST_API_URL, env.KV_REST_API_TOKEN);
+  }
+
+  if (backend === 'memory') {
+    return createMemoryStore();
+  }
+
+  const dataDir = env.DATA_DIR || (env.VERCEL ? '/tmp/seo-agent' : '.data');
+  return createFileStore(path.join(dataDir, 'store.json'));
+}
+
+let sharedStore: KeyValueStore | null = null;
+
+/**
+ * Process-wide store (created lazily from env)
+ */
+export function getStore(): KeyValueStore {
+  if (!sharedStore) {
+    sharedStore = createStoreFromEnv();
+  }
+  return sharedStore;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { OUTLINE, makeArticle } from '../test/fixtures';
+import { buildStructuredData, extractHowToSteps, renderJsonLd, validateJsonLd } from './structured-data';
+
+describe('buildStructuredData', () => {
+  it('builds Article and FAQPage blocks from the article', () => {
+    const { jsonLd, warnings } = buildStructuredData(makeArticle(), OUTLINE);
+
+    expect(jsonLd.map(block => block['@type'])).toEqual(['Article', 'FAQPage']);
+    expect(jsonLd[0]).toMatchObject({
+      headline: 'Kompensacja mocy biernej w zakładzie',
+      inLanguage: 'pl',
+      articleSection: 'Kompensacja mocy biernej',
+      publisher: { '@type': 'Organization', name: 'PowerGO', url: 'https://powergo.pl' },
+    });
+    expect(jsonLd[1].mainEntity).toEqual([{
+      '@type': 'Question',
+      name: 'Czy kompensacja się opłaca?',
+      acceptedAnswer: { '@type': 'Answer', text: 'Tak, zwykle zwraca się w ciągu dwóch lat.' },
+    }]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('leaves out invalid blocks and reports why', () => {
+    const article = makeArticle({ metaDescription: '', content: '<p>Bez sekcji FAQ.</p>' });
+
+    const { jsonLd, warnings } = buildStructuredData(article, OUTLINE);
+
+    expect(jsonLd).toEqual([]);
+    expect(warnings).toEqual(['No FAQ questions found - FAQPage skipped', 'Article: missing description']);
+  });
+});
+
+describe('extractHowToSteps', () => {
+  it('reads step headings of guides only', () => {
+    const html = '<h3>Krok 1: Pomiar</h3><p>Zmierz tg φ.</p><h3>Krok 2: Dobór</h3><p>Dobierz baterię.</p>';
+
+    expect(extractHowToSteps(html, 'Jak dobrać baterię kondensatorów')).toEqual([
+      { name: 'Krok 1: Pomiar', text: 'Zmierz tg φ.' },
+      { name: 'Krok 2: Dobór', text: 'Dobierz baterię.' },
+    ]);
+    expect(extractHowToSteps(html, 'Kary za moc bierną')).toEqual([]);
+  });
+});
+
+describe('validateJsonLd', () => {
+  it('checks nested questions and steps', () => {
+    expect(validateJsonLd({
+      '@type': 'FAQPage',
+      mainEntity: [{ '@type': 'Question', name: 'Czy warto?', acceptedAnswer: { '@type': 'Answer', text: '' } }],
+    })).toEqual(['Question: missing acceptedAnswer.text (#1)']);
+    expect(validateJsonLd({ '@type': 'HowTo', name: 'Montaż', step: [{ '@type': 'HowToStep', text: 'Podłącz.' }] }))
+      .toEqual(['HowTo: needs at least 2 steps']);
+  });
+});
+
+describe('renderJsonLd', () => {
+  it('escapes closing tags inside the script', () => {
+    const html = renderJsonLd({ jsonLd: [{ '@type': 'Thing', name: '</script><b>' }], warnings: [] });
+
+    expect(html).toBe('<script type="application/ld+json">{"@type":"Thing","name":"<\\/script><b>"}</script>');
+  });
+});
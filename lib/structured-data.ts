@@ -0,0 +1,235 @@
+/**
+ * Structured Data (JSON-LD)
+ * schema.org Article, FAQPage and HowTo markup for rich results
+ *
+ * Built from the generated HTML: the FAQ section's question headings (or
+ * bold questions) and the text up to the next question become FAQPage
+ * entries; guide topics ("jak...", "instalacja", "krok po kroku", "how
+ * to"...) with numbered steps ("Krok 1: ..." headings or an ordered list)
+ * become a HowTo. Every block is checked against the fields rich results
+ * need; a block that fails is left out and reported in warnings rather
+ * than published half-valid. The Odoo publisher appends the blocks to the
+ * post as <script type="application/ld+json">.
+ */
+
+import type { ArticleOutline, GeneratedArticle } from './ai-writers';
+import { getCategory, getSite } from './categories';
+import { getLanguage } from './languages';
+import { extractFaqSection, htmlToText } from './scoring';
+
+// Types
+export type JsonLd = { '@context'?: string; '@type': string; [property: string]: unknown };
+
+export interface StructuredData {
+  jsonLd: JsonLd[]; // valid blocks only: Article, then FAQPage / HowTo when found
+  warnings: string[];
+}
+
+export interface FaqEntry {
+  question: string;
+  answer: string;
+}
+
+export interface HowToStep {
+  name: string;
+  text: string;
+}
+
+type ArticleFields = Pick<GeneratedArticle, 'title' | 'metaDescription' | 'content' | 'wordCount' | 'generatedAt' | 'language'>;
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+const HEADLINE_MAX = 110; // Google truncates longer Article headlines
+const STEP_NAME_MAX = 80;
+const MIN_HOWTO_STEPS = 2;
+
+const GUIDE_TOPIC_PATTERN = /\b(jak|krok|instalacj|montaż|montaz|uruchomieni|konfiguracj|how to|step|install|anleitung|schritt|installation|návod|navod|postup|instalace)/i;
+const STEP_HEADING_PATTERN = /^(krok|etap|step|schritt|fáze|faze)\s*\d+/i;
+
+// Required properties per type (dot paths); a missing one drops the block
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  Article: ['headline', 'description', 'datePublished', 'inLanguage', 'author.name', 'publisher.name'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer.text'],
+  HowTo: ['name', 'step'],
+  HowToStep: ['text'],
+};
+
+// FAQ answers and steps are plain text - placeholders are not resolved there
+function plainText(html: string): string {
+  return htmlToText(html).replace(/\s*\[INTERNAL_LINK[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).replace(/\s+\S*$/, '')}…`;
+}
+
+/**
+ * Question / answer pairs from the FAQ section: a question is an h3/h4/dt/strong
+ * ending with "?", its answer everything up to the next question
+ */
+export function extractFaq(html: string): FaqEntry[] {
+  const section = extractFaqSection(html);
+  if (!section) {
+    return [];
+  }
+
+  const questions = Array.from(section.matchAll(/<(h3|h4|dt|strong)[^>]*>([\s\S]*?)<\/\1>/gi))
+    .map(match => ({ text: plainText(match[2]), start: match.index!, end: match.index! + match[0].length }))
+    .filter(question => question.text.endsWith('?'));
+
+  return questions
+    .map((question, index) => ({
+      question: question.text,
+      answer: plainText(section.slice(question.end, questions[index + 1]?.start ?? section.length)),
+    }))
+    .filter(entry => entry.answer.length > 0);
+}
+
+/**
+ * Steps of a guide: "Krok 1: ..." / "Step 1" headings with their text, else the
+ * longest ordered list; empty for articles that are not guides
+ */
+export function extractHowToSteps(html: string, topic: string): HowToStep[] {
+  if (!GUIDE_TOPIC_PATTERN.test(topic)) {
+    return [];
+  }
+
+  const headings = Array.from(html.matchAll(/<(h3|h4)[^>]*>([\s\S]*?)<\/\1>/gi))
+    .map(match => ({ name: plainText(match[2]), start: match.index!, end: match.index! + match[0].length }));
+  const stepHeadings = headings.filter(heading => STEP_HEADING_PATTERN.test(heading.name));
+
+  if (stepHeadings.length >= MIN_HOWTO_STEPS) {
+    return stepHeadings.map(heading => {
+      // Text runs to the next heading of any level
+      const rest = html.slice(heading.end);
+      const next = rest.search(/<h[1-4][\s>]/i);
+      return { name: heading.name, text: plainText(next >= 0 ? rest.slice(0, next) : rest) || heading.name };
+    });
+  }
+
+  const lists = Array.from(html.matchAll(/<ol[^>]*>([\s\S]*?)<\/ol>/gi), match =>
+    Array.from(match[1].matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi), item => plainText(item[1])).filter(Boolean)
+  );
+  const longest = lists.sort((a, b) => b.length - a.length)[0] ?? [];
+  if (longest.length < MIN_HOWTO_STEPS) {
+    return [];
+  }
+  return longest.map(text => ({
+    // "Podłącz przekładniki: ..." - the part before a colon/dash names the step
+    name: truncate(text.split(/[:–—]|\. /)[0].trim(), STEP_NAME_MAX),
+    text,
+  }));
+}
+
+function valueAt(block: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    block
+  );
+}
+
+function isPresent(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Missing required properties of a block and of its nested questions / steps
+ */
+export function validateJsonLd(block: JsonLd): string[] {
+  const errors = (REQUIRED_FIELDS[block['@type']] ?? [])
+    .filter(path => !isPresent(valueAt(block, path)))
+    .map(path => `${block['@type']}: missing ${path}`);
+
+  for (const key of ['mainEntity', 'step']) {
+    const nested = block[key];
+    if (Array.isArray(nested)) {
+      nested.forEach((item: JsonLd, index) => {
+        errors.push(...validateJsonLd(item).map(error => `${error} (#${index + 1})`));
+      });
+    }
+  }
+
+  if (block['@type'] === 'Article' && typeof block.headline === 'string' && block.headline.length > HEADLINE_MAX) {
+    errors.push(`Article: headline longer than ${HEADLINE_MAX} characters`);
+  }
+  if (block['@type'] === 'HowTo' && Array.isArray(block.step) && block.step.length < MIN_HOWTO_STEPS) {
+    errors.push(`HowTo: needs at least ${MIN_HOWTO_STEPS} steps`);
+  }
+  return errors;
+}
+
+/**
+ * JSON-LD blocks for an article (validated; invalid blocks are reported, not returned)
+ */
+export function buildStructuredData(article: ArticleFields, outline: ArticleOutline): StructuredData {
+  const category = getCategory(outline.category);
+  const site = category ? getSite(category.site) : null;
+  const language = getLanguage(article.language ?? outline.language);
+  const organization = site ? { '@type': 'Organization', name: site.name, url: site.url } : undefined;
+  const date = new Date(article.generatedAt).toISOString();
+
+  const blocks: JsonLd[] = [{
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'Article',
+    headline: truncate(article.title, HEADLINE_MAX),
+    description: article.metaDescription,
+    inLanguage: language.code,
+    keywords: outline.keywords.join(', '),
+    articleSection: category?.name,
+    wordCount: article.wordCount,
+    datePublished: date,
+    dateModified: date,
+    author: organization,
+    publisher: organization,
+  }];
+
+  const faq = extractFaq(article.content);
+  if (faq.length > 0) {
+    blocks.push({
+      '@context': SCHEMA_CONTEXT,
+      '@type': 'FAQPage',
+      inLanguage: language.code,
+      mainEntity: faq.map(entry => ({
+        '@type': 'Question',
+        name: entry.question,
+        acceptedAnswer: { '@type': 'Answer', text: entry.answer },
+      })),
+    });
+  }
+
+  const steps = extractHowToSteps(article.content, `${outline.topic} ${article.title}`);
+  if (steps.length > 0) {
+    blocks.push({
+      '@context': SCHEMA_CONTEXT,
+      '@type': 'HowTo',
+      name: article.title,
+      description: article.metaDescription,
+      inLanguage: language.code,
+      step: steps.map((step, index) => ({ '@type': 'HowToStep', position: index + 1, name: step.name, text: step.text })),
+    });
+  }
+
+  const warnings: string[] = [];
+  if (faq.length === 0) {
+    warnings.push('No FAQ questions found - FAQPage skipped');
+  }
+  const jsonLd = blocks.filter(block => {
+    const errors = validateJsonLd(block);
+    warnings.push(...errors);
+    return errors.length === 0;
+  });
+
+  return { jsonLd, warnings };
+}
+
+/**
+ * <script> tags for the post body ("</" escaped so text cannot close the tag)
+ */
+export function renderJsonLd(data: StructuredData | undefined): string {
+  return (data?.jsonLd ?? [])
+    .map(block => `<script type="application/ld+json">${JSON.stringify(block).replace(/<\//g, '<\\/')}</script>`)
+    .join('\n');
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TOPICS } from './default-topics';
+import { createMemoryStore } from './storage';
+import { createTopicStore, topicToOutline } from './topic-store';
+
+const CATEGORY = 'kompensacja_mocy_biernej';
+
+async function emptyStore() {
+  const kv = createMemoryStore();
+  // Skip the default seed so positions start at 0
+  await kv.set('topics:seeded', true);
+  return createTopicStore(kv);
+}
+
+describe('createTopicStore', () => {
+  it('seeds the default topics on first use', async () => {
+    const store = createTopicStore(createMemoryStore());
+
+    const topics = await store.list({ category: CATEGORY });
+
+    expect(topics.map(topic => topic.topic)).toEqual(DEFAULT_TOPICS[CATEGORY].map(seed => seed.topic));
+    expect(topics.every(topic => topic.status === 'queued')).toBe(true);
+  });
+
+  it('creates, updates and removes topics', async () => {
+    const store = await emptyStore();
+
+    const first = await store.create({ category: CATEGORY, topic: 'Kary za moc bierną', keywords: ['moc bierna'] });
+    const second = await store.create({ category: CATEGORY, topic: 'Dobór baterii kondensatorów', keywords: ['bateria'] });
+    expect([first.position, second.position]).toEqual([0, 1]);
+    expect(first).toMatchObject({ status: 'queued', sections: [], lastUsedAt: null, odooPostId: null });
+
+    const updated = await store.update(first.id, { keywords: ['moc bierna', 'tg φ'] });
+    expect(updated.keywords).toEqual(['moc bierna', 'tg φ']);
+
+    await store.remove(second.id);
+    expect((await store.list()).map(topic => topic.id)).toEqual([first.id]);
+    await expect(store.remove(second.id)).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('rotates through the queued topics of a category', async () => {
+    const store = await emptyStore();
+    const first = await store.create({ category: CATEGORY, topic: 'Pierwszy', keywords: ['a'] });
+    const second = await store.create({ category: CATEGORY, topic: 'Drugi', keywords: ['b'] });
+    await store.create({ category: 'kompensatory_svg', topic: 'Inna kategoria', keywords: ['c'] });
+
+    expect((await store.nextTopic(CATEGORY))?.id).toBe(first.id);
+
+    const used = await store.markUsed(first.id, 'generated', 42);
+    expect(used).toMatchObject({ status: 'generated', odooPostId: 42, lastUsedAt: expect.any(String) });
+    expect((await store.nextTopic(CATEGORY))?.id).toBe(second.id);
+
+    await store.markUsed(second.id, 'skipped');
+    expect(await store.nextTopic(CATEGORY)).toBeNull();
+  });
+
+  it('reorders a category, keeping unlisted topics after the listed ones', async () => {
+    const store = await emptyStore();
+    const [a, b, c] = [
+      await store.create({ category: CATEGORY, topic: 'A', keywords: ['a'] }),
+      await store.create({ category: CATEGORY, topic: 'B', keywords: ['b'] }),
+      await store.create({ category: CATEGORY, topic: 'C', keywords: ['c'] }),
+    ];
+
+    await store.reorder(CATEGORY, [c.id]);
+
+    expect((await store.list({ category: CATEGORY })).map(topic => topic.id)).toEqual([c.id, a.id, b.id]);
+    expect((await store.nextTopic(CATEGORY))?.id).toBe(c.id);
+    await expect(store.reorder(CATEGORY, ['missing'])).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('topicToOutline', () => {
+  it('builds the generation outline from a stored topic', async () => {
+    const store = await emptyStore();
+    const topic = await store.create({ category: CATEGORY, topic: 'Kary za moc bierną', keywords: ['moc bierna'], sections: ['Wstęp', 'FAQ'], targetLength: 900 });
+
+    expect(topicToOutline(topic)).toEqual({
+      topic: 'Kary za moc bierną',
+      keywords: ['moc bierna'],
+      sections: ['Wstęp', 'FAQ'],
+      targetLength: 900,
+      category: CATEGORY,
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Topic Store
+ * Persistent topic backlog with rotation state, replacing the TOPICS constant
+ *
+ * Each topic tracks its status, when it was last used and the Odoo post
+ * created from it. The cron takes the first queued topic (by position)
+ * of the scheduled category, so topics no longer repeat on a fixed cycle.
+ * The store is seeded from lib/default-topics.ts on first use.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ArticleCategory, ArticleOutline } from './ai-writers';
+import type { OutlineBrief } from './brief-builder';
+import { getCategory } from './categories';
+import { DEFAULT_TOPICS } from './default-topics';
+import { HttpError } from './http';
+import { getStore, type KeyValueStore } from './storage';
+
+// Types
+export type TopicStatus = 'queued' | 'generated' | 'published' | 'skipped';
+
+export const TOPIC_STATUSES: TopicStatus[] = ['queued', 'generated', 'published', 'skipped'];
+
+export interface Topic {
+  id: string;
+  category: ArticleCategory;
+  topic: string;
+  keywords: string[];
+  sections: string[];
+  targetLength: number;
+  brief?: OutlineBrief; // reviewed brief (POST /api/brief with topicId, or the cron pre-stage)
+  position: number; // order within the category, lowest goes first
+  status: TopicStatus;
+  lastUsedAt: string | null;
+  odooPostId: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TopicInput = Pick<Topic, 'category' | 'topic' | 'keywords'> &
+  Partial<Pick<Topic, 'sections' | 'targetLength' | 'brief' | 'position' | 'status'>>;
+
+export type TopicPatch = Partial<Pick<Topic,
+  'topic' | 'keywords' | 'sections' | 'targetLength' | 'brief' | 'position' | 'status' | 'lastUsedAt' | 'odooPostId'
+>>;
+
+export interface TopicFilter {
+  category?: ArticleCategory;
+  status?: TopicStatus;
+}
+
+export interface TopicStore {
+  list(filter?: TopicFilter): Promise<Topic[]>;
+  get(id: string): Promise<Topic | null>;
+  create(input: TopicInput): Promise<Topic>;
+  update(id: string, patch: TopicPatch): Promise<Topic>;
+  remove(id: string): Promise<void>;
+  reorder(category: ArticleCategory, ids: string[]): Promise<Topic[]>;
+  nextTopic(category: ArticleCategory): Promise<Topic | null>;
+  markUsed(id: string, status: TopicStatus, odooPostId?: number | null): Promise<Topic>;
+}
+
+const TOPIC_PREFIX = 'topic:';
+const SEEDED_KEY = 'topics:seeded';
+const DEFAULT_TARGET_LENGTH = 1500;
+
+export function isTopicStatus(value: unknown): value is TopicStatus {
+  return typeof value === 'string' && (TOPIC_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Build the generation outline for a stored topic
+ * (topics without sections use the category's default sections)
+ */
+export function topicToOutline(topic: Topic): ArticleOutline {
+  return {
+    topic: topic.topic,
+    keywords: topic.keywords,
+    sections: topic.sections.length > 0 ? topic.sections : getCategory(topic.category)?.sections ?? [],
+    targetLength: topic.targetLength,
+    category: topic.category,
+    ...(topic.brief ? { brief: topic.brief } : {}),
+  };
+}
+
+function byPosition(a: Topic, b: Topic): number {
+  return a.position - b.position || a.createdAt.localeCompare(b.createdAt);
+}
+
+export function createTopicStore(kv: KeyValueStore = getStore()): TopicStore {
+  let seeding: Promise<void> | null = null;
+
+  async function ensureSeeded(): Promise<void> {
+    if (!seeding) {
+      seeding = (async () => {
+        if (await kv.get<boolean>(SEEDED_KEY)) {
+          return;
+        }
+        const now = new Date().toISOString();
+        // Only categories that are still configured
+        for (const [category, seeds] of Object.entries(DEFAULT_TOPICS)) {
+          const definition = getCategory(category);
+          if (!definition) {
+            continue;
+          }
+          for (const [index, seed] of seeds.entries()) {
+            const topic: Topic = {
+              id: randomUUID(),
+              category,
+              ...seed,
+              targetLength: definition.targetLength,
+              position: index,
+              status: 'queued',
+              lastUsedAt: null,
+              odooPostId: null,
+              createdAt: now,
+              updatedAt: now,
+            };
+            await kv.set(`${TOPIC_PREFIX}${topic.id}`, topic);
+          }
+        }
+        await kv.set(SEEDED_KEY, true);
+        console.log('[Topics] Seeded topic store with default topics');
+      })();
+      seeding.catch(() => {
+        seeding = null;
+      });
+    }
+    return seeding;
+  }
+
+  async function listAll(): Promise<Topic[]> {
+    await ensureSeeded();
+    const keys = await kv.keys(TOPIC_PREFIX);
+    const topics = await Promise.all(keys.map(key => kv.get<Topic>(key)));
+    return topics.filter((topic): topic is Topic => topic !== null).sort(byPosition);
+  }
+
+  async function getOrThrow(id: string): Promise<Topic> {
+    await ensureSeeded();
+    const topic = await kv.get<Topic>(`${TOPIC_PREFIX}${id}`);
+    if (!topic) {
+      throw new HttpError(404, `Topic not found: ${id}`);
+    }
+    return topic;
+  }
+
+  const store: TopicStore = {
+    async list(filter = {}) {
+      const topics = await listAll();
+      return topics.filter(topic =>
+        (!filter.category || topic.category === filter.category) &&
+        (!filter.status || topic.status === filter.status)
+      );
+    },
+
+    async get(id) {
+      await ensureSeeded();
+      return kv.get<Topic>(`${TOPIC_PREFIX}${id}`);
+    },
+
+    async create(input) {
+      const siblings = await store.list({ category: input.category });
+      const now = new Date().toISOString();
+      const topic: Topic = {
+        id: randomUUID(),
+        category: input.category,
+        topic: input.topic,
+        keywords: input.keywords,
+        sections: input.sections ?? [],
+        targetLength: input.targetLength ?? getCategory(input.category)?.targetLength ?? DEFAULT_TARGET_LENGTH,
+        ...(input.brief ? { brief: input.brief } : {}),
+        position: input.position ?? (siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0),
+        status: input.status ?? 'queued',
+        lastUsedAt: null,
+        odooPostId: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await kv.set(`${TOPIC_PREFIX}${topic.id}`, topic);
+      return topic;
+    },
+
+    async update(id, patch) {
+      const topic = await getOrThrow(id);
+      const updated: Topic = { ...topic, ...patch, id, updatedAt: new Date().toISOString() };
+      await kv.set(`${TOPIC_PREFIX}${id}`, updated);
+      return updated;
+    },
+
+    async remove(id) {
+      await getOrThrow(id);
+      await kv.delete(`${TOPIC_PREFIX}${id}`);
+    },
+
+    async reorder(category, ids) {
+      const topics = await store.list({ category });
+      const unknown = ids.filter(id => !topics.some(topic => topic.id === id));
+      if (unknown.length > 0) {
+        throw new HttpError(400, `Topics not found in ${category}: ${unknown.join(', ')}`);
+      }
+
+      // Listed ids first (in the given order), the rest keep their relative order
+      const ordered = [
+        ...ids.map(id => topics.find(topic => topic.id === id) as Topic),
+        ...topics.filter(topic => !ids.includes(topic.id)),
+      ];
+      return Promise.all(ordered.map((topic, position) => store.update(topic.id, { position })));
+    },
+
+    async nextTopic(category) {
+      const [next] = await store.list({ category, status: 'queued' });
+      return next ?? null;
+    },
+
+    markUsed(id, status, odooPostId = null) {
+      return store.update(id, {
+        status,
+        odooPostId,
+        lastUsedAt: new Date().toISOString(),
+      });
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { makeRun } from '../test/fixtures';
+import { createRunStore } from './run-history';
+import { createMemoryStore } from './storage';
+import { checkTranslationIntegrity, translateRun } from './translation';
+
+const SOURCE = `<p>Wstęp [INTERNAL_LINK: kompensacja mocy biernej]</p>
+<h2>Zasada działania</h2>
+<ul><li>Kondensatory</li><li>Dławiki</li></ul>`;
+
+describe('checkTranslationIntegrity', () => {
+  it('accepts a translation with the same structure and placeholders', () => {
+    const translated = `<p>Introduction [INTERNAL_LINK: reactive power compensation]</p>
+<h2>How it works</h2>
+<ul><li>Capacitors</li><li>Reactors</li></ul>`;
+
+    expect(checkTranslationIntegrity(SOURCE, translated)).toEqual([]);
+  });
+
+  it('reports lost placeholders and changed elements', () => {
+    const translated = `<p>Introduction</p>
+<h2>How it works</h2>
+<h3>Details</h3>
+<ul><li>Capacitors and reactors</li></ul>`;
+
+    expect(checkTranslationIntegrity(SOURCE, translated)).toEqual([
+      '[INTERNAL_LINK] placeholders: 1 in source, 0 in translation',
+      '<h3> elements: 0 in source, 1 in translation',
+      '<li> elements: 2 in source, 1 in translation',
+    ]);
+  });
+});
+
+describe('translateRun', () => {
+  it('answers 404 for unknown runs and 400 for the source language', async () => {
+    const runStore = createRunStore(createMemoryStore());
+    const run = await runStore.save(makeRun());
+
+    await expect(translateRun('missing', { languages: ['en'], runStore }, { providers: [] }))
+      .rejects.toMatchObject({ status: 404 });
+    await expect(translateRun(run.id, { languages: ['en', 'pl'], runStore }, { providers: [] }))
+      .rejects.toMatchObject({ status: 400, message: `Run ${run.id} is already in pl` });
+    await expect(translateRun(run.id, { languages: ['en'], writer: 'mistral', runStore }, { providers: [] }))
+      .rejects.toMatchObject({ status: 400, message: `Run ${run.id} has no candidate from writer: mistral` });
+  });
+});
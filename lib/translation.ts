@@ -0,0 +1,304 @@
+/**
+ * Translation Pipeline
+ * Localised versions (EN/DE/CS) of a stored article
+ *
+ * A translation starts from a run's selected (or given) candidate and asks
+ * one writer to localise it: SEO keywords are re-researched for the target
+ * market instead of translated literally, while the HTML structure and
+ * [INTERNAL_LINK] placeholders must come back unchanged (differences are
+ * reported as warnings). Each translation is archived as a run of its own
+ * (source 'translation'), linked both ways to its source run, and can be
+ * published as a draft into the category's blog for that language.
+ */
+
+import type { AIConfig, ArticleOutline, GeneratedArticle } from './ai-writers';
+import { parseArticleOutput } from './article-parser';
+import { checkFacts } from './fact-check';
+import { HttpError } from './http';
+import { getLanguage, type Language } from './languages';
+import { publishDraft } from './pipeline';
+import { getEnabledProviders, type WriterProvider } from './providers';
+import {
+  createRun,
+  createRunStore,
+  getSelectedArticle,
+  saveRunSafely,
+  type GenerationRun,
+  type OdooPublication,
+  type RunStore,
+} from './run-history';
+import { scoreArticle } from './scoring';
+import { buildStructuredData } from './structured-data';
+import { createUsageLedger, enforceBudget, priceUsage, recordUsageSafely, runUsageEntry } from './usage';
+
+// Types
+export interface TranslationOptions {
+  languages: Language[];
+  writer?: string; // source candidate (default: the run's selected article)
+  translator?: string; // provider id (default: TRANSLATION_PROVIDER, then the source writer)
+  publish?: boolean; // create/update an Odoo draft in the language's blog
+  runStore?: RunStore;
+}
+
+export interface TranslationResult {
+  language: Language;
+  runId: string | null;
+  run: GenerationRun;
+  article: GeneratedArticle;
+  odoo: OdooPublication | null;
+  warnings: string[];
+}
+
+export interface TranslationFailure {
+  language: Language;
+  error: string;
+}
+
+export interface TranslationReport {
+  source: GenerationRun;
+  translations: TranslationResult[];
+  failures: TranslationFailure[];
+}
+
+const INTERNAL_LINK_PATTERN = /\[INTERNAL_LINK[^\]]*\]/g;
+const STRUCTURE_TAGS = ['h2', 'h3', 'table', 'ul', 'ol', 'li'];
+
+function translationPrompt(article: GeneratedArticle, outline: ArticleOutline, target: Language): string {
+  const from = getLanguage(article.language ?? outline.language);
+  const to = getLanguage(target);
+
+  return `Translate and localise the article below from ${from.name} into ${to.name} for B2B readers in the ${to.name}-speaking market.
+
+RULES:
+1. Keep the HTML structure exactly: the same tags in the same order with the same attributes. Translate text only.
+2. Keep every [INTERNAL_LINK] placeholder in the same place; translate only the topic after the colon.
+3. Localise rather than translate literally: use the technical terms a ${to.name}-speaking engineer or buyer would use and search for.
+4. Keywords: for each source keyword give the phrase people in the target market actually search for (not a word-for-word translation).
+5. Keep numbers, units and product names; do not invent new facts.
+
+FORMAT OUTPUT:
+Return ONLY the following, no markdown, no code blocks:
+<keywords>keyword 1 | keyword 2 | ...</keywords>
+<sections>section 1 | section 2 | ...</sections>
+<title>SEO title (max 60 characters)</title>
+<meta name="description" content="Meta description (max 160 characters)">
+<h1>Article title</h1>
+followed by the translated article body.
+
+SOURCE KEYWORDS: ${outline.keywords.join(' | ')}
+SOURCE SECTIONS: ${outline.sections.join(' | ')}
+
+SOURCE ARTICLE:
+<title>${article.metaTitle}</title>
+<meta name="description" content="${article.metaDescription.replace(/"/g, '&quot;')}">
+<h1>${article.title}</h1>
+${article.content}`;
+}
+
+function extractList(raw: string, tag: string): { items: string[]; rest: string } {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, 'i');
+  const match = raw.match(pattern);
+  if (!match) {
+    return { items: [], rest: raw };
+  }
+  const separator = match[1].includes('|') ? '|' : ',';
+  return {
+    items: match[1].split(separator).map(item => item.trim()).filter(Boolean),
+    rest: raw.replace(pattern, ''),
+  };
+}
+
+function countTags(html: string, tag: string): number {
+  return (html.match(new RegExp(`<${tag}[\\s>]`, 'gi')) || []).length;
+}
+
+/**
+ * Differences between source and translated HTML that an editor should check
+ */
+export function checkTranslationIntegrity(source: string, translated: string): string[] {
+  const warnings: string[] = [];
+
+  const sourceLinks = source.match(INTERNAL_LINK_PATTERN)?.length ?? 0;
+  const translatedLinks = translated.match(INTERNAL_LINK_PATTERN)?.length ?? 0;
+  if (sourceLinks !== translatedLinks) {
+    warnings.push(`[INTERNAL_LINK] placeholders: ${sourceLinks} in source, ${translatedLinks} in translation`);
+  }
+
+  for (const tag of STRUCTURE_TAGS) {
+    const expected = countTags(source, tag);
+    const actual = countTags(translated, tag);
+    if (expected !== actual) {
+      warnings.push(`<${tag}> elements: ${expected} in source, ${actual} in translation`);
+    }
+  }
+
+  return warnings;
+}
+
+function pickTranslator(config: AIConfig, preferred: (string | undefined)[]): WriterProvider {
+  const providers = getEnabledProviders(config.providers);
+  if (providers.length === 0) {
+    throw new Error('No AI providers configured. At least one AI provider is required.');
+  }
+
+  for (const id of preferred) {
+    const provider = id ? providers.find(candidate => candidate.id === id) : undefined;
+    if (provider) {
+      return provider;
+    }
+  }
+  return providers[0];
+}
+
+async function translateArticle(
+  source: GenerationRun,
+  article: GeneratedArticle,
+  language: Language,
+  translator: WriterProvider,
+  options: TranslationOptions,
+  runStore: RunStore
+): Promise<TranslationResult> {
+  const startedAt = new Date();
+  const label = translator.config.label;
+  console.log(`[Translation] ${label} translating run ${source.id} into ${language}`);
+
+  const result = await translator.complete({
+    system: `You are a professional technical translator and SEO specialist. Always write in ${getLanguage(language).name}.`,
+    prompt: translationPrompt(article, source.outline, language),
+  });
+
+  const keywords = extractList(result.text, 'keywords');
+  const sections = extractList(keywords.rest, 'sections');
+  const parsed = parseArticleOutput(sections.rest, article.title);
+
+  const warnings = checkTranslationIntegrity(article.content, parsed.content);
+  if (keywords.items.length === 0) {
+    warnings.push('No localised keywords returned - source keywords kept');
+  }
+
+  const outline: ArticleOutline = {
+    ...source.outline,
+    topic: parsed.title,
+    keywords: keywords.items.length > 0 ? keywords.items : source.outline.keywords,
+    sections: sections.items.length > 0 ? sections.items : source.outline.sections,
+    language,
+    editorNotes: undefined,
+  };
+
+  const translated: GeneratedArticle = {
+    ...parsed,
+    writer: translator.id,
+    model: result.model,
+    generatedAt: new Date(),
+    language,
+    usage: priceUsage(translator.id, result),
+    translatedFrom: {
+      runId: source.id,
+      writer: article.writer,
+      language: getLanguage(article.language ?? source.outline.language).code,
+    },
+  };
+  translated.scores = scoreArticle(translated, outline);
+  translated.structuredData = buildStructuredData(translated, outline);
+
+  // Translated numbers are linted too (translations are requested by an editor - never blocked)
+  const factCheck = checkFacts(translated, outline);
+
+  // Re-translating updates the draft of the previous translation instead of duplicating it
+  let odoo: OdooPublication | null = null;
+  if (options.publish) {
+    const previous = source.translations?.find(link => link.language === language);
+    const previousRun = previous ? await runStore.get(previous.runId) : null;
+    odoo = await publishDraft(translated, outline, previousRun?.odoo?.postId ?? null, factCheck);
+  }
+
+  const durationMs = Date.now() - startedAt.getTime();
+  const run: GenerationRun = {
+    ...createRun({
+      source: 'translation',
+      outline,
+      report: {
+        articles: [translated],
+        failures: [],
+        timings: [{ writer: translator.id, model: result.model, durationMs, status: 'fulfilled' }],
+        durationMs,
+      },
+      selected: translated,
+      startedAt,
+      translationOf: translated.translatedFrom,
+    }),
+    odoo,
+    factCheck,
+  };
+  const runId = await saveRunSafely(runStore, run);
+  await recordUsageSafely(createUsageLedger(), runUsageEntry(run));
+
+  console.log(`[Translation] ${language} done in ${durationMs}ms, ${translated.wordCount} words, ${warnings.length} warnings`);
+  return { language, runId, run, article: translated, odoo, warnings };
+}
+
+/**
+ * Translate a run's article into the given languages (in parallel);
+ * failed languages are reported instead of failing the others
+ */
+export async function translateRun(
+  runId: string,
+  options: TranslationOptions,
+  config: AIConfig
+): Promise<TranslationReport> {
+  const runStore = options.runStore ?? createRunStore();
+  const source = await runStore.get(runId);
+  if (!source) {
+    throw new HttpError(404, `Run not found: ${runId}`);
+  }
+
+  const article = options.writer
+    ? source.candidates.find(candidate => candidate.writer === options.writer) ?? null
+    : getSelectedArticle(source);
+  if (!article) {
+    throw new HttpError(400, `Run ${runId} has no ${options.writer ? `candidate from writer: ${options.writer}` : 'selected article'}`);
+  }
+
+  const sourceLanguage = getLanguage(article.language ?? source.outline.language).code;
+  if (options.languages.includes(sourceLanguage)) {
+    throw new HttpError(400, `Run ${runId} is already in ${sourceLanguage}`);
+  }
+
+  // A translator over its usage cap falls back to another writer
+  const budgeted = await enforceBudget(config);
+  const translator = pickTranslator(budgeted, [options.translator, process.env.TRANSLATION_PROVIDER, article.writer]);
+  const languages = Array.from(new Set(options.languages));
+
+  const settled = await Promise.allSettled(
+    languages.map(language => translateArticle(source, article, language, translator, options, runStore))
+  );
+
+  const translations: TranslationResult[] = [];
+  const failures: TranslationFailure[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      translations.push(result.value);
+    } else {
+      console.error(`[Translation] ${languages[index]} failed:`, result.reason);
+      failures.push({
+        language: languages[index],
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+
+  // Link the source run to its translations (sequentially - each call rewrites the run)
+  let updated = source;
+  for (const translation of translations) {
+    if (translation.runId) {
+      updated = await runStore.recordTranslation(source.id, {
+        language: translation.language,
+        runId: translation.runId,
+        writer: article.writer,
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  return { source: updated, translations, failures };
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AIConfig } from './ai-writers';
+import { loadProviderConfigs } from './providers';
+import { createRunId } from './run-history';
+import { createMemoryStore } from './storage';
+import {
+  applyBudget,
+  createUsageLedger,
+  enforceBudget,
+  getBudgetStatus,
+  type BudgetConfig,
+  type UsageLedger,
+} from './usage';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// gemini-2.0-flash-exp is the cheapest of the three default models
+const CONFIG: AIConfig = {
+  providers: loadProviderConfigs({ GEMINI_API_KEY: 'g', OPENAI_API_KEY: 'o', ANTHROPIC_API_KEY: 'a' }),
+};
+
+// Ledger with this month's spending per provider
+async function ledgerWith(spent: Record<string, number>): Promise<UsageLedger> {
+  const ledger = createUsageLedger(createMemoryStore());
+  await ledger.record({
+    id: createRunId(),
+    runId: null,
+    source: 'api',
+    category: 'kompensacja_mocy_biernej',
+    topic: 'Moc bierna',
+    at: new Date().toISOString(),
+    items: Object.entries(spent).map(([provider, costUsd]) => ({ provider, model: provider, inputTokens: 1000, outputTokens: 1000, costUsd })),
+  });
+  return ledger;
+}
+
+function budget(overrides: Partial<BudgetConfig>): BudgetConfig {
+  return { monthlyUsd: null, softRatio: 0.8, providers: {}, ...overrides };
+}
+
+function enabled(config: AIConfig): string[] {
+  return config.providers.filter(provider => provider.enabled).map(provider => provider.id);
+}
+
+describe('applyBudget', () => {
+  it('keeps every writer under budget', async () => {
+    const status = await getBudgetStatus(await ledgerWith({ claude: 2 }), budget({ monthlyUsd: 10 }));
+
+    const { config, dropped } = applyBudget(CONFIG, status);
+
+    expect(status).toMatchObject({ spentUsd: 2, remainingUsd: 8, soft: false, exhausted: false });
+    expect(dropped).toEqual([]);
+    expect(enabled(config)).toEqual(['gemini', 'chatgpt', 'claude']);
+  });
+
+  it('drops writers over their cap and, past the soft limit, all but the cheapest', async () => {
+    const capped = await getBudgetStatus(await ledgerWith({ claude: 3 }), budget({ providers: { claude: 3, chatgpt: 5 } }));
+    expect(applyBudget(CONFIG, capped).dropped).toEqual(['claude']);
+
+    const soft = await getBudgetStatus(await ledgerWith({ claude: 8.5 }), budget({ monthlyUsd: 10 }));
+    const { config, dropped } = applyBudget(CONFIG, soft);
+
+    expect(soft.soft).toBe(true);
+    expect(dropped).toEqual(['chatgpt', 'claude']);
+    expect(enabled(config)).toEqual(['gemini']);
+  });
+
+  it('refuses to generate once the budget is exhausted', async () => {
+    const exhausted = await getBudgetStatus(await ledgerWith({ claude: 10 }), budget({ monthlyUsd: 10 }));
+    expect(() => applyBudget(CONFIG, exhausted)).toThrow(expect.objectContaining({ status: 402 }));
+
+    const allCapped = await getBudgetStatus(await ledgerWith({ gemini: 1 }), budget({ providers: { gemini: 1 } }));
+    const geminiOnly: AIConfig = { providers: loadProviderConfigs({ GEMINI_API_KEY: 'g' }) };
+    expect(() => applyBudget(geminiOnly, allCapped)).toThrow('Every writer reached its monthly usage cap');
+  });
+});
+
+describe('enforceBudget', () => {
+  it('leaves the config alone without a budget', async () => {
+    const ledger = await ledgerWith({ claude: 1000 });
+
+    expect(await enforceBudget(CONFIG, ledger)).toBe(CONFIG);
+  });
+
+  it('applies USAGE_BUDGET_USD to this month\'s ledger', async () => {
+    vi.stubEnv('USAGE_BUDGET_USD', '10');
+
+    expect(enabled(await enforceBudget(CONFIG, await ledgerWith({ claude: 1 })))).toEqual(['gemini', 'chatgpt', 'claude']);
+    expect(enabled(await enforceBudget(CONFIG, await ledgerWith({ claude: 9 })))).toEqual(['gemini']);
+    await expect(enforceBudget(CONFIG, await ledgerWith({ claude: 12 }))).rejects.toMatchObject({ status: 402 });
+  });
+});
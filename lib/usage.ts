@@ -0,0 +1,410 @@
+/**
+ * Usage Accounting
+ * Token usage, cost and monthly budgets of every LLM call that produced text
+ *
+ * Providers report input/output tokens with each completion; they are priced
+ * with the price table (lib/default-prices.ts, PRICES_CONFIG /
+ * PRICES_CONFIG_FILE) and stored on the article (GeneratedArticle.usage).
+ * Every archived run (and every brief and refresh) adds one entry to the usage ledger,
+ * keyed like runs so a month is a key prefix; GET /api/usage sums a month
+ * per provider, category and run.
+ *
+ * Budgets (all optional):
+ * - USAGE_BUDGET_PROVIDERS: monthly cap per provider id, e.g. {"claude": 20};
+ *   a provider that reached its cap stops writing until the next month
+ * - USAGE_BUDGET_USD: monthly limit for all providers; once reached,
+ *   generation is refused (402) and the cron skips its run
+ * - USAGE_BUDGET_SOFT_RATIO (default 0.8): past this share of the monthly
+ *   limit only the cheapest writer keeps writing
+ *
+ * Months are UTC, like run ids.
+ */
+
+import { readFileSync } from 'fs';
+import type { AIConfig, ArticleCategory, GeneratedArticle } from './ai-writers';
+import { DEFAULT_PRICES } from './default-prices';
+import { HttpError } from './http';
+import type { CompletionResult, TokenUsage } from './providers';
+import type { GenerationRun, RunSource } from './run-history';
+import { getStore, type KeyValueStore } from './storage';
+
+// Types
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export type PriceTable = Record<string, ModelPrice>; // model id or prefix
+
+export interface ArticleUsage extends TokenUsage {
+  provider: string; // provider billed for the call (the editor on ensemble composites)
+  model: string;
+  costUsd: number | null; // null when the model has no price
+}
+
+export type UsageSource = RunSource | 'brief' | 'refresh';
+
+export interface UsageEntry {
+  id: string; // run id (briefs get a run-style id), so keys sort chronologically
+  runId: string | null;
+  source: UsageSource;
+  category: ArticleCategory;
+  topic: string;
+  at: string;
+  items: ArticleUsage[];
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // tokens counted, cost unknown
+}
+
+export interface UsageSummary {
+  month: string; // YYYY-MM
+  totals: UsageTotals;
+  byProvider: Record<string, UsageTotals>;
+  byCategory: Record<ArticleCategory, UsageTotals>;
+  runs: (UsageTotals & Pick<UsageEntry, 'id' | 'runId' | 'source' | 'category' | 'topic' | 'at'>)[]; // newest first
+}
+
+export interface BudgetConfig {
+  monthlyUsd: number | null;
+  softRatio: number;
+  providers: Record<string, number>; // provider id → monthly cap in USD
+}
+
+export interface ProviderBudget {
+  provider: string;
+  spentUsd: number;
+  limitUsd: number;
+  exhausted: boolean;
+}
+
+export interface BudgetStatus {
+  month: string;
+  spentUsd: number;
+  monthlyUsd: number | null;
+  remainingUsd: number | null;
+  soft: boolean; // past the soft limit: only the cheapest writer writes
+  exhausted: boolean; // monthly limit reached: no generation
+  providers: ProviderBudget[];
+}
+
+export interface UsageLedger {
+  record(entry: UsageEntry): Promise<void>;
+  list(month: string): Promise<UsageEntry[]>; // oldest first
+}
+
+type Env = Record<string, string | undefined>;
+
+const USAGE_PREFIX = 'usage:';
+const DEFAULT_SOFT_RATIO = 0.8;
+
+/**
+ * Thrown when the monthly limit is reached (or every writer hit its cap)
+ */
+export class BudgetExceededError extends HttpError {
+  constructor(public readonly budget: BudgetStatus, message: string) {
+    super(402, message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function readJsonObject(env: Env, name: string): Record<string, unknown> | null {
+  let raw: string | undefined = env[name];
+  const file = env[`${name}_FILE`];
+  if (!raw && file) {
+    raw = readFileSync(file, 'utf8');
+  }
+  if (!raw) {
+    return null;
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Price table: defaults merged with PRICES_CONFIG (by model)
+ */
+export function getPriceTable(env: Env = process.env): PriceTable {
+  const prices: PriceTable = { ...DEFAULT_PRICES };
+
+  for (const [model, price] of Object.entries(readJsonObject(env, 'PRICES_CONFIG') ?? {})) {
+    const { input, output } = (price ?? {}) as Partial<ModelPrice>;
+    if (typeof input !== 'number' || typeof output !== 'number' || input < 0 || output < 0) {
+      throw new Error(`PRICES_CONFIG entry "${model}" needs non-negative input and output prices`);
+    }
+    prices[model] = { input, output };
+  }
+  return prices;
+}
+
+/**
+ * Price of a model: exact id, else the longest matching prefix
+ */
+export function findPrice(model: string, prices: PriceTable): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Priced usage of one completion (undefined when the endpoint reported none)
+ */
+export function priceUsage(
+  provider: string,
+  result: CompletionResult,
+  prices: PriceTable = getPriceTable()
+): ArticleUsage | undefined {
+  if (!result.usage) {
+    return undefined;
+  }
+  const price = findPrice(result.model, prices);
+  return {
+    provider,
+    model: result.model,
+    inputTokens: result.usage.inputTokens,
+    outputTokens: result.usage.outputTokens,
+    costUsd: price
+      ? roundUsd((result.usage.inputTokens * price.input + result.usage.outputTokens * price.output) / 1e6)
+      : null,
+  };
+}
+
+export function sumUsage(items: ArticleUsage[]): UsageTotals {
+  const totals: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 };
+  for (const item of items) {
+    totals.calls++;
+    totals.inputTokens += item.inputTokens;
+    totals.outputTokens += item.outputTokens;
+    if (item.costUsd === null) {
+      totals.unpricedCalls++;
+    } else {
+      totals.costUsd += item.costUsd;
+    }
+  }
+  totals.costUsd = roundUsd(totals.costUsd);
+  return totals;
+}
+
+export function currentMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function isMonth(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/**
+ * Calls behind an article: its writer (or merge editor) and its media brief
+ */
+export function articleUsage(article: Pick<GeneratedArticle, 'usage' | 'media'>): ArticleUsage[] {
+  return [article.usage, article.media?.usage].filter((usage): usage is ArticleUsage => usage !== undefined);
+}
+
+/**
+ * Ledger entry for an archived run (null when no candidate reported usage)
+ */
+export function runUsageEntry(run: GenerationRun): UsageEntry | null {
+  const items = run.candidates.flatMap(articleUsage);
+  if (items.length === 0) {
+    return null;
+  }
+  return {
+    id: run.id,
+    runId: run.id,
+    source: run.source,
+    category: run.category,
+    topic: run.outline.topic,
+    at: run.completedAt,
+    items,
+  };
+}
+
+export function createUsageLedger(kv: KeyValueStore = getStore()): UsageLedger {
+  return {
+    async record(entry) {
+      await kv.set(`${USAGE_PREFIX}${entry.id}`, entry);
+    },
+
+    async list(month) {
+      // Ids start with the UTC date (20261019T...), so a month is a key prefix
+      const keys = await kv.keys(`${USAGE_PREFIX}${month.replace('-', '')}`);
+      const entries: UsageEntry[] = [];
+      for (const key of keys) {
+        const entry = await kv.get<UsageEntry>(key);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+      return entries;
+    },
+  };
+}
+
+/**
+ * Record usage without failing the caller - the article is already paid for
+ */
+export async function recordUsageSafely(ledger: UsageLedger, entry: UsageEntry | null): Promise<void> {
+  if (!entry) {
+    return;
+  }
+  try {
+    await ledger.record(entry);
+  } catch (error) {
+    console.error('[Usage] Failed to record usage:', error);
+  }
+}
+
+function groupTotals(entries: UsageEntry[], key: (item: ArticleUsage, entry: UsageEntry) => string): Record<string, UsageTotals> {
+  const groups = new Map<string, ArticleUsage[]>();
+  for (const entry of entries) {
+    for (const item of entry.items) {
+      const group = key(item, entry);
+      groups.set(group, [...(groups.get(group) ?? []), item]);
+    }
+  }
+  return Object.fromEntries(Array.from(groups, ([group, items]) => [group, sumUsage(items)]));
+}
+
+/**
+ * Month totals per provider, category and run
+ */
+export function summarizeUsage(month: string, entries: UsageEntry[]): UsageSummary {
+  return {
+    month,
+    totals: sumUsage(entries.flatMap(entry => entry.items)),
+    byProvider: groupTotals(entries, item => item.provider),
+    byCategory: groupTotals(entries, (_item, entry) => entry.category),
+    runs: entries
+      .map(({ id, runId, source, category, topic, at, items }) => ({ id, runId, source, category, topic, at, ...sumUsage(items) }))
+      .reverse(),
+  };
+}
+
+export function getBudgetConfig(env: Env = process.env): BudgetConfig {
+  const monthlyUsd = env.USAGE_BUDGET_USD ? Number(env.USAGE_BUDGET_USD) : null;
+  if (monthlyUsd !== null && !(monthlyUsd >= 0)) {
+    throw new Error(`USAGE_BUDGET_USD must be a non-negative number, got: ${env.USAGE_BUDGET_USD}`);
+  }
+
+  const softRatio = env.USAGE_BUDGET_SOFT_RATIO ? Number(env.USAGE_BUDGET_SOFT_RATIO) : DEFAULT_SOFT_RATIO;
+  if (!(softRatio > 0 && softRatio <= 1)) {
+    throw new Error(`USAGE_BUDGET_SOFT_RATIO must be between 0 and 1, got: ${env.USAGE_BUDGET_SOFT_RATIO}`);
+  }
+
+  const providers: Record<string, number> = {};
+  for (const [provider, cap] of Object.entries(readJsonObject(env, 'USAGE_BUDGET_PROVIDERS') ?? {})) {
+    if (typeof cap !== 'number' || cap < 0) {
+      throw new Error(`USAGE_BUDGET_PROVIDERS cap for "${provider}" must be a non-negative number`);
+    }
+    providers[provider] = cap;
+  }
+
+  return { monthlyUsd, softRatio, providers };
+}
+
+function hasBudget(budget: BudgetConfig): boolean {
+  return budget.monthlyUsd !== null || Object.keys(budget.providers).length > 0;
+}
+
+/**
+ * Spending of a month against the configured limits
+ */
+export async function getBudgetStatus(
+  ledger: UsageLedger = createUsageLedger(),
+  budget: BudgetConfig = getBudgetConfig(),
+  month: string = currentMonth()
+): Promise<BudgetStatus> {
+  const summary = summarizeUsage(month, await ledger.list(month));
+  const spentUsd = summary.totals.costUsd;
+
+  return {
+    month,
+    spentUsd,
+    monthlyUsd: budget.monthlyUsd,
+    remainingUsd: budget.monthlyUsd === null ? null : roundUsd(Math.max(0, budget.monthlyUsd - spentUsd)),
+    soft: budget.monthlyUsd !== null && spentUsd >= budget.monthlyUsd * budget.softRatio,
+    exhausted: budget.monthlyUsd !== null && spentUsd >= budget.monthlyUsd,
+    providers: Object.entries(budget.providers).map(([provider, limitUsd]) => {
+      const providerSpent = summary.byProvider[provider]?.costUsd ?? 0;
+      return { provider, spentUsd: providerSpent, limitUsd, exhausted: providerSpent >= limitUsd };
+    }),
+  };
+}
+
+// Blended price per million tokens; unpriced (local) models count as free
+function blendedPrice(model: string, prices: PriceTable): number {
+  const price = findPrice(model, prices);
+  return price ? price.input + price.output : 0;
+}
+
+/**
+ * Disable the writers the budget no longer allows: providers over their cap
+ * and, past the soft limit, all but the cheapest one(s)
+ */
+export function applyBudget(
+  config: AIConfig,
+  status: BudgetStatus,
+  prices: PriceTable = getPriceTable()
+): { config: AIConfig; dropped: string[] } {
+  if (status.exhausted) {
+    throw new BudgetExceededError(status, `Monthly usage budget reached: $${status.spentUsd} of $${status.monthlyUsd} spent in ${status.month}`);
+  }
+
+  const capped = new Set(status.providers.filter(provider => provider.exhausted).map(provider => provider.provider));
+  let allowed = config.providers.filter(provider => provider.enabled && !capped.has(provider.id));
+
+  if (status.soft && allowed.length > 1) {
+    const cheapest = Math.min(...allowed.map(provider => blendedPrice(provider.model, prices)));
+    allowed = allowed.filter(provider => blendedPrice(provider.model, prices) === cheapest);
+  }
+
+  if (allowed.length === 0) {
+    throw new BudgetExceededError(status, `Every writer reached its monthly usage cap in ${status.month}`);
+  }
+
+  const dropped = config.providers
+    .filter(provider => provider.enabled && !allowed.includes(provider))
+    .map(provider => provider.id);
+  return {
+    config: {
+      ...config,
+      providers: config.providers.map(provider => (dropped.includes(provider.id) ? { ...provider, enabled: false } : provider)),
+    },
+    dropped,
+  };
+}
+
+/**
+ * Writer config for the next generation under the configured budget
+ * (no ledger reads when no budget is configured)
+ */
+export async function enforceBudget(config: AIConfig, ledger: UsageLedger = createUsageLedger()): Promise<AIConfig> {
+  const budget = getBudgetConfig();
+  if (!hasBudget(budget)) {
+    return config;
+  }
+
+  const status = await getBudgetStatus(ledger, budget);
+  const result = applyBudget(config, status);
+  if (result.dropped.length > 0) {
+    console.log(`[Usage] Budget ($${status.spentUsd} spent in ${status.month}) drops writers: ${result.dropped.join(', ')}`);
+  }
+  return result.config;
+}
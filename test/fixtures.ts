@@ -0,0 +1,69 @@
+/**
+ * Test fixtures shared by the specs next to the modules (lib/*.test.ts)
+ */
+
+import type { AIConfig, ArticleOutline, GeneratedArticle } from '../lib/ai-writers';
+import { parseArticleOutput } from '../lib/article-parser';
+import { loadProviderConfigs, type FakeBehaviour } from '../lib/providers';
+import { createRun, type GenerationRun } from '../lib/run-history';
+
+export const OUTLINE: ArticleOutline = {
+  topic: 'Kompensacja mocy biernej w zakładzie produkcyjnym',
+  keywords: ['kompensacja mocy biernej', 'tg φ'],
+  sections: ['Czym jest moc bierna', 'Jak działa kompensacja', 'FAQ'],
+  targetLength: 600,
+  category: 'kompensacja_mocy_biernej',
+};
+
+export const ARTICLE_HTML = `<title>Kompensacja mocy biernej - poradnik</title>
+<meta name="description" content="Jak działa kompensacja mocy biernej i ile można zaoszczędzić na karach za tg φ.">
+<h1>Kompensacja mocy biernej w zakładzie</h1>
+<p>Kompensacja mocy biernej obniża rachunki za energię, gdy tg φ przekracza 0,4.</p>
+<h2>Czym jest moc bierna</h2>
+<p>Moc bierna krąży między źródłem a odbiornikiem i obciąża sieć.</p>
+<h2>Jak działa kompensacja</h2>
+<p>Baterie kondensatorów lub kompensatory SVG dostarczają moc bierną lokalnie.</p>
+<h2>FAQ</h2>
+<h3>Czy kompensacja się opłaca?</h3>
+<p>Tak, zwykle zwraca się w ciągu dwóch lat.</p>`;
+
+/**
+ * Article as a writer would return it, parsed like in lib/ai-writers.ts
+ */
+export function makeArticle(overrides: Partial<GeneratedArticle> = {}, raw: string = ARTICLE_HTML): GeneratedArticle {
+  return {
+    ...parseArticleOutput(raw, OUTLINE.topic),
+    writer: 'claude',
+    model: 'fake',
+    generatedAt: new Date('2025-03-10T09:30:00Z'),
+    language: 'pl',
+    ...overrides,
+  };
+}
+
+/**
+ * AI config with fake writers only (lib/providers.ts kind "fake")
+ */
+export function fakeConfig(writers: { id: string; fake?: FakeBehaviour; model?: string; fallbackModel?: string }[]): AIConfig {
+  const overrides = writers.map(writer => ({ kind: 'fake', model: 'fake', ...writer }));
+  const providers = loadProviderConfigs({ WRITERS_CONFIG: JSON.stringify(overrides) });
+  return { providers: providers.filter(provider => writers.some(writer => writer.id === provider.id)) };
+}
+
+/**
+ * Archived run with two candidates (claude selected) and one failed writer
+ */
+export function makeRun(overrides: Partial<GenerationRun> = {}, startedAt = new Date('2025-03-10T09:00:00Z')): GenerationRun {
+  const claude = makeArticle({ writer: 'claude' });
+  const gemini = makeArticle({ writer: 'gemini' });
+  return {
+    ...createRun({
+      source: 'api',
+      outline: OUTLINE,
+      report: { articles: [claude, gemini], failures: [{ writer: 'chatgpt', model: 'gpt', error: 'timeout' }], timings: [], durationMs: 10 },
+      selected: claude,
+      startedAt,
+    }),
+    ...overrides,
+  };
+}
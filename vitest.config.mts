@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+
+// Specs run offline: in-memory storage and no real provider keys
+export default defineConfig({
+  test: {
+    include: ['{api,lib,cli}/**/*.test.ts'],
+    passWithNoTests: true,
+    env: {
+      STORAGE_BACKEND: 'memory',
+      GEMINI_API_KEY: '',
+      OPENAI_API_KEY: '',
+      ANTHROPIC_API_KEY: '',
+      ODOO_URL: '',
+      ODOO_API_KEY: '',
+      WRITERS_CONFIG: '',
+      WRITERS_CONFIG_FILE: '',
+    },
+  },
+});